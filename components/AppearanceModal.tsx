@@ -7,6 +7,7 @@ import { UploadIcon } from './icons/UploadIcon.tsx';
 import { SparklesIcon } from './icons/SparklesIcon.tsx';
 import { TrashIcon } from './icons/TrashIcon.tsx';
 import * as themeService from '../services/themeService.ts';
+import * as memoryService from '../services/memoryService.ts';
 
 interface AppearanceModalProps {
   settings: UISettings;
@@ -118,8 +119,9 @@ export const AppearanceModal: React.FC<AppearanceModalProps> = ({ settings, curr
             if (!canCharacterGenerate) throw new Error("No characters in this chat to generate an image from.");
             const characterDetails = participants.map(p => {
                 let details = `Name: ${p.name}\nDescription: ${p.description}\nPhysical Appearance: ${p.physicalAppearance}\nPersonality: ${p.personalityTraits}`;
-                if (p.memory && p.memory !== 'No memories yet.') {
-                    details += `\nRecent Memory: ${p.memory}`;
+                const recentMemories = memoryService.getMemories(p).slice(-3);
+                if (recentMemories.length > 0) {
+                    details += `\nRecent Memory: ${recentMemories.map(m => m.content).join(' ')}`;
                 }
                 return details;
             }).join('\n\n---\n\n');
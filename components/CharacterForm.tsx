@@ -1,33 +1,41 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Character, ApiConfig, EmbeddingConfig, RagSource } from '../types.ts';
+import { Character, ApiConfig, EmbeddingConfig, ChunkingConfig, RetrievalConfig, RagSource, KnowledgeBase, Lorebook, ChatSession, ConnectionProfile, GenerationPreset } from '../types.ts';
 import * as ttsService from '../services/ttsService.ts';
 import * as ragService from '../services/ragService.ts';
+import { getContextWindow, DEFAULT_GEMINI_MODEL } from '../services/promptService.ts';
+import * as memoryService from '../services/memoryService.ts';
 import { logger } from '../services/loggingService.ts';
-import { TrashIcon } from './icons/TrashIcon.tsx';
 import { UploadIcon } from './icons/UploadIcon.tsx';
+import { PlusIcon } from './icons/PlusIcon.tsx';
+import { TrashIcon } from './icons/TrashIcon.tsx';
+import { KnowledgeSourcesEditor } from './KnowledgeSourcesEditor.tsx';
 import { SparklesIcon } from './icons/SparklesIcon.tsx';
 import { SpinnerIcon } from './icons/SpinnerIcon.tsx';
+import { MemoryBrowserModal } from './MemoryBrowserModal.tsx';
+import { ModelPicker } from './ModelPicker.tsx';
+import { GenerationSettingsEditor } from './GenerationSettingsEditor.tsx';
 
 interface CharacterFormProps {
   character: Character | null;
   onSave: (character: Character) => void;
   onCancel: () => void;
   onDeleteRagSource: (characterId: string, sourceId: string) => Promise<void>;
+  onRagSourceUpdate: (characterId: string, source: RagSource) => void;
+  knowledgeBases: KnowledgeBase[];
+  lorebooks: Lorebook[];
   onGenerateImage: (prompt: string) => Promise<string | null>;
+  chatSessions: ChatSession[];
+  connectionProfiles: ConnectionProfile[];
+  generationPresets: GenerationPreset[];
+  onGenerationPresetsUpdate: (presets: GenerationPreset[]) => void;
 }
 
 const defaultApiConfig: ApiConfig = {
-    service: 'default',
-    apiKey: '',
-    apiEndpoint: '',
-    model: ''
+    service: 'default'
 };
 
 const defaultEmbeddingConfig: EmbeddingConfig = {
-    service: 'gemini',
-    apiKey: '',
-    apiEndpoint: 'http://localhost:11434/api/embeddings',
-    model: 'nomic-embed-text'
+    service: 'gemini'
 };
 
 const examplePluginCode = `// This code runs in a secure sandbox right before this character generates a response.
@@ -68,13 +76,12 @@ const Section: React.FC<{ title: string, children: React.ReactNode, defaultOpen?
     );
 }
 
-export const CharacterForm: React.FC<CharacterFormProps> = ({ character, onSave, onCancel, onDeleteRagSource, onGenerateImage }) => {
+export const CharacterForm: React.FC<CharacterFormProps> = ({ character, onSave, onCancel, onDeleteRagSource, onRagSourceUpdate, knowledgeBases, lorebooks, onGenerateImage, chatSessions, connectionProfiles, generationPresets, onGenerationPresetsUpdate }) => {
   const [formState, setFormState] = useState<Character>({} as Character);
   const [voices, setVoices] = useState<SpeechSynthesisVoice[]>([]);
-  const [indexingStatus, setIndexingStatus] = useState<string | null>(null);
   const [isGeneratingAvatar, setIsGeneratingAvatar] = useState(false);
+  const [isMemoryBrowserVisible, setIsMemoryBrowserVisible] = useState(false);
   
-  const ragFileInputRef = useRef<HTMLInputElement>(null);
   const avatarFileInputRef = useRef<HTMLInputElement>(null);
 
   useEffect(() => {
@@ -90,10 +97,9 @@ export const CharacterForm: React.FC<CharacterFormProps> = ({ character, onSave,
   useEffect(() => {
     if (character) {
         setFormState({
-            ...character,
+            ...memoryService.migrateLegacyMemory(character),
             tags: character.tags || [],
             lore: character.lore || [],
-            memory: character.memory || 'No memories yet.',
             characterType: character.characterType || 'character',
             ragSources: character.ragSources || [],
             embeddingConfig: character.embeddingConfig || defaultEmbeddingConfig,
@@ -113,7 +119,7 @@ export const CharacterForm: React.FC<CharacterFormProps> = ({ character, onSave,
             physicalAppearance: '',
             personalityTraits: '',
             lore: [],
-            memory: 'No memories yet.',
+            memories: [],
             voiceURI: '',
             characterType: 'character',
             apiConfig: defaultApiConfig,
@@ -133,9 +139,36 @@ export const CharacterForm: React.FC<CharacterFormProps> = ({ character, onSave,
   const handleApiConfigChange = <K extends keyof ApiConfig>(key: K, value: ApiConfig[K]) => {
       setFormState(prev => ({ ...prev, apiConfig: { ...prev.apiConfig!, [key]: value }}));
   };
+
+  // Picking a profile replaces any inline connection settings; the context size and sampling settings are kept.
+  const handleApiProfileChange = (profileId: string) => {
+      const profile = connectionProfiles.find(p => p.id === profileId);
+      setFormState(prev => ({
+          ...prev,
+          apiConfig: profile
+            ? { service: profile.service, profileId: profile.id, contextSize: prev.apiConfig?.contextSize, generationSettings: prev.apiConfig?.generationSettings }
+            : { service: 'default', contextSize: prev.apiConfig?.contextSize, generationSettings: prev.apiConfig?.generationSettings },
+      }));
+  };
   
-  const handleEmbeddingConfigChange = <K extends keyof EmbeddingConfig>(key: K, value: EmbeddingConfig[K]) => {
-      setFormState(prev => ({ ...prev, embeddingConfig: { ...prev.embeddingConfig!, [key]: value }}));
+  const handleChunkingChange = (key: keyof ChunkingConfig, value: string) => {
+      const chunkingConfig = { ...formState.chunkingConfig, [key]: value === '' ? undefined : parseInt(value, 10) };
+      const isEmpty = chunkingConfig.chunkSize === undefined && chunkingConfig.chunkOverlap === undefined;
+      handleFormChange('chunkingConfig', isEmpty ? undefined : chunkingConfig);
+  };
+
+  const handleRetrievalChange = (changes: Partial<RetrievalConfig>) => {
+      const retrievalConfig = { ...formState.retrievalConfig, ...changes };
+      const isEmpty = Object.values(retrievalConfig).every(value => value === undefined || Number.isNaN(value));
+      handleFormChange('retrievalConfig', isEmpty ? undefined : retrievalConfig);
+  };
+
+  const handleEmbeddingProfileChange = (profileId: string) => {
+      const profile = connectionProfiles.find(p => p.id === profileId);
+      setFormState(prev => ({
+          ...prev,
+          embeddingConfig: profile && profile.service !== 'anthropic' ? { service: profile.service, profileId: profile.id } : { service: 'gemini' },
+      }));
   };
 
   const handleSubmit = (e: React.FormEvent) => {
@@ -146,46 +179,40 @@ export const CharacterForm: React.FC<CharacterFormProps> = ({ character, onSave,
       ...formState,
       id: character?.id || crypto.randomUUID(),
       createdAt: character?.createdAt || new Date().toISOString(),
-      apiConfig: {
-        ...formState.apiConfig,
-        apiKey: formState.apiConfig?.apiKey?.trim(),
-        apiEndpoint: formState.apiConfig?.apiEndpoint?.trim(),
-        model: formState.apiConfig?.model?.trim(),
-      },
-       embeddingConfig: {
-        ...formState.embeddingConfig,
-        apiKey: formState.embeddingConfig?.apiKey?.trim(),
-        apiEndpoint: formState.embeddingConfig?.apiEndpoint?.trim(),
-        model: formState.embeddingConfig?.model?.trim(),
-      }
     };
     onSave(characterToSave);
   };
   
-  const handleRagFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
-      const file = event.target.files?.[0];
-      if (!file || !character) return;
-      
-      try {
-        setIndexingStatus(`Processing "${file.name}"...`);
-        const newSource = await ragService.processAndIndexFile(file, character, (progress) => {
-            setIndexingStatus(progress);
-        });
+  // A new file is saved with the character right away.
+  // Files are saved as soon as they are embedded, without saving or closing the rest of the form.
+  const handleRagSourceSaved = (source: RagSource) => {
+      setFormState(prev => {
+          const ragSources = prev.ragSources || [];
+          return {
+              ...prev,
+              ragSources: ragSources.some(s => s.id === source.id) ? ragSources.map(s => s.id === source.id ? source : s) : [...ragSources, source],
+          };
+      });
+      onRagSourceUpdate(character!.id, source);
+  };
+
+  const handleToggleKnowledgeBase = (knowledgeBaseId: string) => {
+      const ids = formState.knowledgeBaseIds || [];
+      handleFormChange('knowledgeBaseIds', ids.includes(knowledgeBaseId) ? ids.filter(id => id !== knowledgeBaseId) : [...ids, knowledgeBaseId]);
+  };
+
+  const handleGreetingChange = (index: number, value: string) => {
+      handleFormChange('alternateGreetings', (formState.alternateGreetings || []).map((greeting, i) => i === index ? value : greeting));
+  };
 
-        const updatedCharacter = {
-            ...formState,
-            ragSources: [...(formState.ragSources || []), newSource]
-        };
-        setFormState(updatedCharacter);
-        onSave(updatedCharacter); // Persist the new source
-        setIndexingStatus(`Successfully indexed "${file.name}"!`);
-      } catch (error) {
-        logger.error("File indexing failed:", error);
-        setIndexingStatus(`Error indexing "${file.name}": ${error instanceof Error ? error.message : "Unknown error"}`);
-      } finally {
-        if(ragFileInputRef.current) ragFileInputRef.current.value = "";
-        setTimeout(() => setIndexingStatus(null), 5000);
-      }
+  const handleRemoveGreeting = (index: number) => {
+      const greetings = (formState.alternateGreetings || []).filter((_, i) => i !== index);
+      handleFormChange('alternateGreetings', greetings.length > 0 ? greetings : undefined);
+  };
+
+  const handleToggleLorebook = (lorebookId: string) => {
+      const ids = formState.lorebookIds || [];
+      handleFormChange('lorebookIds', ids.includes(lorebookId) ? ids.filter(id => id !== lorebookId) : [...ids, lorebookId]);
   };
 
   const handleAvatarFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
@@ -390,6 +417,51 @@ export const CharacterForm: React.FC<CharacterFormProps> = ({ character, onSave,
                     placeholder="Describe the character's personality, quirks, and conversation style. This is the main system prompt that guides the AI's behavior."
                   />
                 </div>
+                <div>
+                  <label htmlFor="firstMessage" className="block text-sm font-medium text-text-primary">First Message</label>
+                  <p className="text-xs text-text-secondary mb-1">How the character opens a new one-on-one chat.</p>
+                  <textarea
+                    id="firstMessage"
+                    value={formState.firstMessage || ''}
+                    onChange={(e) => handleFormChange('firstMessage', e.target.value)}
+                    rows={4}
+                    className="mt-1 block w-full bg-background-secondary border border-border-strong rounded-md shadow-sm py-2 px-3 text-text-primary focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+                    placeholder="*waves* Hello there! What brings you here today?"
+                  />
+                </div>
+                <div>
+                  <label className="block text-sm font-medium text-text-primary">Alternate Greetings</label>
+                  <p className="text-xs text-text-secondary mb-1">Other ways to open a chat. Pick one when starting the chat, or swipe the first message to switch.</p>
+                  <div className="space-y-2">
+                    {(formState.alternateGreetings || []).map((greeting, index) => (
+                      <div key={index} className="flex items-start gap-2">
+                        <textarea
+                          value={greeting}
+                          onChange={(e) => handleGreetingChange(index, e.target.value)}
+                          rows={3}
+                          className="block w-full bg-background-secondary border border-border-strong rounded-md shadow-sm py-2 px-3 text-text-primary focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+                          placeholder={`Greeting ${index + 2}`}
+                        />
+                        <button type="button" onClick={() => handleRemoveGreeting(index)} title="Remove greeting" className="p-2 text-text-secondary hover:text-accent-red"><TrashIcon className="w-4 h-4" /></button>
+                      </div>
+                    ))}
+                    <button type="button" onClick={() => handleFormChange('alternateGreetings', [...(formState.alternateGreetings || []), ''])} className="flex items-center space-x-2 py-1 px-3 rounded-md text-sm text-text-primary bg-background-tertiary hover:bg-opacity-80">
+                      <PlusIcon className="w-4 h-4" /><span>Add Greeting</span>
+                    </button>
+                  </div>
+                </div>
+                <div>
+                  <label htmlFor="exampleDialogue" className="block text-sm font-medium text-text-primary">Example Dialogue</label>
+                  <p className="text-xs text-text-secondary mb-1">Sample exchanges that show how the character talks. Start each one with &lt;START&gt;; whole examples are left out when the context is full.</p>
+                  <textarea
+                    id="exampleDialogue"
+                    value={formState.exampleDialogue || ''}
+                    onChange={(e) => handleFormChange('exampleDialogue', e.target.value || undefined)}
+                    rows={6}
+                    className="mt-1 block w-full bg-background-secondary border border-border-strong rounded-md shadow-sm py-2 px-3 text-text-primary font-mono text-sm focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+                    placeholder={"<START>\n{{user}}: How are you?\n{{char}}: *stretches* Never better, thanks for asking!"}
+                  />
+                </div>
             </Section>
 
             <Section title="Memory & Lore">
@@ -406,15 +478,52 @@ export const CharacterForm: React.FC<CharacterFormProps> = ({ character, onSave,
                     />
                 </div>
                  <div>
-                    <label htmlFor="memory" className="block text-sm font-medium text-text-primary">Memory</label>
-                     <p className="text-xs text-text-secondary mb-1">Automatically summarized highlights from conversations.</p>
-                    <textarea
-                        id="memory"
-                        value={formState.memory || ''}
-                        readOnly
-                        rows={6}
-                        className="mt-1 block w-full bg-background-tertiary border border-border-strong rounded-md shadow-sm py-2 px-3 text-text-secondary focus:outline-none cursor-not-allowed"
-                    />
+                    <label className="block text-sm font-medium text-text-primary">Memory</label>
+                     <p className="text-xs text-text-secondary mb-1">Dated highlights from conversations. The most relevant ones (and all pinned ones) are recalled for each response.</p>
+                    <div className="mt-1 flex items-center justify-between bg-background-secondary border border-border-strong rounded-md py-2 px-3">
+                        <span className="text-sm text-text-secondary">
+                            {(formState.memories || []).length} memories
+                            {(formState.memories || []).some(m => m.pinned) && `, ${(formState.memories || []).filter(m => m.pinned).length} pinned`}
+                        </span>
+                        <button type="button" onClick={() => setIsMemoryBrowserVisible(true)} className="py-1 px-3 rounded-md text-sm text-text-primary bg-background-tertiary hover:bg-opacity-80">
+                            Browse Memories
+                        </button>
+                    </div>
+                    {isMemoryBrowserVisible && (
+                        <MemoryBrowserModal
+                            characterName={formState.name || 'this character'}
+                            memories={formState.memories || []}
+                            embeddingConfig={memoryService.getMemoryEmbeddingConfig(formState)}
+                            chatSessions={chatSessions}
+                            onSave={(memories) => {
+                                handleFormChange('memories', memories);
+                                setIsMemoryBrowserVisible(false);
+                            }}
+                            onClose={() => setIsMemoryBrowserVisible(false)}
+                        />
+                    )}
+                </div>
+                 <div>
+                    <label className="block text-sm font-medium text-text-primary">Lorebooks</label>
+                    <p className="text-xs text-text-secondary mb-1">Attached to new chats with this character and included when the character is exported.</p>
+                    {lorebooks.length === 0 ? (
+                        <p className="text-xs text-text-secondary">No lorebooks yet. Create one from the sidebar.</p>
+                    ) : (
+                        <div className="space-y-1">
+                            {lorebooks.map(lorebook => (
+                                <label key={lorebook.id} className="flex items-center space-x-3 p-2 rounded-md hover:bg-background-tertiary cursor-pointer">
+                                    <input
+                                        type="checkbox"
+                                        checked={(formState.lorebookIds || []).includes(lorebook.id)}
+                                        onChange={() => handleToggleLorebook(lorebook.id)}
+                                        className="h-4 w-4 rounded border-border-strong bg-background-primary text-primary-500 focus:ring-primary-500"
+                                    />
+                                    <span className="text-sm text-text-primary">{lorebook.name}</span>
+                                    <span className="text-xs text-text-secondary">{lorebook.entries.length} entries</span>
+                                </label>
+                            ))}
+                        </div>
+                    )}
                 </div>
             </Section>
 
@@ -452,86 +561,57 @@ export const CharacterForm: React.FC<CharacterFormProps> = ({ character, onSave,
             <Section title="Chat API Configuration" defaultOpen={false}>
                 <div className="space-y-4">
                     <div>
-                        <label htmlFor="api-service" className="block text-sm font-medium text-text-primary">API Service</label>
+                        <label htmlFor="api-profile" className="block text-sm font-medium text-text-primary">Connection Profile</label>
                         <select 
-                            id="api-service"
-                            value={formState.apiConfig?.service || 'default'}
-                            onChange={(e) => handleApiConfigChange('service', e.target.value as ApiConfig['service'])}
+                            id="api-profile"
+                            value={formState.apiConfig?.profileId || ''}
+                            onChange={(e) => handleApiProfileChange(e.target.value)}
                             className="mt-1 block w-full bg-background-secondary border border-border-strong rounded-md shadow-sm py-2 px-3 text-text-primary focus:outline-none focus:ring-primary-500 focus:border-primary-500"
                         >
-                            <option value="default">Default (Gemini)</option>
-                            <option value="gemini">Google Gemini (Custom Key)</option>
-                            <option value="openai">OpenAI-Compatible (e.g., Ollama)</option>
+                            <option value="">Default (Gemini)</option>
+                            {connectionProfiles.map(profile => <option key={profile.id} value={profile.id}>{profile.name}</option>)}
                         </select>
+                        <p className="text-xs text-text-secondary mt-1">Profiles (service, endpoint, key, model and request delay) are managed under Connection Profiles in the sidebar.</p>
                     </div>
-                    {formState.apiConfig?.service === 'gemini' && (
-                         <div>
-                            <label htmlFor="api-key" className="block text-sm font-medium text-text-primary">Gemini API Key</label>
-                            <input
-                                id="api-key"
-                                type="password"
-                                value={formState.apiConfig.apiKey || ''}
-                                onChange={(e) => handleApiConfigChange('apiKey', e.target.value)}
-                                className="mt-1 block w-full bg-background-secondary border border-border-strong rounded-md shadow-sm py-2 px-3 text-text-primary focus:outline-none focus:ring-primary-500 focus:border-primary-500"
-                                placeholder="Enter your Gemini API key"
-                            />
-                        </div>
-                    )}
-                     {formState.apiConfig?.service === 'openai' && (
-                        <>
-                            <div>
-                                <label htmlFor="api-endpoint" className="block text-sm font-medium text-text-primary">API Endpoint</label>
-                                <input
-                                    id="api-endpoint"
-                                    type="text"
-                                    value={formState.apiConfig.apiEndpoint || ''}
-                                    onChange={(e) => handleApiConfigChange('apiEndpoint', e.target.value)}
-                                    className="mt-1 block w-full bg-background-secondary border border-border-strong rounded-md py-2 px-3 text-text-primary focus:outline-none focus:ring-primary-500 focus:border-primary-500"
-                                    placeholder="e.g., http://localhost:11434/v1/chat/completions"
-                                />
-                            </div>
-                             <div>
-                                <label htmlFor="api-key" className="block text-sm font-medium text-text-primary">API Key</label>
-                                <input
-                                    id="api-key"
-                                    type="password"
-                                    value={formState.apiConfig.apiKey || ''}
-                                    onChange={(e) => handleApiConfigChange('apiKey', e.target.value)}
-                                    className="mt-1 block w-full bg-background-secondary border border-border-strong rounded-md py-2 px-3 text-text-primary focus:outline-none focus:ring-primary-500 focus:border-primary-500"
-                                    placeholder="API Key (optional for some services)"
-                                />
-                            </div>
-                            <div>
-                                <label htmlFor="api-model" className="block text-sm font-medium text-text-primary">Model Name</label>
-                                <input
-                                    id="api-model"
-                                    type="text"
-                                    value={formState.apiConfig.model || ''}
-                                    onChange={(e) => handleApiConfigChange('model', e.target.value)}
-                                    className="mt-1 block w-full bg-background-secondary border border-border-strong rounded-md py-2 px-3 text-text-primary focus:outline-none focus:ring-primary-500 focus:border-primary-500"
-                                    placeholder="e.g., llama3"
-                                />
-                            </div>
-                        </>
-                    )}
-                    {(formState.apiConfig?.service === 'gemini' || formState.apiConfig?.service === 'openai') && (
+                    {!formState.apiConfig?.profileId && (
                         <div>
-                            <label htmlFor="api-rate-limit" className="block text-sm font-medium text-text-primary">Request Delay (ms)</label>
-                            <input
-                                id="api-rate-limit"
-                                type="number"
-                                value={formState.apiConfig.rateLimit || ''}
-                                onChange={(e) => handleApiConfigChange('rateLimit', e.target.value ? parseInt(e.target.value, 10) : undefined)}
+                            <label htmlFor="api-model" className="block text-sm font-medium text-text-primary">Gemini Model</label>
+                            <ModelPicker
+                                id="api-model"
+                                connection={{ service: 'gemini' }}
+                                value={formState.apiConfig?.model || ''}
+                                onChange={(model) => handleApiConfigChange('model', model || undefined)}
                                 className="mt-1 block w-full bg-background-secondary border border-border-strong rounded-md py-2 px-3 text-text-primary focus:outline-none focus:ring-primary-500 focus:border-primary-500"
-                                placeholder="e.g., 1000 (for 1 request per second)"
-                                min="0"
+                                placeholder={`Leave blank for ${DEFAULT_GEMINI_MODEL}`}
+                                preferredCapability="chat"
                             />
-                            <p className="text-xs text-text-secondary mt-1">Minimum time to wait between requests from this character to avoid rate limits.</p>
                         </div>
                     )}
+                    <div>
+                        <label htmlFor="api-context-size" className="block text-sm font-medium text-text-primary">Context Size (tokens)</label>
+                        <input
+                            id="api-context-size"
+                            type="number"
+                            value={formState.apiConfig?.contextSize || ''}
+                            onChange={(e) => handleApiConfigChange('contextSize', e.target.value ? parseInt(e.target.value, 10) : undefined)}
+                            className="mt-1 block w-full bg-background-secondary border border-border-strong rounded-md py-2 px-3 text-text-primary focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+                            placeholder={`Auto-detected: ${getContextWindow({ ...formState.apiConfig!, contextSize: undefined }).toLocaleString()}`}
+                            min="512"
+                        />
+                        <p className="text-xs text-text-secondary mt-1">Older messages are left out of the prompt once it would exceed this size. Leave empty to use the model's known limit.</p>
+                    </div>
                 </div>
             </Section>
 
+            <Section title="Generation Settings" defaultOpen={false}>
+                <GenerationSettingsEditor
+                    settings={formState.apiConfig?.generationSettings}
+                    onChange={(settings) => handleApiConfigChange('generationSettings', settings)}
+                    presets={generationPresets}
+                    onPresetsUpdate={onGenerationPresetsUpdate}
+                />
+            </Section>
+
             <Section title="Retrieval-Augmented Generation (RAG)" defaultOpen={false}>
                 <div className="flex items-center space-x-3">
                     <label htmlFor="rag-enabled" className="text-sm font-medium text-text-primary">Enable RAG</label>
@@ -550,92 +630,120 @@ export const CharacterForm: React.FC<CharacterFormProps> = ({ character, onSave,
                          </p>
                         
                         <h4 className="text-md font-semibold">Knowledge Base</h4>
-                        <div className="p-2 border border-dashed border-border-strong rounded-md space-y-2">
-                            {(formState.ragSources || []).map(source => (
-                                <div key={source.id} className="flex items-center justify-between bg-background-tertiary p-2 rounded">
-                                    <span className="text-sm truncate">{source.fileName}</span>
-                                    <button type="button" onClick={() => onDeleteRagSource(character!.id, source.id)} className="p-1 text-accent-red hover:opacity-80">
-                                        <TrashIcon className="w-4 h-4" />
-                                    </button>
-                                </div>
-                            ))}
-                             {character && (
-                                <>
-                                    <input type="file" ref={ragFileInputRef} onChange={handleRagFileUpload} accept=".txt,.md" className="hidden" disabled={!!indexingStatus} />
-                                    <button type="button" onClick={() => ragFileInputRef.current?.click()} disabled={!!indexingStatus} className="w-full flex items-center justify-center space-x-2 px-3 py-2 text-sm font-medium text-center rounded-md bg-background-tertiary hover:bg-opacity-80 transition-colors disabled:opacity-50 disabled:cursor-not-allowed">
-                                        <UploadIcon className="w-4 h-4" />
-                                        <span>Upload Knowledge File (.txt, .md)</span>
-                                    </button>
-                                </>
-                            )}
-                            {indexingStatus && <p className="text-xs text-center text-text-secondary p-2">{indexingStatus}</p>}
-                        </div>
+                        {character ? (
+                            <KnowledgeSourcesEditor
+                                owner={{ id: character.id, name: formState.name, embeddingConfig: formState.embeddingConfig, chunkingConfig: formState.chunkingConfig }}
+                                sources={formState.ragSources || []}
+                                onSourceSaved={handleRagSourceSaved}
+                                onDeleteSource={(sourceId) => onDeleteRagSource(character.id, sourceId)}
+                            />
+                        ) : (
+                            <p className="text-xs text-text-secondary">Save the character before uploading knowledge files.</p>
+                        )}
+
+                        <h4 className="text-md font-semibold pt-4 border-t border-border-neutral">Shared Knowledge Bases</h4>
+                        {knowledgeBases.length === 0 ? (
+                            <p className="text-xs text-text-secondary">No knowledge bases yet. Create one from the sidebar to share documents between characters.</p>
+                        ) : (
+                            <div className="space-y-1">
+                                {knowledgeBases.map(knowledgeBase => (
+                                    <label key={knowledgeBase.id} className="flex items-center space-x-3 p-2 rounded-md hover:bg-background-tertiary cursor-pointer">
+                                        <input
+                                            type="checkbox"
+                                            checked={(formState.knowledgeBaseIds || []).includes(knowledgeBase.id)}
+                                            onChange={() => handleToggleKnowledgeBase(knowledgeBase.id)}
+                                            className="h-4 w-4 rounded border-border-strong bg-background-primary text-primary-500 focus:ring-primary-500"
+                                        />
+                                        <span className="text-sm text-text-primary">{knowledgeBase.name}</span>
+                                        <span className="text-xs text-text-secondary">{knowledgeBase.sources.length} file(s)</span>
+                                    </label>
+                                ))}
+                            </div>
+                        )}
 
                         <h4 className="text-md font-semibold pt-4 border-t border-border-neutral">Embedding API Configuration</h4>
-                        <div className="space-y-4">
+                        <div>
+                            <label htmlFor="embed-api-profile" className="block text-sm font-medium text-text-primary">Connection Profile</label>
+                            <select 
+                                id="embed-api-profile"
+                                value={formState.embeddingConfig?.profileId || ''}
+                                onChange={(e) => handleEmbeddingProfileChange(e.target.value)}
+                                className="mt-1 block w-full bg-background-secondary border border-border-strong rounded-md shadow-sm py-2 px-3 text-text-primary focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+                            >
+                                <option value="">Default (Gemini)</option>
+                                {connectionProfiles.filter(profile => profile.service !== 'anthropic').map(profile => <option key={profile.id} value={profile.id}>{profile.name}</option>)}
+                            </select>
+                            <p className="text-xs text-text-secondary mt-1">Pick a profile with an embedding model (e.g., nomic-embed-text on Ollama). OpenAI-compatible profiles need an embeddings URL.</p>
+                        </div>
+                        <div className="grid grid-cols-2 gap-4">
                             <div>
-                                <label htmlFor="embed-api-service" className="block text-sm font-medium text-text-primary">Embedding Service</label>
-                                <select 
-                                    id="embed-api-service"
-                                    value={formState.embeddingConfig?.service || 'gemini'}
-                                    onChange={(e) => handleEmbeddingConfigChange('service', e.target.value as EmbeddingConfig['service'])}
+                                <label htmlFor="chunk-size" className="block text-sm font-medium text-text-primary">Chunk Size (tokens)</label>
+                                <input
+                                    id="chunk-size"
+                                    type="number"
+                                    min="50"
+                                    max="2000"
+                                    step="10"
+                                    value={formState.chunkingConfig?.chunkSize ?? ''}
+                                    onChange={(e) => handleChunkingChange('chunkSize', e.target.value)}
                                     className="mt-1 block w-full bg-background-secondary border border-border-strong rounded-md shadow-sm py-2 px-3 text-text-primary focus:outline-none focus:ring-primary-500 focus:border-primary-500"
-                                >
-                                    <option value="gemini">Google Gemini</option>
-                                    <option value="openai">OpenAI-Compatible (e.g., Ollama)</option>
-                                </select>
+                                    placeholder={`Default: ${ragService.DEFAULT_CHUNK_SIZE}`}
+                                />
+                            </div>
+                            <div>
+                                <label htmlFor="chunk-overlap" className="block text-sm font-medium text-text-primary">Chunk Overlap (tokens)</label>
+                                <input
+                                    id="chunk-overlap"
+                                    type="number"
+                                    min="0"
+                                    step="10"
+                                    value={formState.chunkingConfig?.chunkOverlap ?? ''}
+                                    onChange={(e) => handleChunkingChange('chunkOverlap', e.target.value)}
+                                    className="mt-1 block w-full bg-background-secondary border border-border-strong rounded-md shadow-sm py-2 px-3 text-text-primary focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+                                    placeholder={`Default: ${ragService.DEFAULT_CHUNK_OVERLAP}`}
+                                />
                             </div>
-                             {formState.embeddingConfig?.service === 'gemini' && (
-                                 <div>
-                                    <label htmlFor="embed-api-key" className="block text-sm font-medium text-text-primary">Gemini API Key</label>
-                                    <input
-                                        id="embed-api-key"
-                                        type="password"
-                                        value={formState.embeddingConfig.apiKey || ''}
-                                        onChange={(e) => handleEmbeddingConfigChange('apiKey', e.target.value)}
-                                        className="mt-1 block w-full bg-background-secondary border border-border-strong rounded-md py-2 px-3 text-text-primary focus:outline-none focus:ring-primary-500 focus:border-primary-500"
-                                        placeholder="Leave blank to use default key"
-                                    />
-                                </div>
-                            )}
-                             {formState.embeddingConfig?.service === 'openai' && (
-                                <>
-                                    <div>
-                                        <label htmlFor="embed-api-endpoint" className="block text-sm font-medium text-text-primary">API Endpoint</label>
-                                        <input
-                                            id="embed-api-endpoint"
-                                            type="text"
-                                            value={formState.embeddingConfig.apiEndpoint || ''}
-                                            onChange={(e) => handleEmbeddingConfigChange('apiEndpoint', e.target.value)}
-                                            className="mt-1 block w-full bg-background-secondary border border-border-strong rounded-md py-2 px-3 text-text-primary focus:outline-none focus:ring-primary-500 focus:border-primary-500"
-                                            placeholder="e.g., http://localhost:11434/api/embeddings"
-                                        />
-                                    </div>
-                                    <div>
-                                        <label htmlFor="embed-api-key" className="block text-sm font-medium text-text-primary">API Key</label>
-                                        <input
-                                            id="embed-api-key"
-                                            type="password"
-                                            value={formState.embeddingConfig.apiKey || ''}
-                                            onChange={(e) => handleEmbeddingConfigChange('apiKey', e.target.value)}
-                                            className="mt-1 block w-full bg-background-secondary border border-border-strong rounded-md py-2 px-3 text-text-primary focus:outline-none focus:ring-primary-500 focus:border-primary-500"
-                                            placeholder="API Key (optional for some services)"
-                                        />
-                                    </div>
-                                    <div>
-                                        <label htmlFor="embed-api-model" className="block text-sm font-medium text-text-primary">Model Name</label>
-                                        <input
-                                            id="embed-api-model"
-                                            type="text"
-                                            value={formState.embeddingConfig.model || ''}
-                                            onChange={(e) => handleEmbeddingConfigChange('model', e.target.value)}
-                                            className="mt-1 block w-full bg-background-secondary border border-border-strong rounded-md py-2 px-3 text-text-primary focus:outline-none focus:ring-primary-500 focus:border-primary-500"
-                                            placeholder="e.g., nomic-embed-text"
-                                        />
-                                    </div>
-                                </>
-                            )}
                         </div>
+                        <p className="text-xs text-text-secondary -mt-2">Documents are split at section, paragraph and sentence boundaries. Changes apply to files uploaded or re-embedded afterwards.</p>
+                        <div className="grid grid-cols-2 gap-4">
+                            <div>
+                                <label htmlFor="retrieval-top-k" className="block text-sm font-medium text-text-primary">Chunks per Reply</label>
+                                <input
+                                    id="retrieval-top-k"
+                                    type="number"
+                                    min="1"
+                                    max="20"
+                                    value={formState.retrievalConfig?.topK ?? ''}
+                                    onChange={(e) => handleRetrievalChange({ topK: e.target.value === '' ? undefined : parseInt(e.target.value, 10) })}
+                                    className="mt-1 block w-full bg-background-secondary border border-border-strong rounded-md shadow-sm py-2 px-3 text-text-primary focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+                                    placeholder={`Default: ${ragService.DEFAULT_TOP_K}`}
+                                />
+                            </div>
+                            <div>
+                                <label htmlFor="retrieval-min-score" className="block text-sm font-medium text-text-primary">Minimum Similarity</label>
+                                <input
+                                    id="retrieval-min-score"
+                                    type="number"
+                                    min="0"
+                                    max="1"
+                                    step="0.05"
+                                    value={formState.retrievalConfig?.minScore ?? ''}
+                                    onChange={(e) => handleRetrievalChange({ minScore: e.target.value === '' ? undefined : parseFloat(e.target.value) })}
+                                    className="mt-1 block w-full bg-background-secondary border border-border-strong rounded-md shadow-sm py-2 px-3 text-text-primary focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+                                    placeholder={`Default: ${ragService.DEFAULT_MIN_SCORE}`}
+                                />
+                            </div>
+                        </div>
+                        <label className="flex items-center space-x-2 text-sm text-text-primary">
+                            <input
+                                type="checkbox"
+                                checked={!!formState.retrievalConfig?.rerank}
+                                onChange={(e) => handleRetrievalChange({ rerank: e.target.checked || undefined })}
+                                className="rounded border-border-strong bg-background-secondary text-primary-600 focus:ring-primary-500"
+                            />
+                            <span>Rerank with the chat model</span>
+                        </label>
+                        <p className="text-xs text-text-secondary -mt-2">Chunks are found by meaning and by keywords. Chunks that are neither similar enough nor share enough keywords with the message are skipped. Reranking asks this character's chat model to pick the most useful chunks, at the cost of one extra request per reply.</p>
                     </div>
                 )}
             </Section>
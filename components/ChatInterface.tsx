@@ -1,10 +1,16 @@
 import React, { useState, useEffect, useRef, useCallback, useMemo } from 'react';
-import { Character, ChatSession, Message, CryptoKeys, GeminiApiRequest, Lorebook } from '../types.ts';
+import { Character, ChatSession, Message, CryptoKeys, GeminiApiRequest, Lorebook, KnowledgeBase, Citation, FiredLoreEntry, MemoryEntry, Persona, PromptContext, PromptBuildReport, RetrievalReport } from '../types.ts';
 import { streamChatResponse, streamGenericResponse, generateContent } from '../services/geminiService.ts';
 import * as cryptoService from '../services/cryptoService.ts';
 import * as ttsService from '../services/ttsService.ts';
 import * as ragService from '../services/ragService.ts';
 import * as lorebookService from '../services/lorebookService.ts';
+import * as messageTreeService from '../services/messageTreeService.ts';
+import * as summaryService from '../services/summaryService.ts';
+import * as memoryService from '../services/memoryService.ts';
+import { getEmbeddingModelId } from '../services/embeddingService.ts';
+import * as personaService from '../services/personaService.ts';
+import { DEFAULT_USER_NAME } from '../services/macroService.ts';
 import { logger } from '../services/loggingService.ts';
 import { ChatBubbleIcon } from './icons/ChatBubbleIcon.tsx';
 import { ImageIcon } from './icons/ImageIcon.tsx';
@@ -12,21 +18,34 @@ import { BookIcon } from './icons/BookIcon.tsx';
 import { BrainIcon } from './icons/BrainIcon.tsx';
 import { SpeakerIcon } from './icons/SpeakerIcon.tsx';
 import { MemoryImportModal } from './MemoryImportModal.tsx';
+import { ChatSummaryModal } from './ChatSummaryModal.tsx';
+import { RetrievalDebugModal } from './RetrievalDebugModal.tsx';
+import { CitationModal } from './CitationModal.tsx';
 import { CheckCircleIcon } from './icons/CheckCircleIcon.tsx';
 import { ExclamationTriangleIcon } from './icons/ExclamationTriangleIcon.tsx';
 import { PluginSandbox } from '../services/pluginSandbox.ts';
 import { ImageGenerationWindow } from './ImageGenerationWindow.tsx';
 import { PaletteIcon } from './icons/PaletteIcon.tsx';
+import { BranchIcon } from './icons/BranchIcon.tsx';
+import { EditIcon } from './icons/EditIcon.tsx';
+import { TrashIcon } from './icons/TrashIcon.tsx';
+import { RefreshIcon } from './icons/RefreshIcon.tsx';
+import { BookOpenIcon } from './icons/BookOpenIcon.tsx';
+import { SpinnerIcon } from './icons/SpinnerIcon.tsx';
+import { StopIcon } from './icons/StopIcon.tsx';
 
 interface ChatInterfaceProps {
   session: ChatSession;
   allCharacters: Character[];
   allChatSessions: ChatSession[];
   allLorebooks: Lorebook[];
+  allKnowledgeBases: KnowledgeBase[];
+  allPersonas: Persona[];
+  defaultPersonaId?: string;
   userKeys?: CryptoKeys;
   onSessionUpdate: (session: ChatSession) => void;
   onCharacterUpdate: (character: Character) => void;
-  onTriggerHook: <T, R>(hookName: string, data: T) => Promise<R>;
+  onTriggerHook: <T, R>(hookName: string, data: T, signal?: AbortSignal) => Promise<R>;
   onMemoryImport: (fromSessionId: string, toSessionId: string) => void;
   onSaveBackup: () => void;
   handlePluginApiRequest: (request: GeminiApiRequest) => Promise<any>;
@@ -37,6 +56,9 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
     allCharacters, 
     allChatSessions,
     allLorebooks,
+    allKnowledgeBases,
+    allPersonas,
+    defaultPersonaId,
     userKeys, 
     onSessionUpdate, 
     onCharacterUpdate, 
@@ -53,6 +75,17 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
   const [isTtsEnabled, setIsTtsEnabled] = useState(false);
   const [verifiedSignatures, setVerifiedSignatures] = useState<Record<string, boolean>>({});
   const [isImageWindowVisible, setIsImageWindowVisible] = useState(false);
+  const [editingMessageId, setEditingMessageId] = useState<string | null>(null);
+  const [editDraft, setEditDraft] = useState('');
+  const [pendingDeleteId, setPendingDeleteId] = useState<string | null>(null);
+  const [promptReport, setPromptReport] = useState<PromptBuildReport | null>(null);
+  const [isPromptReportVisible, setIsPromptReportVisible] = useState(false);
+  const [retrievalReport, setRetrievalReport] = useState<RetrievalReport | null>(null);
+  const [openCitation, setOpenCitation] = useState<Citation | null>(null);
+  const [loreDetailsMessageId, setLoreDetailsMessageId] = useState<string | null>(null);
+  const [isRetrievalDebugVisible, setIsRetrievalDebugVisible] = useState(false);
+  const [isSummaryModalVisible, setIsSummaryModalVisible] = useState(false);
+  const [isSummarizing, setIsSummarizing] = useState(false);
 
   const nextSpeakerIndex = useRef(0);
   const systemOverride = useRef<string | null>(null);
@@ -60,7 +93,11 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
   const messagesEndRef = useRef<HTMLDivElement>(null);
   const imageClickTimeout = useRef<number | null>(null);
   const narratorClickTimeout = useRef<number | null>(null);
+  const touchStartX = useRef<number | null>(null);
   const autoConverseTimeout = useRef<number | null>(null);
+  const isSummarizingRef = useRef(false);
+  const generationAbortController = useRef<AbortController | null>(null);
+  const imageAbortControllers = useRef(new Map<string, AbortController>());
 
   // Refs to avoid closure issues with state in timeouts/async calls
   const autoConverseStatusRef = useRef(autoConverseStatus);
@@ -81,6 +118,10 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
     return (currentSession.lorebookIds || []).map(id => allLorebooks.find(lb => lb.id === id)).filter(Boolean) as Lorebook[];
   }, [allLorebooks, currentSession.lorebookIds]);
 
+  const activePersona = useMemo(() => {
+    return personaService.resolvePersona(allPersonas, currentSession, defaultPersonaId);
+  }, [allPersonas, currentSession, defaultPersonaId]);
+
   const avatarSizeClass = useMemo(() => {
     switch (currentSession.uiSettings?.avatarSize) {
       case 'small': return 'w-8 h-8';
@@ -91,7 +132,10 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
 
   useEffect(() => {
     if (session.id !== currentSessionRef.current.id) {
+        generationAbortController.current?.abort();
         setCurrentSession(session);
+        setPromptReport(null);
+        setRetrievalReport(null);
         if (autoConverseStatusRef.current !== 'stopped') {
             setAutoConverseStatus('stopped');
             if (autoConverseTimeout.current) clearTimeout(autoConverseTimeout.current);
@@ -106,10 +150,7 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
             if (msg.signature && msg.publicKeyJwk) {
                 try {
                     const publicKey = await cryptoService.importKey(msg.publicKeyJwk, 'verify');
-                    const dataToVerify: Partial<Message> = { ...msg };
-                    delete dataToVerify.signature;
-                    delete dataToVerify.publicKeyJwk;
-                    const canonicalString = cryptoService.createCanonicalString(dataToVerify);
+                    const canonicalString = cryptoService.createMessageCanonicalString(msg);
                     verificationResults[msg.timestamp] = await cryptoService.verify(canonicalString, msg.signature, publicKey);
                 } catch (e) {
                     logger.error("Message verification failed during check", e);
@@ -129,12 +170,15 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
   useEffect(() => {
     return () => {
       if (autoConverseTimeout.current) clearTimeout(autoConverseTimeout.current);
+      generationAbortController.current?.abort();
+      imageAbortControllers.current.forEach(controller => controller.abort());
       ttsService.cancel();
     }
   }, []);
 
   const updateSession = useCallback((updater: (session: ChatSession) => ChatSession) => {
-    const newSession = updater(currentSessionRef.current);
+    const newSession = messageTreeService.syncMessageTree(updater(currentSessionRef.current));
+    currentSessionRef.current = newSession;
     setCurrentSession(newSession);
     onSessionUpdate(newSession);
   }, [onSessionUpdate]);
@@ -145,6 +189,7 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
 
   const addSystemMessage = useCallback((content: string) => {
     const systemMessage: Message = {
+      id: crypto.randomUUID(),
       role: 'narrator',
       content,
       timestamp: new Date().toISOString()
@@ -152,22 +197,61 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
     addMessage(systemMessage);
   }, [addMessage]);
   
-  const triggerAIResponse = useCallback(async (character: Character, history: Message[], override?: string) => {
+  const getSpeakerName = useCallback((message: Message): string => {
+    if (message.role === 'model') return allCharacters.find(c => c.id === message.characterId)?.name || 'AI';
+    if (message.role === 'narrator') return 'Narrator';
+    return activePersona?.name || DEFAULT_USER_NAME;
+  }, [allCharacters, activePersona]);
+
+  /**
+   * Folds older messages into the session summary once the chat is long enough (or right away when forced).
+   * Runs in the background after responses; returns whether the summary changed.
+   * The summary is written by the model of the character that just replied, or of the first participant.
+   */
+  const runSummarizer = useCallback(async (force = false, speaker?: Character): Promise<boolean> => {
+    const sessionSnapshot = currentSessionRef.current;
+    const summarizer = speaker || participants[0];
+    if (!summarizer || isSummarizingRef.current || (!force && !summaryService.needsSummary(sessionSnapshot))) return false;
+
+    isSummarizingRef.current = true;
+    setIsSummarizing(true);
+    try {
+        const summary = await summaryService.summarizeSession(sessionSnapshot, summarizer, getSpeakerName, force);
+        if (!summary) return false;
+        // The user may have switched chats while the summary was being generated.
+        updateSession(current => current.id === sessionSnapshot.id ? { ...current, summary } : current);
+        return true;
+    } catch (e) {
+        logger.error("Failed to update the chat summary", e);
+        return false;
+    } finally {
+        isSummarizingRef.current = false;
+        setIsSummarizing(false);
+    }
+  }, [participants, getSpeakerName, updateSession]);
+
+  const triggerAIResponse = useCallback(async (character: Character, history: Message[], context: PromptContext = {}) => {
     if (history.filter(m => m.content).length === 0) {
       addSystemMessage("AI cannot respond to an empty history.");
       return;
     }
 
     let finalHistory = history;
-    let finalOverride = override || '';
+    let finalOverride = context.instructions || '';
+    let loreContext: Pick<PromptContext, 'lore' | 'loreBeforeCharacter' | 'loreAtDepth'> = {};
+    let firedLore: FiredLoreEntry[] = [];
 
     // --- Lorebook Context Injection ---
     if (attachedLorebooks.length > 0) {
-        const loreContext = lorebookService.findRelevantLore(history, attachedLorebooks);
-        if (loreContext) {
-            logger.log("Injecting Lorebook context for response.", { character: character.name });
-            const contextInstruction = `[WORLD INFO]:\n${loreContext}`;
-            finalOverride = `${contextInstruction}\n\n${finalOverride}`;
+        const activation = lorebookService.findRelevantLore(history, attachedLorebooks, { tokenBudget: currentSessionRef.current.loreTokenBudget });
+        if (activation) {
+            firedLore = lorebookService.describeFiredEntries(activation);
+            logger.log("Injecting Lorebook context for response.", { character: character.name, entries: activation.entries.length });
+            loreContext = {
+                lore: activation.afterCharacter || undefined,
+                loreBeforeCharacter: activation.beforeCharacter || undefined,
+                loreAtDepth: activation.atDepth,
+            };
         }
     }
 
@@ -192,8 +276,15 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
     }
 
 
+    // --- Long-Term Memory Retrieval ---
+    const memoryQuery = finalHistory.slice(-2).map(m => m.content).join('\n');
+    const relevantMemories = await memoryService.retrieveRelevantMemories(character, memoryQuery);
+
+    const controller = new AbortController();
+    generationAbortController.current = controller;
     setIsStreaming(true);
     const modelPlaceholder: Message = {
+        id: crypto.randomUUID(),
         role: 'model',
         content: '',
         timestamp: new Date().toISOString(),
@@ -203,12 +294,14 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
     updateSession(current => ({ ...current, messages: [...finalHistory, modelPlaceholder] }));
 
     let fullResponse = '';
+    // Messages covered by the chat summary are replaced by the summary itself.
+    const { summaryText, recentMessages } = summaryService.splitAtSummary(finalHistory, currentSessionRef.current.summary);
     
     try {
-        await streamChatResponse(
+        const report = await streamChatResponse(
             character,
             participants,
-            finalHistory,
+            recentMessages,
             (chunk) => {
                 fullResponse += chunk;
                 const messages = currentSessionRef.current.messages;
@@ -221,13 +314,33 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
                     }
                 }
             },
-            finalOverride
+            {
+                ...context,
+                instructions: finalOverride || undefined,
+                ...loreContext,
+                persona: activePersona ? { name: activePersona.name, description: activePersona.description } : undefined,
+                summary: summaryText,
+                memories: memoryService.formatMemoriesForPrompt(relevantMemories) || undefined,
+            },
+            controller.signal
         );
+        setPromptReport(report);
     } catch (error) {
-        logger.error("Streaming failed:", error);
-        fullResponse = "Sorry, an error occurred while responding.";
+        // A reply stopped before it was sent rejects; whatever arrived is kept below.
+        if (!controller.signal.aborted) {
+            logger.error("Streaming failed:", error);
+            // Text that arrived before the failure is kept, followed by the reason.
+            const reason = error instanceof Error ? error.message : String(error);
+            fullResponse += `${fullResponse ? '\n\n' : ''}Sorry, I encountered an error. ${reason}`;
+        }
     } finally {
         setIsStreaming(false);
+        if (generationAbortController.current === controller) {
+            generationAbortController.current = null;
+        }
+        if (controller.signal.aborted) {
+            logger.log(`Response of "${character.name}" was stopped; keeping the ${fullResponse.length} characters received.`);
+        }
 
         const imageRegex = /\[generate_image:\s*(.*?)\]/g;
         const imageMatches = [...fullResponse.matchAll(imageRegex)];
@@ -235,22 +348,27 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
 
         if (cleanedResponse.length > 0 || imageMatches.length > 0) {
             let finalMessage: Message = { ...modelPlaceholder, content: cleanedResponse };
+            const citations = ragService.findCitedPassages(cleanedResponse, context.citations || []);
+            if (citations.length > 0) {
+                finalMessage.citations = citations;
+            }
+            if (firedLore.length > 0) {
+                finalMessage.loreEntries = firedLore;
+            }
             
             if (character.keys) {
                 try {
                     const privateKey = await cryptoService.importKey(character.keys.privateKey, 'sign');
                     finalMessage.publicKeyJwk = character.keys.publicKey;
-                    const dataToSign: Partial<Message> = { ...finalMessage };
-                    delete dataToSign.signature;
-                    delete dataToSign.publicKeyJwk;
-                    const canonicalString = cryptoService.createCanonicalString(dataToSign);
+                    const canonicalString = cryptoService.createMessageCanonicalString(finalMessage);
                     finalMessage.signature = await cryptoService.sign(canonicalString, privateKey);
                 } catch (e) {
                     logger.error(`Failed to sign message for character ${character.name}`, e);
                 }
             }
             
-            if (isTtsEnabled && cleanedResponse) {
+            // A reply the user stopped is kept, but not read out.
+            if (isTtsEnabled && cleanedResponse && !controller.signal.aborted) {
                 ttsService.speak(cleanedResponse, character.voiceURI);
             }
             
@@ -261,12 +379,15 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
                 return { ...current, messages: updatedMessages };
             });
 
-            for (const match of imageMatches) {
+            // A stopped reply should not set off follow-up work the user did not wait for.
+            for (const match of controller.signal.aborted ? [] : imageMatches) {
                 const prompt = match[1];
                 if (prompt) {
                     handleImageGeneration(prompt, 'direct');
                 }
             }
+
+            runSummarizer(false, character);
         } else {
             updateSession(current => ({
                 ...current,
@@ -274,7 +395,7 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
             }));
         }
     }
-  }, [participants, isTtsEnabled, updateSession, addSystemMessage, handlePluginApiRequest, attachedLorebooks]);
+  }, [participants, isTtsEnabled, updateSession, addSystemMessage, handlePluginApiRequest, attachedLorebooks, activePersona, runSummarizer]);
 
   const continueAutoConversation = useCallback(async () => {
     if (autoConverseTimeout.current) clearTimeout(autoConverseTimeout.current);
@@ -290,7 +411,7 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
     const otherParticipantNames = participants.filter(p => p.id !== speaker.id).map(p => p.name).join(', ');
     const override = `You are in an automated conversation with ${otherParticipantNames}. Continue the conversation naturally based on the history. Your response should be directed at them, not a user. Do not act as a narrator.`;
     
-    await triggerAIResponse(speaker, currentSessionRef.current.messages, override);
+    await triggerAIResponse(speaker, currentSessionRef.current.messages, { instructions: override });
 
     if (autoConverseStatusRef.current === 'running') {
         autoConverseTimeout.current = window.setTimeout(() => continueAutoConversation(), 3000);
@@ -299,6 +420,7 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
 
   const startAutoConversation = useCallback(async (topic: string) => {
     const starterMessage: Message = {
+        id: crypto.randomUUID(),
         role: 'narrator',
         content: `[The AIs will now converse about: "${topic}"]`,
         timestamp: new Date().toISOString()
@@ -311,7 +433,7 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
     const otherParticipantNames = participants.filter(p => p.id !== firstSpeaker.id).map(p => p.name).join(', ');
     const override = `You are in an automated conversation with ${otherParticipantNames}. The user has set the topic: "${topic}". Start the conversation. Your response should be directed at them, not a user. Do not act as a narrator.`;
 
-    await triggerAIResponse(firstSpeaker, updatedMessages, override);
+    await triggerAIResponse(firstSpeaker, updatedMessages, { instructions: override });
 
     if (autoConverseStatusRef.current === 'running') {
         autoConverseTimeout.current = window.setTimeout(continueAutoConversation, 3000);
@@ -337,22 +459,41 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
                 return;
             }
             addSystemMessage("Generating memory snapshot...");
-            const context = history.map(m => `${m.role === 'model' ? allCharacters.find(c => c.id === m.characterId)?.name || 'AI' : 'User'}: ${m.content}`).join('\n');
-            const prompt = `Summarize the key events, information, and character developments from this recent conversation snippet into a concise paragraph for a character's long-term memory. Focus on facts and relationship changes. Conversation:\n\n${context}`;
+            const context = history.map(m => `${getSpeakerName(m)}: ${m.content}`).join('\n');
             
             try {
-                const summary = await generateContent(prompt);
-                participants.forEach(p => {
-                    const updatedMemory = `${p.memory || ''}\n\n[Memory from ${new Date().toLocaleString()}]\n${summary}`;
-                    onCharacterUpdate({...p, memory: updatedMemory.trim()});
-                });
-                addSystemMessage("Memory snapshot saved for all participants.");
+                const newEntries = await memoryService.extractMemories(context, participants[0], currentSessionRef.current.id);
+                if (newEntries.length === 0) {
+                    addSystemMessage("No memories could be extracted from the recent conversation.");
+                    return;
+                }
+                // Participants that share an embedding model share the embeddings, so each entry is embedded once per model.
+                const embeddedByModel = new Map<string, MemoryEntry[]>();
+                for (const p of participants) {
+                    const migrated = memoryService.migrateLegacyMemory(p);
+                    const config = memoryService.getMemoryEmbeddingConfig(p);
+                    const embeddingModel = getEmbeddingModelId(config);
+                    if (!embeddedByModel.has(embeddingModel)) {
+                        embeddedByModel.set(embeddingModel, await memoryService.embedMissingMemories(newEntries, config));
+                    }
+                    const copies = embeddedByModel.get(embeddingModel)!.map(entry => ({ ...entry, id: crypto.randomUUID() }));
+                    onCharacterUpdate({ ...migrated, memories: [...(migrated.memories || []), ...copies] });
+                }
+                addSystemMessage(`Saved ${newEntries.length} new memories for all participants.`);
             } catch (e) {
                 logger.error("Failed to generate memory summary", e);
                 addSystemMessage("Failed to generate memory summary. See logs for details.");
             }
             break;
         }
+        case 'summarize': {
+            addSystemMessage("Updating the chat summary...");
+            const updated = await runSummarizer(true);
+            addSystemMessage(updated
+                ? "Chat summary updated. Use the book icon in the header to view or edit it."
+                : "Nothing new to summarize yet.");
+            break;
+        }
         case 'save': {
             addSystemMessage("Saving a full application backup... Your download will begin shortly.");
             onSaveBackup();
@@ -428,6 +569,7 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
         case 'end': {
             if (autoConverseStatusRef.current !== 'stopped') {
                 if (autoConverseTimeout.current) clearTimeout(autoConverseTimeout.current);
+                generationAbortController.current?.abort();
                 setAutoConverseStatus('stopped');
                 addSystemMessage("AI conversation ended by user.");
             } else {
@@ -441,15 +583,12 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
   };
   
   const createUserMessage = async (content: string): Promise<Message> => {
-    let userMessage: Message = { role: 'user', content, timestamp: new Date().toISOString() };
+    let userMessage: Message = { id: crypto.randomUUID(), role: 'user', content, timestamp: new Date().toISOString() };
     if (userKeys) {
         try {
             const privateKey = await cryptoService.importKey(userKeys.privateKey, 'sign');
             userMessage.publicKeyJwk = userKeys.publicKey;
-            const dataToSign: Partial<Message> = { ...userMessage };
-            delete dataToSign.signature;
-            delete dataToSign.publicKeyJwk;
-            const canonicalString = cryptoService.createCanonicalString(dataToSign);
+            const canonicalString = cryptoService.createMessageCanonicalString(userMessage);
             userMessage.signature = await cryptoService.sign(canonicalString, privateKey);
         } catch(e) {
             logger.error("Failed to sign user message", e);
@@ -458,6 +597,25 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
     return userMessage;
   };
   
+  const retrieveKnowledge = useCallback(async (respondent: Character, query: string): Promise<Pick<PromptContext, 'knowledge' | 'citations'>> => {
+    // Knowledge bases attached to the chat are searched for everyone; the character's own only with RAG enabled.
+    const knowledgeBaseIds = new Set([...(respondent.ragEnabled ? respondent.knowledgeBaseIds || [] : []), ...(currentSessionRef.current.knowledgeBaseIds || [])]);
+    const knowledgeBases = allKnowledgeBases.filter(kb => knowledgeBaseIds.has(kb.id));
+    if (!respondent.ragEnabled && knowledgeBases.length === 0) return {};
+    try {
+        const { context, citations, report } = await ragService.findRelevantContext(query, respondent, knowledgeBases);
+        setRetrievalReport(report);
+        if (context) {
+            logger.log("Injecting RAG context for response.", { character: respondent.name });
+            return { knowledge: context, citations };
+        }
+    } catch (e) {
+        logger.error("RAG context retrieval failed:", e);
+        addSystemMessage(`Could not retrieve context for ${respondent.name}. Check embedding API settings.`);
+    }
+    return {};
+  }, [addSystemMessage, allKnowledgeBases]);
+
   const handleSendMessage = useCallback(async () => {
     const trimmedInput = input.trim();
     if (!trimmedInput) return;
@@ -486,48 +644,39 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
         const respondent = participants[nextSpeakerIndex.current % participants.length];
         nextSpeakerIndex.current += 1;
         
-        let finalSystemOverride = systemOverride.current;
-        if (respondent.ragEnabled) {
-            try {
-                const ragContext = await ragService.findRelevantContext(trimmedInput, respondent);
-                if (ragContext) {
-                    logger.log("Injecting RAG context for response.", { character: respondent.name });
-                    const contextInstruction = `[ADDITIONAL CONTEXT FROM KNOWLEDGE BASE]:\n${ragContext}`;
-                    finalSystemOverride = finalSystemOverride
-                        ? `${contextInstruction}\n\n${finalSystemOverride}`
-                        : contextInstruction;
-                }
-            } catch (e) {
-                logger.error("RAG context retrieval failed:", e);
-                addSystemMessage(`Could not retrieve context for ${respondent.name}. Check embedding API settings.`);
-            }
-        }
+        const knowledge = await retrieveKnowledge(respondent, trimmedInput);
 
-        await triggerAIResponse(respondent, newHistory, finalSystemOverride || undefined);
+        await triggerAIResponse(respondent, newHistory, { instructions: systemOverride.current || undefined, ...knowledge });
         
         if (systemOverride.current) {
             systemOverride.current = null;
         }
     }
 
-  }, [input, isStreaming, participants, addMessage, addSystemMessage, triggerAIResponse, userKeys, handleCommand]);
+  }, [input, isStreaming, participants, addMessage, addSystemMessage, triggerAIResponse, retrieveKnowledge, userKeys, handleCommand]);
   
   const handleImageGeneration = async (prompt: string, type: 'direct' | 'summary') => {
       const attachmentMessage: Message = {
+          id: crypto.randomUUID(),
           role: 'narrator',
           content: `Generating image for prompt: "${type === 'summary' ? 'Summarizing context...' : prompt}"`,
           timestamp: new Date().toISOString(),
           attachment: { type: 'image', status: 'loading', prompt }
       };
       addMessage(attachmentMessage);
+      const controller = new AbortController();
+      imageAbortControllers.current.set(attachmentMessage.id!, controller);
       
       try {
         const payload = type === 'summary'
             ? { type: 'summary', value: prompt }
             : { type: 'direct', value: prompt };
             
-        const result = await onTriggerHook<{type: string, value: string}, {url?: string, error?: string}>('generateImage', payload);
+        const result = await onTriggerHook<{type: string, value: string}, {url?: string, error?: string}>('generateImage', payload, controller.signal);
 
+        if (controller.signal.aborted) {
+            throw new Error('Cancelled.');
+        }
         if (result.url) {
             updateSession(curr => {
                 const updatedMessages = curr.messages.map((m): Message => m.timestamp === attachmentMessage.timestamp 
@@ -541,53 +690,101 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
         }
       } catch (error) {
            const errorMessage = error instanceof Error ? error.message : String(error);
-           logger.error('Image generation failed:', error);
+           if (controller.signal.aborted) {
+               logger.log('Image generation was cancelled by the user.');
+           } else {
+               logger.error('Image generation failed:', error);
+           }
            updateSession(curr => {
                 const updatedMessages = curr.messages.map((m): Message => m.timestamp === attachmentMessage.timestamp 
-                    ? { ...m, content: `Image generation failed: ${errorMessage}`, attachment: { ...m.attachment!, status: 'error' } }
+                    ? { ...m, content: controller.signal.aborted ? 'Image generation cancelled.' : `Image generation failed: ${errorMessage}`, attachment: { ...m.attachment!, status: 'error' } }
                     : m
                 );
                 return { ...curr, messages: updatedMessages };
             });
+      } finally {
+          imageAbortControllers.current.delete(attachmentMessage.id!);
       }
   };
 
-  const handleGenerateImageInWindow = useCallback(async (prompt: string) => {
+  /**
+   * Stops the reply being generated and ends an AI-to-AI conversation. The text received so far is kept.
+   */
+  const handleStopGeneration = useCallback(() => {
+    generationAbortController.current?.abort();
+    if (autoConverseTimeout.current) clearTimeout(autoConverseTimeout.current);
+    if (autoConverseStatusRef.current !== 'stopped') {
+        // Updated right away so the turn that is ending does not schedule the next one.
+        autoConverseStatusRef.current = 'stopped';
+        setAutoConverseStatus('stopped');
+        addSystemMessage("AI conversation stopped by user.");
+    }
+  }, [addSystemMessage]);
+
+  const handleGenerateImageInWindow = useCallback(async (prompt: string, signal?: AbortSignal) => {
     logger.log("Generating image in floating window for prompt:", prompt);
     const payload = { type: 'direct', value: prompt };
-    const result = await onTriggerHook<{type: string, value: string}, {url?: string, error?: string}>('generateImage', payload);
+    const result = await onTriggerHook<{type: string, value: string}, {url?: string, error?: string}>('generateImage', payload, signal);
     return result;
   }, [onTriggerHook]);
   
   const handleNarration = async (prompt: string, type: 'direct' | 'summary') => {
+    // Stoppable like a character reply; the narration received so far is kept.
+    const controller = new AbortController();
+    generationAbortController.current = controller;
+    setIsStreaming(true);
+    const finish = () => {
+        setIsStreaming(false);
+        if (generationAbortController.current === controller) {
+            generationAbortController.current = null;
+        }
+    };
+
     let finalPrompt = prompt;
     if (type === 'summary') {
         const summaryPrompt = `Based on the following conversation, create a short, descriptive narration of the current scene or situation. Be creative and concise. Conversation:\n\n${prompt}`;
         try {
-            finalPrompt = await generateContent(summaryPrompt);
+            finalPrompt = await generateContent(summaryPrompt, undefined, controller.signal);
         } catch(e) {
-            addSystemMessage("Failed to summarize context for narration.");
+            finish();
+            if (!controller.signal.aborted) addSystemMessage("Failed to summarize context for narration.");
             return;
         }
     }
     
-    const narratorPlaceholder: Message = { role: 'narrator', content: '', timestamp: new Date().toISOString() };
+    const narratorPlaceholder: Message = { id: crypto.randomUUID(), role: 'narrator', content: '', timestamp: new Date().toISOString() };
     addMessage(narratorPlaceholder);
     
     let fullResponse = '';
-    await streamGenericResponse(
-        "You are a neutral, third-person narrator for a story. Describe the scene or events based on the user's request.",
-        finalPrompt,
-        (chunk) => {
-            fullResponse += chunk;
-            const msgElement = document.getElementById(narratorPlaceholder.timestamp);
-            if (msgElement) {
-                msgElement.innerHTML = fullResponse.replace(/\n/g, '<br>');
-            }
+    try {
+        await streamGenericResponse(
+            "You are a neutral, third-person narrator for a story. Describe the scene or events based on the user's request.",
+            finalPrompt,
+            (chunk) => {
+                fullResponse += chunk;
+                const msgElement = document.getElementById(narratorPlaceholder.timestamp);
+                if (msgElement) {
+                    msgElement.innerHTML = fullResponse.replace(/\n/g, '<br>');
+                }
+            },
+            undefined,
+            controller.signal
+        );
+    } catch (error) {
+        if (!controller.signal.aborted) {
+            logger.error("Narration failed:", error);
+            fullResponse += `${fullResponse ? '\n\n' : ''}Sorry, an error occurred while narrating.`;
         }
-    );
+    } finally {
+        finish();
+    }
+    if (controller.signal.aborted) {
+        logger.log(`Narration was stopped; keeping the ${fullResponse.length} characters received.`);
+    }
      updateSession(curr => {
-        const finalMessages = curr.messages.map(m => m.timestamp === narratorPlaceholder.timestamp ? {...m, content: fullResponse} : m);
+        const finalMessages = fullResponse
+            ? curr.messages.map(m => m.timestamp === narratorPlaceholder.timestamp ? {...m, content: fullResponse} : m)
+            : curr.messages.filter(m => m.timestamp !== narratorPlaceholder.timestamp);
         return { ...curr, messages: finalMessages };
     });
   };
@@ -622,15 +819,322 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
     }
   };
   
+  const handleSelectBranch = useCallback((messageId: string, offset: 1 | -1) => {
+    if (isStreaming) return;
+    ttsService.cancel();
+    updateSession(current => messageTreeService.selectSibling(current, messageId, offset));
+  }, [isStreaming, updateSession]);
+
+  const handleForkFromMessage = useCallback((messageId: string) => {
+    if (isStreaming) return;
+    updateSession(current => messageTreeService.forkAtMessage(current, messageId));
+  }, [isStreaming, updateSession]);
+
+  /**
+   * Signs an edited message again with the key that signed the original, so its badge stays valid.
+   * If that key is no longer available, the stale signature is dropped instead.
+   */
+  const resignMessage = useCallback(async (message: Message): Promise<Message> => {
+    const { signature, publicKeyJwk, ...unsignedMessage } = message;
+    if (!signature) return message;
+
+    const keys = message.role === 'user'
+        ? userKeys
+        : allCharacters.find(c => c.id === message.characterId)?.keys;
+    if (!keys) {
+        logger.warn("No signing key available for edited message; removing its signature.", { messageId: message.id });
+        return unsignedMessage;
+    }
+    try {
+        const privateKey = await cryptoService.importKey(keys.privateKey, 'sign');
+        const resigned: Message = { ...unsignedMessage, publicKeyJwk: keys.publicKey };
+        const canonicalString = cryptoService.createMessageCanonicalString(resigned);
+        resigned.signature = await cryptoService.sign(canonicalString, privateKey);
+        return resigned;
+    } catch (e) {
+        logger.error("Failed to re-sign edited message", e);
+        return unsignedMessage;
+    }
+  }, [userKeys, allCharacters]);
+
+  const handleStartEdit = (message: Message) => {
+    if (!message.id) return;
+    setPendingDeleteId(null);
+    setEditingMessageId(message.id);
+    setEditDraft(message.content);
+  };
+
+  const handleSaveEdit = async () => {
+    const messageId = editingMessageId;
+    const original = currentSessionRef.current.messages.find(m => m.id === messageId);
+    setEditingMessageId(null);
+    if (!original || !editDraft.trim() || editDraft === original.content) return;
+
+    const edited = await resignMessage({ ...original, content: editDraft, editedAt: new Date().toISOString() });
+    updateSession(current => ({
+        ...current,
+        messages: current.messages.map(m => m.id === messageId ? edited : m)
+    }));
+    logger.log("Message edited.", { messageId });
+  };
+
+  const handleDeleteMessage = (messageId: string, includeFollowing: boolean) => {
+    setPendingDeleteId(null);
+    if (isStreaming) return;
+    ttsService.cancel();
+    updateSession(current => messageTreeService.deleteMessage(current, messageId, includeFollowing));
+  };
+
+  const handleRegenerate = useCallback(async () => {
+    if (isStreaming || autoConverseStatusRef.current !== 'stopped') return;
+    const messages = currentSessionRef.current.messages;
+    const lastModelIndex = messages.map(m => m.role).lastIndexOf('model');
+    if (lastModelIndex === -1) return;
+
+    const character = participants.find(p => p.id === messages[lastModelIndex].characterId);
+    if (!character) {
+        addSystemMessage("The character who wrote this reply is no longer part of this chat.");
+        return;
+    }
+
+    // The new reply becomes an alternative to the old one in the conversation tree.
+    const history = messages.slice(0, lastModelIndex);
+    const lastUserMessage = [...history].reverse().find(m => m.role === 'user');
+    const knowledge = lastUserMessage
+        ? await retrieveKnowledge(character, lastUserMessage.content)
+        : {};
+    logger.log(`Regenerating reply from ${character.name}.`);
+    await triggerAIResponse(character, history, knowledge);
+  }, [isStreaming, participants, addSystemMessage, retrieveKnowledge, triggerAIResponse]);
+
+  const handleBubbleTouchStart = (e: React.TouchEvent) => {
+    touchStartX.current = e.touches[0].clientX;
+  };
+
+  const handleBubbleTouchEnd = (e: React.TouchEvent, messageId: string) => {
+    if (touchStartX.current === null) return;
+    const deltaX = e.changedTouches[0].clientX - touchStartX.current;
+    touchStartX.current = null;
+    if (Math.abs(deltaX) > 60) {
+        handleSelectBranch(messageId, deltaX < 0 ? 1 : -1);
+    }
+  };
+
+  const renderBranchControls = (message: Message) => {
+    const siblingInfo = messageTreeService.getSiblingInfo(currentSession, message.id);
+    if (!siblingInfo || !message.id) return null;
+    return (
+        <div className="flex items-center justify-end space-x-1 mt-1 text-xs opacity-70 select-none">
+            <button onClick={() => handleSelectBranch(message.id!, -1)} disabled={isStreaming} title="Previous alternative" className="px-1 rounded hover:bg-background-tertiary disabled:opacity-50">&lsaquo;</button>
+            <span>{siblingInfo.index + 1}/{siblingInfo.count}</span>
+            <button onClick={() => handleSelectBranch(message.id!, 1)} disabled={isStreaming} title="Next alternative" className="px-1 rounded hover:bg-background-tertiary disabled:opacity-50">&rsaquo;</button>
+        </div>
+    );
+  };
+
+  const renderLoreIndicator = (message: Message) => {
+    if (!message.loreEntries?.length || !message.id) return null;
+    const inserted = message.loreEntries.filter(entry => !entry.dropped);
+    const dropped = message.loreEntries.length - inserted.length;
+    const isOpen = loreDetailsMessageId === message.id;
+    return (
+        <div className="mt-1 text-xs">
+            <button
+                onClick={() => setLoreDetailsMessageId(isOpen ? null : message.id!)}
+                title="Lorebook entries that fired for this reply"
+                className="flex items-center space-x-1 opacity-70 hover:opacity-100"
+            >
+                <BookIcon className="w-3 h-3" />
+                <span>{inserted.length} lore {inserted.length === 1 ? 'entry' : 'entries'}{dropped > 0 ? `, ${dropped} over budget` : ''}</span>
+            </button>
+            {isOpen && (
+                <div className="mt-1 p-2 rounded-md bg-background-primary text-text-primary space-y-1">
+                    <ul className="space-y-0.5">
+                        {message.loreEntries.map(entry => (
+                            <li key={`${entry.lorebookId}-${entry.entryId}`} className={`flex justify-between gap-3 ${entry.dropped ? 'text-text-secondary line-through' : ''}`} title={entry.dropped ? 'Left out to stay within a token budget' : undefined}>
+                                <span className="truncate">{entry.title} <span className="text-text-secondary">({entry.lorebookName})</span></span>
+                                <span className="text-text-secondary whitespace-nowrap">{entry.reason === 'constant' ? 'always' : entry.reason === 'recursion' ? 'via entry' : 'keyword'}, ~{entry.tokens}</span>
+                            </li>
+                        ))}
+                    </ul>
+                    <label className="flex items-center justify-between gap-2 pt-1 border-t border-border-neutral text-text-secondary">
+                        <span>Lore budget for this chat (tokens)</span>
+                        <input
+                            type="number"
+                            min="0"
+                            value={currentSession.loreTokenBudget ?? ''}
+                            onChange={(e) => {
+                                const value = e.target.value;
+                                updateSession(current => ({ ...current, loreTokenBudget: value === '' ? undefined : Math.max(0, parseInt(value, 10) || 0) }));
+                            }}
+                            placeholder="No limit"
+                            className="w-24 bg-background-secondary border border-border-strong rounded-md py-0.5 px-1 text-text-primary"
+                        />
+                    </label>
+                </div>
+            )}
+        </div>
+    );
+  };
+
+  const renderMessageActions = (message: Message, index: number, buttonClassName: string) => {
+    if (!message.id) return null;
+    const isLastModelMessage = message.role === 'model'
+        && currentSession.messages.map(m => m.role).lastIndexOf('model') === index;
+    return (
+        <>
+            {!message.attachment && (
+                <button onClick={() => handleStartEdit(message)} disabled={isStreaming} title="Edit" className={`${buttonClassName} disabled:opacity-50`}>
+                    <EditIcon className="w-4 h-4" />
+                </button>
+            )}
+            {isLastModelMessage && (
+                <button onClick={handleRegenerate} disabled={isStreaming || autoConverseStatus !== 'stopped'} title="Regenerate" className={`${buttonClassName} disabled:opacity-50`}>
+                    <RefreshIcon className="w-4 h-4" />
+                </button>
+            )}
+            {index < currentSession.messages.length - 1 && (
+                <button onClick={() => handleForkFromMessage(message.id!)} disabled={isStreaming} title="Branch from here" className={`${buttonClassName} disabled:opacity-50`}>
+                    <BranchIcon className="w-4 h-4" />
+                </button>
+            )}
+            <button onClick={() => { setEditingMessageId(null); setPendingDeleteId(message.id!); }} disabled={isStreaming} title="Delete" className={`${buttonClassName} hover:text-accent-red disabled:opacity-50`}>
+                <TrashIcon className="w-4 h-4" />
+            </button>
+        </>
+    );
+  };
+
+  const renderMessageEditor = () => (
+    <div className="flex flex-col space-y-2 min-w-[16rem]">
+        <textarea
+            value={editDraft}
+            onChange={(e) => setEditDraft(e.target.value)}
+            onKeyDown={(e) => {
+                if (e.key === 'Enter' && !e.shiftKey) { e.preventDefault(); handleSaveEdit(); }
+                if (e.key === 'Escape') setEditingMessageId(null);
+            }}
+            rows={Math.min(10, Math.max(2, editDraft.split('\n').length))}
+            className="w-full bg-background-primary border border-border-strong rounded-md py-1 px-2 text-text-primary text-sm focus:outline-none focus:ring-1 focus:ring-primary-500"
+            autoFocus
+        />
+        <div className="flex justify-end space-x-2 text-xs">
+            <button onClick={() => setEditingMessageId(null)} className="py-1 px-2 rounded-md text-text-primary bg-background-tertiary hover:bg-opacity-80">Cancel</button>
+            <button onClick={handleSaveEdit} disabled={!editDraft.trim()} className="py-1 px-2 rounded-md text-text-accent bg-primary-600 hover:bg-primary-500 disabled:opacity-50">Save</button>
+        </div>
+    </div>
+  );
+
+  const renderDeletePrompt = (message: Message, index: number) => {
+    if (pendingDeleteId !== message.id) return null;
+    const hasFollowing = index < currentSession.messages.length - 1;
+    return (
+        <div className="flex items-center justify-center flex-wrap gap-2 mt-2 text-xs not-italic">
+            <span className="text-text-secondary">Delete this message?</span>
+            <button onClick={() => handleDeleteMessage(message.id!, false)} className="py-1 px-2 rounded-md text-white bg-accent-red hover:opacity-90">Delete</button>
+            {hasFollowing && (
+                <button onClick={() => handleDeleteMessage(message.id!, true)} className="py-1 px-2 rounded-md text-white bg-accent-red hover:opacity-90">Delete + following</button>
+            )}
+            <button onClick={() => setPendingDeleteId(null)} className="py-1 px-2 rounded-md text-text-primary bg-background-tertiary hover:bg-opacity-80">Cancel</button>
+        </div>
+    );
+  };
+
+  const renderPromptReport = (report: PromptBuildReport) => {
+    const wasTrimmed = report.sections.some(section => section.status !== 'full');
+    return (
+        <div className="relative ml-2 flex-shrink-0">
+            <button
+                onClick={() => setIsPromptReportVisible(!isPromptReportVisible)}
+                title={wasTrimmed ? "Part of the context was cut to fit the model's context window" : "Context usage of the last response"}
+                className={`flex items-center space-x-1 text-xs px-2 py-1 rounded-md hover:bg-background-tertiary ${wasTrimmed ? 'text-accent-yellow' : 'text-text-secondary'}`}
+            >
+                {wasTrimmed && <ExclamationTriangleIcon className="w-4 h-4" />}
+                <span>~{report.usedTokens.toLocaleString()} / {report.budget.toLocaleString()} tokens</span>
+            </button>
+            {isPromptReportVisible && (
+                <div className="absolute right-0 mt-1 w-72 z-10 bg-background-secondary border border-border-strong rounded-md shadow-lg p-3 text-xs text-text-primary">
+                    <p className="font-semibold mb-2">Last prompt ({report.contextSize.toLocaleString()}-token context)</p>
+                    <ul className="space-y-1">
+                        {report.sections.map(section => (
+                            <li key={section.id} className="flex justify-between">
+                                <span>{section.label}</span>
+                                <span className={section.status === 'full' ? 'text-text-secondary' : 'text-accent-yellow'}>
+                                    {section.status === 'dropped'
+                                        ? `dropped (~${section.originalTokens.toLocaleString()})`
+                                        : section.status === 'truncated'
+                                            ? `~${section.tokens.toLocaleString()} of ${section.originalTokens.toLocaleString()}`
+                                            : `~${section.tokens.toLocaleString()}`}
+                                </span>
+                            </li>
+                        ))}
+                    </ul>
+                    {report.droppedMessageCount > 0 && (
+                        <p className="mt-2 text-text-secondary">{report.droppedMessageCount} older message(s) were left out.</p>
+                    )}
+                    {retrievalReport && (
+                        <button
+                            onClick={() => { setIsRetrievalDebugVisible(true); setIsPromptReportVisible(false); }}
+                            className="mt-2 text-primary-500 hover:underline"
+                        >
+                            Why this knowledge? ({retrievalReport.candidates.filter(c => c.selected).length} chunk(s) used)
+                        </button>
+                    )}
+                </div>
+            )}
+        </div>
+    );
+  };
+
   const renderMessageContent = (message: Message) => {
     if (message.attachment?.type === 'image') {
         switch(message.attachment.status) {
-            case 'loading': return <div className="p-4 text-center">Generating image...</div>;
+            case 'loading': return (
+                <div className="p-4 text-center">
+                    <span>Generating image...</span>
+                    {message.id && imageAbortControllers.current.has(message.id) && (
+                        <button onClick={() => imageAbortControllers.current.get(message.id!)?.abort()} className="ml-3 text-xs text-text-secondary hover:text-accent-red underline">Cancel</button>
+                    )}
+                </div>
+            );
             case 'done': return <img src={message.attachment.url} alt={message.attachment.prompt || 'Generated Image'} className="rounded-lg max-w-sm" />;
             case 'error': return null;
         }
     }
-    return <span id={message.timestamp} dangerouslySetInnerHTML={{ __html: message.content.replace(/\n/g, '<br />') }} />;
+    const citations = ragService.findCitedPassages(message.content, message.citations || []);
+    if (citations.length === 0) {
+        return <span id={message.timestamp} dangerouslySetInnerHTML={{ __html: message.content.replace(/\n/g, '<br />') }} />;
+    }
+    // Citation markers become links to their footnote; clicks are picked up on the container.
+    const cited = new Set(citations.map(citation => citation.number));
+    const html = message.content
+        .replace(/\n/g, '<br />')
+        .replace(/\[(\d+)\]/g, (marker, number) => cited.has(parseInt(number, 10))
+            ? `<sup><a href="#" data-citation="${number}" class="text-primary-500 hover:underline">[${number}]</a></sup>`
+            : marker);
+    return (
+        <>
+            <span
+                id={message.timestamp}
+                onClick={(e) => {
+                    const number = (e.target as HTMLElement).closest('[data-citation]')?.getAttribute('data-citation');
+                    if (!number) return;
+                    e.preventDefault();
+                    setOpenCitation(citations.find(citation => citation.number === parseInt(number, 10)) || null);
+                }}
+                dangerouslySetInnerHTML={{ __html: html }}
+            />
+            <ol className="mt-2 pt-2 border-t border-border-neutral space-y-0.5 text-xs">
+                {citations.map(citation => (
+                    <li key={citation.number}>
+                        <button onClick={() => setOpenCitation(citation)} className="text-left hover:underline opacity-80 hover:opacity-100">
+                            [{citation.number}] {citation.fileName}{citation.location ? `, ${citation.location}` : ''}
+                        </button>
+                    </li>
+                ))}
+            </ol>
+        </>
+    );
   };
   
   const getCharacterById = (id: string) => allCharacters.find(c => c.id === id);
@@ -656,6 +1160,32 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
             }}
         />
       )}
+      {isRetrievalDebugVisible && retrievalReport && (
+        <RetrievalDebugModal report={retrievalReport} onClose={() => setIsRetrievalDebugVisible(false)} />
+      )}
+      {openCitation && <CitationModal citation={openCitation} onClose={() => setOpenCitation(null)} />}
+      {isSummaryModalVisible && (
+        <ChatSummaryModal
+            summary={currentSession.summary}
+            isActiveOnCurrentBranch={!!summaryService.splitAtSummary(currentSession.messages, currentSession.summary).summaryText}
+            isSummarizing={isSummarizing}
+            onSave={(text) => {
+                updateSession(current => current.summary
+                    ? { ...current, summary: { ...current.summary, text, updatedAt: new Date().toISOString(), editedByUser: true } }
+                    : current);
+                logger.log("Chat summary edited by user.");
+            }}
+            onClear={() => {
+                updateSession(current => {
+                    const { summary, ...rest } = current;
+                    return rest;
+                });
+                logger.log("Chat summary cleared.");
+            }}
+            onSummarizeNow={() => runSummarizer(true)}
+            onClose={() => setIsSummaryModalVisible(false)}
+        />
+      )}
       <header className="flex items-center p-3 border-b border-border-neutral">
         <div className="flex -space-x-4">
             {participants.slice(0, 3).map(p => (
@@ -666,6 +1196,25 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
           <h2 className="text-lg font-bold text-text-primary truncate">{session.name}</h2>
           <p className="text-sm text-text-secondary truncate">{participants.map(p=>p.name).join(', ')}</p>
         </div>
+        {allPersonas.length > 0 && (
+            <select
+                value={activePersona?.id || ''}
+                onChange={(e) => updateSession(current => ({ ...current, personaId: e.target.value || undefined }))}
+                title="Who you are in this chat"
+                className="ml-2 max-w-[10rem] bg-background-secondary border border-border-strong rounded-md py-1 px-2 text-sm text-text-primary focus:outline-none focus:ring-1 focus:ring-primary-500"
+            >
+                {!activePersona && <option value="">{DEFAULT_USER_NAME}</option>}
+                {allPersonas.map(p => <option key={p.id} value={p.id}>{p.name}</option>)}
+            </select>
+        )}
+        {promptReport && renderPromptReport(promptReport)}
+        <button
+            onClick={() => setIsSummaryModalVisible(true)}
+            title="Story so far (chat summary)"
+            className={`ml-1 p-2 rounded-full transition-colors hover:bg-background-tertiary ${currentSession.summary ? 'text-primary-500' : 'text-text-secondary'}`}
+        >
+            {isSummarizing ? <SpinnerIcon className="w-5 h-5 animate-spin" /> : <BookOpenIcon className="w-5 h-5" />}
+        </button>
       </header>
 
       <div className="flex-1 p-4 overflow-y-auto space-y-4">
@@ -676,46 +1225,85 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
           </div>
         ) : (
           currentSession.messages.map((msg, index) => {
+            const contextDivider = promptReport && promptReport.droppedMessageCount > 0 && msg.id === promptReport.firstIncludedMessageId && index > 0 && (
+                <div className="flex items-center my-2 text-xs text-text-secondary" title="Messages above this line were not sent with the last prompt">
+                    <div className="flex-1 border-t border-dashed border-border-strong" />
+                    <span className="px-2">Earlier messages are outside the AI's context</span>
+                    <div className="flex-1 border-t border-dashed border-border-strong" />
+                </div>
+            );
             if (msg.role === 'narrator') {
               return (
-                <div key={index} className="text-center my-2 group relative">
-                  <p id={msg.timestamp} className="text-sm text-text-secondary italic px-4">{renderMessageContent(msg)}</p>
+                <React.Fragment key={msg.id || index}>
+                {contextDivider}
+                <div className="text-center my-2 group relative">
+                  {editingMessageId === msg.id ? (
+                    <div className="flex justify-center px-4">{renderMessageEditor()}</div>
+                  ) : (
+                    <p id={msg.timestamp} className="text-sm text-text-secondary italic px-4">
+                        {renderMessageContent(msg)}
+                        {msg.editedAt && <span className="ml-1 text-xs opacity-70" title={`Edited ${new Date(msg.editedAt).toLocaleString()}`}>(edited)</span>}
+                    </p>
+                  )}
                   <div className="absolute top-1/2 -translate-y-1/2 right-0 flex items-center opacity-0 group-hover:opacity-100 transition-opacity">
                      <button onClick={() => ttsService.speak(msg.content)} title="Read Aloud" className="p-1 rounded-full text-text-secondary hover:bg-background-tertiary">
                         <SpeakerIcon className="w-4 h-4" />
                     </button>
+                     {renderMessageActions(msg, index, 'p-1 rounded-full text-text-secondary hover:bg-background-tertiary')}
                   </div>
+                  {renderBranchControls(msg)}
+                  {renderDeletePrompt(msg, index)}
                 </div>
+                </React.Fragment>
               );
             }
             const msgCharacter = msg.characterId ? getCharacterById(msg.characterId) : null;
             const isUser = msg.role === 'user';
             const characterVoiceURI = msg.role === 'model' && msgCharacter ? msgCharacter.voiceURI : undefined;
             return (
-              <div key={index} className={`flex items-start gap-3 group ${isUser ? 'justify-end' : 'justify-start'}`}>
+              <React.Fragment key={msg.id || index}>
+              {contextDivider}
+              <div className={`flex items-start gap-3 group ${isUser ? 'justify-end' : 'justify-start'}`}>
                 {msg.role === 'model' && msgCharacter && (
                   <img src={msgCharacter.avatarUrl || `https://picsum.photos/seed/${msgCharacter.id}/40/40`} alt={msgCharacter.name} className={`${avatarSizeClass} rounded-full flex-shrink-0`} title={msgCharacter.name}/>
                 )}
-                <div className={`relative max-w-xl p-3 rounded-lg ${
+                <div
+                  className={`relative max-w-xl p-3 rounded-lg ${
                     isUser
                       ? 'bg-primary-600 text-text-accent'
                       : 'bg-background-secondary text-text-primary'
-                  }`}>
-                  <div className="absolute top-0 -translate-y-1/2 flex items-center opacity-0 group-hover:opacity-100 transition-opacity" style={isUser ? {left: '-2rem'} : {right: '-2rem'}}>
+                  }`}
+                  onTouchStart={handleBubbleTouchStart}
+                  onTouchEnd={(e) => msg.id && handleBubbleTouchEnd(e, msg.id)}
+                >
+                  <div className="absolute top-0 -translate-y-1/2 flex flex-col items-center space-y-1 opacity-0 group-hover:opacity-100 transition-opacity" style={isUser ? {left: '-2rem'} : {right: '-2rem'}}>
                      <button onClick={() => ttsService.speak(msg.content, characterVoiceURI)} title="Read Aloud" className="p-1 rounded-full text-text-secondary bg-background-tertiary hover:bg-opacity-80">
                         <SpeakerIcon className="w-4 h-4" />
                     </button>
+                     {renderMessageActions(msg, index, 'p-1 rounded-full text-text-secondary bg-background-tertiary hover:bg-opacity-80')}
                   </div>
                   {msg.role === 'model' && msgCharacter && <p className="font-bold text-sm mb-1">{msgCharacter.name}</p>}
-                  {renderMessageContent(msg)}
+                  {isUser && activePersona && <p className="font-bold text-sm mb-1">{activePersona.name}</p>}
+                  {editingMessageId === msg.id ? renderMessageEditor() : renderMessageContent(msg)}
+                  {renderLoreIndicator(msg)}
+                  {msg.editedAt && !msg.signature && editingMessageId !== msg.id && (
+                    <span className="block text-right text-xs opacity-70 mt-1" title={`Edited ${new Date(msg.editedAt).toLocaleString()}`}>(edited)</span>
+                  )}
+                  {renderBranchControls(msg)}
+                  {renderDeletePrompt(msg, index)}
                   {msg.signature && (
-                    <div className="absolute -bottom-2 -right-2 bg-background-primary rounded-full p-0.5">
-                        {verifiedSignatures[msg.timestamp] === true && <CheckCircleIcon className="w-4 h-4 text-accent-green" title="Signature Verified" />}
+                    <div className="absolute -bottom-2 -right-2 bg-background-primary rounded-full p-0.5 flex items-center">
+                        {msg.editedAt && <EditIcon className="w-3 h-3 mx-0.5 text-text-secondary" title={`Edited ${new Date(msg.editedAt).toLocaleString()}`} />}
+                        {verifiedSignatures[msg.timestamp] === true && <CheckCircleIcon className="w-4 h-4 text-accent-green" title={msg.editedAt ? "Signature Verified (re-signed after edit)" : "Signature Verified"} />}
                         {verifiedSignatures[msg.timestamp] === false && <ExclamationTriangleIcon className="w-4 h-4 text-accent-yellow" title="Signature Invalid" />}
                     </div>
                   )}
                 </div>
+                {isUser && activePersona?.avatarUrl && (
+                  <img src={activePersona.avatarUrl} alt={activePersona.name} className={`${avatarSizeClass} rounded-full flex-shrink-0`} title={activePersona.name}/>
+                )}
               </div>
+              </React.Fragment>
             );
           })
         )}
@@ -760,6 +1348,11 @@ export const ChatInterface: React.FC<ChatInterfaceProps> = ({
           <button onClick={handleImageButtonClick} title="Generate Image (Single-click for prompt, double-click for auto)" className="p-2 text-text-secondary hover:text-primary-500 disabled:opacity-50" disabled={isInputDisabled}>
             <ImageIcon className="w-6 h-6" />
           </button>
+          {isStreaming && (
+            <button onClick={handleStopGeneration} className="p-2 text-accent-red hover:opacity-80" title="Stop generating (keeps the text so far)">
+              <StopIcon className="w-6 h-6" />
+            </button>
+          )}
           <button onClick={handleSendMessage} disabled={!input.trim() || isInputDisabled} className="p-2 text-text-secondary hover:text-primary-500 disabled:opacity-50" title="Send message">
             <svg xmlns="http://www.w3.org/2000/svg" viewBox="0 0 24 24" fill="currentColor" className="w-6 h-6"><path d="M3.478 2.405a.75.75 0 00-.926.94l2.432 7.905H13.5a.75.75 0 010 1.5H4.984l-2.432 7.905a.75.75 0 00.926.94 60.519 60.519 0 0018.445-8.986.75.75 0 000-1.218A60.517 60.517 0 003.478 2.405z" /></svg>
           </button>
@@ -1,21 +1,37 @@
 import React, { useState, useMemo } from 'react';
-import { Character, Lorebook } from '../types.ts';
+import { Character, Lorebook, KnowledgeBase, Persona } from '../types.ts';
+import { getGreetings } from '../services/messageTreeService.ts';
+import { applyMacros } from '../services/macroService.ts';
 import { UserIcon } from './icons/UserIcon.tsx';
 import { BookOpenIcon } from './icons/BookOpenIcon.tsx';
 
+export interface NewChatOptions {
+  loreTokenBudget?: number;
+  greetingIndex?: number; // Which greeting the chat opens with
+  personaId?: string; // Unset to follow the default persona
+}
+
 interface ChatSelectionModalProps {
   characters: Character[];
   lorebooks: Lorebook[];
+  knowledgeBases: KnowledgeBase[];
+  personas: Persona[];
+  defaultPersonaId?: string;
   onClose: () => void;
-  onCreateChat: (name: string, characterIds: string[], lorebookIds: string[]) => void;
+  onCreateChat: (name: string, characterIds: string[], lorebookIds: string[], knowledgeBaseIds: string[], options: NewChatOptions) => void;
 }
 
-export const ChatSelectionModal: React.FC<ChatSelectionModalProps> = ({ characters, lorebooks, onClose, onCreateChat }) => {
+export const ChatSelectionModal: React.FC<ChatSelectionModalProps> = ({ characters, lorebooks, knowledgeBases, personas, defaultPersonaId, onClose, onCreateChat }) => {
   const [selectedCharIds, setSelectedCharIds] = useState<Set<string>>(new Set());
   const [selectedLorebookIds, setSelectedLorebookIds] = useState<Set<string>>(new Set());
+  const [selectedKnowledgeBaseIds, setSelectedKnowledgeBaseIds] = useState<Set<string>>(new Set());
   const [chatName, setChatName] = useState('');
+  const [loreTokenBudget, setLoreTokenBudget] = useState('');
+  const [greetingIndex, setGreetingIndex] = useState(0);
+  const [personaId, setPersonaId] = useState(() => personas.find(p => p.id === defaultPersonaId)?.id || '');
 
   const handleToggleCharacter = (id: string) => {
+    const isSelecting = !selectedCharIds.has(id);
     setSelectedCharIds(prev => {
       const newSet = new Set(prev);
       if (newSet.has(id)) {
@@ -25,6 +41,11 @@ export const ChatSelectionModal: React.FC<ChatSelectionModalProps> = ({ characte
       }
       return newSet;
     });
+    // A character's own lorebooks come along with it.
+    const linkedLorebookIds = (characters.find(c => c.id === id)?.lorebookIds || []).filter(lorebookId => lorebooks.some(lb => lb.id === lorebookId));
+    if (isSelecting && linkedLorebookIds.length > 0) {
+      setSelectedLorebookIds(prev => new Set([...prev, ...linkedLorebookIds]));
+    }
   };
 
   const handleToggleLorebook = (id: string) => {
@@ -39,7 +60,28 @@ export const ChatSelectionModal: React.FC<ChatSelectionModalProps> = ({ characte
     });
   };
 
+  const handleToggleKnowledgeBase = (id: string) => {
+    setSelectedKnowledgeBaseIds(prev => {
+        const newSet = new Set(prev);
+        if (newSet.has(id)) {
+            newSet.delete(id);
+        } else {
+            newSet.add(id);
+        }
+        return newSet;
+    });
+  };
+
+  // Greetings only open one-on-one chats.
+  const greetings = useMemo(() => {
+    const selectedChars = characters.filter(c => selectedCharIds.has(c.id));
+    if (selectedChars.length !== 1) return [];
+    const user = personas.find(p => p.id === personaId)?.name;
+    return getGreetings(selectedChars[0]).map(greeting => applyMacros(greeting, { char: selectedChars[0].name, user }));
+  }, [selectedCharIds, characters, personas, personaId]);
+
   useMemo(() => {
+    setGreetingIndex(0);
     const selectedChars = characters.filter(c => selectedCharIds.has(c.id));
     if (selectedChars.length === 1) {
       setChatName(`Chat with ${selectedChars[0].name}`);
@@ -59,7 +101,12 @@ export const ChatSelectionModal: React.FC<ChatSelectionModalProps> = ({ characte
       alert('Please enter a name for the chat.');
       return;
     }
-    onCreateChat(chatName.trim(), Array.from(selectedCharIds), Array.from(selectedLorebookIds));
+    const budget = parseInt(loreTokenBudget, 10);
+    onCreateChat(chatName.trim(), Array.from(selectedCharIds), Array.from(selectedLorebookIds), Array.from(selectedKnowledgeBaseIds), {
+        loreTokenBudget: Number.isFinite(budget) && budget >= 0 ? budget : undefined,
+        greetingIndex,
+        personaId: personaId && personaId !== defaultPersonaId ? personaId : undefined,
+    });
   };
 
   return (
@@ -108,6 +155,42 @@ export const ChatSelectionModal: React.FC<ChatSelectionModalProps> = ({ characte
                  </div>
             </div>
 
+            {personas.length > 0 && (
+                <div>
+                    <label htmlFor="chat-persona" className="block text-sm font-medium text-text-primary">You are</label>
+                    <select
+                        id="chat-persona"
+                        value={personaId}
+                        onChange={(e) => setPersonaId(e.target.value)}
+                        className="mt-1 block w-full bg-background-primary border border-border-strong rounded-md shadow-sm py-2 px-3 text-text-primary focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+                    >
+                        {!personas.some(p => p.id === defaultPersonaId) && <option value="">User (no persona)</option>}
+                        {personas.map(p => <option key={p.id} value={p.id}>{p.name}{p.id === defaultPersonaId ? ' (default)' : ''}</option>)}
+                    </select>
+                </div>
+            )}
+
+            {greetings.length > 1 && (
+                <div>
+                    <label className="block text-sm font-medium text-text-primary">Greeting</label>
+                    <p className="text-xs text-text-secondary">The chat opens with this one; swipe the first message to see the others.</p>
+                    <div className="mt-2 max-h-48 overflow-y-auto border border-border-neutral rounded-md p-2 space-y-2">
+                        {greetings.map((greeting, index) => (
+                            <label key={index} className={`flex items-start p-2 rounded-md cursor-pointer transition-colors ${greetingIndex === index ? 'bg-primary-500/30' : 'hover:bg-background-tertiary'}`}>
+                                <input
+                                    type="radio"
+                                    name="greeting"
+                                    checked={greetingIndex === index}
+                                    onChange={() => setGreetingIndex(index)}
+                                    className="mt-1 h-4 w-4 border-border-strong bg-background-primary text-primary-500 focus:ring-primary-500"
+                                />
+                                <span className="ml-3 text-sm text-text-primary line-clamp-3 whitespace-pre-wrap">{greeting}</span>
+                            </label>
+                        ))}
+                    </div>
+                </div>
+            )}
+
              <div>
                  <label className="block text-sm font-medium text-text-primary">Attach Lorebooks ({selectedLorebookIds.size})</label>
                  <div className="mt-2 max-h-48 overflow-y-auto border border-border-neutral rounded-md p-2 space-y-2">
@@ -125,6 +208,38 @@ export const ChatSelectionModal: React.FC<ChatSelectionModalProps> = ({ characte
                         </div>
                     ))}
                  </div>
+                 {selectedLorebookIds.size > 0 && (
+                    <label className="mt-2 flex items-center justify-between gap-3 text-sm text-text-secondary">
+                        <span>Lore budget per reply, across all lorebooks (tokens)</span>
+                        <input
+                            type="number"
+                            min="0"
+                            value={loreTokenBudget}
+                            onChange={(e) => setLoreTokenBudget(e.target.value)}
+                            placeholder="No limit"
+                            className="w-28 bg-background-secondary border border-border-strong rounded-md py-1 px-2 text-text-primary focus:outline-none focus:ring-primary-500 focus:border-primary-500"
+                        />
+                    </label>
+                 )}
+            </div>
+
+             <div>
+                 <label className="block text-sm font-medium text-text-primary">Attach Knowledge Bases ({selectedKnowledgeBaseIds.size})</label>
+                 <div className="mt-2 max-h-48 overflow-y-auto border border-border-neutral rounded-md p-2 space-y-2">
+                    {knowledgeBases.length === 0 ? (
+                        <p className="text-text-secondary text-center p-4">No knowledge bases found.</p>
+                    ) : knowledgeBases.map(knowledgeBase => (
+                        <div key={knowledgeBase.id} onClick={() => handleToggleKnowledgeBase(knowledgeBase.id)} className={`flex items-center p-2 rounded-md cursor-pointer transition-colors ${selectedKnowledgeBaseIds.has(knowledgeBase.id) ? 'bg-primary-500/30' : 'hover:bg-background-tertiary'}`}>
+                            <input
+                                type="checkbox"
+                                checked={selectedKnowledgeBaseIds.has(knowledgeBase.id)}
+                                readOnly
+                                className="h-4 w-4 rounded border-border-strong bg-background-primary text-primary-500 focus:ring-primary-500 pointer-events-none"
+                            />
+                            <span className="font-medium text-text-primary ml-3">{knowledgeBase.name}</span>
+                        </div>
+                    ))}
+                 </div>
             </div>
         </div>
 
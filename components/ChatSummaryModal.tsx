@@ -0,0 +1,82 @@
+import React, { useState, useEffect } from 'react';
+import { ChatSummary } from '../types.ts';
+import { SpinnerIcon } from './icons/SpinnerIcon.tsx';
+
+interface ChatSummaryModalProps {
+  summary?: ChatSummary;
+  isActiveOnCurrentBranch: boolean;
+  isSummarizing: boolean;
+  onSave: (text: string) => void;
+  onClear: () => void;
+  onSummarizeNow: () => void;
+  onClose: () => void;
+}
+
+export const ChatSummaryModal: React.FC<ChatSummaryModalProps> = ({ summary, isActiveOnCurrentBranch, isSummarizing, onSave, onClear, onSummarizeNow, onClose }) => {
+  const [draft, setDraft] = useState(summary?.text || '');
+
+  useEffect(() => {
+    setDraft(summary?.text || '');
+  }, [summary?.text]);
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-75 z-40 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-background-secondary rounded-lg shadow-xl w-full max-w-2xl flex flex-col max-h-[90vh]" onClick={e => e.stopPropagation()}>
+        <header className="p-4 border-b border-border-neutral flex justify-between items-center flex-shrink-0">
+          <h2 className="text-xl font-bold text-text-primary">Story So Far</h2>
+          <button onClick={onClose} className="text-text-secondary hover:text-text-primary transition-colors text-2xl font-bold leading-none p-1">&times;</button>
+        </header>
+
+        <div className="p-6 flex-1 overflow-y-auto space-y-3">
+            <p className="text-sm text-text-secondary">
+                Long chats are summarized automatically. The summary replaces the older messages in the prompt, so the AI keeps track of the story without running out of context.
+            </p>
+            {summary ? (
+                <>
+                    <p className="text-xs text-text-secondary">
+                        Covers {summary.summarizedCount} earlier message(s). Last updated {new Date(summary.updatedAt).toLocaleString()}{summary.editedByUser ? ' (edited)' : ''}.
+                    </p>
+                    {!isActiveOnCurrentBranch && (
+                        <p className="text-xs text-accent-yellow">This summary belongs to a different branch of the conversation and is not used right now.</p>
+                    )}
+                    <textarea
+                        value={draft}
+                        onChange={(e) => setDraft(e.target.value)}
+                        rows={12}
+                        className="w-full bg-background-primary border border-border-strong rounded-md py-2 px-3 text-text-primary text-sm focus:outline-none focus:ring-1 focus:ring-primary-500"
+                    />
+                </>
+            ) : (
+                <p className="text-text-secondary text-center py-8">This chat has not been summarized yet.</p>
+            )}
+        </div>
+
+        <footer className="p-4 border-t border-border-neutral flex justify-between items-center">
+            <button
+                onClick={onSummarizeNow}
+                disabled={isSummarizing}
+                className="flex items-center space-x-2 py-2 px-4 rounded-md text-text-primary bg-background-tertiary hover:bg-opacity-80 disabled:opacity-50"
+            >
+                {isSummarizing && <SpinnerIcon className="w-4 h-4 animate-spin" />}
+                <span>{isSummarizing ? 'Summarizing...' : 'Summarize Now'}</span>
+            </button>
+            <div className="flex space-x-3">
+                {summary && (
+                    <button onClick={onClear} className="py-2 px-4 rounded-md text-accent-red bg-background-tertiary hover:bg-opacity-80">Clear</button>
+                )}
+                <button onClick={onClose} className="py-2 px-4 rounded-md text-text-primary bg-background-tertiary hover:bg-opacity-80">Close</button>
+                {summary && (
+                    <button
+                        onClick={() => onSave(draft)}
+                        disabled={!draft.trim() || draft === summary.text}
+                        className="py-2 px-4 rounded-md text-text-accent bg-primary-600 hover:bg-primary-500 disabled:opacity-50"
+                    >
+                        Save
+                    </button>
+                )}
+            </div>
+        </footer>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,26 @@
+import React from 'react';
+import { Citation } from '../types.ts';
+
+interface CitationModalProps {
+  citation: Citation;
+  onClose: () => void;
+}
+
+export const CitationModal: React.FC<CitationModalProps> = ({ citation, onClose }) => {
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-75 z-40 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-background-secondary rounded-lg shadow-xl w-full max-w-2xl flex flex-col max-h-[90vh]" onClick={e => e.stopPropagation()}>
+        <header className="p-4 border-b border-border-neutral flex justify-between items-start gap-4 flex-shrink-0">
+          <div className="min-w-0">
+            <h2 className="text-xl font-bold text-text-primary truncate">[{citation.number}] {citation.fileName}</h2>
+            {citation.location && <p className="text-sm text-text-secondary">{citation.location}</p>}
+          </div>
+          <button onClick={onClose} className="text-text-secondary hover:text-text-primary transition-colors text-2xl font-bold leading-none p-1">&times;</button>
+        </header>
+        <div className="p-6 flex-1 overflow-y-auto">
+          <p className="text-sm text-text-primary whitespace-pre-wrap">{citation.content}</p>
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,265 @@
+import React, { useState } from 'react';
+import { Character, ConnectionProfile, ConfirmationRequest, Plugin } from '../types.ts';
+import * as connectionProfileService from '../services/connectionProfileService.ts';
+import * as geminiService from '../services/geminiService.ts';
+import { logger } from '../services/loggingService.ts';
+import { PlusIcon } from './icons/PlusIcon.tsx';
+import { TrashIcon } from './icons/TrashIcon.tsx';
+import { EditIcon } from './icons/EditIcon.tsx';
+import { SpinnerIcon } from './icons/SpinnerIcon.tsx';
+import { ModelPicker } from './ModelPicker.tsx';
+
+interface ConnectionProfileManagerProps {
+  profiles: ConnectionProfile[];
+  characters: Character[];
+  plugins: Plugin[];
+  onProfilesUpdate: (profiles: ConnectionProfile[]) => void;
+  onDeleteProfile: (profileId: string) => void;
+  onSetConfirmation: (request: ConfirmationRequest | null) => void;
+}
+
+const inputClassName = "mt-1 block w-full bg-background-secondary border border-border-strong rounded-md py-2 px-3 text-text-primary focus:outline-none focus:ring-primary-500 focus:border-primary-500";
+
+const SERVICE_LABELS: Record<ConnectionProfile['service'], string> = {
+    gemini: 'Google Gemini',
+    openai: 'OpenAI-compatible',
+    anthropic: 'Anthropic',
+    ollama: 'Ollama',
+};
+
+const ENDPOINT_PLACEHOLDERS: Record<ConnectionProfile['service'], string> = {
+    gemini: '',
+    openai: 'e.g., http://localhost:11434/v1/chat/completions',
+    anthropic: 'Leave blank for https://api.anthropic.com',
+    ollama: 'Leave blank for http://localhost:11434',
+};
+
+const MODEL_PLACEHOLDERS: Record<ConnectionProfile['service'], string> = {
+    gemini: 'Leave blank for gemini-2.5-flash',
+    openai: 'e.g., llama3',
+    anthropic: 'e.g., claude-sonnet-4-5',
+    ollama: 'e.g., llama3 or nomic-embed-text',
+};
+
+const describeProfile = (profile: ConnectionProfile): string => {
+    if (profile.service === 'gemini') {
+        return [SERVICE_LABELS.gemini, profile.model, profile.apiKey ? 'custom key' : 'default key'].filter(Boolean).join(' · ');
+    }
+    return [SERVICE_LABELS[profile.service], profile.model, profile.apiEndpoint].filter(Boolean).join(' · ');
+};
+
+const ConnectionProfileEditor: React.FC<{
+    profile: ConnectionProfile;
+    onSave: (profile: ConnectionProfile) => void;
+    onCancel: () => void;
+}> = ({ profile, onSave, onCancel }) => {
+    const [formState, setFormState] = useState<ConnectionProfile>(profile);
+    const [testStatus, setTestStatus] = useState<{ state: 'running' | 'ok' | 'error'; message: string } | null>(null);
+
+    const handleChange = <K extends keyof ConnectionProfile>(key: K, value: ConnectionProfile[K]) => {
+        setFormState(prev => ({ ...prev, [key]: value }));
+        setTestStatus(null);
+    };
+
+    const trimmed = (): ConnectionProfile => ({
+        ...formState,
+        name: formState.name.trim(),
+        apiKey: formState.apiKey?.trim() || undefined,
+        apiEndpoint: formState.service !== 'gemini' ? formState.apiEndpoint?.trim() || undefined : undefined,
+        model: formState.model?.trim() || undefined,
+    });
+
+    const handleTest = async () => {
+        setTestStatus({ state: 'running', message: 'Testing connection...' });
+        try {
+            const message = await geminiService.testConnection(trimmed());
+            setTestStatus({ state: 'ok', message });
+            logger.log(`Connection test succeeded for "${formState.name}".`, { message });
+        } catch (error) {
+            const message = error instanceof Error ? error.message : String(error);
+            setTestStatus({ state: 'error', message });
+            logger.warn(`Connection test failed for "${formState.name}".`, error);
+        }
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!formState.name.trim()) return;
+        onSave(trimmed());
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="flex-1 flex flex-col h-full">
+            <header className="p-4 border-b border-border-neutral flex-shrink-0">
+                <input
+                  type="text"
+                  value={formState.name}
+                  onChange={(e) => handleChange('name', e.target.value)}
+                  className="text-xl font-bold bg-transparent focus:outline-none w-full text-text-primary"
+                  placeholder="Profile Name (e.g., Local Ollama)"
+                  required
+                />
+            </header>
+            <div className="flex-1 overflow-y-auto p-4 space-y-4 max-w-2xl">
+                <div>
+                    <label htmlFor="profile-service" className="block text-sm font-medium text-text-primary">API Service</label>
+                    <select
+                        id="profile-service"
+                        value={formState.service}
+                        onChange={(e) => handleChange('service', e.target.value as ConnectionProfile['service'])}
+                        className={inputClassName}
+                    >
+                        <option value="gemini">Google Gemini</option>
+                        <option value="openai">OpenAI-Compatible</option>
+                        <option value="anthropic">Anthropic (Messages API)</option>
+                        <option value="ollama">Ollama (Native API)</option>
+                    </select>
+                </div>
+                {formState.service !== 'gemini' && (
+                    <div>
+                        <label htmlFor="profile-endpoint" className="block text-sm font-medium text-text-primary">API Endpoint</label>
+                        <input
+                            id="profile-endpoint"
+                            type="text"
+                            value={formState.apiEndpoint || ''}
+                            onChange={(e) => handleChange('apiEndpoint', e.target.value)}
+                            className={inputClassName}
+                            placeholder={ENDPOINT_PLACEHOLDERS[formState.service]}
+                        />
+                        <p className="text-xs text-text-secondary mt-1">
+                            {formState.service === 'openai'
+                                ? 'The full URL. Chat, embedding and image endpoints each need their own profile.'
+                                : 'The base URL of the server. The API paths are added automatically.'}
+                        </p>
+                    </div>
+                )}
+                <div>
+                    <label htmlFor="profile-key" className="block text-sm font-medium text-text-primary">API Key</label>
+                    <input
+                        id="profile-key"
+                        type="password"
+                        value={formState.apiKey || ''}
+                        onChange={(e) => handleChange('apiKey', e.target.value)}
+                        className={inputClassName}
+                        placeholder={formState.service === 'gemini' ? 'Leave blank to use default key' : formState.service === 'anthropic' ? 'Your Anthropic API key' : 'API Key (optional for some services)'}
+                    />
+                </div>
+                <div>
+                    <label htmlFor="profile-model" className="block text-sm font-medium text-text-primary">Model Name</label>
+                    <ModelPicker
+                        id="profile-model"
+                        connection={{ service: formState.service, apiKey: formState.apiKey, apiEndpoint: formState.apiEndpoint }}
+                        value={formState.model || ''}
+                        onChange={(model) => handleChange('model', model)}
+                        className={inputClassName}
+                        placeholder={MODEL_PLACEHOLDERS[formState.service]}
+                    />
+                    <p className="text-xs text-text-secondary mt-1">Click the field to list the models the server offers, with their context length and capabilities.</p>
+                </div>
+                <div>
+                    <label htmlFor="profile-rate-limit" className="block text-sm font-medium text-text-primary">Request Delay (ms)</label>
+                    <input
+                        id="profile-rate-limit"
+                        type="number"
+                        value={formState.rateLimit || ''}
+                        onChange={(e) => handleChange('rateLimit', e.target.value ? parseInt(e.target.value, 10) : undefined)}
+                        className={inputClassName}
+                        placeholder="e.g., 1000 (for 1 request per second)"
+                        min="0"
+                    />
+                    <p className="text-xs text-text-secondary mt-1">Minimum time to wait between requests made through this profile to avoid rate limits.</p>
+                </div>
+                <div className="flex items-center space-x-3 pt-2">
+                    <button
+                        type="button"
+                        onClick={handleTest}
+                        disabled={testStatus?.state === 'running'}
+                        className="flex items-center space-x-2 py-2 px-4 rounded-md text-text-primary bg-background-tertiary hover:bg-opacity-80 disabled:opacity-50"
+                    >
+                        {testStatus?.state === 'running' && <SpinnerIcon className="w-4 h-4 animate-spin" />}
+                        <span>Test Connection</span>
+                    </button>
+                    {testStatus && testStatus.state !== 'running' && (
+                        <p className={`text-sm ${testStatus.state === 'ok' ? 'text-accent-green' : 'text-accent-red'}`}>{testStatus.message}</p>
+                    )}
+                </div>
+            </div>
+            <footer className="p-4 border-t border-border-neutral flex justify-end space-x-3">
+                <button type="button" onClick={onCancel} className="py-2 px-4 rounded-md text-text-primary bg-background-tertiary hover:bg-opacity-80">Cancel</button>
+                <button type="submit" className="py-2 px-4 rounded-md text-text-accent bg-primary-600 hover:bg-primary-500">Save Profile</button>
+            </footer>
+        </form>
+    );
+};
+
+
+export const ConnectionProfileManager: React.FC<ConnectionProfileManagerProps> = ({ profiles, characters, plugins, onProfilesUpdate, onDeleteProfile, onSetConfirmation }) => {
+  const [editingProfile, setEditingProfile] = useState<ConnectionProfile | null>(null);
+
+  const handleSave = (profileToSave: ConnectionProfile) => {
+    const isNew = !profiles.some(p => p.id === profileToSave.id);
+    const updatedProfiles = isNew
+        ? [...profiles, profileToSave]
+        : profiles.map(p => p.id === profileToSave.id ? profileToSave : p);
+    onProfilesUpdate(updatedProfiles);
+    logger.log(`Connection profile saved: ${profileToSave.name}`);
+    setEditingProfile(null);
+  };
+
+  const handleDelete = (profile: ConnectionProfile) => {
+    const usage = connectionProfileService.getProfileUsage(profile.id, characters, plugins);
+    onSetConfirmation({
+        message: usage.length > 0
+            ? `"${profile.name}" is used by ${usage.join(', ')}. They will fall back to the default Gemini connection. Delete it anyway?`
+            : `Are you sure you want to delete the connection profile "${profile.name}"?`,
+        onConfirm: () => {
+            onDeleteProfile(profile.id);
+            logger.log(`Connection profile deleted: ${profile.name}`);
+            onSetConfirmation(null);
+        },
+        onCancel: () => onSetConfirmation(null),
+    });
+  };
+
+  if (editingProfile) {
+      return <ConnectionProfileEditor profile={editingProfile} onSave={handleSave} onCancel={() => setEditingProfile(null)} />
+  }
+
+  return (
+    <div className="flex-1 flex flex-col min-h-0 h-full">
+        <header className="p-4 border-b border-border-neutral flex justify-between items-center flex-shrink-0">
+            <h2 className="text-xl font-bold text-text-primary">Connection Profiles</h2>
+            <button onClick={() => setEditingProfile(connectionProfileService.createConnectionProfile())} className="p-2 rounded-md text-text-secondary hover:bg-background-tertiary hover:text-text-primary transition-colors" title="New Connection Profile">
+                <PlusIcon className="w-5 h-5" />
+            </button>
+        </header>
+        <div className="flex-1 overflow-y-auto p-4 space-y-2">
+            <p className="text-sm text-text-secondary pb-2">
+                Profiles hold the service, endpoint, key, model and request delay of an API connection. Characters, knowledge bases and the image generator pick a profile, so a key only has to be changed here.
+            </p>
+            {profiles.length === 0 ? (
+                <p className="text-text-secondary text-center py-8">No connection profiles. Click '+' to create one. Without a profile, the default Gemini connection is used.</p>
+            ) : (
+                profiles.map(profile => {
+                    const usageCount = connectionProfileService.getProfileUsage(profile.id, characters, plugins).length;
+                    return (
+                        <div key={profile.id} className="bg-background-primary p-3 rounded-lg group">
+                            <div className="flex items-center justify-between">
+                                <div className="min-w-0">
+                                    <p className="font-semibold text-text-primary truncate">{profile.name}</p>
+                                    <p className="text-sm text-text-secondary truncate">{describeProfile(profile)}</p>
+                                    <p className="text-xs text-text-secondary">{usageCount === 0 ? 'Not in use' : `Used ${usageCount} time(s)`}</p>
+                                </div>
+                                <div className="flex items-center space-x-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                                    <button onClick={() => setEditingProfile(profile)} title="Edit" className="p-1 rounded text-text-secondary hover:text-text-primary"><EditIcon className="w-4 h-4" /></button>
+                                    <button onClick={() => handleDelete(profile)} title="Delete" className="p-1 rounded text-text-secondary hover:text-accent-red"><TrashIcon className="w-4 h-4" /></button>
+                                </div>
+                            </div>
+                        </div>
+                    );
+                })
+            )}
+        </div>
+    </div>
+  );
+};
@@ -0,0 +1,170 @@
+import React, { useState, useRef } from 'react';
+import { GenerationPreset, GenerationSettings } from '../types.ts';
+import * as generationSettingsService from '../services/generationSettingsService.ts';
+import { logger } from '../services/loggingService.ts';
+import { TrashIcon } from './icons/TrashIcon.tsx';
+import { UploadIcon } from './icons/UploadIcon.tsx';
+import { DownloadIcon } from './icons/DownloadIcon.tsx';
+
+interface GenerationSettingsEditorProps {
+  settings?: GenerationSettings;
+  onChange: (settings: GenerationSettings | undefined) => void;
+  presets: GenerationPreset[];
+  onPresetsUpdate: (presets: GenerationPreset[]) => void;
+}
+
+type NumericSetting = Exclude<keyof GenerationSettings, 'stopSequences'>;
+
+const NUMERIC_FIELDS: { key: NumericSetting; label: string; step: string; min: number; max?: number; placeholder: string }[] = [
+    { key: 'temperature', label: 'Temperature', step: '0.05', min: 0, max: 2, placeholder: 'e.g., 0.8' },
+    { key: 'topP', label: 'Top P', step: '0.01', min: 0, max: 1, placeholder: 'e.g., 0.95' },
+    { key: 'topK', label: 'Top K', step: '1', min: 0, placeholder: 'e.g., 40' },
+    { key: 'maxTokens', label: 'Max Reply Tokens', step: '1', min: 1, placeholder: 'e.g., 512' },
+    { key: 'presencePenalty', label: 'Presence Penalty', step: '0.05', min: -2, max: 2, placeholder: 'e.g., 0.3' },
+    { key: 'frequencyPenalty', label: 'Frequency Penalty', step: '0.05', min: -2, max: 2, placeholder: 'e.g., 0.3' },
+];
+
+const inputClassName = "mt-1 block w-full bg-background-secondary border border-border-strong rounded-md py-2 px-3 text-text-primary focus:outline-none focus:ring-primary-500 focus:border-primary-500";
+
+// Stop sequences are edited one per line, with `\n` standing for a line break (e.g. `\nUser:`).
+const stopSequencesToText = (stops?: string[]): string => (stops || []).map(s => s.replace(/\n/g, '\\n')).join('\n');
+const textToStopSequences = (text: string): string[] => text.split('\n').filter(line => line.length > 0).map(line => line.replace(/\\n/g, '\n'));
+
+export const GenerationSettingsEditor: React.FC<GenerationSettingsEditorProps> = ({ settings, onChange, presets, onPresetsUpdate }) => {
+  const [stopText, setStopText] = useState(stopSequencesToText(settings?.stopSequences));
+  const [selectedPresetId, setSelectedPresetId] = useState('');
+  const [newPresetName, setNewPresetName] = useState('');
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const update = (changes: Partial<GenerationSettings>) => {
+      onChange(generationSettingsService.sanitizeGenerationSettings({ ...settings, ...changes }));
+  };
+
+  const handleApplyPreset = (presetId: string) => {
+      setSelectedPresetId(presetId);
+      const preset = presets.find(p => p.id === presetId);
+      if (!preset) return;
+      onChange({ ...preset.settings });
+      setStopText(stopSequencesToText(preset.settings.stopSequences));
+      logger.log(`Applied generation preset "${preset.name}".`);
+  };
+
+  const handleSavePreset = () => {
+      const name = newPresetName.trim();
+      if (!name || !settings) return;
+      const preset = generationSettingsService.createGenerationPreset(name, settings);
+      onPresetsUpdate([...presets, preset]);
+      setSelectedPresetId(preset.id);
+      setNewPresetName('');
+      logger.log(`Saved generation preset "${name}".`);
+  };
+
+  const handleDeletePreset = () => {
+      const preset = presets.find(p => p.id === selectedPresetId);
+      if (!preset) return;
+      onPresetsUpdate(presets.filter(p => p.id !== preset.id));
+      setSelectedPresetId('');
+      logger.log(`Deleted generation preset "${preset.name}".`);
+  };
+
+  const handleExportPreset = () => {
+      const preset = presets.find(p => p.id === selectedPresetId);
+      if (!preset) return;
+      const blob = new Blob([generationSettingsService.exportGenerationPreset(preset)], { type: 'application/json' });
+      const url = URL.createObjectURL(blob);
+      const a = document.createElement('a');
+      a.href = url;
+      a.download = `${preset.name.replace(/[^a-z0-9]/gi, '_').toLowerCase()}_preset.json`;
+      document.body.appendChild(a);
+      a.click();
+      document.body.removeChild(a);
+      URL.revokeObjectURL(url);
+      logger.log(`Exported generation preset "${preset.name}".`);
+  };
+
+  const handleImportPreset = (e: React.ChangeEvent<HTMLInputElement>) => {
+      const file = e.target.files?.[0];
+      if (!file) return;
+      const reader = new FileReader();
+      reader.onload = (event) => {
+          try {
+              const preset = generationSettingsService.importGenerationPreset(event.target?.result as string, file.name.replace(/\.json$/i, ''));
+              onPresetsUpdate([...presets, preset]);
+              setSelectedPresetId(preset.id);
+              logger.log(`Imported generation preset "${preset.name}".`);
+          } catch (error) {
+              logger.error("Failed to import generation preset.", error);
+              alert(`Failed to import preset: ${error instanceof Error ? error.message : String(error)}`);
+          }
+      };
+      reader.readAsText(file);
+      e.target.value = '';
+  };
+
+  return (
+    <div className="space-y-4">
+        <div>
+            <label htmlFor="generation-preset" className="block text-sm font-medium text-text-primary">Preset</label>
+            <div className="flex items-center space-x-2">
+                <select id="generation-preset" value={selectedPresetId} onChange={(e) => handleApplyPreset(e.target.value)} className={inputClassName}>
+                    <option value="">{presets.length === 0 ? 'No presets saved' : 'Apply a preset...'}</option>
+                    {presets.map(preset => <option key={preset.id} value={preset.id}>{preset.name}</option>)}
+                </select>
+                <button type="button" onClick={handleExportPreset} disabled={!selectedPresetId} title="Export Preset" className="mt-1 p-2 rounded-md text-text-secondary hover:bg-background-tertiary hover:text-text-primary disabled:opacity-50"><DownloadIcon className="w-4 h-4" /></button>
+                <button type="button" onClick={() => fileInputRef.current?.click()} title="Import Preset" className="mt-1 p-2 rounded-md text-text-secondary hover:bg-background-tertiary hover:text-text-primary"><UploadIcon className="w-4 h-4" /></button>
+                <button type="button" onClick={handleDeletePreset} disabled={!selectedPresetId} title="Delete Preset" className="mt-1 p-2 rounded-md text-text-secondary hover:bg-background-tertiary hover:text-accent-red disabled:opacity-50"><TrashIcon className="w-4 h-4" /></button>
+                <input type="file" ref={fileInputRef} onChange={handleImportPreset} accept=".json" className="hidden" />
+            </div>
+            <p className="text-xs text-text-secondary mt-1">Applying a preset copies its values into this character. Presets are shared by all characters and can be exported as files.</p>
+        </div>
+
+        <div className="grid grid-cols-2 gap-4">
+            {NUMERIC_FIELDS.map(field => (
+                <div key={field.key}>
+                    <label htmlFor={`generation-${field.key}`} className="block text-sm font-medium text-text-primary">{field.label}</label>
+                    <input
+                        id={`generation-${field.key}`}
+                        type="number"
+                        step={field.step}
+                        min={field.min}
+                        max={field.max}
+                        value={settings?.[field.key] ?? ''}
+                        onChange={(e) => update({ [field.key]: e.target.value === '' ? undefined : parseFloat(e.target.value) })}
+                        className={inputClassName}
+                        placeholder={field.placeholder}
+                    />
+                </div>
+            ))}
+        </div>
+
+        <div>
+            <label htmlFor="generation-stop" className="block text-sm font-medium text-text-primary">Stop Sequences</label>
+            <textarea
+                id="generation-stop"
+                value={stopText}
+                onChange={(e) => { setStopText(e.target.value); update({ stopSequences: textToStopSequences(e.target.value) }); }}
+                rows={2}
+                className={inputClassName}
+                placeholder={'One per line, e.g. \\nUser:'}
+            />
+            <p className="text-xs text-text-secondary mt-1">
+                Leave a field empty to use the provider's default. Top K is not sent to OpenAI-compatible endpoints, and Anthropic ignores the penalties.
+            </p>
+        </div>
+
+        <div className="flex items-center space-x-2">
+            <input
+                type="text"
+                value={newPresetName}
+                onChange={(e) => setNewPresetName(e.target.value)}
+                onKeyDown={(e) => { if (e.key === 'Enter') { e.preventDefault(); handleSavePreset(); } }}
+                className={inputClassName}
+                placeholder="Preset name"
+            />
+            <button type="button" onClick={handleSavePreset} disabled={!newPresetName.trim() || !settings} className="mt-1 py-2 px-4 rounded-md text-text-primary bg-background-tertiary hover:bg-opacity-80 disabled:opacity-50 whitespace-nowrap">
+                Save as Preset
+            </button>
+        </div>
+    </div>
+  );
+};
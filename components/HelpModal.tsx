@@ -1,4 +1,5 @@
 import React from 'react';
+import { MACRO_DESCRIPTIONS } from '../services/macroService.ts';
 
 interface HelpModalProps {
   onClose: () => void;
@@ -42,7 +43,7 @@ export const HelpModal: React.FC<HelpModalProps> = ({ onClose }) => {
                 <HelpSubSection title="Smart Import">
                     <p>Click the `Import` button in the sidebar to open a file picker. AI Nexus automatically detects what you are importing:</p>
                     <ul className="list-disc list-inside space-y-2">
-                        <li><strong>Character Card (.json):</strong> Imports a character from another platform (like SillyTavern, Chub, etc.). This will add the character to your list without overwriting other data.</li>
+                        <li><strong>Character Card (.png or .json):</strong> Imports a character from another platform (like SillyTavern, Chub, etc.), including PNG images with the card embedded. V1, V2 and V3 cards are supported, with their alternate greetings, group-only greetings and image assets. This will add the character to your list without overwriting other data.</li>
                         <li><strong>Lorebook / World Info (.json):</strong> Imports a compatible lorebook file, such as those used in SillyTavern.</li>
                         <li><strong>Chat Session (.json):</strong> Imports a chat history file that was exported from AI Nexus.</li>
                         <li><strong>Full Backup (.json):</strong> A full backup file from AI Nexus. Importing this will ask for confirmation before overwriting all your current data.</li>
@@ -51,8 +52,8 @@ export const HelpModal: React.FC<HelpModalProps> = ({ onClose }) => {
                  <HelpSubSection title="Granular Export">
                     <p>You can export data in several ways:</p>
                     <ul className="list-disc list-inside space-y-2">
-                        <li><strong>Export Character:</strong> Click the download icon next to any character's name to save them as a universal `.json` character card.</li>
-                         <li><strong>Export Lorebook:</strong> Go to the Lorebook manager and click the download icon next to any lorebook.</li>
+                        <li><strong>Export Character:</strong> Click the download icon next to any character's name to save them as a `.png` character card: the avatar image with a V2 and a V3 card embedded, which other apps such as SillyTavern can import. The lorebooks linked to the character in its editor are embedded as the card's character book, and importing the card recreates them.</li>
+                         <li><strong>Export Lorebook:</strong> Go to the Lorebook manager and click the download icon next to any lorebook. It is saved as SillyTavern World Info, and importing it back into AI Nexus keeps every setting.</li>
                         <li><strong>Export Chat:</strong> Click the download icon next to any chat's name to save the conversation history as a `.json` file.</li>
                         <li><strong>Save Backup:</strong> Click the `Save Backup` button in the sidebar to save a full backup of your entire instance.</li>
                     </ul>
@@ -63,9 +64,45 @@ export const HelpModal: React.FC<HelpModalProps> = ({ onClose }) => {
                 <p>Lorebooks are collections of information about your world, its characters, items, or rules. They make your AI characters knowledgeable and consistent without needing to manually remind them of details.</p>
                 <HelpSubSection title="How It Works">
                      <p>You can create Lorebooks in the `Lorebooks` section (globe icon in the sidebar). Each Lorebook contains entries, and each entry has a set of **keywords** and some **content**.</p>
-                     <p>When you start a new chat, you can **attach** one or more Lorebooks. As you talk, if a keyword from an attached lorebook appears in the recent conversation, its content is invisibly added to the AI's context for its next response. This gives the AI the information it needs, right when it needs it.</p>
+                     <p>When you start a new chat, you can **attach** one or more Lorebooks. Lorebooks linked to a character in its editor are attached automatically when you pick that character. As you talk, if a keyword from an attached lorebook appears in the recent conversation, its content is invisibly added to the AI's context for its next response. This gives the AI the information it needs, right when it needs it.</p>
                      <p>For example, you could have an entry with keywords `["The Crystal of Zarthus", "crystal"]` and content describing the crystal's magical properties. Whenever you mention the crystal, the AI will automatically know what it is.</p>
                 </HelpSubSection>
+                <HelpSubSection title="Entry Settings">
+                     <p>Click "Settings" on an entry for the same options as SillyTavern's World Info, which are kept when you import a World Info file:</p>
+                     <ul className="list-disc list-inside space-y-1 pl-2">
+                        <li><strong>Keywords:</strong> A keyword written as `/pattern/flags` is a regular expression. Keywords can be limited to whole words and made case-sensitive.</li>
+                        <li><strong>Secondary keywords:</strong> Once a keyword matched, the entry can also require any or all of these, or none or not all of them.</li>
+                        <li><strong>Always active:</strong> The entry is inserted in every reply.</li>
+                        <li><strong>Order and position:</strong> Entries with a higher order are inserted later. They go before or after the character definition, or into the conversation a number of messages before its end.</li>
+                        <li><strong>Scan depth and probability:</strong> How many recent messages are searched for the keywords, and the chance that a triggered entry is actually inserted.</li>
+                        <li><strong>Recursion:</strong> Keywords in the content of triggered entries trigger further entries, unless either entry opts out.</li>
+                        <li><strong>Token budgets:</strong> A lorebook can limit how many tokens of its entries go into a reply, and a chat can limit the lore of all its lorebooks together. Only whole entries are inserted: higher orders first, then entries matched in more recent messages. Under each reply, the lore indicator lists the entries that fired and those left out by a budget.</li>
+                     </ul>
+                </HelpSubSection>
+                <HelpSubSection title="Organizing Entries">
+                     <ul className="list-disc list-inside space-y-1 pl-2">
+                        <li><strong>Search and filter:</strong> Find entries by title, keyword or content, or show only entries that are always active, disabled, have no keywords, or share a keyword with another entry. Shared keywords are also flagged on the entry itself.</li>
+                        <li><strong>Bulk editing:</strong> Tick entries to add or remove keywords, enable, disable or delete them together.</li>
+                        <li><strong>Reordering:</strong> Drag an entry by its handle to change its priority. The list is renumbered so entries at the top are inserted first.</li>
+                        <li><strong>Test:</strong> Paste a conversation to see which entries would fire and exactly what would be inserted, without saving.</li>
+                     </ul>
+                </HelpSubSection>
+            </HelpSection>
+
+            <HelpSection title="Knowledge Base (RAG)">
+                <p>Enable the knowledge base in a character's editor and upload documents for the character to draw on. The passages most relevant to the conversation are added to the AI's context for each reply.</p>
+                <ul className="list-disc list-inside space-y-1 mt-2">
+                    <li><strong>Formats:</strong> PDF, DOCX, EPUB, HTML, Markdown and plain text. Files are read entirely in your browser. Encrypted PDFs and scanned pages without a text layer cannot be read.</li>
+                    <li><strong>Sources:</strong> Each passage remembers its section headings and, for PDF and DOCX, its page numbers. These are shown to the AI with the passage, so it can say where an answer came from.</li>
+                    <li><strong>Chunking:</strong> Documents are split into passages at section, paragraph and sentence boundaries. Chunk size and overlap (in tokens) can be set per character; smaller chunks give more precise matches, larger ones more context.</li>
+                    <li><strong>Retrieval:</strong> Passages are ranked both by meaning (embeddings) and by keywords (BM25), and the two rankings are merged. Passages that are neither similar enough nor share enough keywords with your message are skipped, so unrelated questions add nothing. Optionally, the character's chat model reranks the candidates.</li>
+                    <li><strong>Shared knowledge bases:</strong> To give several characters the same documents, create a knowledge base from the sidebar and upload the files once. Attach it to characters in their editor, or to a chat when creating it; a chat's knowledge bases are searched for every character in it. Results from the character's own files and all attached knowledge bases are ranked together.</li>
+                    <li><strong>Changing the embedding model:</strong> Each file remembers the model it was embedded with. Passages from another model cannot be compared with your messages, so the editor warns about such files and can re-embed them from their stored text. Re-embedding can be stopped at any time.</li>
+                    <li><strong>Embedding large files:</strong> Before a file is embedded you see how many chunks, tokens and requests it takes, with an estimate of the cost and time. Chunks are sent in batches where the provider allows it, several requests at once unless the connection has a rate limit. Finished batches are saved as they complete, so a job that fails, is stopped or is interrupted by closing the page shows up as unfinished and can be resumed where it left off.</li>
+                    <li><strong>Large knowledge bases:</strong> Passage vectors are grouped into a searchable index that is built up as you upload and reorganized in the background once it grows. Searches run off the main thread, so the interface stays responsive with thousands of passages.</li>
+                    <li><strong>Citations:</strong> The passages are numbered, and the character is asked to cite them like [1] where it uses them. Cited numbers in a reply become links, with footnotes naming the file, pages and section; click one to read the passage.</li>
+                    <li><strong>Debugging:</strong> Open the token counter in the chat header and click "Why this knowledge?" to see every passage that was considered, its scores, and why it was or was not used.</li>
+                </ul>
             </HelpSection>
 
             <HelpSection title="The Chat Interface">
@@ -75,7 +112,8 @@ export const HelpModal: React.FC<HelpModalProps> = ({ onClose }) => {
                     <ul className="list-disc list-inside space-y-1">
                         <li><code className="bg-background-tertiary px-1 rounded">/image [prompt]</code> - Generates an image.</li>
                         <li><code className="bg-background-tertiary px-1 rounded">/narrate [prompt]</code> - Adds a narrative description to the scene.</li>
-                        <li><code className="bg-background-tertiary px-1 rounded">/snapshot</code> or <code className="bg-background-tertiary px-1 rounded">/memorize</code> - Summarizes recent events and saves them to the characters' long-term memory.</li>
+                        <li><code className="bg-background-tertiary px-1 rounded">/snapshot</code> or <code className="bg-background-tertiary px-1 rounded">/memorize</code> - Distills recent events into separate, dated memories with an importance rating. Only the memories relevant to the current turn (plus pinned ones) are sent to the AI. Browse, pin, edit, merge or forget memories with "Browse Memories" in the character editor.</li>
+                        <li><code className="bg-background-tertiary px-1 rounded">/summarize</code> - Folds older messages into the chat's "Story So Far" summary right away. This also happens automatically as chats grow long; click the open-book icon in the chat header to view or edit the summary.</li>
                         <li><code className="bg-background-tertiary px-1 rounded">/save</code> - Triggers a download of a full application backup file.</li>
                         <li><code className="bg-background-tertiary px-1 rounded">/sys [instruction]</code> - Provides a one-time system instruction for the AI's next response.</li>
                         <li><code className="bg-background-tertiary px-1 rounded">/character [name] [prompt]</code> - Address a specific character in a group chat.</li>
@@ -88,7 +126,8 @@ export const HelpModal: React.FC<HelpModalProps> = ({ onClose }) => {
                  <HelpSubSection title="Action Buttons">
                     <p>Next to the input field, you'll find powerful action buttons:</p>
                     <ul className="list-disc list-inside space-y-2">
-                       <li><strong>Import Memory (Brain Icon):</strong> Allows a character to "remember" things from other chats. Click it, select another chat session, and any shared characters will have their memories from that session appended to their current memory. Great for continuity across different scenarios.</li>
+                       <li><strong>Stop (Square Icon):</strong> Appears while a reply is being written. Stops it and keeps the text written so far; during an AI conversation it also ends the conversation. Images being generated have their own Cancel link.</li>
+                       <li><strong>Import Memory (Brain Icon):</strong> Allows a character to "remember" things from other chats. Click it, select another chat session, and any shared characters will remember the story so far of that session as a new memory. Great for continuity across different scenarios.</li>
                        <li><strong>Narrator (Book Icon):</strong>
                            <br/>- **Single-Click:** Prompts you to enter a narration instruction (e.g., "Describe the weather changing").
                            <br/>- **Double-Click:** The AI narrates the current situation based on the last few messages.
@@ -103,6 +142,53 @@ export const HelpModal: React.FC<HelpModalProps> = ({ onClose }) => {
                        </li>
                     </ul>
                  </HelpSubSection>
+                 <HelpSubSection title="Editing Messages">
+                    <p>Hover over any message to reveal its actions:</p>
+                    <ul className="list-disc list-inside space-y-2">
+                       <li><strong>Edit (Pencil Icon):</strong> Fix a typo or rewrite a message in place. Press Enter to save or Escape to cancel. Signed messages are re-signed after the edit and their badge shows that they were edited.</li>
+                       <li><strong>Delete (Trash Icon):</strong> Removes a single message, or that message and everything after it.</li>
+                       <li><strong>Regenerate (Arrows Icon):</strong> Available on the latest AI reply. Asks the character for a new reply; the previous one is kept as an alternative you can swipe back to.</li>
+                    </ul>
+                 </HelpSubSection>
+                 <HelpSubSection title="Branches & Alternative Replies">
+                    <p>Conversations are stored as a tree, so nothing is lost when you take the story in another direction.</p>
+                    <ul className="list-disc list-inside space-y-2">
+                       <li><strong>Branch from here (Branch Icon):</strong> Hover over any earlier message and click the branch icon to continue the conversation from that point. Everything that followed is kept as an alternative branch.</li>
+                       <li><strong>Switching branches:</strong> Messages with alternatives show a <code className="bg-background-tertiary px-1 rounded">‹ 1/3 ›</code> control. Click the arrows, or swipe the message left/right on touch screens, to switch between them.</li>
+                       <li><strong>Greetings:</strong> A character with alternate greetings lets you pick one when you start a one-on-one chat. The others become alternatives of the first message, so you can switch between them at any time.</li>
+                       <li>Chat exports and backups include every branch.</li>
+                    </ul>
+                 </HelpSubSection>
+                 <HelpSubSection title="Example Dialogue">
+                    <p>In a character's editor, example dialogue shows the AI how the character talks. Separate examples with a <code className="bg-background-tertiary px-1 rounded">&lt;START&gt;</code> line and write <code className="bg-background-tertiary px-1 rounded">{'{{char}}'}:</code> and <code className="bg-background-tertiary px-1 rounded">{'{{user}}'}:</code> before each line. Examples get the room left after lore, knowledge, memory and the summary; when the context window is full, whole examples are left out, last first.</p>
+                 </HelpSubSection>
+            </HelpSection>
+
+            <HelpSection title="Personas & Macros">
+                <p>A persona (User Icon in the sidebar) is who you are in a chat: a name, a description and an avatar. Its name replaces <code className="bg-background-tertiary px-1 rounded">{'{{user}}'}</code>, its description is sent to the characters with every reply, and your messages show its avatar. The first persona you create becomes the default; pick another one when starting a chat, or switch at any time from the chat header.</p>
+                <p className="mt-2">Greetings, character descriptions and instructions, example dialogue, lore, lorebook entries and <code className="bg-background-tertiary px-1 rounded">/sys</code> instructions can use these macros. They are filled in when a reply is generated; greetings are filled in once, when the chat starts.</p>
+                <ul className="list-disc list-inside space-y-1 mt-2">
+                    {MACRO_DESCRIPTIONS.map(([macro, description]) => (
+                        <li key={macro}><code className="bg-background-tertiary px-1 rounded">{macro}</code> - {description}</li>
+                    ))}
+                </ul>
+                <p className="mt-2">Macro names ignore case, and unknown macros are left as they are.</p>
+            </HelpSection>
+
+            <HelpSection title="Connection Profiles">
+                <p>Connection profiles (Cog Icon in the sidebar) store an API connection once: service, endpoint, key, model and request delay. Characters, knowledge base embeddings and the image generator choose a profile instead of keeping their own copy, so rotating a key only takes one edit.</p>
+                <ul className="list-disc list-inside space-y-1 mt-2">
+                    <li><strong>Services:</strong> Google Gemini, any OpenAI-compatible endpoint, the Anthropic Messages API, and Ollama's native API. For Anthropic and Ollama, enter the server's base URL (or leave it blank for the default); for Ollama, set <code className="bg-background-tertiary px-1 rounded">OLLAMA_ORIGINS</code> so the browser may connect.</li>
+                    <li><strong>Model:</strong> Click the model field to list the models the server offers, with their context length and capabilities. The list is cached for a day; the refresh button reloads it. Characters without a profile can pick a Gemini model in their Chat API settings.</li>
+                    <li><strong>Test Connection:</strong> Sends the smallest possible request to check the endpoint and key before you save.</li>
+                    <li><strong>Request Delay:</strong> Applies to every request made through the profile, no matter which character or plugin makes it.</li>
+                    <li>API settings from earlier versions are moved into profiles automatically; identical settings share one profile.</li>
+                </ul>
+            </HelpSection>
+
+            <HelpSection title="Generation Settings">
+                <p>Each character's <strong>Generation Settings</strong> set temperature, top P, top K, the reply length limit, stop sequences and the presence and frequency penalties. Empty fields use the provider's defaults, and each provider only receives the settings it supports.</p>
+                <p className="mt-2">Save a combination as a <strong>preset</strong> to apply it to other characters, or export it as a file to share it. Applying a preset copies its values, so later edits to the character do not change the preset.</p>
             </HelpSection>
 
             <HelpSection title="Plugin System">
@@ -112,7 +198,7 @@ export const HelpModal: React.FC<HelpModalProps> = ({ onClose }) => {
                     <ul className="list-disc list-inside">
                         <li>Select a preset art style to apply to all generations.</li>
                         <li>Add a global "Negative Prompt" to exclude unwanted elements from images.</li>
-                        <li>Set a specific API (e.g., DALL-E via an OpenAI-compatible endpoint) just for image generation, separate from your chat characters.</li>
+                        <li>Pick a connection profile (e.g., DALL-E via an OpenAI-compatible endpoint) just for image generation, separate from your chat characters.</li>
                     </ul>
                 </HelpSubSection>
             </HelpSection>
@@ -3,7 +3,7 @@ import { SpinnerIcon } from './icons/SpinnerIcon';
 import { ImageIcon } from './icons/ImageIcon';
 
 interface ImageGenerationWindowProps {
-  onGenerate: (prompt: string) => Promise<{ url?: string; error?: string }>;
+  onGenerate: (prompt: string, signal?: AbortSignal) => Promise<{ url?: string; error?: string }>;
   onClose: () => void;
 }
 
@@ -18,6 +18,10 @@ export const ImageGenerationWindow: React.FC<ImageGenerationWindowProps> = ({ on
   const [dragOffset, setDragOffset] = useState({ x: 0, y: 0 });
 
   const windowRef = useRef<HTMLDivElement>(null);
+  const abortControllerRef = useRef<AbortController | null>(null);
+
+  // Closing the window cancels a generation that is still running.
+  useEffect(() => () => abortControllerRef.current?.abort(), []);
 
   const handleMouseDown = useCallback((e: React.MouseEvent<HTMLDivElement>) => {
     // Only drag by the header
@@ -61,8 +65,13 @@ export const ImageGenerationWindow: React.FC<ImageGenerationWindowProps> = ({ on
     setIsLoading(true);
     setImageUrl(null);
     setError(null);
-    const result = await onGenerate(prompt);
-    if (result.url) {
+    const controller = new AbortController();
+    abortControllerRef.current = controller;
+    const result = await onGenerate(prompt, controller.signal);
+    abortControllerRef.current = null;
+    if (controller.signal.aborted) {
+      setError('Image generation cancelled.');
+    } else if (result.url) {
       setImageUrl(result.url);
     } else {
       setError(result.error || 'An unknown error occurred during image generation.');
@@ -100,7 +109,15 @@ export const ImageGenerationWindow: React.FC<ImageGenerationWindowProps> = ({ on
           {!isLoading && !error && !imageUrl && <ImageIcon className="w-16 h-16 text-text-secondary/50" />}
         </div>
       </div>
-      <footer className="p-4 border-t border-border-neutral flex justify-end">
+      <footer className="p-4 border-t border-border-neutral flex justify-end space-x-3">
+        {isLoading && (
+          <button
+            onClick={() => abortControllerRef.current?.abort()}
+            className="py-2 px-4 rounded-md text-sm font-medium text-text-primary bg-background-tertiary hover:bg-opacity-80"
+          >
+            Cancel
+          </button>
+        )}
         <button
           onClick={handleGenerateClick}
           disabled={!prompt.trim() || isLoading}
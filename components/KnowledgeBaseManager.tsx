@@ -0,0 +1,247 @@
+import React, { useState } from 'react';
+import { KnowledgeBase, ChunkingConfig, ConnectionProfile, ConfirmationRequest, RagSource } from '../types.ts';
+import * as ragService from '../services/ragService.ts';
+import { logger } from '../services/loggingService.ts';
+import { PlusIcon } from './icons/PlusIcon.tsx';
+import { TrashIcon } from './icons/TrashIcon.tsx';
+import { EditIcon } from './icons/EditIcon.tsx';
+import { KnowledgeSourcesEditor } from './KnowledgeSourcesEditor.tsx';
+
+interface KnowledgeBaseManagerProps {
+  knowledgeBases: KnowledgeBase[];
+  connectionProfiles: ConnectionProfile[];
+  onKnowledgeBasesUpdate: (knowledgeBases: KnowledgeBase[]) => void;
+  onSourceUpdate: (knowledgeBase: KnowledgeBase, source: RagSource) => void;
+  onDeleteKnowledgeBase: (knowledgeBaseId: string) => void;
+  onSetConfirmation: (request: ConfirmationRequest | null) => void;
+}
+
+const inputClassName = "mt-1 block w-full bg-background-secondary border border-border-strong rounded-md shadow-sm py-2 px-3 text-text-primary focus:outline-none focus:ring-primary-500 focus:border-primary-500";
+
+const KnowledgeBaseEditor: React.FC<{
+    knowledgeBase: KnowledgeBase;
+    connectionProfiles: ConnectionProfile[];
+    onPersist: (knowledgeBase: KnowledgeBase) => void;
+    onSourceUpdate: (knowledgeBase: KnowledgeBase, source: RagSource) => void;
+    onSetConfirmation: (request: ConfirmationRequest | null) => void;
+    onClose: () => void;
+}> = ({ knowledgeBase, connectionProfiles, onPersist, onSourceUpdate, onSetConfirmation, onClose }) => {
+    const [formState, setFormState] = useState<KnowledgeBase>(knowledgeBase);
+
+    const handleChange = <K extends keyof KnowledgeBase>(key: K, value: KnowledgeBase[K]) => {
+        setFormState(prev => ({ ...prev, [key]: value }));
+    };
+
+    const handleEmbeddingProfileChange = (profileId: string) => {
+        const profile = connectionProfiles.find(p => p.id === profileId);
+        handleChange('embeddingConfig', profile && profile.service !== 'anthropic' ? { service: profile.service, profileId: profile.id } : { service: 'gemini' });
+    };
+
+    const handleChunkingChange = (key: keyof ChunkingConfig, value: string) => {
+        const chunkingConfig = { ...formState.chunkingConfig, [key]: value === '' ? undefined : parseInt(value, 10) };
+        const isEmpty = chunkingConfig.chunkSize === undefined && chunkingConfig.chunkOverlap === undefined;
+        handleChange('chunkingConfig', isEmpty ? undefined : chunkingConfig);
+    };
+
+    // Files are saved as soon as they are embedded; a new knowledge base is saved with its first one.
+    const handleSourceSaved = (source: RagSource) => {
+        setFormState(prev => ({
+            ...prev,
+            sources: prev.sources.some(s => s.id === source.id) ? prev.sources.map(s => s.id === source.id ? source : s) : [...prev.sources, source],
+        }));
+        onSourceUpdate(formState, source);
+    };
+
+    const handleDeleteSource = (sourceId: string) => {
+        const source = formState.sources.find(s => s.id === sourceId);
+        if (!source) return;
+        onSetConfirmation({
+            message: `Are you sure you want to delete the knowledge file "${source.fileName}"? It is removed for every character and chat using this knowledge base.`,
+            onConfirm: async () => {
+                try {
+                    await ragService.deleteSource(sourceId);
+                    const updated = { ...formState, sources: formState.sources.filter(s => s.id !== sourceId) };
+                    setFormState(updated);
+                    onPersist(updated);
+                    logger.log(`Deleted "${source.fileName}" from knowledge base ${formState.name}`);
+                } catch (error) {
+                    logger.error("Failed to delete knowledge source:", error);
+                    alert(`Failed to delete knowledge source. Check logs for details.`);
+                } finally {
+                    onSetConfirmation(null);
+                }
+            },
+            onCancel: () => onSetConfirmation(null),
+        });
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        onPersist(formState);
+        onClose();
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="flex-1 flex flex-col h-full">
+            <header className="p-4 border-b border-border-neutral flex-shrink-0">
+                <input
+                  type="text"
+                  value={formState.name}
+                  onChange={(e) => handleChange('name', e.target.value)}
+                  className="text-xl font-bold bg-transparent focus:outline-none w-full text-text-primary"
+                  placeholder="Knowledge Base Name"
+                  required
+                />
+                <textarea
+                    value={formState.description}
+                    onChange={(e) => handleChange('description', e.target.value)}
+                    className="text-sm bg-transparent focus:outline-none w-full text-text-secondary mt-1 resize-none"
+                    placeholder="What is in this knowledge base..."
+                    rows={1}
+                />
+            </header>
+            <div className="flex-1 overflow-y-auto p-4 space-y-4">
+                <h4 className="text-md font-semibold">Files</h4>
+                {formState.name.trim() ? (
+                    <KnowledgeSourcesEditor
+                        owner={formState}
+                        sources={formState.sources}
+                        onSourceSaved={handleSourceSaved}
+                        onDeleteSource={handleDeleteSource}
+                    />
+                ) : (
+                    <p className="text-xs text-text-secondary">Name the knowledge base before uploading files.</p>
+                )}
+
+                <h4 className="text-md font-semibold pt-4 border-t border-border-neutral">Embedding API Configuration</h4>
+                <div>
+                    <label htmlFor="kb-embed-profile" className="block text-sm font-medium text-text-primary">Connection Profile</label>
+                    <select
+                        id="kb-embed-profile"
+                        value={formState.embeddingConfig.profileId || ''}
+                        onChange={(e) => handleEmbeddingProfileChange(e.target.value)}
+                        className={inputClassName}
+                    >
+                        <option value="">Default (Gemini)</option>
+                        {connectionProfiles.filter(profile => profile.service !== 'anthropic').map(profile => <option key={profile.id} value={profile.id}>{profile.name}</option>)}
+                    </select>
+                    <p className="text-xs text-text-secondary mt-1">Every character searching this knowledge base embeds its messages with this model, whatever its own setting.</p>
+                </div>
+                <div className="grid grid-cols-2 gap-4">
+                    <div>
+                        <label htmlFor="kb-chunk-size" className="block text-sm font-medium text-text-primary">Chunk Size (tokens)</label>
+                        <input
+                            id="kb-chunk-size"
+                            type="number"
+                            min="50"
+                            max="2000"
+                            step="10"
+                            value={formState.chunkingConfig?.chunkSize ?? ''}
+                            onChange={(e) => handleChunkingChange('chunkSize', e.target.value)}
+                            className={inputClassName}
+                            placeholder={`Default: ${ragService.DEFAULT_CHUNK_SIZE}`}
+                        />
+                    </div>
+                    <div>
+                        <label htmlFor="kb-chunk-overlap" className="block text-sm font-medium text-text-primary">Chunk Overlap (tokens)</label>
+                        <input
+                            id="kb-chunk-overlap"
+                            type="number"
+                            min="0"
+                            step="10"
+                            value={formState.chunkingConfig?.chunkOverlap ?? ''}
+                            onChange={(e) => handleChunkingChange('chunkOverlap', e.target.value)}
+                            className={inputClassName}
+                            placeholder={`Default: ${ragService.DEFAULT_CHUNK_OVERLAP}`}
+                        />
+                    </div>
+                </div>
+                <p className="text-xs text-text-secondary">Changes apply to files uploaded or re-embedded afterwards.</p>
+            </div>
+            <footer className="p-4 border-t border-border-neutral flex justify-end space-x-3">
+                <button type="button" onClick={onClose} className="py-2 px-4 rounded-md text-text-primary bg-background-tertiary hover:bg-opacity-80">Close</button>
+                <button type="submit" className="py-2 px-4 rounded-md text-text-accent bg-primary-600 hover:bg-primary-500">Save Knowledge Base</button>
+            </footer>
+        </form>
+    );
+};
+
+
+export const KnowledgeBaseManager: React.FC<KnowledgeBaseManagerProps> = ({ knowledgeBases, connectionProfiles, onKnowledgeBasesUpdate, onSourceUpdate, onDeleteKnowledgeBase, onSetConfirmation }) => {
+  const [editingKnowledgeBase, setEditingKnowledgeBase] = useState<KnowledgeBase | null>(null);
+
+  const handlePersist = (knowledgeBaseToSave: KnowledgeBase) => {
+    const isNew = !knowledgeBases.some(kb => kb.id === knowledgeBaseToSave.id);
+    const updatedKnowledgeBases = isNew
+        ? [...knowledgeBases, knowledgeBaseToSave]
+        : knowledgeBases.map(kb => kb.id === knowledgeBaseToSave.id ? knowledgeBaseToSave : kb);
+    onKnowledgeBasesUpdate(updatedKnowledgeBases);
+    logger.log(`Knowledge base saved: ${knowledgeBaseToSave.name}`);
+  };
+
+  const handleCreate = () => {
+    setEditingKnowledgeBase({
+        id: `kb-${crypto.randomUUID()}`,
+        name: '',
+        description: '',
+        embeddingConfig: { service: 'gemini' },
+        sources: [],
+        createdAt: new Date().toISOString(),
+    });
+  };
+
+  const handleDelete = (knowledgeBase: KnowledgeBase) => {
+    onSetConfirmation({
+        message: `Are you sure you want to delete the knowledge base "${knowledgeBase.name}" and its ${knowledgeBase.sources.length} file(s)? It is detached from every character and chat. This action cannot be undone.`,
+        onConfirm: () => {
+            onDeleteKnowledgeBase(knowledgeBase.id);
+            onSetConfirmation(null);
+        },
+        onCancel: () => onSetConfirmation(null),
+    });
+  };
+
+  if (editingKnowledgeBase) {
+      return (
+        <KnowledgeBaseEditor
+            knowledgeBase={editingKnowledgeBase}
+            connectionProfiles={connectionProfiles}
+            onPersist={handlePersist}
+            onSourceUpdate={onSourceUpdate}
+            onSetConfirmation={onSetConfirmation}
+            onClose={() => setEditingKnowledgeBase(null)}
+        />
+      );
+  }
+
+  return (
+    <div className="flex-1 flex flex-col min-h-0 h-full">
+        <header className="p-4 border-b border-border-neutral flex justify-between items-center flex-shrink-0">
+            <h2 className="text-xl font-bold text-text-primary">Knowledge Bases</h2>
+            <button onClick={handleCreate} className="p-2 rounded-md text-text-secondary hover:bg-background-tertiary hover:text-text-primary transition-colors" title="New Knowledge Base">
+                <PlusIcon className="w-5 h-5" />
+            </button>
+        </header>
+        <div className="flex-1 overflow-y-auto p-4 space-y-2">
+            {knowledgeBases.length === 0 ? (
+                <p className="text-text-secondary text-center py-8">No knowledge bases. Click '+' to create one, then attach it to characters or chats.</p>
+            ) : (
+                knowledgeBases.map(kb => (
+                    <div key={kb.id} className="bg-background-primary p-3 rounded-lg group">
+                        <div className="flex items-center justify-between">
+                            <div className="min-w-0">
+                                <p className="font-semibold text-text-primary truncate">{kb.name}</p>
+                                <p className="text-sm text-text-secondary truncate">{kb.description || `${kb.sources.length} file(s)`}</p>
+                            </div>
+                            <div className="flex items-center space-x-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                                <button onClick={() => setEditingKnowledgeBase(kb)} title="Edit" className="p-1 rounded text-text-secondary hover:text-text-primary"><EditIcon className="w-4 h-4" /></button>
+                                <button onClick={() => handleDelete(kb)} title="Delete" className="p-1 rounded text-text-secondary hover:text-accent-red"><TrashIcon className="w-4 h-4" /></button>
+                            </div>
+                        </div>
+                    </div>
+                ))
+            )}
+        </div>
+    </div>
+  );
+};
@@ -0,0 +1,236 @@
+import React, { useState, useEffect, useRef } from 'react';
+import { EmbeddingJob, RagSource } from '../types.ts';
+import * as ragService from '../services/ragService.ts';
+import { SUPPORTED_DOCUMENT_EXTENSIONS } from '../services/documentExtractionService.ts';
+import { getEmbeddingModelId } from '../services/embeddingService.ts';
+import { logger } from '../services/loggingService.ts';
+import { TrashIcon } from './icons/TrashIcon.tsx';
+import { UploadIcon } from './icons/UploadIcon.tsx';
+
+interface KnowledgeSourcesEditorProps {
+  owner: ragService.KnowledgeOwner; // With the embedding and chunking settings as currently entered
+  sources: RagSource[];
+  onSourceSaved: (source: RagSource) => void; // A new file, or new vectors for an existing one
+  onDeleteSource: (sourceId: string) => void;
+}
+
+const formatDuration = (seconds: number): string => {
+    if (seconds < 60) return `${Math.max(1, Math.round(seconds))}s`;
+    if (seconds < 3600) return `${Math.round(seconds / 60)} min`;
+    return `${(seconds / 3600).toFixed(1)} h`;
+};
+
+const formatCost = (costUsd: number | null): string => {
+    if (costUsd === null) return 'unknown';
+    if (costUsd === 0) return 'free';
+    return costUsd < 0.01 ? 'less than $0.01' : `about $${costUsd.toFixed(2)}`;
+};
+
+/**
+ * The files of a character or knowledge base: upload, delete and re-embed. Embedding shows an
+ * estimate first and runs as jobs that can be stopped and resumed, even after a reload.
+ */
+export const KnowledgeSourcesEditor: React.FC<KnowledgeSourcesEditorProps> = ({ owner, sources, onSourceSaved, onDeleteSource }) => {
+  const [indexingStatus, setIndexingStatus] = useState<string | null>(null);
+  const [pendingJobs, setPendingJobs] = useState<EmbeddingJob[]>([]);
+  const [confirmation, setConfirmation] = useState<{ jobs: EmbeddingJob[]; estimate: ragService.EmbeddingEstimate } | null>(null);
+  const [progress, setProgress] = useState<ragService.EmbeddingJobProgress | null>(null);
+  const [jobError, setJobError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const controllerRef = useRef<AbortController | null>(null);
+
+  const loadPendingJobs = async () => {
+      const jobs = await ragService.getPendingEmbeddingJobs(owner.id);
+      // A re-embedding job outlives its file if the file was deleted in the meantime.
+      const orphaned = jobs.filter(job => job.kind === 'reembed' && !sources.some(s => s.id === job.source.id));
+      await Promise.all(orphaned.map(ragService.discardEmbeddingJob));
+      setPendingJobs(jobs.filter(job => !orphaned.includes(job)));
+  };
+
+  useEffect(() => {
+      loadPendingJobs().catch(error => logger.error("Failed to load pending embedding jobs:", error));
+      // Stopping keeps the checkpoints, so leaving the form mid-job loses nothing.
+      return () => controllerRef.current?.abort();
+  }, [owner.id]);
+
+  const showEstimate = async (jobs: EmbeddingJob[]) => {
+      const embedded = await ragService.countEmbeddedChunks(jobs);
+      setConfirmation({ jobs, estimate: ragService.estimateEmbeddingJobs(jobs, owner.embeddingConfig!, embedded) });
+  };
+
+  const handleFileUpload = async (event: React.ChangeEvent<HTMLInputElement>) => {
+      const file = event.target.files?.[0];
+      if (!file) return;
+
+      try {
+        setIndexingStatus(`Processing "${file.name}"...`);
+        const job = await ragService.prepareIndexingJob(file, owner, setIndexingStatus);
+        await showEstimate([job]);
+        setIndexingStatus(null);
+      } catch (error) {
+        logger.error("File indexing failed:", error);
+        setIndexingStatus(`Error indexing "${file.name}": ${error instanceof Error ? error.message : "Unknown error"}`);
+        setTimeout(() => setIndexingStatus(null), 5000);
+      } finally {
+        if (fileInputRef.current) fileInputRef.current.value = "";
+      }
+  };
+
+  const handleReembed = async (sourcesToEmbed: RagSource[]) => {
+      if (sourcesToEmbed.length === 0) return;
+      setJobError(null);
+      try {
+        const jobs = await ragService.prepareReembedJobs(sourcesToEmbed, owner);
+        setPendingJobs(prev => prev.filter(job => !jobs.some(j => j.id === job.id)));
+        await showEstimate(jobs);
+      } catch (error) {
+        logger.error("Preparing re-embedding failed:", error);
+        setJobError(error instanceof Error ? error.message : "Unknown error");
+      }
+  };
+
+  const handleCancelConfirmation = async () => {
+      if (!confirmation) return;
+      setConfirmation(null);
+      // Freshly prepared files are dropped; jobs that had started before stay pending.
+      const embedded = await ragService.countEmbeddedChunks(confirmation.jobs);
+      const unstarted = confirmation.jobs.filter(job => !embedded[job.id]);
+      await Promise.all(unstarted.map(ragService.discardEmbeddingJob));
+      await loadPendingJobs();
+  };
+
+  // Each finished file is saved right away; the rest stay pending if a job fails or is stopped.
+  const runJobs = async (jobs: EmbeddingJob[]) => {
+      const controller = new AbortController();
+      controllerRef.current = controller;
+      setConfirmation(null);
+      setJobError(null);
+      setPendingJobs(prev => prev.filter(job => !jobs.some(j => j.id === job.id)));
+      try {
+        for (const job of jobs) {
+            const source = await ragService.runEmbeddingJob(job, owner, setProgress, controller.signal);
+            onSourceSaved(source);
+        }
+      } catch (error) {
+        if (!(error instanceof DOMException && error.name === 'AbortError')) {
+            logger.error("Embedding failed:", error);
+            setJobError(error instanceof Error ? error.message : "Unknown error");
+        }
+      } finally {
+        if (controllerRef.current === controller) {
+            controllerRef.current = null;
+            setProgress(null);
+            await loadPendingJobs();
+        }
+      }
+  };
+
+  const handleDiscardJob = async (job: EmbeddingJob) => {
+      await ragService.discardEmbeddingJob(job);
+      setPendingJobs(prev => prev.filter(j => j.id !== job.id));
+  };
+
+  const isBusy = !!indexingStatus || !!progress || !!confirmation;
+  const outdatedSources = sources.filter(source => ragService.isSourceOutdated(source, owner.embeddingConfig));
+  const progressPercent = progress ? Math.round(100 * progress.done / Math.max(1, progress.total)) : 0;
+
+  return (
+    <div className="p-2 border border-dashed border-border-strong rounded-md space-y-2">
+        {sources.map(source => (
+            <div key={source.id} className="flex items-center justify-between bg-background-tertiary p-2 rounded">
+                <div className="min-w-0">
+                    <span className="block text-sm truncate">{source.fileName}</span>
+                    {source.embeddingModel && (
+                        <span className={`block text-xs truncate ${outdatedSources.includes(source) ? 'text-accent-yellow' : 'text-text-secondary'}`}>
+                            {source.embeddingModel}{source.embeddingDimension ? ` (${source.embeddingDimension} dimensions)` : ''}
+                        </span>
+                    )}
+                </div>
+                <button type="button" onClick={() => onDeleteSource(source.id)} disabled={!!progress} className="p-1 text-accent-red hover:opacity-80 disabled:opacity-50">
+                    <TrashIcon className="w-4 h-4" />
+                </button>
+            </div>
+        ))}
+        <input type="file" ref={fileInputRef} onChange={handleFileUpload} accept={SUPPORTED_DOCUMENT_EXTENSIONS.join(',')} className="hidden" disabled={isBusy} />
+        <button type="button" onClick={() => fileInputRef.current?.click()} disabled={isBusy} className="w-full flex items-center justify-center space-x-2 px-3 py-2 text-sm font-medium text-center rounded-md bg-background-tertiary hover:bg-opacity-80 transition-colors disabled:opacity-50 disabled:cursor-not-allowed">
+            <UploadIcon className="w-4 h-4" />
+            <span>Upload Knowledge File (PDF, DOCX, EPUB, HTML, Markdown, text)</span>
+        </button>
+        {indexingStatus && <p className="text-xs text-center text-text-secondary p-2">{indexingStatus}</p>}
+
+        {confirmation && (
+            <div className="p-3 rounded-md bg-background-tertiary space-y-2 text-xs">
+                <p className="font-semibold text-sm text-text-primary">
+                    Embed {confirmation.jobs.length === 1 ? `"${confirmation.jobs[0].source.fileName}"` : `${confirmation.jobs.length} files`}?
+                </p>
+                <p className="text-text-secondary">
+                    {confirmation.estimate.chunks} chunks, about {confirmation.estimate.tokens.toLocaleString()} tokens in {confirmation.estimate.requests} request(s)
+                    {' '}with {owner.embeddingConfig ? getEmbeddingModelId(owner.embeddingConfig) : 'the default model'}.
+                </p>
+                <p className="text-text-secondary">
+                    Estimated cost: {formatCost(confirmation.estimate.costUsd)}. Estimated time: {formatDuration(confirmation.estimate.seconds)}.
+                </p>
+                <div className="flex gap-2">
+                    <button type="button" onClick={() => runJobs(confirmation.jobs)} className="px-3 py-1.5 rounded-md bg-primary-600 hover:bg-primary-500 text-white font-medium">Start</button>
+                    <button type="button" onClick={handleCancelConfirmation} className="px-3 py-1.5 rounded-md bg-background-secondary hover:bg-opacity-80 text-text-primary">Cancel</button>
+                </div>
+            </div>
+        )}
+
+        {progress && (
+            <div className="p-2 space-y-1">
+                <div className="flex justify-between gap-2 text-xs text-text-secondary">
+                    <span className="truncate">
+                        Embedding "{progress.fileName}": {progress.done} of {progress.total} chunks
+                        {progress.etaSeconds !== undefined && progress.done < progress.total ? `, about ${formatDuration(progress.etaSeconds)} left` : ''}
+                    </span>
+                    <button type="button" onClick={() => controllerRef.current?.abort()} className="text-accent-red hover:underline">Stop</button>
+                </div>
+                <div className="h-1.5 rounded-full bg-background-tertiary overflow-hidden">
+                    <div className="h-full bg-primary-600 transition-all" style={{ width: `${progressPercent}%` }} />
+                </div>
+            </div>
+        )}
+
+        {!progress && !confirmation && pendingJobs.length > 0 && (
+            <div className="p-2 space-y-2 text-xs">
+                <p className="text-text-secondary">Unfinished embedding jobs. Finished chunks are kept, so resuming continues where they stopped.</p>
+                {pendingJobs.map(job => (
+                    <div key={job.id} className="flex items-center justify-between gap-2 bg-background-tertiary p-2 rounded">
+                        <div className="min-w-0">
+                            <span className="block truncate">{job.kind === 'reembed' ? 'Re-embedding' : 'Indexing'} "{job.source.fileName}"</span>
+                            {job.error && <span className="block text-accent-red truncate" title={job.error}>{job.error}</span>}
+                        </div>
+                        <button type="button" onClick={() => handleDiscardJob(job)} className="text-accent-red hover:underline flex-shrink-0">Discard</button>
+                    </div>
+                ))}
+                <button type="button" onClick={() => showEstimate(pendingJobs)} disabled={!!indexingStatus} className="px-3 py-1.5 rounded-md bg-primary-600 hover:bg-primary-500 text-white font-medium disabled:opacity-50">
+                    Resume {pendingJobs.length} job(s)
+                </button>
+            </div>
+        )}
+
+        {jobError && <p className="p-2 text-xs text-accent-red">Embedding stopped: {jobError} Resume it to continue with the remaining chunks.</p>}
+
+        {!progress && !confirmation && sources.length > 0 && (
+            <div className="p-2 space-y-2 text-xs">
+                {outdatedSources.length > 0 && (
+                    <p className="text-accent-yellow">
+                        {outdatedSources.length} file(s) were embedded with a different model than {owner.embeddingConfig ? getEmbeddingModelId(owner.embeddingConfig) : 'the current one'}. Until they are re-embedded they can only be found by keywords.
+                    </p>
+                )}
+                <div className="flex gap-2">
+                    {outdatedSources.length > 0 && (
+                        <button type="button" onClick={() => handleReembed(outdatedSources)} disabled={!!indexingStatus} className="px-3 py-1.5 rounded-md bg-primary-600 hover:bg-primary-500 text-white font-medium disabled:opacity-50">
+                            Re-embed {outdatedSources.length} file(s)
+                        </button>
+                    )}
+                    <button type="button" onClick={() => handleReembed(sources)} disabled={!!indexingStatus} className="px-3 py-1.5 rounded-md bg-background-tertiary hover:bg-opacity-80 text-text-primary disabled:opacity-50">
+                        Re-embed all files
+                    </button>
+                </div>
+            </div>
+        )}
+    </div>
+  );
+};
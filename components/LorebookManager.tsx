@@ -1,10 +1,13 @@
-import React, { useState, useEffect, useRef } from 'react';
-import { Lorebook, LorebookEntry, ConfirmationRequest } from '../types.ts';
+import React, { useState, useEffect, useRef, useMemo } from 'react';
+import { Lorebook, LorebookEntry, LorebookPosition, LorebookSecondaryLogic, ConfirmationRequest } from '../types.ts';
+import * as lorebookService from '../services/lorebookService.ts';
+import * as compatibilityService from '../services/compatibilityService.ts';
 import { logger } from '../services/loggingService.ts';
 import { PlusIcon } from './icons/PlusIcon.tsx';
 import { TrashIcon } from './icons/TrashIcon.tsx';
 import { EditIcon } from './icons/EditIcon.tsx';
 import { DownloadIcon } from './icons/DownloadIcon.tsx';
+import { LorebookTestPanel } from './LorebookTestPanel.tsx';
 
 interface LorebookManagerProps {
   lorebooks: Lorebook[];
@@ -12,33 +15,273 @@ interface LorebookManagerProps {
   onSetConfirmation: (request: ConfirmationRequest | null) => void;
 }
 
+const entryInputClassName = "w-full bg-background-secondary border border-border-strong rounded-md py-1 px-2 text-text-primary text-sm focus:outline-none focus:ring-1 focus:ring-primary-500";
+
+const SECONDARY_LOGIC_LABELS: Record<LorebookSecondaryLogic, string> = {
+    andAny: 'and any of',
+    andAll: 'and all of',
+    notAny: 'and none of',
+    notAll: 'and not all of',
+};
+
+const POSITION_LABELS: Record<LorebookPosition, string> = {
+    beforeCharacter: 'Before character',
+    afterCharacter: 'After character',
+    atDepth: 'In conversation, at depth',
+};
+
+const splitKeys = (value: string): string[] => value.split(',').map(k => k.trim());
+
+// An empty number field leaves the setting at its default.
+const parseOptionalNumber = (value: string): number | undefined => value === '' ? undefined : Number(value);
+
+type EntryFilter = 'all' | 'constant' | 'disabled' | 'duplicates' | 'noKeys';
+
+const ENTRY_FILTER_LABELS: Record<EntryFilter, string> = {
+    all: 'All entries',
+    constant: 'Always active',
+    disabled: 'Disabled',
+    duplicates: 'Duplicate keywords',
+    noKeys: 'No keywords',
+};
+
+const entryTitle = (entry: LorebookEntry): string => entry.comment || entry.keys.filter(k => k.trim()).join(', ') || 'Untitled entry';
+
 const LorebookEditor: React.FC<{
     lorebook: Lorebook;
     onSave: (lorebook: Lorebook) => void;
     onCancel: () => void;
 }> = ({ lorebook, onSave, onCancel }) => {
     const [formState, setFormState] = useState<Lorebook>(lorebook);
+    const [expandedEntryIds, setExpandedEntryIds] = useState<Set<string>>(new Set());
+    const [search, setSearch] = useState('');
+    const [filter, setFilter] = useState<EntryFilter>('all');
+    const [selectedEntryIds, setSelectedEntryIds] = useState<Set<string>>(new Set());
+    const [bulkKeys, setBulkKeys] = useState('');
+    const [showTestPanel, setShowTestPanel] = useState(false);
+    const [draggedEntryId, setDraggedEntryId] = useState<string | null>(null);
+
+    const duplicateKeys = useMemo(() => lorebookService.findDuplicateKeys(formState.entries), [formState.entries]);
+
+    const visibleEntries = useMemo(() => {
+        const query = search.trim().toLowerCase();
+        return formState.entries.filter(entry => {
+            if (filter === 'constant' && !entry.constant) return false;
+            if (filter === 'disabled' && !entry.disabled) return false;
+            if (filter === 'duplicates' && !duplicateKeys.has(entry.id)) return false;
+            if (filter === 'noKeys' && (entry.constant || entry.keys.some(k => k.trim()))) return false;
+            if (!query) return true;
+            return [entry.comment || '', entry.content, ...entry.keys, ...(entry.secondaryKeys || [])].some(text => text.toLowerCase().includes(query));
+        });
+    }, [formState.entries, search, filter, duplicateKeys]);
+
+    // Reordering a filtered list would be ambiguous about where hidden entries go.
+    const canReorder = !search.trim() && filter === 'all';
 
     const handleBookChange = <K extends keyof Omit<Lorebook, 'entries'>>(key: K, value: Lorebook[K]) => {
         setFormState(prev => ({ ...prev, [key]: value }));
     };
 
-    const handleEntryChange = (entryId: string, field: keyof LorebookEntry, value: string | string[]) => {
+    const handleEntryChange = <K extends keyof LorebookEntry>(entryId: string, field: K, value: LorebookEntry[K]) => {
         setFormState(prev => ({
             ...prev,
             entries: prev.entries.map(e => e.id === entryId ? { ...e, [field]: value } : e)
         }));
     };
 
+    const toggleExpanded = (entryId: string) => {
+        setExpandedEntryIds(prev => {
+            const next = new Set(prev);
+            if (next.has(entryId)) next.delete(entryId); else next.add(entryId);
+            return next;
+        });
+    };
+
+    const renderCheckbox = (entry: LorebookEntry, field: 'constant' | 'disabled' | 'caseSensitive' | 'wholeWords' | 'excludeRecursion' | 'preventRecursion', label: string, title: string) => (
+        <label className="flex items-center space-x-2 text-sm text-text-primary" title={title}>
+            <input
+                type="checkbox"
+                checked={!!entry[field]}
+                onChange={(e) => handleEntryChange(entry.id, field, e.target.checked || undefined)}
+                className="rounded border-border-strong bg-background-secondary text-primary-600 focus:ring-primary-500"
+            />
+            <span>{label}</span>
+        </label>
+    );
+
+    const renderEntrySettings = (entry: LorebookEntry) => (
+        <div className="mt-3 pt-3 border-t border-border-neutral space-y-3">
+            <div>
+                <label className="text-sm font-medium text-text-primary">Secondary keywords</label>
+                <div className="flex gap-2 mt-1">
+                    <select
+                        value={entry.secondaryLogic || 'andAny'}
+                        onChange={(e) => handleEntryChange(entry.id, 'secondaryLogic', e.target.value === 'andAny' ? undefined : e.target.value as LorebookSecondaryLogic)}
+                        className="bg-background-secondary border border-border-strong rounded-md py-1 px-2 text-text-primary text-sm focus:outline-none focus:ring-1 focus:ring-primary-500"
+                    >
+                        {Object.entries(SECONDARY_LOGIC_LABELS).map(([logic, label]) => <option key={logic} value={logic}>{label}</option>)}
+                    </select>
+                    <input
+                        type="text"
+                        value={(entry.secondaryKeys || []).join(', ')}
+                        onChange={(e) => handleEntryChange(entry.id, 'secondaryKeys', e.target.value.trim() ? splitKeys(e.target.value) : undefined)}
+                        className={entryInputClassName}
+                        placeholder="Only when these also appear (optional)"
+                    />
+                </div>
+            </div>
+            <div className="grid grid-cols-2 gap-3">
+                <div>
+                    <label className="text-sm font-medium text-text-primary">Position</label>
+                    <select
+                        value={entry.position || 'afterCharacter'}
+                        onChange={(e) => handleEntryChange(entry.id, 'position', e.target.value === 'afterCharacter' ? undefined : e.target.value as LorebookPosition)}
+                        className={`${entryInputClassName} mt-1`}
+                    >
+                        {Object.entries(POSITION_LABELS).map(([position, label]) => <option key={position} value={position}>{label}</option>)}
+                    </select>
+                </div>
+                {entry.position === 'atDepth' ? (
+                    <div>
+                        <label className="text-sm font-medium text-text-primary">Depth (messages from the end)</label>
+                        <input type="number" min="0" value={entry.depth ?? ''} onChange={(e) => handleEntryChange(entry.id, 'depth', parseOptionalNumber(e.target.value))} className={`${entryInputClassName} mt-1`} placeholder={`Default: ${lorebookService.DEFAULT_INSERTION_DEPTH}`} />
+                    </div>
+                ) : <div />}
+                <div>
+                    <label className="text-sm font-medium text-text-primary">Order</label>
+                    <input type="number" value={entry.order ?? ''} onChange={(e) => handleEntryChange(entry.id, 'order', parseOptionalNumber(e.target.value))} className={`${entryInputClassName} mt-1`} placeholder={`Default: ${lorebookService.DEFAULT_ORDER}`} title="Entries with higher numbers are inserted later, closer to the reply" />
+                </div>
+                <div>
+                    <label className="text-sm font-medium text-text-primary">Scan depth (messages)</label>
+                    <input type="number" min="0" value={entry.scanDepth ?? ''} onChange={(e) => handleEntryChange(entry.id, 'scanDepth', parseOptionalNumber(e.target.value))} className={`${entryInputClassName} mt-1`} placeholder={`Default: ${lorebookService.DEFAULT_SCAN_DEPTH}`} />
+                </div>
+                <div>
+                    <label className="text-sm font-medium text-text-primary">Probability (%)</label>
+                    <input type="number" min="0" max="100" value={entry.probability ?? ''} onChange={(e) => handleEntryChange(entry.id, 'probability', parseOptionalNumber(e.target.value))} className={`${entryInputClassName} mt-1`} placeholder="Default: 100" />
+                </div>
+            </div>
+            <div className="grid grid-cols-2 gap-2">
+                {renderCheckbox(entry, 'constant', 'Always active', 'Inserted in every reply, whether or not a keyword appears')}
+                {renderCheckbox(entry, 'disabled', 'Disabled', 'Never inserted')}
+                {renderCheckbox(entry, 'wholeWords', 'Match whole words', 'Keywords only match whole words, so "cat" does not match "category"')}
+                {renderCheckbox(entry, 'caseSensitive', 'Case-sensitive', 'Keywords must match upper and lower case exactly')}
+                {renderCheckbox(entry, 'excludeRecursion', 'Not triggered by other entries', 'Only the conversation can trigger this entry')}
+                {renderCheckbox(entry, 'preventRecursion', 'Does not trigger other entries', 'Keywords in this entry\'s content do not trigger other entries')}
+            </div>
+        </div>
+    );
+
     const handleAddEntry = () => {
         const newEntry: LorebookEntry = { id: crypto.randomUUID(), keys: [], content: '' };
+        // Once entries are numbered, a new entry joins at the bottom of the list.
+        const orders = formState.entries.map(e => e.order).filter((order): order is number => order !== undefined);
+        if (orders.length > 0) newEntry.order = Math.max(...orders) + 10;
         setFormState(prev => ({ ...prev, entries: [...prev.entries, newEntry]}));
     };
 
     const handleDeleteEntry = (entryId: string) => {
         setFormState(prev => ({ ...prev, entries: prev.entries.filter(e => e.id !== entryId)}));
+        setSelectedEntryIds(prev => {
+            const next = new Set(prev);
+            next.delete(entryId);
+            return next;
+        });
+    };
+
+    // --- Bulk editing ---
+
+    const toggleSelected = (entryId: string) => {
+        setSelectedEntryIds(prev => {
+            const next = new Set(prev);
+            if (next.has(entryId)) next.delete(entryId); else next.add(entryId);
+            return next;
+        });
+    };
+
+    const handleSelectVisible = () => {
+        setSelectedEntryIds(new Set(visibleEntries.map(e => e.id)));
+    };
+
+    const updateSelectedEntries = (update: (entry: LorebookEntry) => LorebookEntry) => {
+        setFormState(prev => ({
+            ...prev,
+            entries: prev.entries.map(e => selectedEntryIds.has(e.id) ? update(e) : e)
+        }));
+    };
+
+    const handleBulkAddKeys = () => {
+        const keys = splitKeys(bulkKeys).filter(k => k);
+        updateSelectedEntries(entry => {
+            const existing = new Set(entry.keys.map(k => k.trim().toLowerCase()));
+            return { ...entry, keys: [...entry.keys.filter(k => k.trim()), ...keys.filter(k => !existing.has(k.toLowerCase()))] };
+        });
+        setBulkKeys('');
+    };
+
+    const handleBulkRemoveKeys = () => {
+        const keys = new Set(splitKeys(bulkKeys).filter(k => k).map(k => k.toLowerCase()));
+        updateSelectedEntries(entry => ({ ...entry, keys: entry.keys.filter(k => !keys.has(k.trim().toLowerCase())) }));
+        setBulkKeys('');
+    };
+
+    const handleBulkDelete = () => {
+        setFormState(prev => ({ ...prev, entries: prev.entries.filter(e => !selectedEntryIds.has(e.id)) }));
+        setSelectedEntryIds(new Set());
     };
 
+    // --- Reordering ---
+
+    const handleDrop = (targetEntryId: string) => {
+        if (!draggedEntryId || draggedEntryId === targetEntryId) return;
+        setFormState(prev => {
+            const entries = [...prev.entries];
+            const from = entries.findIndex(e => e.id === draggedEntryId);
+            const to = entries.findIndex(e => e.id === targetEntryId);
+            if (from === -1 || to === -1) return prev;
+            const [moved] = entries.splice(from, 1);
+            entries.splice(to, 0, moved);
+            return { ...prev, entries: lorebookService.renumberEntryOrder(entries) };
+        });
+        setDraggedEntryId(null);
+    };
+
+    const handleSortByOrder = () => {
+        setFormState(prev => ({
+            ...prev,
+            entries: [...prev.entries].sort((a, b) => (a.order ?? lorebookService.DEFAULT_ORDER) - (b.order ?? lorebookService.DEFAULT_ORDER))
+        }));
+    };
+
+    const renderDuplicateWarning = (entry: LorebookEntry) => {
+        const duplicates = duplicateKeys.get(entry.id);
+        if (!duplicates) return null;
+        const titleOf = (entryId: string) => entryTitle(formState.entries.find(e => e.id === entryId) || { id: entryId, keys: [], content: '' });
+        return (
+            <p className="mt-1 text-xs text-accent-yellow">
+                Also used by other entries: {duplicates.map(({ key, entryIds }) => `"${key}" (${entryIds.map(titleOf).join(', ')})`).join('; ')}
+            </p>
+        );
+    };
+
+    const renderBulkBar = () => (
+        <div className="flex flex-wrap items-center gap-2 p-2 rounded-md bg-background-tertiary text-sm">
+            <span className="text-text-primary font-medium">{selectedEntryIds.size} selected</span>
+            <input
+                type="text"
+                value={bulkKeys}
+                onChange={(e) => setBulkKeys(e.target.value)}
+                className="flex-1 min-w-[10rem] bg-background-secondary border border-border-strong rounded-md py-1 px-2 text-text-primary text-sm focus:outline-none focus:ring-1 focus:ring-primary-500"
+                placeholder="Keywords, comma-separated"
+            />
+            <button type="button" onClick={handleBulkAddKeys} disabled={!bulkKeys.trim()} className="px-2 py-1 rounded bg-background-secondary text-text-primary hover:bg-opacity-80 disabled:opacity-50">Add keywords</button>
+            <button type="button" onClick={handleBulkRemoveKeys} disabled={!bulkKeys.trim()} className="px-2 py-1 rounded bg-background-secondary text-text-primary hover:bg-opacity-80 disabled:opacity-50">Remove keywords</button>
+            <button type="button" onClick={() => updateSelectedEntries(({ disabled, ...entry }) => entry)} className="px-2 py-1 rounded bg-background-secondary text-text-primary hover:bg-opacity-80">Enable</button>
+            <button type="button" onClick={() => updateSelectedEntries(entry => ({ ...entry, disabled: true }))} className="px-2 py-1 rounded bg-background-secondary text-text-primary hover:bg-opacity-80">Disable</button>
+            <button type="button" onClick={handleBulkDelete} className="px-2 py-1 rounded bg-background-secondary text-accent-red hover:bg-opacity-80">Delete</button>
+            <button type="button" onClick={() => setSelectedEntryIds(new Set())} className="px-2 py-1 text-text-secondary hover:text-text-primary">Clear</button>
+        </div>
+    );
+
     const handleSubmit = (e: React.FormEvent) => {
         e.preventDefault();
         onSave(formState);
@@ -62,21 +305,93 @@ const LorebookEditor: React.FC<{
                     placeholder="Lorebook description..."
                     rows={1}
                 />
+                <label className="flex items-center gap-2 mt-2 text-xs text-text-secondary">
+                    <span>Token budget per reply</span>
+                    <input
+                        type="number"
+                        min="0"
+                        value={formState.tokenBudget ?? ''}
+                        onChange={(e) => handleBookChange('tokenBudget', e.target.value === '' ? undefined : Math.max(0, parseInt(e.target.value, 10) || 0))}
+                        className="w-24 bg-background-secondary border border-border-strong rounded-md py-0.5 px-2 text-text-primary focus:outline-none focus:ring-1 focus:ring-primary-500"
+                        placeholder="No limit"
+                    />
+                    <span>Only whole entries are inserted; higher orders and more recent matches go first.</span>
+                </label>
             </header>
             <div className="flex-1 overflow-y-auto p-4 space-y-4">
-                {formState.entries.map(entry => (
-                    <div key={entry.id} className="bg-background-primary p-3 rounded-md border border-border-neutral">
-                        <div className="flex justify-between items-center mb-2">
-                            <label className="text-sm font-medium text-text-primary">Keywords (comma-separated)</label>
+                <div className="flex flex-wrap items-center gap-2">
+                    <input
+                        type="search"
+                        value={search}
+                        onChange={(e) => setSearch(e.target.value)}
+                        className="flex-1 min-w-[10rem] bg-background-primary border border-border-strong rounded-md py-1 px-2 text-text-primary text-sm focus:outline-none focus:ring-1 focus:ring-primary-500"
+                        placeholder="Search titles, keywords and content..."
+                    />
+                    <select
+                        value={filter}
+                        onChange={(e) => setFilter(e.target.value as EntryFilter)}
+                        className="bg-background-primary border border-border-strong rounded-md py-1 px-2 text-text-primary text-sm focus:outline-none focus:ring-1 focus:ring-primary-500"
+                    >
+                        {Object.entries(ENTRY_FILTER_LABELS).map(([value, label]) => <option key={value} value={value}>{label}</option>)}
+                    </select>
+                    <button type="button" onClick={handleSelectVisible} disabled={visibleEntries.length === 0} className="px-2 py-1 rounded-md text-sm text-text-primary bg-background-tertiary hover:bg-opacity-80 disabled:opacity-50">Select all</button>
+                    <button type="button" onClick={handleSortByOrder} className="px-2 py-1 rounded-md text-sm text-text-primary bg-background-tertiary hover:bg-opacity-80" title="Arrange the list by each entry's order number">Sort by order</button>
+                    <button type="button" onClick={() => setShowTestPanel(prev => !prev)} className={`px-2 py-1 rounded-md text-sm ${showTestPanel ? 'bg-primary-600 text-white' : 'text-text-primary bg-background-tertiary hover:bg-opacity-80'}`}>Test</button>
+                </div>
+                <p className="text-xs text-text-secondary">
+                    {canReorder
+                        ? 'Drag entries by their handle to reorder them. Entries at the top are inserted first; entries at the bottom sit closest to the reply.'
+                        : `Showing ${visibleEntries.length} of ${formState.entries.length} entries. Clear the search and filter to reorder entries.`}
+                </p>
+                {showTestPanel && <LorebookTestPanel lorebook={formState} onClose={() => setShowTestPanel(false)} />}
+                {selectedEntryIds.size > 0 && renderBulkBar()}
+                {visibleEntries.map(entry => (
+                    <div
+                        key={entry.id}
+                        onDragOver={(e) => { if (canReorder && draggedEntryId) e.preventDefault(); }}
+                        onDrop={(e) => { e.preventDefault(); handleDrop(entry.id); }}
+                        className={`bg-background-primary p-3 rounded-md border ${selectedEntryIds.has(entry.id) ? 'border-primary-500' : 'border-border-neutral'} ${draggedEntryId === entry.id ? 'opacity-50' : ''}`}
+                    >
+                        <div className="flex justify-between items-center gap-2 mb-2">
+                            {canReorder && (
+                                <span
+                                    draggable
+                                    onDragStart={(e) => { e.dataTransfer.effectAllowed = 'move'; setDraggedEntryId(entry.id); }}
+                                    onDragEnd={() => setDraggedEntryId(null)}
+                                    className="cursor-grab text-text-secondary hover:text-text-primary select-none"
+                                    title="Drag to reorder"
+                                >
+                                    &#x2807;
+                                </span>
+                            )}
+                            <input
+                                type="checkbox"
+                                checked={selectedEntryIds.has(entry.id)}
+                                onChange={() => toggleSelected(entry.id)}
+                                className="rounded border-border-strong bg-background-secondary text-primary-600 focus:ring-primary-500"
+                                title="Select for bulk editing"
+                            />
+                            <input
+                                type="text"
+                                value={entry.comment || ''}
+                                onChange={(e) => handleEntryChange(entry.id, 'comment', e.target.value || undefined)}
+                                className={`flex-1 bg-transparent focus:outline-none text-sm font-semibold ${entry.disabled ? 'text-text-secondary line-through' : 'text-text-primary'}`}
+                                placeholder="Untitled entry"
+                            />
+                            {entry.constant && <span className="text-xs text-primary-500">Always active</span>}
+                            <span className="text-xs text-text-secondary" title="Order">#{entry.order ?? lorebookService.DEFAULT_ORDER}</span>
+                            <button type="button" onClick={() => toggleExpanded(entry.id)} className="text-xs text-text-secondary hover:text-text-primary">{expandedEntryIds.has(entry.id) ? 'Hide settings' : 'Settings'}</button>
                             <button type="button" onClick={() => handleDeleteEntry(entry.id)} className="text-accent-red hover:opacity-80"><TrashIcon className="w-4 h-4" /></button>
                         </div>
+                        <label className="text-sm font-medium text-text-primary">Keywords (comma-separated; /regex/ allowed)</label>
                         <input
                             type="text"
                             value={entry.keys.join(', ')}
-                            onChange={(e) => handleEntryChange(entry.id, 'keys', e.target.value.split(',').map(k => k.trim()))}
-                            className="w-full bg-background-secondary border border-border-strong rounded-md py-1 px-2 text-text-primary text-sm focus:outline-none focus:ring-1 focus:ring-primary-500"
-                            placeholder="e.g., Excalibur, Holy Grail"
+                            onChange={(e) => handleEntryChange(entry.id, 'keys', splitKeys(e.target.value))}
+                            className={`${entryInputClassName} mt-1`}
+                            placeholder="e.g., Excalibur, Holy Grail, /knights? of the round table/i"
                         />
+                        {renderDuplicateWarning(entry)}
                         <label className="text-sm font-medium text-text-primary mt-3 block">Content</label>
                         <textarea
                             value={entry.content}
@@ -85,8 +400,12 @@ const LorebookEditor: React.FC<{
                             className="w-full mt-1 bg-background-secondary border border-border-strong rounded-md py-1 px-2 text-text-primary text-sm focus:outline-none focus:ring-1 focus:ring-primary-500"
                             placeholder="Details about these keywords..."
                         />
+                        {expandedEntryIds.has(entry.id) && renderEntrySettings(entry)}
                     </div>
                 ))}
+                {formState.entries.length > 0 && visibleEntries.length === 0 && (
+                    <p className="text-center text-sm text-text-secondary py-4">No entries match.</p>
+                )}
                 <button type="button" onClick={handleAddEntry} className="w-full flex items-center justify-center space-x-2 py-2 px-3 rounded-md text-text-primary bg-background-tertiary hover:bg-opacity-80 transition-colors">
                     <PlusIcon className="w-5 h-5" /><span>Add Entry</span>
                 </button>
@@ -133,7 +452,8 @@ export const LorebookManager: React.FC<LorebookManagerProps> = ({ lorebooks, onL
   
   const handleExport = (lorebook: Lorebook) => {
     try {
-        const jsonString = JSON.stringify(lorebook, null, 2);
+        // SillyTavern's World Info format, which imports back into AI Nexus without losing anything.
+        const jsonString = JSON.stringify(compatibilityService.nexusToWorldInfo(lorebook), null, 2);
         const filename = `${lorebook.name.replace(/[^a-z0-9]/gi, '_').toLowerCase()}_lorebook.json`;
         const blob = new Blob([jsonString], { type: 'application/json' });
         const url = URL.createObjectURL(blob);
@@ -174,7 +494,7 @@ export const LorebookManager: React.FC<LorebookManagerProps> = ({ lorebooks, onL
                                 <p className="text-sm text-text-secondary truncate">{lb.description || `${lb.entries.length} entries`}</p>
                             </div>
                             <div className="flex items-center space-x-2 opacity-0 group-hover:opacity-100 transition-opacity">
-                                <button onClick={() => handleExport(lb)} title="Export" className="p-1 rounded text-text-secondary hover:text-text-primary"><DownloadIcon className="w-4 h-4" /></button>
+                                <button onClick={() => handleExport(lb)} title="Export as World Info" className="p-1 rounded text-text-secondary hover:text-text-primary"><DownloadIcon className="w-4 h-4" /></button>
                                 <button onClick={() => setEditingLorebook(lb)} title="Edit" className="p-1 rounded text-text-secondary hover:text-text-primary"><EditIcon className="w-4 h-4" /></button>
                                 <button onClick={() => handleDelete(lb.id)} title="Delete" className="p-1 rounded text-text-secondary hover:text-accent-red"><TrashIcon className="w-4 h-4" /></button>
                             </div>
@@ -0,0 +1,103 @@
+import React, { useState } from 'react';
+import { FiredLoreEntry, Lorebook } from '../types.ts';
+import * as lorebookService from '../services/lorebookService.ts';
+
+interface LorebookTestPanelProps {
+  lorebook: Lorebook; // With unsaved edits
+  onClose: () => void;
+}
+
+interface TestResult {
+  messageCount: number;
+  fired: FiredLoreEntry[];
+  activation: lorebookService.LoreActivation | null;
+}
+
+const REASON_LABELS: Record<FiredLoreEntry['reason'], string> = {
+    constant: 'always active',
+    keyword: 'keyword',
+    recursion: 'triggered by another entry',
+};
+
+/**
+ * Runs the lorebook against a pasted conversation and shows what would be inserted.
+ */
+export const LorebookTestPanel: React.FC<LorebookTestPanelProps> = ({ lorebook, onClose }) => {
+  const [text, setText] = useState('');
+  const [chatBudget, setChatBudget] = useState('');
+  const [result, setResult] = useState<TestResult | null>(null);
+
+  const handleTest = () => {
+      const messages = lorebookService.splitTestConversation(text);
+      const budget = parseInt(chatBudget, 10);
+      const activation = lorebookService.findRelevantLore(messages, [lorebook], { tokenBudget: Number.isFinite(budget) ? budget : undefined });
+      setResult({ messageCount: messages.length, fired: activation ? lorebookService.describeFiredEntries(activation) : [], activation });
+  };
+
+  const renderInjection = (label: string, content: string | null) => content && (
+      <div>
+          <p className="text-xs font-semibold text-text-primary">{label}</p>
+          <pre className="mt-1 p-2 rounded bg-background-secondary text-xs text-text-secondary whitespace-pre-wrap font-sans">{content}</pre>
+      </div>
+  );
+
+  return (
+    <div className="p-3 rounded-md border border-primary-500 bg-background-primary space-y-3">
+        <div className="flex justify-between items-center">
+            <h4 className="text-sm font-semibold text-text-primary">Test against text</h4>
+            <button type="button" onClick={onClose} className="text-text-secondary hover:text-text-primary text-lg leading-none">&times;</button>
+        </div>
+        <textarea
+            value={text}
+            onChange={(e) => setText(e.target.value)}
+            rows={5}
+            className="w-full bg-background-secondary border border-border-strong rounded-md py-1 px-2 text-text-primary text-sm focus:outline-none focus:ring-1 focus:ring-primary-500"
+            placeholder="Paste a conversation. Separate messages with a blank line; the last one is the newest."
+        />
+        <div className="flex items-center gap-3 text-xs text-text-secondary">
+            <label className="flex items-center gap-2">
+                <span>Chat budget (tokens)</span>
+                <input
+                    type="number"
+                    min="0"
+                    value={chatBudget}
+                    onChange={(e) => setChatBudget(e.target.value)}
+                    placeholder="No limit"
+                    className="w-24 bg-background-secondary border border-border-strong rounded-md py-0.5 px-2 text-text-primary"
+                />
+            </label>
+            <button type="button" onClick={handleTest} disabled={!text.trim()} className="ml-auto px-3 py-1.5 rounded-md bg-primary-600 hover:bg-primary-500 text-white font-medium disabled:opacity-50">Test</button>
+        </div>
+
+        {result && (
+            <div className="space-y-3">
+                <p className="text-xs text-text-secondary">
+                    {result.messageCount} message(s) scanned. {result.fired.filter(entry => !entry.dropped).length} entry(ies) would be inserted.
+                    {lorebook.entries.some(entry => (entry.probability ?? 100) < 100) ? ' Entries with a probability below 100% are rolled each time, so results can vary.' : ''}
+                </p>
+                {result.fired.length > 0 && (
+                    <ul className="space-y-0.5 text-xs">
+                        {result.fired.map(entry => (
+                            <li key={entry.entryId} className={`flex justify-between gap-3 ${entry.dropped ? 'text-text-secondary line-through' : 'text-text-primary'}`}>
+                                <span className="truncate">{entry.title}</span>
+                                <span className="text-text-secondary whitespace-nowrap">{entry.dropped ? 'over budget' : REASON_LABELS[entry.reason]}, ~{entry.tokens} tokens</span>
+                            </li>
+                        ))}
+                    </ul>
+                )}
+                {result.activation && (
+                    <div className="space-y-2">
+                        {renderInjection('Before the character definition', result.activation.beforeCharacter)}
+                        {renderInjection('After the character definition', result.activation.afterCharacter)}
+                        {result.activation.atDepth.map(insertion => (
+                            <React.Fragment key={insertion.depth}>
+                                {renderInjection(`In the conversation, ${insertion.depth} message(s) before the end`, insertion.content)}
+                            </React.Fragment>
+                        ))}
+                    </div>
+                )}
+            </div>
+        )}
+    </div>
+  );
+};
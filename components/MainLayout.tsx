@@ -1,5 +1,5 @@
 import React, { useState, useEffect, useCallback, useRef } from 'react';
-import { Character, ChatSession, AppData, Plugin, GeminiApiRequest, Message, CryptoKeys, RagSource, ConfirmationRequest, UISettings, Lorebook } from '../types.ts';
+import { Character, ChatSession, AppData, Plugin, GeminiApiRequest, Message, CryptoKeys, RagSource, ConfirmationRequest, UISettings, Lorebook, KnowledgeBase, ConnectionProfile, GenerationPreset, Persona } from '../types.ts';
 import { loadData, saveData } from '../services/secureStorage.ts';
 import * as ragService from '../services/ragService.ts';
 import { CharacterList } from './CharacterList.tsx';
@@ -10,7 +10,10 @@ import { PluginManager } from './PluginManager.tsx';
 import { LogViewer } from './LogViewer.tsx';
 import { HelpModal } from './HelpModal.tsx';
 import { LorebookManager } from './LorebookManager.tsx';
-import { ChatSelectionModal } from './ChatSelectionModal.tsx';
+import { KnowledgeBaseManager } from './KnowledgeBaseManager.tsx';
+import { ConnectionProfileManager } from './ConnectionProfileManager.tsx';
+import { PersonaManager } from './PersonaManager.tsx';
+import { ChatSelectionModal, NewChatOptions } from './ChatSelectionModal.tsx';
 import { ConfirmationModal } from './ConfirmationModal.tsx';
 import { ThemeSwitcher } from './ThemeSwitcher.tsx';
 import { AppearanceModal } from './AppearanceModal.tsx';
@@ -18,6 +21,11 @@ import { PluginSandbox } from '../services/pluginSandbox.ts';
 import * as geminiService from '../services/geminiService.ts';
 import * as compatibilityService from '../services/compatibilityService.ts';
 import * as cryptoService from '../services/cryptoService.ts';
+import * as messageTreeService from '../services/messageTreeService.ts';
+import * as memoryService from '../services/memoryService.ts';
+import * as connectionProfileService from '../services/connectionProfileService.ts';
+import * as personaService from '../services/personaService.ts';
+import { applyMacros } from '../services/macroService.ts';
 import { logger } from '../services/loggingService.ts';
 import { DownloadIcon } from './icons/DownloadIcon.tsx';
 import { UploadIcon } from './icons/UploadIcon.tsx';
@@ -27,8 +35,11 @@ import { HelpIcon } from './icons/HelpIcon.tsx';
 import { PlusIcon } from './icons/PlusIcon.tsx';
 import { ChatBubbleIcon } from './icons/ChatBubbleIcon.tsx';
 import { UsersIcon } from './icons/UsersIcon.tsx';
+import { UserIcon } from './icons/UserIcon.tsx';
 import { PaletteIcon } from './icons/PaletteIcon.tsx';
 import { GlobeIcon } from './icons/GlobeIcon.tsx';
+import { CogIcon } from './icons/CogIcon.tsx';
+import { DatabaseIcon } from './icons/DatabaseIcon.tsx';
 
 
 const defaultImagePlugin: Plugin = {
@@ -92,11 +103,15 @@ nexus.log('TTS Plugin loaded (Core Feature).');
 };
 
 
+// Replaces a file with its new version, or adds it if it is new.
+const upsertSource = (sources: RagSource[], source: RagSource): RagSource[] =>
+    sources.some(s => s.id === source.id) ? sources.map(s => s.id === source.id ? source : s) : [...sources, source];
+
 type ActivePanel = 'chats' | 'characters' | 'lorebooks' | 'none';
-type ActiveView = 'chat' | 'character-form' | 'plugins' | 'lorebooks';
+type ActiveView = 'chat' | 'character-form' | 'plugins' | 'lorebooks' | 'knowledge-bases' | 'connections' | 'personas';
 
 export const MainLayout: React.FC = () => {
-    const [appData, setAppData] = useState<AppData>({ characters: [], chatSessions: [], plugins: [], lorebooks: [] });
+    const [appData, setAppData] = useState<AppData>({ characters: [], chatSessions: [], plugins: [], lorebooks: [], connectionProfiles: [], generationPresets: [] });
     
     const [selectedChatId, setSelectedChatId] = useState<string | null>(null);
     const [editingCharacter, setEditingCharacter] = useState<Character | null>(null);
@@ -115,6 +130,8 @@ export const MainLayout: React.FC = () => {
 
     const fileInputRef = useRef<HTMLInputElement>(null);
     const sandboxes = useRef(new Map<string, PluginSandbox>()).current;
+    // Cancels the API calls that plugins make while the hook currently running is being stopped.
+    const activeHookSignal = useRef<AbortSignal | undefined>(undefined);
 
     const persistData = useCallback(async (data: AppData) => {
         await saveData(data);
@@ -128,13 +145,13 @@ export const MainLayout: React.FC = () => {
     const handlePluginApiRequest = useCallback(async (request: GeminiApiRequest) => {
         switch (request.type) {
             case 'generateContent':
-                return await geminiService.generateContent(request.prompt);
+                return await geminiService.generateContent(request.prompt, undefined, activeHookSignal.current);
             case 'generateImage':
                 // The image generation plugin now has its own complete settings object.
                 // We pass this directly to the service.
                 const imagePlugin = appData.plugins?.find(p => p.id === 'default-image-generator');
                 const settings = { ...imagePlugin?.settings, ...request.settings };
-                return await geminiService.generateImageFromPrompt(request.prompt, settings);
+                return await geminiService.generateImageFromPrompt(request.prompt, settings, activeHookSignal.current);
             default:
                 throw new Error('Unknown API request type from plugin.');
         }
@@ -197,6 +214,12 @@ export const MainLayout: React.FC = () => {
                 }
             });
 
+            // --- Connection Profile Migration (inline API settings to shared profiles) ---
+            const connectionMigration = connectionProfileService.migrateInlineConnections(data);
+            if (connectionMigration.migratedCount > 0) {
+                Object.assign(data, connectionMigration.data);
+                dataNeedsSave = true;
+            }
 
             if (dataNeedsSave) {
                 await persistData(data);
@@ -222,6 +245,10 @@ export const MainLayout: React.FC = () => {
         };
     }, [persistData]);
 
+    useEffect(() => {
+        connectionProfileService.setConnectionProfiles(appData.connectionProfiles || []);
+    }, [appData.connectionProfiles]);
+
     useEffect(() => {
         appData.plugins?.forEach(async (plugin) => {
             const existingSandbox = sandboxes.get(plugin.id);
@@ -306,6 +333,19 @@ export const MainLayout: React.FC = () => {
         });
     }, [persistData]);
 
+    // Saves a re-embedded knowledge file without touching the rest of the character, which may
+    // have unsaved edits in the form.
+    const handleRagSourceUpdate = useCallback((characterId: string, source: RagSource) => {
+        setAppData(prevAppData => {
+            const updatedCharacters = prevAppData.characters.map(c => c.id === characterId
+                ? { ...c, ragSources: upsertSource(c.ragSources || [], source) }
+                : c);
+            const updatedData = { ...prevAppData, characters: updatedCharacters };
+            persistData(updatedData);
+            return updatedData;
+        });
+    }, [persistData]);
+
     const handleArchiveCharacter = (characterId: string) => {
         const characterName = appData.characters.find(c => c.id === characterId)?.name || 'Unknown';
         setConfirmationRequest({
@@ -343,16 +383,8 @@ export const MainLayout: React.FC = () => {
             message: (
                 <span>Are you sure you want to permanently delete <strong>{characterName}</strong>? All chats involving this character and all associated knowledge files will also be permanently deleted. This action cannot be undone.</span>
             ),
-            onConfirm: () => {
+            onConfirm: async () => {
                 const characterToDelete = appData.characters.find(c => c.id === characterId);
-                
-                if (characterToDelete?.ragSources && characterToDelete.ragSources.length > 0) {
-                    characterToDelete.ragSources.forEach(async (source) => {
-                        await ragService.deleteSource(source.id);
-                    });
-                    logger.log(`Deleted all knowledge sources for character: ${characterName}`);
-                }
-
                 const updatedCharacters = appData.characters.filter(c => c.id !== characterId);
                 const updatedSessions = appData.chatSessions.filter(s => !s.characterIds.includes(characterId));
                 
@@ -365,6 +397,19 @@ export const MainLayout: React.FC = () => {
                     setSelectedChatId(updatedSessions.length > 0 ? updatedSessions[0].id : null);
                 }
                 setConfirmationRequest(null);
+
+                try {
+                    for (const source of characterToDelete?.ragSources || []) {
+                        await ragService.deleteSource(source.id);
+                    }
+                    // Files whose embedding never finished are not in ragSources yet, only in their jobs.
+                    for (const job of await ragService.getPendingEmbeddingJobs(characterId)) {
+                        await ragService.discardEmbeddingJob(job);
+                    }
+                    logger.log(`Deleted all knowledge sources for character: ${characterName}`);
+                } catch (error) {
+                    logger.error(`Failed to delete the knowledge files of "${characterName}":`, error);
+                }
             },
             onCancel: () => setConfirmationRequest(null)
         });
@@ -398,17 +443,24 @@ export const MainLayout: React.FC = () => {
         });
     };
 
-    const handleCreateChat = (name: string, characterIds: string[], lorebookIds: string[]) => {
-        const messages: Message[] = [];
+    const handleCreateChat = (name: string, characterIds: string[], lorebookIds: string[], knowledgeBaseIds: string[], { loreTokenBudget, greetingIndex = 0, personaId }: NewChatOptions = {}) => {
+        let opening: Pick<ChatSession, 'messages' | 'messageTree'> = { messages: [] };
         if (characterIds.length === 1) {
             const character = appData.characters.find(c => c.id === characterIds[0]);
-            if (character && character.firstMessage) {
-                messages.push({
+            const greetings = character ? messageTreeService.getGreetings(character) : [];
+            if (character && greetings.length > 0) {
+                // Every greeting is kept as an alternative the user can swipe to. Macros are filled in
+                // once, with the persona the chat starts with.
+                const persona = personaService.resolvePersona(appData.personas || [], { personaId }, appData.defaultPersonaId);
+                // Messages are told apart by their timestamp (DOM ids, signature checks), so each greeting gets its own.
+                const createdAt = Date.now();
+                opening = messageTreeService.startWithAlternatives(greetings.map((greeting, i) => ({
+                    id: crypto.randomUUID(),
                     role: 'model',
-                    content: character.firstMessage.replace(/{{user}}/g, 'You'),
-                    timestamp: new Date().toISOString(),
+                    content: applyMacros(greeting, { char: character.name, user: persona?.name, persona: persona?.description }),
+                    timestamp: new Date(createdAt + i).toISOString(),
                     characterId: character.id
-                });
+                })), greetingIndex);
             }
         }
 
@@ -416,9 +468,12 @@ export const MainLayout: React.FC = () => {
             id: crypto.randomUUID(),
             name,
             characterIds,
-            messages,
+            ...opening,
             uiSettings: {},
             lorebookIds,
+            knowledgeBaseIds,
+            ...(loreTokenBudget !== undefined ? { loreTokenBudget } : {}),
+            ...(personaId ? { personaId } : {}),
         };
         const updatedSessions = [...appData.chatSessions, newSession];
         const updatedData = { ...appData, chatSessions: updatedSessions };
@@ -513,9 +568,8 @@ export const MainLayout: React.FC = () => {
         });
     }, [persistData]);
 
-    const triggerDownload = (filename: string, data: object) => {
-        const jsonString = JSON.stringify(data, null, 2);
-        const blob = new Blob([jsonString], { type: 'application/json' });
+    const triggerDownload = (filename: string, data: object | Blob) => {
+        const blob = data instanceof Blob ? data : new Blob([JSON.stringify(data, null, 2)], { type: 'application/json' });
         const url = URL.createObjectURL(blob);
         const a = document.createElement('a');
         a.href = url;
@@ -531,7 +585,7 @@ export const MainLayout: React.FC = () => {
             const dataToExport = {
                 spec: 'ai_nexus_backup',
                 version: '1.0',
-                data: appData
+                data: { ...appData, chatSessions: appData.chatSessions.map(messageTreeService.packMessageTree) }
             };
             const timestamp = new Date().toISOString().split('T')[0];
             const filename = `ai-nexus-backup-${timestamp}.json`;
@@ -547,8 +601,9 @@ export const MainLayout: React.FC = () => {
         const character = appData.characters.find(c => c.id === characterId);
         if (character) {
             try {
-                const card = await compatibilityService.nexusToV2(character);
-                const filename = `${character.name.replace(/[^a-z0-9]/gi, '_').toLowerCase()}.json`;
+                const lorebooks = (character.lorebookIds || []).map(id => appData.lorebooks?.find(lb => lb.id === id)).filter(Boolean) as Lorebook[];
+                const card = await compatibilityService.nexusToPngCard(character, lorebooks);
+                const filename = `${character.name.replace(/[^a-z0-9]/gi, '_').toLowerCase()}.png`;
                 triggerDownload(filename, card);
                 logger.log(`Exported character: ${character.name}`, { filename });
             } catch (error) {
@@ -562,7 +617,8 @@ export const MainLayout: React.FC = () => {
         const session = appData.chatSessions.find(s => s.id === sessionId);
         if (session) {
             const filename = `${session.name.replace(/[^a-z0-9]/gi, '_').toLowerCase()}_chat.json`;
-            triggerDownload(filename, session);
+            // Export the whole conversation tree so alternative replies survive a round trip.
+            triggerDownload(filename, messageTreeService.packMessageTree(session));
             logger.log(`Exported chat: ${session.name}`, { filename });
         }
     };
@@ -572,6 +628,8 @@ export const MainLayout: React.FC = () => {
         if (!file) return;
 
         logger.log(`Starting data import from file: ${file.name}`);
+        // Character cards are usually shared as PNG images with the card embedded.
+        const isPngFile = file.type === 'image/png' || /\.png$/i.test(file.name);
         const reader = new FileReader();
 
         reader.onerror = (error) => {
@@ -582,9 +640,18 @@ export const MainLayout: React.FC = () => {
         reader.onload = async (e) => {
             logger.log("File has been loaded into memory. Processing content...");
             try {
-                const text = e.target?.result as string;
-                if (!text) throw new Error("File content is empty.");
-                const data = JSON.parse(text);
+                let data: any;
+                let cardImage: string | undefined;
+                if (isPngFile) {
+                    const pngCard = compatibilityService.readPngCard(new Uint8Array(e.target?.result as ArrayBuffer));
+                    if (!pngCard) throw new Error("This PNG image does not contain a character card.");
+                    data = pngCard.card;
+                    cardImage = pngCard.imageDataUrl;
+                } else {
+                    const text = e.target?.result as string;
+                    if (!text) throw new Error("File content is empty.");
+                    data = JSON.parse(text);
+                }
 
                 const isValidAppData = (d: any): d is AppData => (
                     typeof d === 'object' && d !== null &&
@@ -626,25 +693,26 @@ export const MainLayout: React.FC = () => {
                 }
 
                 // 3. Character Card (V2 compatible or Nexus-exported)
-                const importResult = compatibilityService.v2ToNexus(data);
+                const importResult = compatibilityService.v2ToNexus(data, cardImage);
                 if (importResult) {
                     logger.log("Detected Character Card format.");
-                    const { character, lorebook } = importResult;
+                    const { character, lorebooks } = importResult;
                     
                     let updatedCharacters = [...appData.characters, character];
                     let updatedLorebooks = appData.lorebooks || [];
                     let alertMessage = `Character "${character.name}" imported successfully.`;
 
-                    if (lorebook) {
-                        updatedLorebooks = [...updatedLorebooks, lorebook];
-                        alertMessage += ` A new Lorebook "${lorebook.name}" was also created.`;
+                    if (lorebooks.length > 0) {
+                        updatedLorebooks = [...updatedLorebooks, ...lorebooks];
+                        alertMessage += ` ${lorebooks.length === 1 ? `A new Lorebook "${lorebooks[0].name}" was` : `${lorebooks.length} new Lorebooks were`} also created.`;
                     }
 
-                    const updatedData = { ...appData, characters: updatedCharacters, lorebooks: updatedLorebooks };
+                    // Cards exported by older versions carry their API settings inline.
+                    const { data: updatedData } = connectionProfileService.migrateInlineConnections({ ...appData, characters: updatedCharacters, lorebooks: updatedLorebooks });
                     setAppData(updatedData);
                     await persistData(updatedData);
 
-                    logger.log(`Imported character: ${character.name}${lorebook ? ' with auto-generated lorebook' : ''}`);
+                    logger.log(`Imported character: ${character.name}${lorebooks.length > 0 ? ` with ${lorebooks.length} lorebook(s)` : ''}`);
                     alert(alertMessage);
                     return;
                 }
@@ -668,7 +736,7 @@ export const MainLayout: React.FC = () => {
                 // 5. Chat Session
                 if (data.id && Array.isArray(data.messages) && Array.isArray(data.characterIds)) {
                     logger.log("Detected Chat Session format.");
-                    const newSession: ChatSession = { ...data, id: crypto.randomUUID() };
+                    const newSession: ChatSession = { ...messageTreeService.unpackMessageTree(data), id: crypto.randomUUID() };
                     const updatedData = { ...appData, chatSessions: [...appData.chatSessions, newSession] };
                     setAppData(updatedData);
                     await persistData(updatedData);
@@ -689,7 +757,11 @@ export const MainLayout: React.FC = () => {
             }
         };
 
-        reader.readAsText(file);
+        if (isPngFile) {
+            reader.readAsArrayBuffer(file);
+        } else {
+            reader.readAsText(file);
+        }
     };
 
     const handlePluginsUpdate = (updatedPlugins: Plugin[]) => {
@@ -704,7 +776,91 @@ export const MainLayout: React.FC = () => {
         persistData(updatedData);
     };
 
-    const handleMemoryImport = (fromSessionId: string, toSessionId: string) => {
+    const handleKnowledgeBasesUpdate = (updatedKnowledgeBases: KnowledgeBase[]) => {
+        const updatedData = { ...appData, knowledgeBases: updatedKnowledgeBases };
+        setAppData(updatedData);
+        persistData(updatedData);
+    };
+
+    // A file embedded into a knowledge base that was never saved saves the knowledge base with it.
+    const handleKnowledgeBaseSourceUpdate = useCallback((knowledgeBase: KnowledgeBase, source: RagSource) => {
+        setAppData(prevAppData => {
+            const knowledgeBases = prevAppData.knowledgeBases || [];
+            const updatedKnowledgeBases = knowledgeBases.some(kb => kb.id === knowledgeBase.id)
+                ? knowledgeBases.map(kb => kb.id === knowledgeBase.id ? { ...kb, sources: upsertSource(kb.sources, source) } : kb)
+                : [...knowledgeBases, { ...knowledgeBase, sources: upsertSource(knowledgeBase.sources, source) }];
+            const updatedData = { ...prevAppData, knowledgeBases: updatedKnowledgeBases };
+            persistData(updatedData);
+            return updatedData;
+        });
+    }, [persistData]);
+
+    // Removes the knowledge base's files and detaches it from every character and chat.
+    const handleDeleteKnowledgeBase = async (knowledgeBaseId: string) => {
+        const knowledgeBase = appData.knowledgeBases?.find(kb => kb.id === knowledgeBaseId);
+        if (!knowledgeBase) return;
+        const detach = <T extends { knowledgeBaseIds?: string[] }>(item: T): T =>
+            item.knowledgeBaseIds?.includes(knowledgeBaseId) ? { ...item, knowledgeBaseIds: item.knowledgeBaseIds.filter(id => id !== knowledgeBaseId) } : item;
+        const updatedData = {
+            ...appData,
+            knowledgeBases: (appData.knowledgeBases || []).filter(kb => kb.id !== knowledgeBaseId),
+            characters: appData.characters.map(detach),
+            chatSessions: appData.chatSessions.map(detach),
+        };
+        setAppData(updatedData);
+        persistData(updatedData);
+        try {
+            for (const source of knowledgeBase.sources) {
+                await ragService.deleteSource(source.id);
+            }
+            for (const job of await ragService.getPendingEmbeddingJobs(knowledgeBaseId)) {
+                await ragService.discardEmbeddingJob(job);
+            }
+            logger.log(`Deleted knowledge base "${knowledgeBase.name}" and its ${knowledgeBase.sources.length} file(s).`);
+        } catch (error) {
+            logger.error(`Failed to delete the files of knowledge base "${knowledgeBase.name}":`, error);
+        }
+    };
+
+    const handleConnectionProfilesUpdate = (updatedProfiles: ConnectionProfile[]) => {
+        const updatedData = { ...appData, connectionProfiles: updatedProfiles };
+        setAppData(updatedData);
+        persistData(updatedData);
+    };
+
+    const handleGenerationPresetsUpdate = (updatedPresets: GenerationPreset[]) => {
+        const updatedData = { ...appData, generationPresets: updatedPresets };
+        setAppData(updatedData);
+        persistData(updatedData);
+    };
+
+    const handlePersonasUpdate = (updatedPersonas: Persona[]) => {
+        // The first persona becomes the default, so creating one is enough to be called by name.
+        const defaultPersonaId = updatedPersonas.some(p => p.id === appData.defaultPersonaId) ? appData.defaultPersonaId : updatedPersonas[0]?.id;
+        const updatedData = { ...appData, personas: updatedPersonas, defaultPersonaId };
+        setAppData(updatedData);
+        persistData(updatedData);
+    };
+
+    const handleSetDefaultPersona = (personaId: string) => {
+        const updatedData = { ...appData, defaultPersonaId: personaId };
+        setAppData(updatedData);
+        persistData(updatedData);
+    };
+
+    const handleDeletePersona = (personaId: string) => {
+        const updatedData = personaService.removePersona(appData, personaId);
+        setAppData(updatedData);
+        persistData(updatedData);
+    };
+
+    const handleDeleteConnectionProfile = (profileId: string) => {
+        const updatedData = connectionProfileService.removeConnectionProfile(appData, profileId);
+        setAppData(updatedData);
+        persistData(updatedData);
+    };
+
+    const handleMemoryImport = async (fromSessionId: string, toSessionId: string) => {
         const fromSession = appData.chatSessions.find(s => s.id === fromSessionId);
         const toSession = appData.chatSessions.find(s => s.id === toSessionId);
 
@@ -717,19 +873,28 @@ export const MainLayout: React.FC = () => {
         let charactersToUpdate: Character[] = [];
         let memoriesImported = false;
 
-        toSessionParticipants.forEach(toChar => {
-            if (fromSession.characterIds.includes(toChar.id)) {
-                const fromChar = appData.characters.find(c => c.id === toChar.id);
-                if (fromChar && fromChar.memory && fromChar.memory.trim() !== 'No memories yet.') {
-                    const updatedMemory = `${toChar.memory || ''}\n\n[Imported memory from chat "${fromSession.name}"]:\n${fromChar.memory}`;
-                    charactersToUpdate.push({ ...toChar, memory: updatedMemory.trim() });
-                    memoriesImported = true;
-                }
-            }
-        });
+        // Memories saved with /memorize already belong to the character in every chat, so what is
+        // missing is the story of the other chat itself: its rolling summary becomes a memory entry.
+        const summaryText = fromSession.summary?.text;
+        for (const toChar of toSessionParticipants) {
+            if (!summaryText || !fromSession.characterIds.includes(toChar.id)) continue;
+            const migrated = memoryService.migrateLegacyMemory(toChar);
+            const alreadyImported = (migrated.memories || []).some(m => m.sourceSessionId === fromSession.id && m.content.includes(summaryText));
+            if (alreadyImported) continue;
+
+            const entry = memoryService.createMemoryEntry(`Events of "${fromSession.name}": ${summaryText}`, {
+                importance: 4,
+                sourceSessionId: fromSession.id,
+            });
+            const [embedded] = await memoryService.embedMissingMemories([entry], memoryService.getMemoryEmbeddingConfig(toChar));
+            charactersToUpdate.push({ ...migrated, memories: [...(migrated.memories || []), embedded] });
+            memoriesImported = true;
+        }
         
         if (!memoriesImported) {
-             alert(`No shared characters with memories found in "${fromSession.name}".`);
+             alert(summaryText
+                ? `The shared characters already remember "${fromSession.name}".`
+                : `"${fromSession.name}" has no story summary yet. Open it and use /summarize first.`);
              return;
         }
 
@@ -739,6 +904,7 @@ export const MainLayout: React.FC = () => {
         });
         
         const narratorMessage: Message = {
+            id: crypto.randomUUID(),
             role: 'narrator',
             content: `Memory from "${fromSession.name}" has been integrated.`,
             timestamp: new Date().toISOString()
@@ -753,7 +919,7 @@ export const MainLayout: React.FC = () => {
         logger.log(`Memory imported from session "${fromSession.name}" to "${toSession.name}"`);
     };
     
-    const triggerPluginHook = useCallback(async <T, R>(hookName: string, data: T): Promise<R> => {
+    const triggerPluginHook = useCallback(async <T, R>(hookName: string, data: T, signal?: AbortSignal): Promise<R> => {
         let processedData: any = data;
         const enabledPlugins = appData.plugins?.filter(p => p.enabled) || [];
 
@@ -762,15 +928,23 @@ export const MainLayout: React.FC = () => {
             processedData = { ...processedData, settings: imagePlugin?.settings || {} };
         }
 
-        for (const plugin of enabledPlugins) {
-            const sandbox = sandboxes.get(plugin.id);
-            if (sandbox) {
-                try {
-                    processedData = await sandbox.executeHook(hookName, processedData);
-                } catch (error) {
-                    logger.error(`Error in plugin '${plugin.name}' during hook '${hookName}':`, error);
+        activeHookSignal.current = signal;
+        try {
+            for (const plugin of enabledPlugins) {
+                if (signal?.aborted) break;
+                const sandbox = sandboxes.get(plugin.id);
+                if (sandbox) {
+                    try {
+                        processedData = await sandbox.executeHook(hookName, processedData);
+                    } catch (error) {
+                        logger.error(`Error in plugin '${plugin.name}' during hook '${hookName}':`, error);
+                    }
                 }
             }
+        } finally {
+            if (activeHookSignal.current === signal) {
+                activeHookSignal.current = undefined;
+            }
         }
         return processedData as R;
     }, [appData.plugins, sandboxes]);
@@ -816,20 +990,56 @@ export const MainLayout: React.FC = () => {
                     onSave={handleSaveCharacter} 
                     onCancel={() => setActiveView('chat')}
                     onDeleteRagSource={handleDeleteRagSource}
+                    onRagSourceUpdate={handleRagSourceUpdate}
+                    knowledgeBases={appData.knowledgeBases || []}
+                    lorebooks={appData.lorebooks || []}
                     onGenerateImage={handleGenerateImage}
+                    chatSessions={appData.chatSessions}
+                    connectionProfiles={appData.connectionProfiles || []}
+                    generationPresets={appData.generationPresets || []}
+                    onGenerationPresetsUpdate={handleGenerationPresetsUpdate}
                 />;
             case 'plugins':
                 return <PluginManager
                     plugins={appData.plugins || []}
+                    connectionProfiles={appData.connectionProfiles || []}
                     onPluginsUpdate={handlePluginsUpdate}
                     onSetConfirmation={setConfirmationRequest}
                 />;
+            case 'connections':
+                return <ConnectionProfileManager
+                    profiles={appData.connectionProfiles || []}
+                    characters={appData.characters}
+                    plugins={appData.plugins || []}
+                    onProfilesUpdate={handleConnectionProfilesUpdate}
+                    onDeleteProfile={handleDeleteConnectionProfile}
+                    onSetConfirmation={setConfirmationRequest}
+                />;
+            case 'personas':
+                return <PersonaManager
+                    personas={appData.personas || []}
+                    defaultPersonaId={appData.defaultPersonaId}
+                    chatSessions={appData.chatSessions}
+                    onPersonasUpdate={handlePersonasUpdate}
+                    onSetDefault={handleSetDefaultPersona}
+                    onDeletePersona={handleDeletePersona}
+                    onSetConfirmation={setConfirmationRequest}
+                />;
             case 'lorebooks':
                 return <LorebookManager
                     lorebooks={appData.lorebooks || []}
                     onLorebooksUpdate={handleLorebooksUpdate}
                     onSetConfirmation={setConfirmationRequest}
                 />;
+            case 'knowledge-bases':
+                return <KnowledgeBaseManager
+                    knowledgeBases={appData.knowledgeBases || []}
+                    connectionProfiles={appData.connectionProfiles || []}
+                    onKnowledgeBasesUpdate={handleKnowledgeBasesUpdate}
+                    onSourceUpdate={handleKnowledgeBaseSourceUpdate}
+                    onDeleteKnowledgeBase={handleDeleteKnowledgeBase}
+                    onSetConfirmation={setConfirmationRequest}
+                />;
             case 'chat':
             default:
                 return selectedChat ? (
@@ -839,6 +1049,9 @@ export const MainLayout: React.FC = () => {
                         allCharacters={appData.characters}
                         allChatSessions={appData.chatSessions}
                         allLorebooks={appData.lorebooks || []}
+                        allKnowledgeBases={appData.knowledgeBases || []}
+                        allPersonas={appData.personas || []}
+                        defaultPersonaId={appData.defaultPersonaId}
                         userKeys={appData.userKeys}
                         onSessionUpdate={handleSessionUpdate}
                         onTriggerHook={triggerPluginHook}
@@ -922,7 +1135,7 @@ export const MainLayout: React.FC = () => {
             <div className="absolute inset-0 bg-background-primary/80 backdrop-blur-sm"></div>
             {isLogViewerVisible && <LogViewer onClose={() => setIsLogViewerVisible(false)} />}
             {isHelpVisible && <HelpModal onClose={() => setIsHelpVisible(false)} />}
-            {isChatModalVisible && <ChatSelectionModal characters={appData.characters.filter(c => !c.isArchived)} lorebooks={appData.lorebooks || []} onClose={() => setIsChatModalVisible(false)} onCreateChat={handleCreateChat}/>}
+            {isChatModalVisible && <ChatSelectionModal characters={appData.characters.filter(c => !c.isArchived)} lorebooks={appData.lorebooks || []} knowledgeBases={appData.knowledgeBases || []} personas={appData.personas || []} defaultPersonaId={appData.defaultPersonaId} onClose={() => setIsChatModalVisible(false)} onCreateChat={handleCreateChat}/>}
             {isAppearanceModalVisible && (
                 <AppearanceModal 
                     settings={selectedChat?.uiSettings || {}}
@@ -951,17 +1164,26 @@ export const MainLayout: React.FC = () => {
                     </button>
                     <button onClick={() => { handlePanelToggle('lorebooks'); }} title="Lorebooks" className={`p-2 rounded-lg ${activePanel === 'lorebooks' ? 'bg-primary-600 text-text-accent' : 'text-text-secondary hover:bg-background-tertiary'}`}>
                         <GlobeIcon className="w-6 h-6" />
+                    </button>
+                    <button onClick={() => { setActiveView('personas'); setActivePanel('none'); }} title="Personas" className={`p-2 rounded-lg ${activeView === 'personas' ? 'bg-primary-600 text-text-accent' : 'text-text-secondary hover:bg-background-tertiary'}`}>
+                        <UserIcon className="w-6 h-6" />
+                    </button>
+                    <button onClick={() => { setActiveView('knowledge-bases'); setActivePanel('none'); }} title="Knowledge Bases" className={`p-2 rounded-lg ${activeView === 'knowledge-bases' ? 'bg-primary-600 text-text-accent' : 'text-text-secondary hover:bg-background-tertiary'}`}>
+                        <DatabaseIcon className="w-6 h-6" />
                     </button>
                      <button onClick={() => { setActiveView('plugins'); setActivePanel('none'); }} title="Plugins" className={`p-2 rounded-lg ${activeView === 'plugins' ? 'bg-primary-600 text-text-accent' : 'text-text-secondary hover:bg-background-tertiary'}`}>
                         <CodeIcon className="w-6 h-6" />
                     </button>
+                    <button onClick={() => { setActiveView('connections'); setActivePanel('none'); }} title="Connection Profiles" className={`p-2 rounded-lg ${activeView === 'connections' ? 'bg-primary-600 text-text-accent' : 'text-text-secondary hover:bg-background-tertiary'}`}>
+                        <CogIcon className="w-6 h-6" />
+                    </button>
 
                     <div className="w-8 border-t border-border-neutral my-2"></div>
                     
                     <button onClick={() => setIsAppearanceModalVisible(true)} title="Appearance Settings" className="p-2 rounded-lg text-text-secondary hover:bg-background-tertiary">
                         <PaletteIcon className="w-6 h-6" />
                     </button>
-                    <input type="file" ref={fileInputRef} onChange={handleImportData} accept=".json" className="hidden" />
+                    <input type="file" ref={fileInputRef} onChange={handleImportData} accept=".json,.png" className="hidden" />
                     <button onClick={handleSaveBackup} title="Save Full Backup" className="p-2 rounded-lg text-text-secondary hover:bg-background-tertiary">
                         <DownloadIcon className="w-6 h-6" />
                     </button>
@@ -0,0 +1,221 @@
+import React, { useState, useMemo } from 'react';
+import { ChatSession, EmbeddingConfig, MemoryEntry } from '../types.ts';
+import * as memoryService from '../services/memoryService.ts';
+import { getEmbeddingModelId } from '../services/embeddingService.ts';
+import { logger } from '../services/loggingService.ts';
+import { PlusIcon } from './icons/PlusIcon.tsx';
+import { TrashIcon } from './icons/TrashIcon.tsx';
+import { EditIcon } from './icons/EditIcon.tsx';
+import { BookmarkIcon } from './icons/BookmarkIcon.tsx';
+import { SpinnerIcon } from './icons/SpinnerIcon.tsx';
+
+interface MemoryBrowserModalProps {
+  characterName: string;
+  memories: MemoryEntry[];
+  embeddingConfig: EmbeddingConfig;
+  chatSessions: ChatSession[];
+  onSave: (memories: MemoryEntry[]) => void;
+  onClose: () => void;
+}
+
+type SortOrder = 'newest' | 'oldest' | 'importance';
+
+const inputClassName = "bg-background-primary border border-border-strong rounded-md py-1 px-2 text-text-primary text-sm focus:outline-none focus:ring-1 focus:ring-primary-500";
+
+export const MemoryBrowserModal: React.FC<MemoryBrowserModalProps> = ({ characterName, memories, embeddingConfig, chatSessions, onSave, onClose }) => {
+  const [entries, setEntries] = useState<MemoryEntry[]>(memories);
+  const [search, setSearch] = useState('');
+  const [sortOrder, setSortOrder] = useState<SortOrder>('newest');
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [draft, setDraft] = useState({ content: '', importance: 3 });
+  const [isSaving, setIsSaving] = useState(false);
+
+  const sessionNames = useMemo(() => new Map(chatSessions.map(s => [s.id, s.name])), [chatSessions]);
+  const embeddingModel = useMemo(() => getEmbeddingModelId(embeddingConfig), [embeddingConfig]);
+
+  const visibleEntries = useMemo(() => {
+    const query = search.trim().toLowerCase();
+    const filtered = query ? entries.filter(e => e.content.toLowerCase().includes(query)) : entries;
+    return [...filtered].sort((a, b) => {
+        if (a.pinned !== b.pinned) return a.pinned ? -1 : 1;
+        if (sortOrder === 'importance' && a.importance !== b.importance) return b.importance - a.importance;
+        return sortOrder === 'oldest' ? a.createdAt.localeCompare(b.createdAt) : b.createdAt.localeCompare(a.createdAt);
+    });
+  }, [entries, search, sortOrder]);
+
+  const updateEntry = (id: string, changes: Partial<MemoryEntry>) => {
+    setEntries(prev => prev.map(e => e.id === id ? { ...e, ...changes } : e));
+  };
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+        const next = new Set(prev);
+        if (next.has(id)) next.delete(id); else next.add(id);
+        return next;
+    });
+  };
+
+  const handleAdd = () => {
+    const entry = memoryService.createMemoryEntry('');
+    setEntries(prev => [entry, ...prev]);
+    setEditingId(entry.id);
+    setDraft({ content: '', importance: entry.importance });
+  };
+
+  const handleStartEdit = (entry: MemoryEntry) => {
+    setEditingId(entry.id);
+    setDraft({ content: entry.content, importance: entry.importance });
+  };
+
+  const handleSaveEdit = (entry: MemoryEntry) => {
+    if (!draft.content.trim()) return;
+    const contentChanged = draft.content.trim() !== entry.content;
+    updateEntry(entry.id, {
+        content: draft.content.trim(),
+        importance: draft.importance,
+        updatedAt: new Date().toISOString(),
+        embedding: contentChanged ? undefined : entry.embedding,
+        embeddingModel: contentChanged ? undefined : entry.embeddingModel,
+    });
+    setEditingId(null);
+  };
+
+  const handleCancelEdit = (entry: MemoryEntry) => {
+    // A freshly added entry that was never filled in is discarded.
+    if (!entry.content) {
+        setEntries(prev => prev.filter(e => e.id !== entry.id));
+    }
+    setEditingId(null);
+  };
+
+  const handleForget = (id: string) => {
+    setEntries(prev => prev.filter(e => e.id !== id));
+    setSelectedIds(prev => {
+        const next = new Set(prev);
+        next.delete(id);
+        return next;
+    });
+  };
+
+  const handleMerge = () => {
+    const toMerge = entries.filter(e => selectedIds.has(e.id));
+    if (toMerge.length < 2) return;
+    const merged = memoryService.mergeMemoryEntries(toMerge);
+    setEntries(prev => [merged, ...prev.filter(e => !selectedIds.has(e.id))]);
+    setSelectedIds(new Set());
+    logger.log(`Merged ${toMerge.length} memories of "${characterName}".`);
+  };
+
+  const handleSave = async () => {
+    setIsSaving(true);
+    try {
+        const embedded = await memoryService.embedMissingMemories(entries.filter(e => e.content), embeddingConfig);
+        onSave(embedded);
+    } finally {
+        setIsSaving(false);
+    }
+  };
+
+  const missingEmbeddings = entries.filter(e => e.content && !memoryService.isEmbeddedWith(e, embeddingModel)).length;
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-75 z-40 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-background-secondary rounded-lg shadow-xl w-full max-w-3xl h-full max-h-[90vh] flex flex-col" onClick={e => e.stopPropagation()}>
+        <header className="p-4 border-b border-border-neutral flex justify-between items-center flex-shrink-0">
+          <h2 className="text-xl font-bold text-text-primary">Memories of {characterName}</h2>
+          <button type="button" onClick={onClose} className="text-text-secondary hover:text-text-primary transition-colors text-2xl font-bold leading-none p-1">&times;</button>
+        </header>
+
+        <div className="p-4 border-b border-border-neutral flex flex-wrap items-center gap-2 flex-shrink-0">
+            <input
+                type="text"
+                value={search}
+                onChange={(e) => setSearch(e.target.value)}
+                // The browser is opened from inside the character form; keep Enter from submitting it.
+                onKeyDown={(e) => { if (e.key === 'Enter') e.preventDefault(); }}
+                placeholder="Search memories..."
+                className={`${inputClassName} flex-1 min-w-[10rem]`}
+            />
+            <select value={sortOrder} onChange={(e) => setSortOrder(e.target.value as SortOrder)} className={inputClassName}>
+                <option value="newest">Newest first</option>
+                <option value="oldest">Oldest first</option>
+                <option value="importance">Most important</option>
+            </select>
+            <button type="button" onClick={handleMerge} disabled={selectedIds.size < 2} className="py-1 px-3 rounded-md text-sm text-text-primary bg-background-tertiary hover:bg-opacity-80 disabled:opacity-50">
+                Merge{selectedIds.size > 1 ? ` (${selectedIds.size})` : ''}
+            </button>
+            <button type="button" onClick={handleAdd} title="Add Memory" className="p-1.5 rounded-md text-text-secondary hover:bg-background-tertiary hover:text-text-primary">
+                <PlusIcon className="w-5 h-5" />
+            </button>
+        </div>
+
+        <div className="flex-1 overflow-y-auto p-4 space-y-2">
+            {visibleEntries.length === 0 ? (
+                <p className="text-text-secondary text-center py-8">{entries.length === 0 ? 'No memories yet. Use /memorize in a chat or click + to add one.' : 'No memories match your search.'}</p>
+            ) : visibleEntries.map(entry => (
+                <div key={entry.id} className={`bg-background-primary p-3 rounded-md border ${entry.pinned ? 'border-primary-500' : 'border-border-neutral'} group`}>
+                    {editingId === entry.id ? (
+                        <div className="space-y-2">
+                            <textarea
+                                value={draft.content}
+                                onChange={(e) => setDraft(prev => ({ ...prev, content: e.target.value }))}
+                                rows={3}
+                                className={`${inputClassName} w-full`}
+                                placeholder="What should the character remember?"
+                                autoFocus
+                            />
+                            <div className="flex items-center justify-between">
+                                <label className="text-xs text-text-secondary flex items-center space-x-2">
+                                    <span>Importance</span>
+                                    <select value={draft.importance} onChange={(e) => setDraft(prev => ({ ...prev, importance: parseInt(e.target.value, 10) }))} className={inputClassName}>
+                                        {[1, 2, 3, 4, 5].map(n => <option key={n} value={n}>{n}</option>)}
+                                    </select>
+                                </label>
+                                <div className="space-x-2 text-xs">
+                                    <button type="button" onClick={() => handleCancelEdit(entry)} className="py-1 px-2 rounded-md text-text-primary bg-background-tertiary hover:bg-opacity-80">Cancel</button>
+                                    <button type="button" onClick={() => handleSaveEdit(entry)} disabled={!draft.content.trim()} className="py-1 px-2 rounded-md text-text-accent bg-primary-600 hover:bg-primary-500 disabled:opacity-50">Done</button>
+                                </div>
+                            </div>
+                        </div>
+                    ) : (
+                        <div className="flex items-start space-x-3">
+                            <input type="checkbox" checked={selectedIds.has(entry.id)} onChange={() => toggleSelected(entry.id)} className="mt-1" title="Select for merging" />
+                            <div className="flex-1 min-w-0">
+                                <p className="text-sm text-text-primary whitespace-pre-wrap">{entry.content}</p>
+                                <p className="text-xs text-text-secondary mt-1">
+                                    {new Date(entry.createdAt).toLocaleString()}
+                                    {' · '}Importance {entry.importance}/5
+                                    {entry.sourceSessionId && ` · from "${sessionNames.get(entry.sourceSessionId) || 'a deleted chat'}"`}
+                                    {!memoryService.isEmbeddedWith(entry, embeddingModel) && (entry.embedding?.length ? ' · indexed with another model' : ' · not indexed')}
+                                </p>
+                            </div>
+                            <div className="flex items-center space-x-1 flex-shrink-0">
+                                <button type="button" onClick={() => updateEntry(entry.id, { pinned: !entry.pinned || undefined })} title={entry.pinned ? 'Unpin' : 'Pin (always include in prompts)'} className={`p-1 rounded ${entry.pinned ? 'text-primary-500' : 'text-text-secondary hover:text-text-primary'}`}>
+                                    <BookmarkIcon className="w-4 h-4" />
+                                </button>
+                                <button type="button" onClick={() => handleStartEdit(entry)} title="Edit" className="p-1 rounded text-text-secondary hover:text-text-primary"><EditIcon className="w-4 h-4" /></button>
+                                <button type="button" onClick={() => handleForget(entry.id)} title="Forget" className="p-1 rounded text-text-secondary hover:text-accent-red"><TrashIcon className="w-4 h-4" /></button>
+                            </div>
+                        </div>
+                    )}
+                </div>
+            ))}
+        </div>
+
+        <footer className="p-4 border-t border-border-neutral flex justify-between items-center">
+            <p className="text-xs text-text-secondary">
+                {entries.length} memories{missingEmbeddings > 0 ? ` · ${missingEmbeddings} will be indexed on save` : ''}
+            </p>
+            <div className="flex space-x-3">
+                <button type="button" onClick={onClose} className="py-2 px-4 rounded-md text-text-primary bg-background-tertiary hover:bg-opacity-80">Cancel</button>
+                <button type="button" onClick={handleSave} disabled={isSaving || editingId !== null} className="flex items-center space-x-2 py-2 px-4 rounded-md text-text-accent bg-primary-600 hover:bg-primary-500 disabled:opacity-50">
+                    {isSaving && <SpinnerIcon className="w-4 h-4 animate-spin" />}
+                    <span>{isSaving ? 'Indexing...' : 'Apply'}</span>
+                </button>
+            </div>
+        </footer>
+      </div>
+    </div>
+  );
+};
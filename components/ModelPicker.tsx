@@ -0,0 +1,131 @@
+import React, { useState, useEffect, useMemo } from 'react';
+import { ModelCapability, ModelInfo } from '../types.ts';
+import * as modelDiscoveryService from '../services/modelDiscoveryService.ts';
+import { logger } from '../services/loggingService.ts';
+import { RefreshIcon } from './icons/RefreshIcon.tsx';
+import { SpinnerIcon } from './icons/SpinnerIcon.tsx';
+
+interface ModelPickerProps {
+  id?: string;
+  connection: modelDiscoveryService.ModelConnection;
+  value: string;
+  onChange: (model: string) => void;
+  placeholder?: string;
+  className?: string;
+  preferredCapability?: ModelCapability; // Models with this capability are listed first
+}
+
+const formatContextLength = (tokens: number): string =>
+    tokens >= 1000000 ? `${+(tokens / 1048576).toFixed(1)}M` : `${Math.round(tokens / 1024)}K`;
+
+/**
+ * A text input for a model name with a searchable list of the models the connection offers.
+ * Any name can still be typed in, for servers that cannot list their models.
+ */
+export const ModelPicker: React.FC<ModelPickerProps> = ({ id, connection, value, onChange, placeholder, className, preferredCapability }) => {
+  const [models, setModels] = useState<ModelInfo[] | null>(null);
+  const [isOpen, setIsOpen] = useState(false);
+  const [isLoading, setIsLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  // A different server, endpoint or key may offer different models.
+  useEffect(() => {
+    setModels(null);
+    setError(null);
+  }, [connection.service, connection.apiEndpoint, connection.apiKey]);
+
+  const loadModels = async (refresh: boolean) => {
+    setIsLoading(true);
+    setError(null);
+    try {
+        setModels(await modelDiscoveryService.listModels(connection, refresh));
+    } catch (e) {
+        const message = e instanceof Error ? e.message : String(e);
+        logger.warn("Could not list models.", e);
+        setError(message);
+        setModels([]);
+    } finally {
+        setIsLoading(false);
+    }
+  };
+
+  const handleFocus = () => {
+    setIsOpen(true);
+    if (models === null && !isLoading) {
+        loadModels(false);
+    }
+  };
+
+  const visibleModels = useMemo(() => {
+    const query = value.trim().toLowerCase();
+    // Show the full list while the current value is an exact pick, so other models can be chosen.
+    const isExactPick = models?.some(m => m.id === value);
+    const filtered = (models || []).filter(m => isExactPick || !query
+        || m.id.toLowerCase().includes(query) || m.displayName?.toLowerCase().includes(query));
+    if (!preferredCapability) return filtered;
+    return [...filtered].sort((a, b) =>
+        Number(b.capabilities.includes(preferredCapability)) - Number(a.capabilities.includes(preferredCapability)));
+  }, [models, value, preferredCapability]);
+
+  const handleSelect = (model: ModelInfo) => {
+    onChange(model.id);
+    setIsOpen(false);
+  };
+
+  return (
+    <div className="relative">
+        <div className="flex items-center space-x-2">
+            <input
+                id={id}
+                type="text"
+                value={value}
+                onChange={(e) => { onChange(e.target.value); setIsOpen(true); }}
+                onFocus={handleFocus}
+                onBlur={() => setIsOpen(false)}
+                onKeyDown={(e) => { if (e.key === 'Escape') setIsOpen(false); }}
+                className={className}
+                placeholder={placeholder}
+                autoComplete="off"
+            />
+            <button
+                type="button"
+                onClick={() => { setIsOpen(true); loadModels(true); }}
+                disabled={isLoading}
+                title="Reload the model list from the server"
+                className="mt-1 p-2 rounded-md text-text-secondary hover:bg-background-tertiary hover:text-text-primary disabled:opacity-50"
+            >
+                {isLoading ? <SpinnerIcon className="w-4 h-4 animate-spin" /> : <RefreshIcon className="w-4 h-4" />}
+            </button>
+        </div>
+        {isOpen && (isLoading || error || models !== null) && (
+            // onMouseDown keeps the input focused, so the list does not close before a click lands.
+            <div onMouseDown={(e) => e.preventDefault()} className="absolute z-20 mt-1 w-full max-h-64 overflow-y-auto bg-background-primary border border-border-strong rounded-md shadow-lg">
+                {isLoading && <p className="p-2 text-sm text-text-secondary">Loading models...</p>}
+                {!isLoading && error && <p className="p-2 text-sm text-accent-red">{error}</p>}
+                {!isLoading && !error && visibleModels.length === 0 && (
+                    <p className="p-2 text-sm text-text-secondary">{models?.length ? 'No models match. The typed name will be used as is.' : 'The server listed no models.'}</p>
+                )}
+                {!isLoading && visibleModels.map(model => (
+                    <button
+                        key={model.id}
+                        type="button"
+                        onClick={() => handleSelect(model)}
+                        className={`w-full text-left px-3 py-2 hover:bg-background-tertiary ${model.id === value ? 'bg-background-tertiary' : ''}`}
+                    >
+                        <div className="flex items-center justify-between space-x-2">
+                            <span className="text-sm text-text-primary truncate">{model.id}</span>
+                            {model.contextLength && <span className="text-xs text-text-secondary flex-shrink-0">{formatContextLength(model.contextLength)} ctx</span>}
+                        </div>
+                        <div className="flex items-center space-x-1 mt-0.5">
+                            {model.displayName && model.displayName !== model.id && <span className="text-xs text-text-secondary truncate mr-1">{model.displayName}</span>}
+                            {model.capabilities.map(capability => (
+                                <span key={capability} className="text-[10px] uppercase tracking-wide px-1 rounded bg-background-tertiary text-text-secondary">{capability}</span>
+                            ))}
+                        </div>
+                    </button>
+                ))}
+            </div>
+        )}
+    </div>
+  );
+};
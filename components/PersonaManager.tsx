@@ -0,0 +1,196 @@
+import React, { useRef, useState } from 'react';
+import { ChatSession, ConfirmationRequest, Persona } from '../types.ts';
+import * as personaService from '../services/personaService.ts';
+import { logger } from '../services/loggingService.ts';
+import { PlusIcon } from './icons/PlusIcon.tsx';
+import { TrashIcon } from './icons/TrashIcon.tsx';
+import { EditIcon } from './icons/EditIcon.tsx';
+import { UploadIcon } from './icons/UploadIcon.tsx';
+import { UserIcon } from './icons/UserIcon.tsx';
+
+interface PersonaManagerProps {
+  personas: Persona[];
+  defaultPersonaId?: string;
+  chatSessions: ChatSession[];
+  onPersonasUpdate: (personas: Persona[]) => void;
+  onSetDefault: (personaId: string) => void;
+  onDeletePersona: (personaId: string) => void;
+  onSetConfirmation: (request: ConfirmationRequest | null) => void;
+}
+
+const inputClassName = "mt-1 block w-full bg-background-secondary border border-border-strong rounded-md py-2 px-3 text-text-primary focus:outline-none focus:ring-primary-500 focus:border-primary-500";
+
+const PersonaAvatar: React.FC<{ persona: Persona; className: string }> = ({ persona, className }) => persona.avatarUrl
+    ? <img src={persona.avatarUrl} alt={persona.name} className={`${className} rounded-full object-cover flex-shrink-0`} />
+    : <div className={`${className} rounded-full flex-shrink-0 flex items-center justify-center bg-background-tertiary text-text-secondary`}><UserIcon className="w-1/2 h-1/2" /></div>;
+
+const PersonaEditor: React.FC<{
+    persona: Persona;
+    onSave: (persona: Persona) => void;
+    onCancel: () => void;
+}> = ({ persona, onSave, onCancel }) => {
+    const [formState, setFormState] = useState<Persona>(persona);
+    const avatarFileInputRef = useRef<HTMLInputElement>(null);
+
+    const handleChange = <K extends keyof Persona>(key: K, value: Persona[K]) => {
+        setFormState(prev => ({ ...prev, [key]: value }));
+    };
+
+    const handleAvatarFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+        const file = event.target.files?.[0];
+        if (!file) return;
+
+        if (file.size > 2 * 1024 * 1024) { // 2MB limit
+            alert("File is too large. Please select an image under 2MB.");
+            return;
+        }
+
+        const reader = new FileReader();
+        reader.onload = () => handleChange('avatarUrl', reader.result as string);
+        reader.onerror = (error) => {
+            logger.error("Failed to read persona avatar file:", error);
+            alert("Failed to read file.");
+        };
+        reader.readAsDataURL(file);
+        if (avatarFileInputRef.current) avatarFileInputRef.current.value = "";
+    };
+
+    const handleSubmit = (e: React.FormEvent) => {
+        e.preventDefault();
+        if (!formState.name.trim()) return;
+        onSave({ ...formState, name: formState.name.trim(), description: formState.description.trim(), avatarUrl: formState.avatarUrl.trim() });
+    };
+
+    return (
+        <form onSubmit={handleSubmit} className="flex-1 flex flex-col h-full">
+            <header className="p-4 border-b border-border-neutral flex-shrink-0">
+                <input
+                  type="text"
+                  value={formState.name}
+                  onChange={(e) => handleChange('name', e.target.value)}
+                  className="text-xl font-bold bg-transparent focus:outline-none w-full text-text-primary"
+                  placeholder="Persona Name (replaces {{user}})"
+                  required
+                />
+            </header>
+            <div className="flex-1 overflow-y-auto p-4 space-y-4 max-w-2xl">
+                <div>
+                    <label className="block text-sm font-medium text-text-primary">Avatar</label>
+                    <div className="mt-2 flex items-center space-x-6">
+                        <PersonaAvatar persona={formState} className="w-24 h-24" />
+                        <div className="flex-grow space-y-2">
+                            <input type="file" ref={avatarFileInputRef} onChange={handleAvatarFileChange} accept="image/png, image/jpeg, image/webp" className="hidden" />
+                            <button type="button" onClick={() => avatarFileInputRef.current?.click()} className="w-full flex items-center justify-center space-x-2 px-3 py-2 text-sm font-medium text-center rounded-md bg-background-tertiary hover:bg-opacity-80 transition-colors">
+                                <UploadIcon className="w-4 h-4" />
+                                <span>Upload File</span>
+                            </button>
+                            <input
+                                type="text"
+                                value={formState.avatarUrl}
+                                onChange={(e) => handleChange('avatarUrl', e.target.value)}
+                                className={inputClassName}
+                                placeholder="Or paste image URL"
+                            />
+                        </div>
+                    </div>
+                </div>
+                <div>
+                    <label htmlFor="persona-description" className="block text-sm font-medium text-text-primary">Description</label>
+                    <textarea
+                        id="persona-description"
+                        value={formState.description}
+                        onChange={(e) => handleChange('description', e.target.value)}
+                        rows={6}
+                        className={inputClassName}
+                        placeholder="Who you are in the story: looks, background, how the characters know you..."
+                    />
+                    <p className="text-xs text-text-secondary mt-1">Sent to the characters with every reply. Macros such as {'{{char}}'} work here too.</p>
+                </div>
+            </div>
+            <footer className="p-4 border-t border-border-neutral flex justify-end space-x-3">
+                <button type="button" onClick={onCancel} className="py-2 px-4 rounded-md text-text-primary bg-background-tertiary hover:bg-opacity-80">Cancel</button>
+                <button type="submit" className="py-2 px-4 rounded-md text-text-accent bg-primary-600 hover:bg-primary-500">Save Persona</button>
+            </footer>
+        </form>
+    );
+};
+
+
+export const PersonaManager: React.FC<PersonaManagerProps> = ({ personas, defaultPersonaId, chatSessions, onPersonasUpdate, onSetDefault, onDeletePersona, onSetConfirmation }) => {
+  const [editingPersona, setEditingPersona] = useState<Persona | null>(null);
+
+  const handleSave = (personaToSave: Persona) => {
+    const isNew = !personas.some(p => p.id === personaToSave.id);
+    const updatedPersonas = isNew
+        ? [...personas, personaToSave]
+        : personas.map(p => p.id === personaToSave.id ? personaToSave : p);
+    onPersonasUpdate(updatedPersonas);
+    logger.log(`Persona saved: ${personaToSave.name}`);
+    setEditingPersona(null);
+  };
+
+  const handleDelete = (persona: Persona) => {
+    const chatCount = chatSessions.filter(s => s.personaId === persona.id).length;
+    onSetConfirmation({
+        message: chatCount > 0
+            ? `"${persona.name}" is used in ${chatCount} chat(s), which will switch to the default persona. Delete it anyway?`
+            : `Are you sure you want to delete the persona "${persona.name}"?`,
+        onConfirm: () => {
+            onDeletePersona(persona.id);
+            logger.log(`Persona deleted: ${persona.name}`);
+            onSetConfirmation(null);
+        },
+        onCancel: () => onSetConfirmation(null),
+    });
+  };
+
+  if (editingPersona) {
+      return <PersonaEditor persona={editingPersona} onSave={handleSave} onCancel={() => setEditingPersona(null)} />
+  }
+
+  return (
+    <div className="flex-1 flex flex-col min-h-0 h-full">
+        <header className="p-4 border-b border-border-neutral flex justify-between items-center flex-shrink-0">
+            <h2 className="text-xl font-bold text-text-primary">Personas</h2>
+            <button onClick={() => setEditingPersona(personaService.createPersona())} className="p-2 rounded-md text-text-secondary hover:bg-background-tertiary hover:text-text-primary transition-colors" title="New Persona">
+                <PlusIcon className="w-5 h-5" />
+            </button>
+        </header>
+        <div className="flex-1 overflow-y-auto p-4 space-y-2">
+            <p className="text-sm text-text-secondary pb-2">
+                A persona is who you are in a chat. Its name replaces {'{{user}}'} in greetings, character cards and lore, and its description tells the characters about you. Each chat can pick its own persona from the chat header; the others use the default one.
+            </p>
+            {personas.length === 0 ? (
+                <p className="text-text-secondary text-center py-8">No personas. Click '+' to create one. Without a persona, you are called "User".</p>
+            ) : (
+                personas.map(persona => {
+                    const isDefault = persona.id === defaultPersonaId;
+                    return (
+                        <div key={persona.id} className="bg-background-primary p-3 rounded-lg group">
+                            <div className="flex items-center justify-between gap-3">
+                                <div className="flex items-center gap-3 min-w-0">
+                                    <PersonaAvatar persona={persona} className="w-10 h-10" />
+                                    <div className="min-w-0">
+                                        <p className="font-semibold text-text-primary truncate">
+                                            {persona.name}
+                                            {isDefault && <span className="ml-2 text-xs font-normal text-primary-500">Default</span>}
+                                        </p>
+                                        <p className="text-sm text-text-secondary truncate">{persona.description || 'No description'}</p>
+                                    </div>
+                                </div>
+                                <div className="flex items-center space-x-2 opacity-0 group-hover:opacity-100 transition-opacity">
+                                    {!isDefault && (
+                                        <button onClick={() => onSetDefault(persona.id)} title="Use for chats that do not pick a persona" className="px-2 py-1 rounded text-xs text-text-secondary hover:text-text-primary hover:bg-background-tertiary">Make Default</button>
+                                    )}
+                                    <button onClick={() => setEditingPersona(persona)} title="Edit" className="p-1 rounded text-text-secondary hover:text-text-primary"><EditIcon className="w-4 h-4" /></button>
+                                    <button onClick={() => handleDelete(persona)} title="Delete" className="p-1 rounded text-text-secondary hover:text-accent-red"><TrashIcon className="w-4 h-4" /></button>
+                                </div>
+                            </div>
+                        </div>
+                    );
+                })
+            )}
+        </div>
+    </div>
+  );
+};
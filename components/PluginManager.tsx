@@ -1,5 +1,5 @@
 import React, { useState, useEffect, useRef } from 'react';
-import { Plugin, ApiConfig, ConfirmationRequest } from '../types.ts';
+import { Plugin, ConfirmationRequest, ConnectionProfile } from '../types.ts';
 import { logger } from '../services/loggingService.ts';
 import { PlusIcon } from './icons/PlusIcon.tsx';
 import { TrashIcon } from './icons/TrashIcon.tsx';
@@ -10,6 +10,7 @@ import { DownloadIcon } from './icons/DownloadIcon.tsx';
 
 interface PluginManagerProps {
   plugins: Plugin[];
+  connectionProfiles: ConnectionProfile[];
   onPluginsUpdate: (plugins: Plugin[]) => void;
   onSetConfirmation: (request: ConfirmationRequest | null) => void;
 }
@@ -35,7 +36,7 @@ nexus.log('UPPERCASE plugin loaded and ready.');
 
 const imageStyles = ["Default (None)", "Anime/Manga", "Photorealistic", "Digital Painting", "Fantasy Art", "Cyberpunk", "Vintage Photo", "Low Poly", "Custom"];
 
-export const PluginManager: React.FC<PluginManagerProps> = ({ plugins, onPluginsUpdate, onSetConfirmation }) => {
+export const PluginManager: React.FC<PluginManagerProps> = ({ plugins, connectionProfiles, onPluginsUpdate, onSetConfirmation }) => {
   const [editingPlugin, setEditingPlugin] = useState<Plugin | null>(null);
   const [isCreating, setIsCreating] = useState(false);
   const [formState, setFormState] = useState<Omit<Plugin, 'id' | 'enabled'>>({ name: '', description: '', code: '', settings: {} });
@@ -277,85 +278,18 @@ export const PluginManager: React.FC<PluginManagerProps> = ({ plugins, onPlugins
                         />
                     </div>
                   <h3 className="text-lg font-medium text-nexus-gray-900 dark:text-white pt-4 border-t border-nexus-gray-light-400 dark:border-nexus-gray-700">API Configuration</h3>
-                  <div className="space-y-4">
-                    <div>
-                      <label htmlFor="api-service" className="block text-sm font-medium text-nexus-gray-800 dark:text-nexus-gray-300">API Service</label>
-                      <select 
-                          id="api-service"
-                          value={formState.settings?.service || 'default'}
-                          onChange={(e) => handleSettingsChange('service', e.target.value as ApiConfig['service'])}
-                          className="mt-1 block w-full bg-nexus-gray-light-100 dark:bg-nexus-gray-800 border border-nexus-gray-light-400 dark:border-nexus-gray-700 rounded-md shadow-sm py-2 px-3 text-nexus-gray-900 dark:text-white focus:outline-none focus:ring-nexus-blue-500 focus:border-nexus-blue-500"
-                      >
-                          <option value="default">Default (Gemini)</option>
-                          <option value="gemini">Google Gemini (Custom Key)</option>
-                          <option value="openai">OpenAI-Compatible (e.g., DALL-E)</option>
-                      </select>
-                    </div>
-                    {formState.settings?.service === 'gemini' && (
-                        <div>
-                          <label htmlFor="api-key" className="block text-sm font-medium text-nexus-gray-800 dark:text-nexus-gray-300">Gemini API Key</label>
-                          <input
-                            id="api-key"
-                            type="password"
-                            value={formState.settings?.apiKey || ''}
-                            onChange={(e) => handleSettingsChange('apiKey', e.target.value)}
-                            className="mt-1 block w-full bg-nexus-gray-light-100 dark:bg-nexus-gray-800 border border-nexus-gray-light-400 dark:border-nexus-gray-700 rounded-md shadow-sm py-2 px-3 text-nexus-gray-900 dark:text-white focus:outline-none focus:ring-nexus-blue-500 focus:border-nexus-blue-500"
-                            placeholder="Leave blank to use default key"
-                          />
-                        </div>
-                    )}
-                     {formState.settings?.service === 'openai' && (
-                          <>
-                              <div>
-                                  <label htmlFor="api-endpoint" className="block text-sm font-medium text-nexus-gray-800 dark:text-nexus-gray-300">API Endpoint</label>
-                                  <input
-                                      id="api-endpoint"
-                                      type="text"
-                                      value={formState.settings?.apiEndpoint || ''}
-                                      onChange={(e) => handleSettingsChange('apiEndpoint', e.target.value)}
-                                      className="mt-1 block w-full bg-nexus-gray-light-100 dark:bg-nexus-gray-800 border border-nexus-gray-light-400 dark:border-nexus-gray-700 rounded-md py-2 px-3 text-nexus-gray-900 dark:text-white focus:outline-none focus:ring-nexus-blue-500 focus:border-nexus-blue-500"
-                                      placeholder="e.g., https://api.openai.com/v1/images/generations"
-                                  />
-                              </div>
-                               <div>
-                                  <label htmlFor="api-key" className="block text-sm font-medium text-nexus-gray-800 dark:text-nexus-gray-300">API Key</label>
-                                  <input
-                                      id="api-key"
-                                      type="password"
-                                      value={formState.settings?.apiKey || ''}
-                                      onChange={(e) => handleSettingsChange('apiKey', e.target.value)}
-                                      className="mt-1 block w-full bg-nexus-gray-light-100 dark:bg-nexus-gray-800 border border-nexus-gray-light-400 dark:border-nexus-gray-700 rounded-md py-2 px-3 text-nexus-gray-900 dark:text-white focus:outline-none focus:ring-nexus-blue-500 focus:border-nexus-blue-500"
-                                      placeholder="API Key"
-                                  />
-                              </div>
-                              <div>
-                                  <label htmlFor="api-model" className="block text-sm font-medium text-nexus-gray-800 dark:text-nexus-gray-300">Model Name</label>
-                                  <input
-                                      id="api-model"
-                                      type="text"
-                                      value={formState.settings?.model || ''}
-                                      onChange={(e) => handleSettingsChange('model', e.target.value)}
-                                      className="mt-1 block w-full bg-nexus-gray-light-100 dark:bg-nexus-gray-800 border border-nexus-gray-light-400 dark:border-nexus-gray-700 rounded-md py-2 px-3 text-nexus-gray-900 dark:text-white focus:outline-none focus:ring-nexus-blue-500 focus:border-nexus-blue-500"
-                                      placeholder="e.g., dall-e-3"
-                                  />
-                              </div>
-                          </>
-                      )}
-                      {(formState.settings?.service === 'gemini' || formState.settings?.service === 'openai') && (
-                        <div>
-                            <label htmlFor="plugin-api-rate-limit" className="block text-sm font-medium text-nexus-gray-800 dark:text-nexus-gray-300">Request Delay (ms)</label>
-                            <input
-                                id="plugin-api-rate-limit"
-                                type="number"
-                                value={formState.settings?.rateLimit || ''}
-                                onChange={(e) => handleSettingsChange('rateLimit', e.target.value ? parseInt(e.target.value, 10) : undefined)}
-                                className="mt-1 block w-full bg-nexus-gray-light-100 dark:bg-nexus-gray-800 border border-nexus-gray-light-400 dark:border-nexus-gray-700 rounded-md py-2 px-3 text-nexus-gray-900 dark:text-white focus:outline-none focus:ring-nexus-blue-500 focus:border-nexus-blue-500"
-                                placeholder="e.g., 1000 (for 1 request per second)"
-                                min="0"
-                            />
-                            <p className="text-xs text-nexus-gray-700 dark:text-nexus-gray-400 mt-1">Minimum time to wait between image generation requests to avoid rate limits.</p>
-                        </div>
-                    )}
+                  <div>
+                    <label htmlFor="api-profile" className="block text-sm font-medium text-nexus-gray-800 dark:text-nexus-gray-300">Connection Profile</label>
+                    <select 
+                        id="api-profile"
+                        value={formState.settings?.profileId || ''}
+                        onChange={(e) => handleSettingsChange('profileId', e.target.value || undefined)}
+                        className="mt-1 block w-full bg-nexus-gray-light-100 dark:bg-nexus-gray-800 border border-nexus-gray-light-400 dark:border-nexus-gray-700 rounded-md shadow-sm py-2 px-3 text-nexus-gray-900 dark:text-white focus:outline-none focus:ring-nexus-blue-500 focus:border-nexus-blue-500"
+                    >
+                        <option value="">Default (Gemini)</option>
+                        {connectionProfiles.filter(profile => profile.service === 'gemini' || profile.service === 'openai').map(profile => <option key={profile.id} value={profile.id}>{profile.name}</option>)}
+                    </select>
+                    <p className="text-xs text-nexus-gray-700 dark:text-nexus-gray-400 mt-1">For OpenAI-compatible services, pick a profile whose endpoint is an image generation URL (e.g., https://api.openai.com/v1/images/generations).</p>
                   </div>
                 </div>
               )}
@@ -0,0 +1,85 @@
+import React, { useState } from 'react';
+import { RetrievalReport } from '../types.ts';
+
+interface RetrievalDebugModalProps {
+  report: RetrievalReport;
+  onClose: () => void;
+}
+
+const MAX_REJECTED_SHOWN = 10;
+
+export const RetrievalDebugModal: React.FC<RetrievalDebugModalProps> = ({ report, onClose }) => {
+  const [showAll, setShowAll] = useState(false);
+  const selected = report.candidates.filter(c => c.selected);
+  const rejected = report.candidates.filter(c => !c.selected);
+  const visibleRejected = showAll ? rejected : rejected.slice(0, MAX_REJECTED_SHOWN);
+
+  const renderCandidate = (candidate: RetrievalReport['candidates'][number]) => (
+    <li key={candidate.chunkId} className={`p-3 rounded-md border ${candidate.selected ? 'border-primary-500 bg-background-primary' : 'border-border-neutral'}`}>
+        <div className="flex justify-between items-start gap-2">
+            <span className="text-xs font-semibold text-text-primary truncate">{candidate.source || candidate.chunkId}</span>
+            <span className={`text-xs whitespace-nowrap ${candidate.selected ? 'text-accent-green' : 'text-text-secondary'}`}>{candidate.reason}</span>
+        </div>
+        <p className="text-xs text-text-secondary mt-1 line-clamp-3">{candidate.preview}</p>
+        <div className="flex flex-wrap gap-x-4 gap-y-1 mt-2 text-xs text-text-secondary">
+            <span title="Cosine similarity between the query and the chunk's embedding">Similarity {candidate.vectorScore.toFixed(3)} (#{candidate.vectorRank})</span>
+            <span title="BM25 keyword score">
+                {candidate.keywordRank !== undefined
+                    ? `BM25 ${candidate.keywordScore.toFixed(2)} (#${candidate.keywordRank}), ${Math.round(candidate.keywordCoverage * 100)}% of keywords`
+                    : 'No keyword match'}
+            </span>
+            <span title="Reciprocal-rank fusion of both rankings">Fused {candidate.fusedScore.toFixed(4)}</span>
+            {candidate.rerankPosition !== undefined && <span>Rerank #{candidate.rerankPosition}</span>}
+        </div>
+        {candidate.matchedTerms.length > 0 && (
+            <div className="flex flex-wrap gap-1 mt-2">
+                {candidate.matchedTerms.map(term => <span key={term} className="px-1.5 py-0.5 rounded bg-background-tertiary text-xs text-text-primary">{term}</span>)}
+            </div>
+        )}
+    </li>
+  );
+
+  return (
+    <div className="fixed inset-0 bg-black bg-opacity-75 z-40 flex items-center justify-center p-4" onClick={onClose}>
+      <div className="bg-background-secondary rounded-lg shadow-xl w-full max-w-3xl flex flex-col max-h-[90vh]" onClick={e => e.stopPropagation()}>
+        <header className="p-4 border-b border-border-neutral flex justify-between items-center flex-shrink-0">
+          <h2 className="text-xl font-bold text-text-primary">Knowledge Retrieval</h2>
+          <button onClick={onClose} className="text-text-secondary hover:text-text-primary transition-colors text-2xl font-bold leading-none p-1">&times;</button>
+        </header>
+
+        <div className="p-6 flex-1 overflow-y-auto space-y-4">
+            <div className="text-sm text-text-secondary space-y-1">
+                <p><span className="text-text-primary font-medium">{report.characterName}</span> searched for: <q className="italic">{report.query}</q></p>
+                {report.searched.length > 0 && <p>Knowledge searched: {report.searched.join(', ')}</p>}
+                <p>
+                    Up to {report.topK} chunk(s), minimum similarity {report.minScore}.
+                    {report.reranked ? ' Reranked by the chat model.' : ''}
+                    {' '}{new Date(report.createdAt).toLocaleString()}
+                </p>
+                {report.embeddingWarning && <p className="text-accent-yellow">{report.embeddingWarning}</p>}
+                {report.rerankError && <p className="text-accent-yellow">Reranking failed, so the fused ranking was used: {report.rerankError}</p>}
+            </div>
+
+            <section>
+                <h3 className="text-md font-semibold text-text-primary mb-2">Used ({selected.length})</h3>
+                {selected.length > 0
+                    ? <ul className="space-y-2">{selected.map(renderCandidate)}</ul>
+                    : <p className="text-sm text-text-secondary">Nothing was relevant enough, so no knowledge was added to the prompt.</p>}
+            </section>
+
+            {rejected.length > 0 && (
+                <section>
+                    <h3 className="text-md font-semibold text-text-primary mb-2">Not used ({rejected.length})</h3>
+                    <ul className="space-y-2">{visibleRejected.map(renderCandidate)}</ul>
+                    {rejected.length > MAX_REJECTED_SHOWN && (
+                        <button onClick={() => setShowAll(!showAll)} className="mt-2 text-xs text-primary-500 hover:underline">
+                            {showAll ? 'Show fewer' : `Show all ${rejected.length}`}
+                        </button>
+                    )}
+                </section>
+            )}
+        </div>
+      </div>
+    </div>
+  );
+};
@@ -0,0 +1,215 @@
+import { describe, expect, it } from 'vitest';
+import { Lorebook, LorebookEntry } from '../types.ts';
+import { characterBookToLorebooks, lorebooksToCharacterBook, nexusToWorldInfo, readPngCard, sillyTavernWorldInfoToNexus } from './compatibilityService.ts';
+import { buildPng } from './testFixtures.ts';
+
+// Every field of LorebookEntry, set to a value other than its default.
+const fullEntry: LorebookEntry = {
+    id: 'entry-full',
+    keys: ['dragon', '/wyrm(s)?/i'],
+    content: 'Dragons hoard gold.',
+    comment: 'Dragons',
+    disabled: true,
+    constant: true,
+    secondaryKeys: ['cave', 'mountain'],
+    secondaryLogic: 'notAll',
+    caseSensitive: true,
+    wholeWords: false,
+    order: 250,
+    position: 'atDepth',
+    depth: 2,
+    scanDepth: 8,
+    probability: 35,
+    excludeRecursion: true,
+    preventRecursion: true,
+};
+
+// Only the required fields; everything else uses the defaults.
+const minimalEntry: LorebookEntry = {
+    id: 'entry-minimal',
+    keys: ['castle'],
+    content: 'The castle stands on a hill.',
+};
+
+// Settings that are set, but to the value World Info writes for unset ones.
+const explicitDefaultsEntry: LorebookEntry = {
+    id: 'entry-defaults',
+    keys: ['river'],
+    content: 'The river runs north.',
+    order: 100,
+    position: 'afterCharacter',
+    depth: 4,
+    probability: 100,
+};
+
+const beforeEntry: LorebookEntry = {
+    id: 'entry-before',
+    keys: ['kingdom'],
+    content: 'The kingdom is at war.',
+    position: 'beforeCharacter',
+    secondaryKeys: ['north'],
+    secondaryLogic: 'andAll',
+    wholeWords: true,
+    caseSensitive: false,
+};
+
+const lorebook: Lorebook = {
+    id: 'book-1',
+    name: 'Realm',
+    description: 'The world of the story.',
+    tokenBudget: 600,
+    entries: [fullEntry, minimalEntry, explicitDefaultsEntry, beforeEntry],
+};
+
+const withoutId = ({ id: _id, ...rest }: Lorebook) => rest;
+
+describe('World Info round trip', () => {
+    it('keeps every lorebook and entry field', () => {
+        const imported = sillyTavernWorldInfoToNexus(nexusToWorldInfo(lorebook), 'realm.json');
+        expect(imported).toEqual(withoutId(lorebook));
+    });
+
+    it('survives a second round trip unchanged', () => {
+        const first = sillyTavernWorldInfoToNexus(nexusToWorldInfo(lorebook), 'realm.json')!;
+        const second = sillyTavernWorldInfoToNexus(nexusToWorldInfo({ ...first, id: 'book-2' }), 'realm.json');
+        expect(second).toEqual(first);
+    });
+
+    it('survives serialization to JSON', () => {
+        const json = JSON.parse(JSON.stringify(nexusToWorldInfo(lorebook)));
+        expect(sillyTavernWorldInfoToNexus(json, 'realm.json')).toEqual(withoutId(lorebook));
+    });
+
+    it('writes the values SillyTavern expects', () => {
+        const worldInfo = nexusToWorldInfo(lorebook);
+        expect(worldInfo.token_budget).toBe(600);
+        expect(worldInfo.entries['0']).toMatchObject({
+            uid: 0, key: fullEntry.keys, keysecondary: fullEntry.secondaryKeys, selectiveLogic: 1,
+            order: 250, position: 4, depth: 2, scanDepth: 8, probability: 35, disable: true, constant: true,
+        });
+        expect(worldInfo.entries['1']).toMatchObject({ order: 100, position: 1, depth: 4, probability: 100, scanDepth: null, caseSensitive: null });
+        expect(worldInfo.entries['3']).toMatchObject({ position: 0, selectiveLogic: 3, matchWholeWords: true });
+    });
+
+    describe('defaults', () => {
+        it('lists the unset settings in the extension', () => {
+            const worldInfo = nexusToWorldInfo(lorebook);
+            expect(worldInfo.entries['1'].extensions.ai_nexus.defaults).toEqual(['order', 'position', 'depth', 'probability']);
+            expect(worldInfo.entries['2'].extensions.ai_nexus.defaults).toEqual([]);
+        });
+
+        it('keeps a setting that was changed elsewhere after the export', () => {
+            const worldInfo = nexusToWorldInfo(lorebook);
+            worldInfo.entries['1'].order = 300;
+            const entry = sillyTavernWorldInfoToNexus(worldInfo, 'realm.json')!.entries[1];
+            expect(entry.order).toBe(300);
+            expect(entry.position).toBeUndefined();
+        });
+
+        it('treats default values in foreign files as unset', () => {
+            const imported = sillyTavernWorldInfoToNexus({
+                entries: {
+                    0: { uid: 0, key: ['a'], content: 'A', order: 100, position: 1, depth: 4, probability: 100, useProbability: true },
+                    1: { uid: 1, key: ['b'], content: 'B', order: 5, position: 0, depth: 1, probability: 50 },
+                },
+            }, 'foreign.json')!;
+            expect(imported.entries[0]).toEqual({ id: expect.any(String), keys: ['a'], content: 'A' });
+            expect(imported.entries[1]).toMatchObject({ order: 5, position: 'beforeCharacter', depth: 1, probability: 50 });
+        });
+    });
+});
+
+describe('character book round trip', () => {
+    const otherBook: Lorebook = {
+        id: 'book-other',
+        name: 'Factions',
+        description: 'Who is fighting whom.',
+        entries: [{ id: 'entry-faction', keys: ['guild'], content: 'The guild controls trade.', order: 40 }],
+    };
+
+    it('keeps every field of a single lorebook', () => {
+        const [imported] = characterBookToLorebooks(lorebooksToCharacterBook([lorebook]), 'Aria');
+        expect(withoutId(imported)).toEqual(withoutId(lorebook));
+    });
+
+    it('splits a card that merged several lorebooks', () => {
+        const book = lorebooksToCharacterBook([lorebook, otherBook]);
+        expect(book.entries).toHaveLength(5);
+        expect(book.name).toBe('Realm, Factions');
+
+        const imported = characterBookToLorebooks(JSON.parse(JSON.stringify(book)), 'Aria');
+        expect(imported.map(withoutId)).toEqual([withoutId(lorebook), withoutId(otherBook)]);
+        expect(new Set(imported.map(lb => lb.id)).size).toBe(2);
+    });
+
+    it('puts entries added elsewhere into the first lorebook', () => {
+        const book = lorebooksToCharacterBook([lorebook, otherBook]);
+        book.entries.push({ keys: ['sword'], content: 'A new entry.', insertion_order: 100, enabled: true });
+        const [first, second] = characterBookToLorebooks(book, 'Aria');
+        expect(first.entries.map(e => e.content)).toContain('A new entry.');
+        expect(second.entries).toHaveLength(1);
+    });
+
+    it('reads a foreign character book as one lorebook', () => {
+        const imported = characterBookToLorebooks({
+            name: 'Card Book',
+            token_budget: 300,
+            entries: [{
+                keys: ['ship'], content: 'The ship sinks.', insertion_order: 20, enabled: false, position: 'before_char',
+                secondary_keys: ['storm'], selective: true, case_sensitive: true,
+                extensions: { depth: 4, probability: 60, useProbability: true, selectiveLogic: 2, scan_depth: 3, match_whole_words: true, exclude_recursion: true },
+            }],
+        }, 'Aria');
+        expect(imported).toHaveLength(1);
+        expect(imported[0]).toMatchObject({ name: 'Card Book', tokenBudget: 300 });
+        expect(imported[0].entries[0]).toEqual({
+            id: expect.any(String),
+            keys: ['ship'],
+            content: 'The ship sinks.',
+            disabled: true,
+            secondaryKeys: ['storm'],
+            secondaryLogic: 'notAny',
+            caseSensitive: true,
+            wholeWords: true,
+            order: 20,
+            position: 'beforeCharacter',
+            scanDepth: 3,
+            probability: 60,
+            excludeRecursion: true,
+        });
+    });
+
+    it('returns nothing for a card without a book', () => {
+        expect(characterBookToLorebooks(undefined, 'Aria')).toEqual([]);
+        expect(characterBookToLorebooks({ entries: [] }, 'Aria')).toEqual([]);
+    });
+});
+
+describe('readPngCard', () => {
+    // Cards are stored as base64 of their UTF-8 JSON.
+    const cardText = (card: object) => Buffer.from(JSON.stringify(card)).toString('base64');
+    const v2Card = { spec: 'chara_card_v2', data: { name: 'Aria (V2)' } };
+    const v3Card = { spec: 'chara_card_v3', data: { name: 'Ariä (V3)' } };
+
+    it('prefers the V3 card over the V2 card', () => {
+        const png = buildPng([
+            { type: 'tEXt', data: `chara\0${cardText(v2Card)}` },
+            { type: 'tEXt', data: `ccv3\0${cardText(v3Card)}` },
+        ]);
+        const result = readPngCard(png);
+        expect(result?.card).toEqual(v3Card);
+        expect(result?.imageDataUrl).toBe(`data:image/png;base64,${Buffer.from(png).toString('base64')}`);
+    });
+
+    it('falls back to the V2 card if the V3 card is damaged', () => {
+        const png = buildPng([
+            { type: 'tEXt', data: `ccv3\0${cardText(v3Card).slice(0, 10)}` },
+            { type: 'tEXt', data: `chara\0${cardText(v2Card)}` },
+        ]);
+        expect(readPngCard(png)?.card).toEqual(v2Card);
+    });
+
+    it('returns null for a PNG without a card', () => {
+        expect(readPngCard(buildPng([{ type: 'tEXt', data: 'Software\0Paint' }]))).toBeNull();
+    });
+});
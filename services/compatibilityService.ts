@@ -1,5 +1,12 @@
-import { Character, Lorebook, LorebookEntry } from '../types.ts';
+import { CardAsset, Character, Lorebook, LorebookEntry, LorebookPosition, LorebookSecondaryLogic } from '../types.ts';
 import { logger } from './loggingService.ts';
+import { migrateLegacyMemory } from './memoryService.ts';
+import { DEFAULT_INSERTION_DEPTH, DEFAULT_ORDER } from './lorebookService.ts';
+import { readTextChunks, writeTextChunks, bytesToBase64, base64ToBytes } from './pngChunks.ts';
+
+// tEXt keywords under which PNG character cards are stored.
+const PNG_CARD_V2_KEYWORD = 'chara';
+const PNG_CARD_V3_KEYWORD = 'ccv3';
 
 // --- Utilities ---
 
@@ -32,13 +39,7 @@ const getBase64FromDataUrl = (dataUrl: string): string => {
 
 // --- Conversion Logic ---
 
-/**
- * Converts an AI Nexus character object to a Character Card v2 compatible object.
- * It embeds AI Nexus specific data in a private `_aiNexusData` block for lossless re-import.
- */
-export const nexusToV2 = async (character: Character): Promise<any> => {
-    logger.log(`Starting character export for: ${character.name}`);
-    
+const buildV2Card = (character: Character, lorebooks: Lorebook[], avatar: string, embeddedInImage: boolean): any => {
     let char_persona = `## ${character.name}\n`;
     if (character.description) char_persona += `${character.description}\n\n`;
 
@@ -53,21 +54,18 @@ export const nexusToV2 = async (character: Character): Promise<any> => {
         char_persona += character.lore.map(fact => `- ${fact}`).join('\n') + '\n\n';
     }
 
-    const avatarDataUrl = character.avatarUrl.startsWith('data:image') 
-        ? character.avatarUrl 
-        : await imageUrlToBase64(character.avatarUrl);
-    
-    const base64Avatar = avatarDataUrl ? getBase64FromDataUrl(avatarDataUrl) : '';
-
     const cardData = {
         name: character.name,
         description: character.description,
         personality: character.personality,
         first_mes: character.firstMessage, 
-        mes_example: '',
+        mes_example: character.exampleDialogue || '',
         scenario: '',
+        alternate_greetings: character.alternateGreetings || [],
+        tags: character.tags || [],
         char_persona: char_persona.trim(),
-        avatar: base64Avatar,
+        avatar,
+        ...(lorebooks.length > 0 ? { character_book: lorebooksToCharacterBook(lorebooks) } : {}),
         // Private block for perfect re-import into AI Nexus
         _aiNexusData: {
             version: '1.1',
@@ -75,15 +73,21 @@ export const nexusToV2 = async (character: Character): Promise<any> => {
             name: character.name,
             description: character.description,
             personality: character.personality,
-            avatarUrl: character.avatarUrl,
+            // An avatar stored in the app is the image the card is embedded in.
+            avatarUrl: embeddedInImage && character.avatarUrl.startsWith('data:') ? '' : character.avatarUrl,
             tags: character.tags,
             createdAt: character.createdAt,
             physicalAppearance: character.physicalAppearance,
             personalityTraits: character.personalityTraits,
             lore: character.lore,
-            memory: character.memory,
+            // Embeddings are model-specific and large, so they are recreated after import.
+            memories: character.memories?.map(({ embedding, ...entry }) => entry),
             apiConfig: character.apiConfig,
             firstMessage: character.firstMessage,
+            alternateGreetings: character.alternateGreetings,
+            exampleDialogue: character.exampleDialogue,
+            groupOnlyGreetings: character.groupOnlyGreetings,
+            cardAssets: character.cardAssets,
             characterType: character.characterType,
             keys: { publicKey: character.keys?.publicKey }, // Only export public key
             signature: character.signature,
@@ -99,12 +103,143 @@ export const nexusToV2 = async (character: Character): Promise<any> => {
 };
 
 /**
- * Converts a Character Card v2 compatible object into an AI Nexus Character.
- * It prioritizes the private `_aiNexusData` block if it exists.
- * It can also auto-detect narrator/scenario bots and parse their content into a Lorebook.
+ * Converts an AI Nexus character object to a Character Card v2 compatible object.
+ * It embeds AI Nexus specific data in a private `_aiNexusData` block for lossless re-import,
+ * and the character's linked lorebooks as its `character_book`.
+ */
+export const nexusToV2 = async (character: Character, lorebooks: Lorebook[] = []): Promise<any> => {
+    logger.log(`Starting character export for: ${character.name}`);
+
+    const avatarDataUrl = character.avatarUrl.startsWith('data:image') 
+        ? character.avatarUrl 
+        : await imageUrlToBase64(character.avatarUrl);
+    
+    const base64Avatar = avatarDataUrl ? getBase64FromDataUrl(avatarDataUrl) : '';
+
+    return buildV2Card(character, lorebooks, base64Avatar, false);
+};
+
+/**
+ * Wraps a V2 card as a Character Card v3. The avatar is the image the card is embedded in.
+ */
+const v2CardToV3 = (v2Card: any, character: Character): any => {
+    const createdAt = Date.parse(character.createdAt);
+    return {
+        spec: 'chara_card_v3',
+        spec_version: '3.0',
+        data: {
+            ...v2Card.data,
+            group_only_greetings: character.groupOnlyGreetings || [],
+            assets: [{ type: 'icon', uri: 'ccdefault:', name: 'main', ext: 'png' }, ...(character.cardAssets || [])],
+            ...(Number.isFinite(createdAt) ? { creation_date: Math.floor(createdAt / 1000) } : {}),
+            modification_date: Math.floor(Date.now() / 1000),
+        },
+    };
+};
+
+/**
+ * Draws an image, or a placeholder with the character's initial when there is none, as a PNG.
+ */
+const renderAvatarPng = async (dataUrl: string, name: string): Promise<Uint8Array> => {
+    if (dataUrl.startsWith('data:image/png')) {
+        return base64ToBytes(getBase64FromDataUrl(dataUrl));
+    }
+    const image = dataUrl ? await new Promise<HTMLImageElement | null>((resolve) => {
+        const img = new Image();
+        img.onload = () => resolve(img);
+        img.onerror = () => resolve(null);
+        img.src = dataUrl;
+    }) : null;
+
+    const canvas = document.createElement('canvas');
+    canvas.width = image?.naturalWidth || 400;
+    canvas.height = image?.naturalHeight || 600;
+    const context = canvas.getContext('2d');
+    if (!context) throw new Error("Could not draw the avatar image.");
+    if (image) {
+        context.drawImage(image, 0, 0);
+    } else {
+        context.fillStyle = '#374151';
+        context.fillRect(0, 0, canvas.width, canvas.height);
+        context.fillStyle = '#f9fafb';
+        context.font = 'bold 200px sans-serif';
+        context.textAlign = 'center';
+        context.textBaseline = 'middle';
+        context.fillText((name.trim()[0] || '?').toUpperCase(), canvas.width / 2, canvas.height / 2);
+    }
+    const blob = await new Promise<Blob | null>(resolve => canvas.toBlob(resolve, 'image/png'));
+    if (!blob) throw new Error("Could not encode the avatar as a PNG.");
+    return new Uint8Array(await blob.arrayBuffer());
+};
+
+const encodeCardText = (card: any): string => bytesToBase64(new TextEncoder().encode(JSON.stringify(card)));
+
+/**
+ * Exports a character as a PNG of its avatar with the card embedded, the way most apps share
+ * cards: a V2 card in the `chara` chunk for older apps and a V3 card in the `ccv3` chunk.
+ */
+export const nexusToPngCard = async (character: Character, lorebooks: Lorebook[] = []): Promise<Blob> => {
+    logger.log(`Starting PNG character export for: ${character.name}`);
+
+    const avatarDataUrl = character.avatarUrl.startsWith('data:image')
+        ? character.avatarUrl
+        : character.avatarUrl ? await imageUrlToBase64(character.avatarUrl) : '';
+    const png = await renderAvatarPng(avatarDataUrl, character.name);
+
+    const v2Card = buildV2Card(character, lorebooks, 'none', true);
+    const cardPng = writeTextChunks(png, {
+        [PNG_CARD_V2_KEYWORD]: encodeCardText(v2Card),
+        [PNG_CARD_V3_KEYWORD]: encodeCardText(v2CardToV3(v2Card, character)),
+    });
+    return new Blob([cardPng as Uint8Array<ArrayBuffer>], { type: 'image/png' });
+};
+
+/**
+ * Reads the character card embedded in a PNG, preferring the V3 card. Returns the card together
+ * with the image as a data URL, which becomes the avatar, or null when the PNG carries no card.
  */
-export const v2ToNexus = (card: any): { character: Character, lorebook?: Lorebook } | null => {
-    const isV2Spec = card.spec === 'chara_card_v2' || card.spec === 'chara_card_v2.0';
+export const readPngCard = (bytes: Uint8Array): { card: any, imageDataUrl: string } | null => {
+    const texts = readTextChunks(bytes);
+    for (const keyword of [PNG_CARD_V3_KEYWORD, PNG_CARD_V2_KEYWORD]) {
+        if (!texts[keyword]) continue;
+        try {
+            const card = JSON.parse(new TextDecoder().decode(base64ToBytes(texts[keyword])));
+            logger.log(`Found a character card in the PNG's "${keyword}" chunk.`);
+            return { card, imageDataUrl: `data:image/png;base64,${bytesToBase64(bytes)}` };
+        } catch (error) {
+            logger.warn(`The PNG's "${keyword}" chunk is not a valid character card.`, error);
+        }
+    }
+    return null;
+};
+
+// V3 assets that the app can show point at a data: or web URL; `embeded://` assets live in CHARX
+// archives and `ccdefault:` is the image the card came in.
+const isLoadableAssetUri = (uri: unknown): uri is string =>
+    typeof uri === 'string' && /^(data:image\/|https?:\/\/)/i.test(uri);
+
+const cardAvatar = (data: any, icon: any, imageDataUrl?: string): string => {
+    if (isLoadableAssetUri(icon?.uri)) return icon.uri;
+    if (typeof data.avatar === 'string' && data.avatar && data.avatar !== 'none') {
+        return data.avatar.startsWith('http') ? data.avatar : `data:image/png;base64,${data.avatar}`;
+    }
+    return imageDataUrl || '';
+};
+
+const greetingList = (value: unknown): string[] | undefined => {
+    const greetings = Array.isArray(value) ? value.filter((g): g is string => typeof g === 'string' && g.trim() !== '') : [];
+    return greetings.length > 0 ? greetings : undefined;
+};
+
+/**
+ * Converts a Character Card v1, v2 or v3 compatible object into an AI Nexus Character.
+ * It prioritizes the private `_aiNexusData` block if it exists. `imageDataUrl` is the PNG the card
+ * was embedded in, if any, which serves as the avatar.
+ * Lorebooks embedded as `character_book` are imported and linked to the character. Without one,
+ * it can auto-detect narrator/scenario bots and parse their content into a Lorebook.
+ */
+export const v2ToNexus = (card: any, imageDataUrl?: string): { character: Character, lorebooks: Lorebook[] } | null => {
+    const isCardSpec = card.spec === 'chara_card_v2' || card.spec === 'chara_card_v2.0' || card.spec === 'chara_card_v3';
     const data = card.data || card; 
     
     if (!data || !data.name) {
@@ -119,27 +254,45 @@ export const v2ToNexus = (card: any): { character: Character, lorebook?: Loreboo
     const hasCharFields = data.description !== undefined || 
                           data.personality !== undefined || 
                           data.char_persona !== undefined || 
-                          isV2Spec;
+                          isCardSpec;
 
     if (!hasCharFields) {
          logger.debug(`File does not contain character-specific fields (description, personality, etc.). Skipping v2ToNexus.`);
         return null;
     }
 
+    const embeddedLorebooks = characterBookToLorebooks(data.character_book, data.name);
+    const lorebookIds = embeddedLorebooks.length > 0 ? embeddedLorebooks.map(lb => lb.id) : undefined;
+    if (embeddedLorebooks.length > 0) {
+        logger.log(`Found ${embeddedLorebooks.length} lorebook(s) embedded in "${data.name}".`);
+    }
+
     if (data._aiNexusData) {
         logger.log(`Importing character "${data.name}" using _aiNexusData block.`);
         const nexusData = data._aiNexusData;
-        const character: Character = {
+        const character: Character = migrateLegacyMemory({
             ...nexusData,
             id: crypto.randomUUID(),
+            avatarUrl: nexusData.avatarUrl || imageDataUrl || '',
             keys: undefined,
-        };
-        return { character };
+            lorebookIds,
+        });
+        return { character, lorebooks: embeddedLorebooks };
     }
 
     logger.log(`Importing standard character card: ${data.name}`);
     
-    const avatarUrl = data.avatar?.startsWith('http') ? data.avatar : (data.avatar ? `data:image/png;base64,${data.avatar}` : '');
+    // V3 cards list their images as assets; the main icon is the avatar and the rest are kept.
+    const assets: any[] = Array.isArray(data.assets) ? data.assets.filter((asset: any) => asset && typeof asset === 'object') : [];
+    const icons = assets.filter(asset => asset.type === 'icon');
+    const icon = icons.find(asset => asset.name === 'main') || icons[0];
+    const avatarUrl = cardAvatar(data, icon, imageDataUrl);
+    const cardAssets: CardAsset[] = assets
+        .filter(asset => asset !== icon && isLoadableAssetUri(asset.uri))
+        .map(asset => ({ type: String(asset.type || 'other'), uri: asset.uri, name: String(asset.name || ''), ext: String(asset.ext || '') }));
+    if (assets.length - (icon ? 1 : 0) > cardAssets.length) {
+        logger.debug(`Skipped ${assets.length - (icon ? 1 : 0) - cardAssets.length} card asset(s) stored outside the card.`);
+    }
     
     const shortDescription = (data.description?.split('\n')[0] || data.creator_notes || `A character named ${data.name}`).substring(0, 200);
 
@@ -149,7 +302,6 @@ export const v2ToNexus = (card: any): { character: Character, lorebook?: Loreboo
     if (data.description) combinedPersonality += `${data.description.trim()}\n\n`;
     if (data.scenario) combinedPersonality += `Scenario: ${data.scenario.trim()}\n\n`;
     if (data.char_persona) combinedPersonality += `${data.char_persona.trim()}\n\n`;
-    if (data.mes_example) combinedPersonality += `Example Messages:\n${data.mes_example.trim()}\n\n`;
     if (data.post_history_instructions) combinedPersonality += `Post History Instructions: ${data.post_history_instructions.trim()}\n\n`;
 
     const contentFields = combinedPersonality.toLowerCase();
@@ -159,7 +311,7 @@ export const v2ToNexus = (card: any): { character: Character, lorebook?: Loreboo
     let autoLorebook: Lorebook | undefined = undefined;
 
     // Auto-parse lorebook from narrator cards that use markdown-style headers
-    if (isNarrator) {
+    if (isNarrator && embeddedLorebooks.length === 0) {
         const loreEntries: LorebookEntry[] = [];
         const sections = combinedPersonality.split(/\n(?=\*\*)/); // Split by lines that start with **
         
@@ -195,6 +347,10 @@ export const v2ToNexus = (card: any): { character: Character, lorebook?: Loreboo
         description: shortDescription,
         personality: combinedPersonality.trim(),
         firstMessage: data.first_mes || '',
+        alternateGreetings: greetingList(data.alternate_greetings),
+        groupOnlyGreetings: greetingList(data.group_only_greetings),
+        exampleDialogue: typeof data.mes_example === 'string' && data.mes_example.trim() ? data.mes_example.trim() : undefined,
+        cardAssets: cardAssets.length > 0 ? cardAssets : undefined,
         avatarUrl: avatarUrl,
         tags: data.tags || [],
         createdAt: new Date().toISOString(),
@@ -202,10 +358,235 @@ export const v2ToNexus = (card: any): { character: Character, lorebook?: Loreboo
         physicalAppearance: '', 
         personalityTraits: (data.tags || []).join(', '),
         lore: [],
-        memory: `Memory of ${data.name} begins here.`,
+        memories: [],
+        lorebookIds,
     };
 
-    return { character: newCharacter, lorebook: autoLorebook };
+    return { character: newCharacter, lorebooks: autoLorebook ? [autoLorebook] : embeddedLorebooks };
+};
+
+// --- World Info Entries ---
+// SillyTavern keeps most entry settings at the top level of a World Info entry; character cards
+// (V2 `character_book`) keep the standard ones at the top level under snake_case names and
+// SillyTavern's own under `extensions`. Both are read.
+
+// SillyTavern's selectiveLogic values, in order.
+const SECONDARY_LOGIC: LorebookSecondaryLogic[] = ['andAny', 'notAll', 'notAny', 'andAll'];
+
+// Entries and books keep what the formats cannot express (ids, which lorebook an entry came from)
+// under this key of their `extensions`.
+const NEXUS_EXTENSION = 'ai_nexus';
+
+// World Info always writes these settings. An entry that leaves them unset is exported with these
+// values and lists them in its extension, so they come back unset; other files treat these values
+// as unset too.
+const WORLD_INFO_DEFAULTS: Partial<Record<keyof LorebookEntry, unknown>> = {
+    order: DEFAULT_ORDER,
+    position: 'afterCharacter',
+    depth: DEFAULT_INSERTION_DEPTH,
+    probability: 100,
+};
+
+// Positions 0 and 1 are around the character definition and 4 is at a depth. The Author's Note and
+// example-message positions (2, 3, 5, 6) have no counterpart here and go after the character.
+const worldInfoPositionToNexus = (position: unknown): LorebookPosition | undefined => {
+    if (position === 0 || position === 'before_char') return 'beforeCharacter';
+    if (position === 4) return 'atDepth';
+    if (position === undefined || position === null) return undefined;
+    return 'afterCharacter';
+};
+
+const stringList = (value: unknown): string[] =>
+    Array.isArray(value) ? value.filter((k): k is string => typeof k === 'string').map(k => k.trim()).filter(k => k) : [];
+
+const finiteNumber = (value: unknown): number | undefined =>
+    typeof value === 'number' && Number.isFinite(value) ? value : undefined;
+
+const optionalFlag = (value: unknown): boolean | undefined =>
+    typeof value === 'boolean' ? value : undefined;
+
+/**
+ * Converts one World Info, character book or Agnaistic entry, keeping every setting the lorebook
+ * engine supports.
+ */
+const worldInfoEntryToNexus = (entry: any): LorebookEntry => {
+    const extensions = entry.extensions && typeof entry.extensions === 'object' ? entry.extensions : {};
+    const pick = (...values: unknown[]) => values.find(value => value !== undefined && value !== null);
+
+    // Secondary keys only count for "selective" entries.
+    const secondaryKeys = stringList(pick(entry.keysecondary, entry.secondary_keys));
+    const selective = pick(entry.selective, secondaryKeys.length > 0) !== false;
+    const secondaryLogic = SECONDARY_LOGIC[finiteNumber(pick(entry.selectiveLogic, extensions.selectiveLogic)) ?? 0];
+
+    const useProbability = pick(entry.useProbability, extensions.useProbability) !== false;
+    const probability = useProbability ? finiteNumber(pick(entry.probability, extensions.probability)) : undefined;
+    const disabled = entry.disable === true || entry.enabled === false;
+    const nexus = extensions[NEXUS_EXTENSION] && typeof extensions[NEXUS_EXTENSION] === 'object' ? extensions[NEXUS_EXTENSION] : null;
+
+    const result: LorebookEntry = {
+        id: typeof nexus?.id === 'string' ? nexus.id : crypto.randomUUID(),
+        keys: stringList(entry.keys || entry.key),
+        content: entry.content,
+        comment: (pick(entry.comment, entry.name) as string | undefined) || undefined,
+        disabled: disabled || undefined,
+        constant: entry.constant === true || undefined,
+        secondaryKeys: selective && secondaryKeys.length > 0 ? secondaryKeys : undefined,
+        secondaryLogic: selective && secondaryKeys.length > 0 && secondaryLogic !== 'andAny' ? secondaryLogic : undefined,
+        caseSensitive: optionalFlag(pick(entry.caseSensitive, entry.case_sensitive, extensions.case_sensitive)),
+        wholeWords: optionalFlag(pick(entry.matchWholeWords, extensions.match_whole_words)),
+        order: finiteNumber(pick(entry.order, entry.insertion_order, entry.priority)),
+        position: worldInfoPositionToNexus(pick(extensions.position, entry.position)),
+        depth: finiteNumber(pick(entry.depth, extensions.depth)),
+        scanDepth: finiteNumber(pick(entry.scanDepth, extensions.scan_depth)),
+        probability: probability !== undefined ? Math.min(100, Math.max(0, probability)) : undefined,
+        excludeRecursion: pick(entry.excludeRecursion, extensions.exclude_recursion) === true || undefined,
+        preventRecursion: pick(entry.preventRecursion, extensions.prevent_recursion) === true || undefined,
+    };
+    // Settings edited elsewhere since the export no longer hold the default and are kept.
+    const defaulted: unknown[] = nexus ? (Array.isArray(nexus.defaults) ? nexus.defaults : []) : Object.keys(WORLD_INFO_DEFAULTS);
+    for (const key of Object.keys(WORLD_INFO_DEFAULTS) as (keyof LorebookEntry)[]) {
+        if (defaulted.includes(key) && result[key] === WORLD_INFO_DEFAULTS[key]) result[key] = undefined as never;
+    }
+    // Leave unset settings out, so the entry uses the defaults.
+    for (const key of Object.keys(result) as (keyof LorebookEntry)[]) {
+        if (result[key] === undefined) delete result[key];
+    }
+    return result;
+};
+
+const nexusEntryExtension = (entry: LorebookEntry, extra: Record<string, unknown> = {}) => ({
+    id: entry.id,
+    defaults: (Object.keys(WORLD_INFO_DEFAULTS) as (keyof LorebookEntry)[]).filter(key => entry[key] === undefined),
+    ...extra,
+});
+
+const worldInfoPosition = (position: LorebookPosition | undefined): number =>
+    position === 'beforeCharacter' ? 0 : position === 'atDepth' ? 4 : 1;
+
+/**
+ * Converts an entry into SillyTavern's World Info format.
+ */
+const nexusEntryToWorldInfo = (entry: LorebookEntry, uid: number): any => ({
+    uid,
+    key: entry.keys,
+    keysecondary: entry.secondaryKeys || [],
+    comment: entry.comment || '',
+    content: entry.content,
+    constant: !!entry.constant,
+    selective: true,
+    selectiveLogic: SECONDARY_LOGIC.indexOf(entry.secondaryLogic || 'andAny'),
+    order: entry.order ?? DEFAULT_ORDER,
+    position: worldInfoPosition(entry.position),
+    disable: !!entry.disabled,
+    excludeRecursion: !!entry.excludeRecursion,
+    preventRecursion: !!entry.preventRecursion,
+    probability: entry.probability ?? 100,
+    useProbability: true,
+    depth: entry.depth ?? DEFAULT_INSERTION_DEPTH,
+    scanDepth: entry.scanDepth ?? null,
+    caseSensitive: entry.caseSensitive ?? null,
+    matchWholeWords: entry.wholeWords ?? null,
+    displayIndex: uid,
+    extensions: { [NEXUS_EXTENSION]: nexusEntryExtension(entry) },
+});
+
+/**
+ * Converts an entry into a character book (V2 `character_book`) entry. SillyTavern's own settings
+ * go under `extensions`, where SillyTavern puts them when it exports a card.
+ */
+const nexusEntryToCharacterBook = (entry: LorebookEntry, id: number, lorebookIndex: number): any => ({
+    id,
+    keys: entry.keys,
+    secondary_keys: entry.secondaryKeys || [],
+    comment: entry.comment || '',
+    name: entry.comment || '',
+    content: entry.content,
+    constant: !!entry.constant,
+    selective: true,
+    insertion_order: entry.order ?? DEFAULT_ORDER,
+    enabled: !entry.disabled,
+    position: entry.position === 'beforeCharacter' ? 'before_char' : 'after_char',
+    ...(entry.caseSensitive !== undefined ? { case_sensitive: entry.caseSensitive } : {}),
+    extensions: {
+        position: worldInfoPosition(entry.position),
+        depth: entry.depth ?? DEFAULT_INSERTION_DEPTH,
+        selectiveLogic: SECONDARY_LOGIC.indexOf(entry.secondaryLogic || 'andAny'),
+        probability: entry.probability ?? 100,
+        useProbability: true,
+        scan_depth: entry.scanDepth ?? null,
+        match_whole_words: entry.wholeWords ?? null,
+        exclude_recursion: !!entry.excludeRecursion,
+        prevent_recursion: !!entry.preventRecursion,
+        [NEXUS_EXTENSION]: nexusEntryExtension(entry, { lorebook: lorebookIndex }),
+    },
+});
+
+/**
+ * Converts a Lorebook into a SillyTavern World Info JSON, which `sillyTavernWorldInfoToNexus`
+ * reads back without losing any setting.
+ */
+export const nexusToWorldInfo = (lorebook: Lorebook): any => ({
+    name: lorebook.name,
+    description: lorebook.description,
+    ...(lorebook.tokenBudget !== undefined ? { token_budget: lorebook.tokenBudget } : {}),
+    entries: Object.fromEntries(lorebook.entries.map((entry, uid) => [String(uid), nexusEntryToWorldInfo(entry, uid)])),
+});
+
+/**
+ * Builds a V2/V3 `character_book` from the lorebooks linked to a character. A card holds a single
+ * book, so several lorebooks are merged and their boundaries kept in the extension.
+ */
+export const lorebooksToCharacterBook = (lorebooks: Lorebook[]): any => {
+    const single = lorebooks.length === 1 ? lorebooks[0] : null;
+    return {
+        name: lorebooks.map(lb => lb.name).join(', '),
+        description: single ? single.description : '',
+        ...(single?.tokenBudget !== undefined ? { token_budget: single.tokenBudget } : {}),
+        entries: lorebooks.flatMap((lb, lorebookIndex) => lb.entries.map(entry => ({ entry, lorebookIndex })))
+            .map(({ entry, lorebookIndex }, id) => nexusEntryToCharacterBook(entry, id, lorebookIndex)),
+        extensions: {
+            [NEXUS_EXTENSION]: {
+                lorebooks: lorebooks.map(lb => ({ name: lb.name, description: lb.description, tokenBudget: lb.tokenBudget })),
+            },
+        },
+    };
+};
+
+/**
+ * Reads the lorebooks embedded in a card's `character_book`, splitting books that AI Nexus merged.
+ */
+export const characterBookToLorebooks = (book: any, characterName: string): Lorebook[] => {
+    if (!book || typeof book !== 'object' || !Array.isArray(book.entries)) return [];
+    const entries = book.entries.filter((entry: any) => entry && Array.isArray(entry.keys) && typeof entry.content === 'string');
+    const nexusBooks: any[] | null = Array.isArray(book.extensions?.[NEXUS_EXTENSION]?.lorebooks) ? book.extensions[NEXUS_EXTENSION].lorebooks : null;
+
+    if (!nexusBooks) {
+        if (entries.length === 0) return [];
+        const lorebook: Lorebook = {
+            id: crypto.randomUUID(),
+            name: book.name || `${characterName} Lorebook`,
+            description: typeof book.description === 'string' ? book.description : `Embedded in the ${characterName} character card.`,
+            entries: entries.map(worldInfoEntryToNexus),
+        };
+        const tokenBudget = finiteNumber(book.token_budget);
+        if (tokenBudget !== undefined) lorebook.tokenBudget = tokenBudget;
+        return [lorebook];
+    }
+
+    return nexusBooks.map((nexusBook, lorebookIndex) => {
+        const lorebook: Lorebook = {
+            id: crypto.randomUUID(),
+            name: typeof nexusBook?.name === 'string' ? nexusBook.name : `${characterName} Lorebook`,
+            description: typeof nexusBook?.description === 'string' ? nexusBook.description : '',
+            // Entries added elsewhere have no lorebook of their own and join the first one.
+            entries: entries
+                .filter((entry: any) => (finiteNumber(entry.extensions?.[NEXUS_EXTENSION]?.lorebook) ?? 0) === lorebookIndex)
+                .map(worldInfoEntryToNexus),
+        };
+        const tokenBudget = finiteNumber(nexusBook?.tokenBudget);
+        if (tokenBudget !== undefined) lorebook.tokenBudget = tokenBudget;
+        return lorebook;
+    });
 };
 
 /**
@@ -237,18 +618,16 @@ export const sillyTavernWorldInfoToNexus = (data: any, fileName: string): Omit<L
     logger.log(`Detected SillyTavern/Agnaistic World Info format from file: ${fileName}`);
 
     const entries: LorebookEntry[] = entriesData
-        .filter(entry => entry && (Array.isArray(entry.key) || Array.isArray(entry.keys)) && typeof entry.content === 'string' && entry.enabled !== false)
-        .map(entry => ({
-            id: crypto.randomUUID(),
-            keys: (entry.keys || entry.key).map((k: string) => k.trim()).filter((k: string) => k),
-            content: entry.content
-        }));
+        .filter(entry => entry && (Array.isArray(entry.key) || Array.isArray(entry.keys)) && typeof entry.content === 'string')
+        .map(worldInfoEntryToNexus);
     
     const lorebookName = data.name || fileName.replace(/\.[^/.]+$/, "");
+    const tokenBudget = finiteNumber(data.token_budget);
 
     return {
         name: lorebookName,
-        description: data.description || `Imported from ${fileName}`,
+        description: typeof data.description === 'string' ? data.description : `Imported from ${fileName}`,
         entries: entries,
+        ...(tokenBudget !== undefined ? { tokenBudget } : {}),
     };
 };
\ No newline at end of file
@@ -0,0 +1,193 @@
+import { ApiConfig, AppData, Character, ConnectionProfile, EmbeddingConfig, Plugin } from '../types.ts';
+import { logger } from './loggingService.ts';
+
+// --- Connection Profiles ---
+// The profiles of the loaded app data are registered here, so the API services can resolve a
+// `profileId` without every caller having to pass the whole registry along.
+let registeredProfiles: ConnectionProfile[] = [];
+
+// The connection fields shared by ApiConfig, EmbeddingConfig and the image plugin settings.
+interface ConnectionSettings {
+    profileId?: string;
+    service?: string;
+    apiKey?: string;
+    apiEndpoint?: string;
+    model?: string;
+    rateLimit?: number;
+}
+
+/**
+ * Makes a list of profiles the one that `resolveConnection` looks up.
+ */
+export const setConnectionProfiles = (profiles: ConnectionProfile[]): void => {
+    registeredProfiles = profiles;
+};
+
+export const getConnectionProfile = (id?: string): ConnectionProfile | undefined =>
+    id ? registeredProfiles.find(p => p.id === id) : undefined;
+
+/**
+ * Fills in the connection fields of a config from the profile it references. Configs without a
+ * profile are returned unchanged. If the profile no longer exists, the default Gemini connection
+ * is used instead.
+ */
+export const resolveConnection = <T extends ConnectionSettings>(config: T): T => {
+    if (!config.profileId) {
+        return config;
+    }
+    const profile = getConnectionProfile(config.profileId);
+    if (!profile) {
+        logger.warn(`Connection profile "${config.profileId}" was not found. Falling back to the default Gemini connection.`);
+        return { ...config, service: 'gemini', apiKey: undefined, apiEndpoint: undefined, model: undefined, rateLimit: undefined };
+    }
+    return {
+        ...config,
+        service: profile.service,
+        apiKey: profile.apiKey,
+        apiEndpoint: profile.apiEndpoint,
+        model: profile.model,
+        rateLimit: profile.rateLimit,
+    };
+};
+
+/**
+ * Creates an empty profile with a unique id.
+ */
+export const createConnectionProfile = (fields: Partial<ConnectionProfile> = {}): ConnectionProfile => ({
+    name: '',
+    service: 'openai',
+    ...fields,
+    id: crypto.randomUUID(),
+    createdAt: new Date().toISOString(),
+});
+
+/**
+ * Lists what refers to a profile, e.g. `Aria (chat)` or `Image Generation`.
+ */
+export const getProfileUsage = (profileId: string, characters: Character[], plugins: Plugin[]): string[] => [
+    ...characters.filter(c => c.apiConfig?.profileId === profileId).map(c => `${c.name} (chat)`),
+    ...characters.filter(c => c.embeddingConfig?.profileId === profileId).map(c => `${c.name} (embeddings)`),
+    ...plugins.filter(p => p.settings?.profileId === profileId).map(p => p.name),
+];
+
+/**
+ * Deletes a profile. Everything that used it falls back to the default Gemini connection.
+ */
+export const removeConnectionProfile = (data: AppData, profileId: string): AppData => ({
+    ...data,
+    connectionProfiles: (data.connectionProfiles || []).filter(p => p.id !== profileId),
+    characters: data.characters.map(c => {
+        const usesForChat = c.apiConfig?.profileId === profileId;
+        const usesForEmbeddings = c.embeddingConfig?.profileId === profileId;
+        if (!usesForChat && !usesForEmbeddings) return c;
+        return {
+            ...c,
+            apiConfig: usesForChat ? { service: 'default', contextSize: c.apiConfig?.contextSize, generationSettings: c.apiConfig?.generationSettings } : c.apiConfig,
+            embeddingConfig: usesForEmbeddings ? { service: 'gemini' } : c.embeddingConfig,
+        };
+    }),
+    knowledgeBases: data.knowledgeBases?.map(k => k.embeddingConfig.profileId === profileId ? { ...k, embeddingConfig: { service: 'gemini' } } : k),
+    plugins: data.plugins?.map(p => {
+        if (p.settings?.profileId !== profileId) return p;
+        const { profileId: _removed, ...settings } = p.settings;
+        return { ...p, settings };
+    }),
+});
+
+// --- Migration of Inline Configs ---
+
+const normalizeInline = (settings: ConnectionSettings): Omit<ConnectionProfile, 'id' | 'name' | 'createdAt'> | null => {
+    if (settings.profileId) return null;
+    const apiKey = settings.apiKey?.trim() || undefined;
+    const rateLimit = settings.rateLimit && settings.rateLimit > 0 ? settings.rateLimit : undefined;
+    if (settings.service === 'gemini') {
+        // Inline Gemini configs never had an endpoint or model, and without a key they use the default client.
+        return apiKey || rateLimit ? { service: 'gemini', apiKey, rateLimit } : null;
+    }
+    if (settings.service === 'openai') {
+        return {
+            service: 'openai',
+            apiKey,
+            apiEndpoint: settings.apiEndpoint?.trim() || undefined,
+            model: settings.model?.trim() || undefined,
+            rateLimit,
+        };
+    }
+    return null;
+};
+
+const describeConnection = (settings: Omit<ConnectionProfile, 'id' | 'name' | 'createdAt'>): string => {
+    if (settings.service === 'gemini') {
+        return settings.apiKey ? `Gemini (key ...${settings.apiKey.slice(-4)})` : 'Gemini';
+    }
+    let host = settings.apiEndpoint || '';
+    try {
+        host = new URL(host).host;
+    } catch (e) {
+        // Not a full URL; show it as entered.
+    }
+    return [settings.model, host].filter(Boolean).join(' @ ') || 'OpenAI-compatible';
+};
+
+const connectionKey = (settings: Omit<ConnectionProfile, 'id' | 'name' | 'createdAt'>): string =>
+    JSON.stringify([settings.service, settings.apiKey || '', settings.apiEndpoint || '', settings.model || '', settings.rateLimit || 0]);
+
+const stripInline = <T extends ConnectionSettings>(config: T): Omit<T, 'apiKey' | 'apiEndpoint' | 'model' | 'rateLimit'> => {
+    const { apiKey, apiEndpoint, model, rateLimit, ...rest } = config;
+    return rest;
+};
+
+/**
+ * Moves the connection settings stored inline on characters, embedding configs and the image
+ * plugin into connection profiles and replaces them with a `profileId`. Identical settings share
+ * a profile, and settings that match an existing profile reuse it.
+ */
+export const migrateInlineConnections = (data: AppData): { data: AppData; migratedCount: number } => {
+    const profiles = [...(data.connectionProfiles || [])];
+    const profilesByKey = new Map(profiles.map(p => [connectionKey(p), p]));
+    let migratedCount = 0;
+
+    const profileIdFor = (settings: ConnectionSettings): string | undefined => {
+        const normalized = normalizeInline(settings);
+        if (!normalized) return undefined;
+        const key = connectionKey(normalized);
+        let profile = profilesByKey.get(key);
+        if (!profile) {
+            profile = createConnectionProfile({ ...normalized, name: describeConnection(normalized) });
+            profiles.push(profile);
+            profilesByKey.set(key, profile);
+        }
+        migratedCount++;
+        return profile.id;
+    };
+
+    const characters = data.characters.map(character => {
+        const apiProfileId = character.apiConfig && profileIdFor(character.apiConfig);
+        const embeddingProfileId = character.embeddingConfig && profileIdFor(character.embeddingConfig);
+        if (!apiProfileId && !embeddingProfileId) return character;
+
+        // Migrated profiles are always Gemini or OpenAI-compatible, the only services inline configs supported.
+        const profileService = (id: string) => profiles.find(p => p.id === id)!.service as 'gemini' | 'openai';
+        return {
+            ...character,
+            apiConfig: apiProfileId
+                ? { ...stripInline(character.apiConfig as ApiConfig), service: profileService(apiProfileId), profileId: apiProfileId }
+                : character.apiConfig,
+            embeddingConfig: embeddingProfileId
+                ? { ...stripInline(character.embeddingConfig as EmbeddingConfig), service: profileService(embeddingProfileId), profileId: embeddingProfileId }
+                : character.embeddingConfig,
+        };
+    });
+
+    const plugins = data.plugins?.map(plugin => {
+        const profileId = plugin.settings && profileIdFor(plugin.settings);
+        if (!profileId) return plugin;
+        const { service, ...settings } = stripInline(plugin.settings!);
+        return { ...plugin, settings: { ...settings, profileId } };
+    });
+
+    if (migratedCount > 0) {
+        logger.log(`Moved ${migratedCount} inline API configuration(s) into connection profiles.`, { profiles: profiles.length });
+    }
+    return { data: { ...data, characters, plugins, connectionProfiles: profiles }, migratedCount };
+};
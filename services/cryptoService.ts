@@ -121,3 +121,13 @@ export const createCanonicalString = (obj: Record<string, any>): string => {
         return `${key}:${value}`;
     }).join('|');
 };
+
+/**
+ * Creates the canonical string for a chat message. The signature and signer key are not part
+ * of the signed data, and neither is the message id, which only places the message in the
+ * conversation tree and is assigned to older messages after they were signed.
+ */
+export const createMessageCanonicalString = (message: Record<string, any>): string => {
+    const { signature, publicKeyJwk, id, ...signedFields } = message;
+    return createCanonicalString(signedFields);
+};
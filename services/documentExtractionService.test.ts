@@ -0,0 +1,223 @@
+import { beforeAll, describe, expect, it, vi } from 'vitest';
+import { JSDOM } from 'jsdom';
+import { extractDocument } from './documentExtractionService.ts';
+import { buildTextPdf, buildZip, ZipFixtureEntry } from './testFixtures.ts';
+
+// The extractors parse XML and HTML with the browser's DOMParser. Only that is taken from jsdom:
+// its Blob and File lack the stream and arrayBuffer methods the ZIP and PDF readers use.
+beforeAll(() => {
+    const { window } = new JSDOM();
+    vi.stubGlobal('DOMParser', window.DOMParser);
+    vi.stubGlobal('Node', window.Node);
+});
+
+const file = (name: string, content: string | ArrayBuffer, type = '') => new File([content], name, { type });
+
+// --- DOCX ---
+
+const W = 'xmlns:w="http://schemas.openxmlformats.org/wordprocessingml/2006/main"';
+const paragraph = (text: string, style?: string, extra = '') =>
+    `<w:p>${style ? `<w:pPr><w:pStyle w:val="${style}"/></w:pPr>` : ''}<w:r>${extra}<w:t>${text}</w:t></w:r></w:p>`;
+
+const docx = (body: string, styles?: string): ArrayBuffer => {
+    const entries: ZipFixtureEntry[] = [
+        { name: '[Content_Types].xml', data: '<Types xmlns="http://schemas.openxmlformats.org/package/2006/content-types"/>' },
+        { name: 'word/document.xml', data: `<?xml version="1.0" encoding="UTF-8"?><w:document ${W}><w:body>${body}</w:body></w:document>` },
+    ];
+    if (styles) entries.push({ name: 'word/styles.xml', data: `<w:styles ${W}>${styles}</w:styles>` });
+    return buildZip(entries);
+};
+
+const headingStyles = [
+    '<w:style w:type="paragraph" w:styleId="berschrift1"><w:name w:val="heading 1"/></w:style>',
+    '<w:style w:type="paragraph" w:styleId="Heading2"><w:name w:val="Heading 2"/></w:style>',
+    '<w:style w:type="paragraph" w:styleId="Titel"><w:name w:val="Title"/></w:style>',
+    '<w:style w:type="paragraph" w:styleId="Outline"><w:name w:val="My Outline"/><w:pPr><w:outlineLvl w:val="2"/></w:pPr></w:style>',
+].join('');
+
+describe('DOCX', () => {
+    it('reads headings by style name and outline level', async () => {
+        const body = [
+            paragraph('The Book', 'Titel'),
+            paragraph('Part One', 'berschrift1'),
+            paragraph('A Chapter', 'Heading2'),
+            paragraph('A Section', 'Outline'),
+            '<w:p><w:pPr><w:outlineLvl w:val="4"/></w:pPr><w:r><w:t>Direct outline</w:t></w:r></w:p>',
+            '<w:p><w:r><w:t xml:space="preserve">Split </w:t></w:r><w:r><w:t>across</w:t><w:tab/><w:t>runs.</w:t></w:r></w:p>',
+            '<w:p></w:p>',
+        ].join('');
+        const blocks = await extractDocument(file('book.docx', docx(body, headingStyles)));
+        expect(blocks).toEqual([
+            { kind: 'heading', level: 1, text: 'The Book' },
+            { kind: 'heading', level: 1, text: 'Part One' },
+            { kind: 'heading', level: 2, text: 'A Chapter' },
+            { kind: 'heading', level: 3, text: 'A Section' },
+            { kind: 'heading', level: 5, text: 'Direct outline' },
+            { kind: 'text', text: 'Split across runs.' },
+        ]);
+    });
+
+    it('counts pages by the breaks Word rendered', async () => {
+        const body = [
+            paragraph('Page one.'),
+            paragraph('Page two.', undefined, '<w:lastRenderedPageBreak/>'),
+            paragraph('Still page two.', undefined, '<w:br w:type="page"/>'),
+        ].join('');
+        expect(await extractDocument(file('a.docx', docx(body)))).toEqual([
+            { kind: 'text', text: 'Page one.', page: 1 },
+            { kind: 'text', text: 'Page two.', page: 2 },
+            { kind: 'text', text: 'Still page two.', page: 2 },
+        ]);
+    });
+
+    it('counts explicit page breaks when Word did not render any', async () => {
+        const body = [paragraph('Page one.'), paragraph('Page two.', undefined, '<w:br w:type="page"/>'), paragraph('Line', undefined, '<w:br/>')].join('');
+        expect(await extractDocument(file('a.docx', docx(body)))).toEqual([
+            { kind: 'text', text: 'Page one.', page: 1 },
+            { kind: 'text', text: 'Page two.', page: 2 },
+            { kind: 'text', text: 'Line', page: 2 },
+        ]);
+    });
+
+    it('leaves out page numbers when the file has no page information', async () => {
+        expect(await extractDocument(file('a.docx', docx(paragraph('One.') + paragraph('Two.'))))).toEqual([
+            { kind: 'text', text: 'One.' },
+            { kind: 'text', text: 'Two.' },
+        ]);
+    });
+
+    it('reads text boxes as part of the paragraph that holds them', async () => {
+        const textBox = `<w:r><w:t>Outer</w:t></w:r><w:r><w:pict><w:txbxContent>${paragraph('boxed')}</w:txbxContent></w:pict></w:r>`;
+        expect(await extractDocument(file('a.docx', docx(`<w:p>${textBox}</w:p>`)))).toEqual([{ kind: 'text', text: 'Outerboxed' }]);
+    });
+
+    it('rejects a file without a document body', async () => {
+        const zip = buildZip([{ name: 'word/styles.xml', data: `<w:styles ${W}/>` }]);
+        await expect(extractDocument(file('a.docx', zip))).rejects.toThrow('The DOCX file has no document body.');
+    });
+
+    it('rejects a file that is not a ZIP archive', async () => {
+        await expect(extractDocument(file('a.docx', 'Not a zip file at all.'))).rejects.toThrow('Not a ZIP archive');
+    });
+});
+
+// --- EPUB ---
+
+const container = (opfPath: string) =>
+    `<?xml version="1.0"?><container version="1.0" xmlns="urn:oasis:names:tc:opendocument:xmlns:container"><rootfiles><rootfile full-path="${opfPath}" media-type="application/oebps-package+xml"/></rootfiles></container>`;
+
+const packageDocument = (items: [string, string][], spine: string[]) => `<?xml version="1.0"?>
+<package xmlns="http://www.idpf.org/2007/opf" version="3.0">
+  <manifest>${items.map(([id, href]) => `<item id="${id}" href="${href}" media-type="application/xhtml+xml"/>`).join('')}</manifest>
+  <spine>${spine.map(id => `<itemref idref="${id}"/>`).join('')}</spine>
+</package>`;
+
+const chapter = (body: string) => `<?xml version="1.0"?><html xmlns="http://www.w3.org/1999/xhtml"><head><title>x</title></head><body>${body}</body></html>`;
+
+describe('EPUB', () => {
+    it('reads the chapters in spine order, relative to the package document', async () => {
+        const epub = buildZip([
+            { name: 'mimetype', data: 'application/epub+zip', method: 0 },
+            { name: 'META-INF/container.xml', data: container('OEBPS/content.opf') },
+            { name: 'OEBPS/content.opf', data: packageDocument([['c1', 'text/one.xhtml'], ['c2', 'text/two%20b.xhtml'], ['css', 'style.css']], ['c2', 'c1']) },
+            { name: 'OEBPS/text/one.xhtml', data: chapter('<h1>Chapter One</h1><p>It began.</p>') },
+            { name: 'OEBPS/text/two b.xhtml', data: chapter('<h2>Prologue</h2><p>Before <em>it</em><br/>began.</p><script>ignored()</script>') },
+        ]);
+        expect(await extractDocument(file('book.epub', epub))).toEqual([
+            { kind: 'heading', level: 2, text: 'Prologue' },
+            { kind: 'text', text: 'Before it began.' },
+            { kind: 'heading', level: 1, text: 'Chapter One' },
+            { kind: 'text', text: 'It began.' },
+        ]);
+    });
+
+    it('skips chapters that are missing from the archive', async () => {
+        const epub = buildZip([
+            { name: 'META-INF/container.xml', data: container('content.opf') },
+            { name: 'content.opf', data: packageDocument([['c1', 'one.xhtml'], ['c2', 'missing.xhtml']], ['c1', 'c2', 'unknown']) },
+            { name: 'one.xhtml', data: chapter('<p>Only chapter.</p>') },
+        ]);
+        expect(await extractDocument(file('book.epub', epub))).toEqual([{ kind: 'text', text: 'Only chapter.' }]);
+    });
+
+    it('rejects a book without a package document', async () => {
+        const noContainer = buildZip([{ name: 'content.opf', data: packageDocument([], []) }]);
+        await expect(extractDocument(file('a.epub', noContainer))).rejects.toThrow('The EPUB has no package document.');
+        const missingPackage = buildZip([{ name: 'META-INF/container.xml', data: container('missing.opf') }]);
+        await expect(extractDocument(file('a.epub', missingPackage))).rejects.toThrow('The EPUB has no package document.');
+    });
+});
+
+// --- PDF ---
+
+describe('PDF', () => {
+    it('groups lines into headings and paragraphs', async () => {
+        const content = [
+            'BT /F1 24 Tf 72 720 Td (Title) Tj ET',
+            'BT /F1 16 Tf 72 680 Td (Section) Tj ET',
+            'BT /F1 12 Tf 14 TL 72 650 Td (A paragraph that is hyphen-) Tj T* (ated across lines.) Tj T* (And goes on.) Tj ET',
+            'BT /F1 12 Tf 72 560 Td (A new paragraph after a gap.) Tj ET',
+            'BT /F1 12 Tf 300 40 Td (7) Tj ET',
+        ].join('\n');
+        const pdf = buildTextPdf([content, 'BT /F1 12 Tf 72 700 Td (Page two body text.) Tj ET']);
+        expect(await extractDocument(file('paper.pdf', pdf))).toEqual([
+            { kind: 'heading', level: 1, text: 'Title', page: 1 },
+            { kind: 'heading', level: 2, text: 'Section', page: 1 },
+            { kind: 'text', text: 'A paragraph that is hyphenated across lines. And goes on.', page: 1 },
+            { kind: 'text', text: 'A new paragraph after a gap.', page: 1 },
+            { kind: 'text', text: 'Page two body text.', page: 2 },
+        ]);
+    });
+
+    it('explains that a PDF without text needs OCR', async () => {
+        await expect(extractDocument(file('scan.pdf', buildTextPdf(['q Q'])))).rejects.toThrow('No text was found in this PDF.');
+    });
+
+    it('rejects a file that is not a PDF', async () => {
+        await expect(extractDocument(file('fake.pdf', 'Hello'))).rejects.toThrow('The file is not a PDF.');
+    });
+});
+
+// --- Text formats ---
+
+describe('text formats', () => {
+    it('splits plain text into paragraphs', async () => {
+        expect(await extractDocument(file('notes.txt', 'First paragraph\nstill first.\r\n\r\nSecond.\n\n\n'))).toEqual([
+            { kind: 'text', text: 'First paragraph\nstill first.' },
+            { kind: 'text', text: 'Second.' },
+        ]);
+    });
+
+    it('reads Markdown headings and keeps code fences together', async () => {
+        const markdown = [
+            '---', 'title: Notes', '---',
+            '# Heading', 'Some **bold** [link](http://x) and ![alt](img.png).', '',
+            'Setext', '======', '',
+            '```', '# not a heading', '', 'still code', '```',
+        ].join('\n');
+        expect(await extractDocument(file('notes.md', markdown))).toEqual([
+            { kind: 'heading', level: 1, text: 'Heading' },
+            { kind: 'text', text: 'Some bold link and alt.' },
+            { kind: 'heading', level: 1, text: 'Setext' },
+            { kind: 'text', text: '```\n# not a heading\n\nstill code\n```' },
+        ]);
+    });
+
+    it('reads HTML and skips navigation and scripts', async () => {
+        const html = '<html><head><title>T</title></head><body><nav>Menu</nav><h3>Heading</h3><div>Block <b>one</b></div><ul><li>Item</li></ul><style>p{}</style></body></html>';
+        expect(await extractDocument(file('page.html', html))).toEqual([
+            { kind: 'heading', level: 3, text: 'Heading' },
+            { kind: 'text', text: 'Block one' },
+            { kind: 'text', text: 'Item' },
+        ]);
+    });
+
+    it('falls back to the MIME type when the name has no extension', async () => {
+        expect(await extractDocument(file('README', '# Title', 'text/markdown'))).toEqual([{ kind: 'heading', level: 1, text: 'Title' }]);
+    });
+
+    it('rejects unsupported file types', async () => {
+        await expect(extractDocument(file('sheet.xlsx', 'x'))).rejects.toThrow('Unsupported file type "xlsx". Supported: .txt, .md');
+        await expect(extractDocument(file('blob', 'x', 'application/octet-stream'))).rejects.toThrow('Unsupported file type "application/octet-stream"');
+    });
+});
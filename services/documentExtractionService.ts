@@ -0,0 +1,343 @@
+import { DocumentBlock } from '../types.ts';
+import { logger } from './loggingService.ts';
+import { openZip } from './zipReader.ts';
+import { extractPdfLines, PdfTextLine } from './pdfParser.ts';
+
+// --- Document Extraction ---
+// Turns uploaded knowledge files into headings and paragraphs, entirely in the browser. Headings
+// and page numbers are kept so that retrieved chunks can say where they came from.
+
+export const SUPPORTED_DOCUMENT_EXTENSIONS = ['.txt', '.md', '.markdown', '.html', '.htm', '.xhtml', '.pdf', '.docx', '.epub'];
+
+const WORD_NAMESPACE = 'http://schemas.openxmlformats.org/wordprocessingml/2006/main';
+
+const normalizeWhitespace = (text: string) => text.replace(/\s+/g, ' ').trim();
+
+// --- Plain Text and Markdown ---
+
+const extractPlainText = (text: string): DocumentBlock[] =>
+    text.split(/\r?\n\s*\r?\n/)
+        .map(paragraph => paragraph.trim())
+        .filter(Boolean)
+        .map(paragraph => ({ kind: 'text', text: paragraph }));
+
+const stripInlineMarkdown = (text: string): string =>
+    text
+        .replace(/<!--[\s\S]*?-->/g, '')
+        .replace(/!\[([^\]]*)\]\([^)]*\)/g, '$1') // Images keep their alt text
+        .replace(/\[([^\]]+)\]\([^)]*\)/g, '$1') // Links keep their text
+        .replace(/(\*\*|__)(.+?)\1/g, '$2');
+
+const extractMarkdown = (text: string): DocumentBlock[] => {
+    const lines = text.replace(/^---\r?\n[\s\S]*?\r?\n---\r?\n/, '').split(/\r?\n/); // Front matter is metadata
+    const blocks: DocumentBlock[] = [];
+    let paragraph: string[] = [];
+    let inCodeFence = false;
+
+    const flush = () => {
+        const content = stripInlineMarkdown(paragraph.join('\n')).trim();
+        if (content) blocks.push({ kind: 'text', text: content });
+        paragraph = [];
+    };
+
+    for (const line of lines) {
+        if (/^\s*(```|~~~)/.test(line)) {
+            inCodeFence = !inCodeFence;
+            paragraph.push(line);
+            continue;
+        }
+        if (inCodeFence) {
+            paragraph.push(line);
+            continue;
+        }
+        const atx = line.match(/^(#{1,6})\s+(.*?)\s*#*\s*$/);
+        if (atx) {
+            flush();
+            blocks.push({ kind: 'heading', level: atx[1].length, text: stripInlineMarkdown(atx[2]) });
+            continue;
+        }
+        // Setext headings underline a single line of text with === or ---.
+        if (paragraph.length === 1 && /^(=+|-+)\s*$/.test(line)) {
+            blocks.push({ kind: 'heading', level: line.startsWith('=') ? 1 : 2, text: stripInlineMarkdown(paragraph[0].trim()) });
+            paragraph = [];
+            continue;
+        }
+        if (line.trim() === '') {
+            flush();
+        } else {
+            paragraph.push(line);
+        }
+    }
+    flush();
+    return blocks;
+};
+
+// --- HTML and EPUB ---
+
+const BLOCK_TAGS = new Set([
+    'p', 'div', 'section', 'article', 'main', 'header', 'footer', 'aside', 'blockquote', 'pre',
+    'ul', 'ol', 'li', 'dl', 'dt', 'dd', 'table', 'tr', 'figure', 'figcaption', 'hr', 'body',
+]);
+const SKIPPED_TAGS = new Set(['script', 'style', 'noscript', 'template', 'nav', 'svg', 'head', 'iframe']);
+
+const extractHtmlDocument = (doc: Document): DocumentBlock[] => {
+    const blocks: DocumentBlock[] = [];
+    let buffer = '';
+
+    const flush = () => {
+        const text = normalizeWhitespace(buffer);
+        if (text) blocks.push({ kind: 'text', text });
+        buffer = '';
+    };
+
+    const walk = (node: Node) => {
+        if (node.nodeType === Node.TEXT_NODE) {
+            buffer += node.textContent || '';
+            return;
+        }
+        if (node.nodeType !== Node.ELEMENT_NODE) return;
+        const tag = (node as Element).localName.toLowerCase();
+        if (SKIPPED_TAGS.has(tag)) return;
+        const heading = tag.match(/^h([1-6])$/);
+        if (heading) {
+            flush();
+            const text = normalizeWhitespace(node.textContent || '');
+            if (text) blocks.push({ kind: 'heading', level: parseInt(heading[1], 10), text });
+            return;
+        }
+        if (tag === 'br') {
+            buffer += ' ';
+            return;
+        }
+        const isBlock = BLOCK_TAGS.has(tag);
+        if (isBlock) flush();
+        node.childNodes.forEach(walk);
+        if (isBlock) flush();
+    };
+
+    walk(doc.body || doc.documentElement);
+    flush();
+    return blocks;
+};
+
+const extractHtml = (html: string): DocumentBlock[] =>
+    extractHtmlDocument(new DOMParser().parseFromString(html, 'text/html'));
+
+const extractEpub = async (buffer: ArrayBuffer): Promise<DocumentBlock[]> => {
+    const zip = openZip(buffer);
+    const parser = new DOMParser();
+
+    const container = await zip.readText('META-INF/container.xml');
+    const opfPath = container
+        ? parser.parseFromString(container, 'application/xml').getElementsByTagNameNS('*', 'rootfile')[0]?.getAttribute('full-path')
+        : null;
+    const opf = opfPath ? await zip.readText(opfPath) : null;
+    if (!opfPath || !opf) {
+        throw new Error("The EPUB has no package document.");
+    }
+
+    // The spine lists the chapters in reading order; the manifest says where each one lives.
+    const opfDoc = parser.parseFromString(opf, 'application/xml');
+    const manifest = new Map<string, string>();
+    for (const item of Array.from(opfDoc.getElementsByTagNameNS('*', 'item'))) {
+        const id = item.getAttribute('id');
+        const href = item.getAttribute('href');
+        if (id && href) manifest.set(id, href);
+    }
+    const chapterPaths = Array.from(opfDoc.getElementsByTagNameNS('*', 'itemref'))
+        .map(ref => manifest.get(ref.getAttribute('idref') || ''))
+        .filter((href): href is string => !!href)
+        .map(href => new URL(href, `http://epub/${opfPath}`).pathname.slice(1));
+
+    const blocks: DocumentBlock[] = [];
+    for (const path of chapterPaths) {
+        const chapter = await zip.readText(path);
+        if (chapter === null) {
+            logger.warn(`EPUB chapter "${path}" is missing from the archive.`);
+            continue;
+        }
+        blocks.push(...extractHtml(chapter));
+    }
+    return blocks;
+};
+
+// --- DOCX ---
+
+const getWordAttribute = (element: Element | undefined, name: string): string | null =>
+    element ? element.getAttributeNS(WORD_NAMESPACE, name) ?? element.getAttribute(`w:${name}`) : null;
+
+const getWordChild = (element: Element | null | undefined, name: string): Element | undefined =>
+    element ? Array.from(element.children).find(child => child.localName === name && child.namespaceURI === WORD_NAMESPACE) : undefined;
+
+/**
+ * Maps paragraph style ids to heading levels, using the style names ("heading 1", "Title") and
+ * outline levels from styles.xml. Style ids are localized, so the names are more reliable.
+ */
+const readHeadingStyles = (stylesXml: string | null): Map<string, number> => {
+    const levels = new Map<string, number>();
+    if (!stylesXml) return levels;
+    const doc = new DOMParser().parseFromString(stylesXml, 'application/xml');
+    for (const style of Array.from(doc.getElementsByTagNameNS(WORD_NAMESPACE, 'style'))) {
+        const id = getWordAttribute(style, 'styleId');
+        if (!id) continue;
+        const name = getWordAttribute(getWordChild(style, 'name'), 'val')?.toLowerCase() || '';
+        const outline = getWordChild(getWordChild(style, 'pPr'), 'outlineLvl');
+        const heading = name.match(/^heading\s*(\d)$/);
+        if (heading) levels.set(id, parseInt(heading[1], 10));
+        else if (name === 'title') levels.set(id, 1);
+        else if (outline) levels.set(id, parseInt(getWordAttribute(outline, 'val') || '0', 10) + 1);
+    }
+    return levels;
+};
+
+const extractDocx = async (buffer: ArrayBuffer): Promise<DocumentBlock[]> => {
+    const zip = openZip(buffer);
+    const documentXml = await zip.readText('word/document.xml');
+    if (!documentXml) {
+        throw new Error("The DOCX file has no document body.");
+    }
+    const headingStyles = readHeadingStyles(await zip.readText('word/styles.xml'));
+    const doc = new DOMParser().parseFromString(documentXml, 'application/xml');
+
+    // Word records where it last broke pages when the file was saved. Files written by other tools
+    // often lack these markers, in which case only explicit page breaks are counted.
+    const hasRenderedBreaks = doc.getElementsByTagNameNS(WORD_NAMESPACE, 'lastRenderedPageBreak').length > 0;
+    let hasPageInfo = hasRenderedBreaks;
+    let page = 1;
+
+    const blocks: DocumentBlock[] = [];
+    for (const paragraph of Array.from(doc.getElementsByTagNameNS(WORD_NAMESPACE, 'p'))) {
+        // Paragraphs inside text boxes are read as part of the paragraph that holds the box.
+        let ancestor = paragraph.parentElement;
+        while (ancestor && !(ancestor.localName === 'p' && ancestor.namespaceURI === WORD_NAMESPACE)) ancestor = ancestor.parentElement;
+        if (ancestor) continue;
+
+        let text = '';
+        let paragraphPage: number | undefined;
+        for (const element of Array.from(paragraph.getElementsByTagNameNS(WORD_NAMESPACE, '*'))) {
+            switch (element.localName) {
+                case 't':
+                    if (paragraphPage === undefined && element.textContent) paragraphPage = page;
+                    text += element.textContent || '';
+                    break;
+                case 'tab':
+                case 'cr':
+                    text += ' ';
+                    break;
+                case 'br':
+                    if (getWordAttribute(element, 'type') === 'page') {
+                        hasPageInfo = true;
+                        if (!hasRenderedBreaks) page++;
+                    } else {
+                        text += ' ';
+                    }
+                    break;
+                case 'lastRenderedPageBreak':
+                    page++;
+                    break;
+            }
+        }
+
+        const content = normalizeWhitespace(text);
+        if (!content) continue;
+        const properties = getWordChild(paragraph, 'pPr');
+        const styleId = getWordAttribute(getWordChild(properties, 'pStyle'), 'val');
+        const outline = getWordChild(properties, 'outlineLvl');
+        const level = (styleId && headingStyles.get(styleId))
+            || (outline ? parseInt(getWordAttribute(outline, 'val') || '0', 10) + 1 : undefined);
+        blocks.push(level && level <= 9
+            ? { kind: 'heading', level, text: content, page: paragraphPage }
+            : { kind: 'text', text: content, page: paragraphPage });
+    }
+
+    if (!hasPageInfo) blocks.forEach(block => delete block.page);
+    return blocks;
+};
+
+// --- PDF ---
+
+const isPageNumberLine = (text: string) => /^(page\s+)?\d+(\s+(of|\/)\s+\d+)?$/i.test(text);
+
+/**
+ * Groups PDF lines into paragraphs and headings. Headings are lines set noticeably larger than the
+ * body text; the body size is the size most of the text uses.
+ */
+const pdfLinesToBlocks = (lines: PdfTextLine[]): DocumentBlock[] => {
+    const textBySize = new Map<number, number>();
+    for (const line of lines) textBySize.set(line.fontSize, (textBySize.get(line.fontSize) || 0) + line.text.length);
+    const bodySize = [...textBySize.entries()].sort((a, b) => b[1] - a[1])[0]?.[0] || 0;
+
+    const isHeadingLine = (line: PdfTextLine) => bodySize > 0 && line.fontSize >= bodySize * 1.2 && line.text.length <= 120;
+    const headingSizes = [...new Set(lines.filter(isHeadingLine).map(line => line.fontSize))].sort((a, b) => b - a);
+
+    const blocks: DocumentBlock[] = [];
+    let current: { kind: 'heading' | 'text'; text: string; page: number; size: number; lastY: number } | null = null;
+    const flush = () => {
+        if (current) {
+            blocks.push(current.kind === 'heading'
+                ? { kind: 'heading', level: Math.min(6, headingSizes.indexOf(current.size) + 1), text: current.text, page: current.page }
+                : { kind: 'text', text: current.text, page: current.page });
+        }
+        current = null;
+    };
+
+    for (const line of lines) {
+        if (isPageNumberLine(line.text)) continue;
+        const kind = isHeadingLine(line) ? 'heading' : 'text';
+        const gap = current ? current.lastY - line.y : 0;
+        const continues = current
+            && current.kind === kind
+            && current.page === line.page
+            && Math.abs(current.size - line.fontSize) < 0.5
+            && gap > 0 && gap < line.fontSize * 1.8; // Larger gaps, or moving up (a new column), start a new block
+        if (current && continues) {
+            // Re-join words that were hyphenated across the line break.
+            current.text = /\p{L}-$/u.test(current.text) && /^\p{Ll}/u.test(line.text)
+                ? current.text.slice(0, -1) + line.text
+                : `${current.text} ${line.text}`;
+            current.lastY = line.y;
+            continue;
+        }
+        flush();
+        current = { kind, text: line.text, page: line.page, size: line.fontSize, lastY: line.y };
+    }
+    flush();
+    return blocks;
+};
+
+const extractPdf = async (buffer: ArrayBuffer): Promise<DocumentBlock[]> => {
+    const lines = await extractPdfLines(buffer);
+    if (lines.length === 0) {
+        throw new Error("No text was found in this PDF. Scanned documents need to be run through OCR first.");
+    }
+    return pdfLinesToBlocks(lines);
+};
+
+// --- Entry Point ---
+
+/**
+ * Extracts the headings and paragraphs of a knowledge file. The format is chosen by the file
+ * extension, falling back to the MIME type.
+ * @throws If the format is not supported or the file cannot be read.
+ */
+export const extractDocument = async (file: File): Promise<DocumentBlock[]> => {
+    const extension = file.name.includes('.') ? file.name.split('.').pop()!.toLowerCase() : '';
+    let blocks: DocumentBlock[];
+    if (extension === 'pdf' || file.type === 'application/pdf') {
+        blocks = await extractPdf(await file.arrayBuffer());
+    } else if (extension === 'docx' || file.type === 'application/vnd.openxmlformats-officedocument.wordprocessingml.document') {
+        blocks = await extractDocx(await file.arrayBuffer());
+    } else if (extension === 'epub' || file.type === 'application/epub+zip') {
+        blocks = await extractEpub(await file.arrayBuffer());
+    } else if (['html', 'htm', 'xhtml'].includes(extension) || file.type === 'text/html') {
+        blocks = extractHtml(await file.text());
+    } else if (['md', 'markdown'].includes(extension) || file.type === 'text/markdown') {
+        blocks = extractMarkdown(await file.text());
+    } else if (extension === 'txt' || file.type.startsWith('text/')) {
+        blocks = extractPlainText(await file.text());
+    } else {
+        throw new Error(`Unsupported file type "${extension || file.type}". Supported: ${SUPPORTED_DOCUMENT_EXTENSIONS.join(', ')}.`);
+    }
+    logger.log(`Extracted ${blocks.length} blocks from "${file.name}".`, { headings: blocks.filter(b => b.kind === 'heading').length });
+    return blocks;
+};
@@ -1,6 +1,7 @@
 import { GoogleGenAI, EmbedContentResponse } from "@google/genai";
 import { EmbeddingConfig } from "../types";
 import { logger } from "./loggingService";
+import { resolveConnection } from "./connectionProfileService";
 
 // --- Gemini Client Setup ---
 const API_KEY = typeof process !== 'undefined' ? process.env.API_KEY : undefined;
@@ -67,18 +68,39 @@ const withRetry = async <T>(
     throw new Error('API request failed to complete after all retries.');
 };
 
-const generateGeminiEmbedding = async (text: string, config: EmbeddingConfig): Promise<number[]> => {
+const GEMINI_EMBEDDING_MODEL = "text-embedding-004";
+const OPENAI_DEFAULT_EMBEDDING_MODEL = 'nomic-embed-text';
+
+const generateGeminiEmbeddings = async (texts: string[], config: EmbeddingConfig): Promise<number[][]> => {
     const ai = getAiClient(config.apiKey);
     // FIX: Explicitly type the response from `withRetry` to allow accessing response properties.
     const result: EmbedContentResponse = await withRetry(() => ai.models.embedContent({
-        model: "text-embedding-004",
-        contents: text
+        model: GEMINI_EMBEDDING_MODEL,
+        contents: texts
     }));
-    return result.embeddings[0].values;
+    return result.embeddings.map(embedding => embedding.values);
 };
 
-const generateOpenAIEmbedding = async (text: string, config: EmbeddingConfig): Promise<number[]> => {
+// The response of an OpenAI-compatible endpoint, or of Ollama's legacy endpoint, which returns one
+// 'embedding' instead of a 'data' list.
+interface OpenAIEmbeddingResponse {
+    data?: { index?: number; embedding: number[] }[];
+    embedding?: number[];
+}
+
+// Servers with Ollama's legacy endpoint take a single 'prompt' and return a single embedding.
+const isLegacyOllamaEndpoint = (apiEndpoint: string): boolean => /\/api\/embeddings\/?$/.test(apiEndpoint.trim());
+
+const generateOpenAIEmbeddings = async (texts: string[], config: EmbeddingConfig): Promise<number[][]> => {
     if (!config.apiEndpoint) throw new Error("OpenAI-compatible embedding endpoint is not configured.");
+    const isLegacy = isLegacyOllamaEndpoint(config.apiEndpoint);
+    if (isLegacy && texts.length > 1) {
+        const embeddings: number[][] = [];
+        for (const text of texts) {
+            embeddings.push(...await generateOpenAIEmbeddings([text], config));
+        }
+        return embeddings;
+    }
 
     const response = await fetch(config.apiEndpoint.trim(), {
         method: 'POST',
@@ -87,9 +109,9 @@ const generateOpenAIEmbedding = async (text: string, config: EmbeddingConfig): P
             'Authorization': `Bearer ${config.apiKey?.trim() || 'ollama'}`,
         },
         body: JSON.stringify({
-            model: config.model?.trim() || 'nomic-embed-text',
-            prompt: text, // Ollama uses 'prompt', OpenAI uses 'input'
-            input: text,
+            model: config.model?.trim() || OPENAI_DEFAULT_EMBEDDING_MODEL,
+            // Ollama uses 'prompt', OpenAI uses 'input'
+            ...(isLegacy ? { prompt: texts[0] } : { input: texts }),
         }),
     });
 
@@ -101,28 +123,155 @@ const generateOpenAIEmbedding = async (text: string, config: EmbeddingConfig): P
         throw new Error(`Embedding API request failed with status ${response.status}: ${errorBody}`);
     }
     
-    const json = await response.json();
+    const json: OpenAIEmbeddingResponse = await response.json();
     
     // Handle different response structures (Ollama vs OpenAI)
-    const embedding = json.embedding || json.data?.[0]?.embedding;
+    const embeddings: number[][] | undefined = json.embedding
+        ? [json.embedding]
+        : json.data && [...json.data].sort((a, b) => (a.index ?? 0) - (b.index ?? 0)).map(item => item.embedding);
 
-    if (!embedding) {
+    if (!embeddings || embeddings.length !== texts.length || embeddings.some(embedding => !embedding)) {
         throw new Error("API response did not contain embedding data.");
     }
+    return embeddings;
+};
+
+const OLLAMA_DEFAULT_BASE_URL = 'http://localhost:11434';
+
+// Uses Ollama's native batch endpoint. The endpoint may be the server's base URL or a full API URL.
+const generateOllamaEmbeddings = async (texts: string[], config: EmbeddingConfig): Promise<number[][]> => {
+    const base = (config.apiEndpoint?.trim() || OLLAMA_DEFAULT_BASE_URL)
+        .replace(/\/+$/, '')
+        .replace(/\/api\/(chat|embed|embeddings|tags)$/, '');
+    if (!config.model?.trim()) throw new Error("No embedding model is configured for Ollama (e.g., nomic-embed-text).");
+
+    const response = await fetch(`${base}/api/embed`, {
+        method: 'POST',
+        headers: { 'Content-Type': 'application/json' },
+        body: JSON.stringify({ model: config.model.trim(), input: texts }),
+    });
+
+    if (response.status === 429) {
+        throw response; // Throw response to be caught by withRetry
+    }
+    if (!response.ok) {
+        const errorBody = await response.text();
+        if (response.status === 404) {
+            throw new Error(`The embedding model "${config.model}" is not installed in Ollama. Run "ollama pull ${config.model}". (${errorBody})`);
+        }
+        throw new Error(`Ollama embedding request failed with status ${response.status}: ${errorBody}`);
+    }
+
+    const json: { embeddings?: number[][] } = await response.json();
+    const embeddings = json.embeddings;
+    if (!embeddings || embeddings.length !== texts.length) {
+        throw new Error("Ollama response did not contain embedding data.");
+    }
+    return embeddings;
+};
+
+// US dollars per million input tokens of the paid models we know of. Gemini's embedding model
+// is free within its rate limits, and local models cost nothing.
+const EMBEDDING_PRICES_PER_MILLION_TOKENS: Record<string, number> = {
+    'text-embedding-3-small': 0.02,
+    'text-embedding-3-large': 0.13,
+    'text-embedding-ada-002': 0.10,
+};
+
+export interface EmbeddingThroughput {
+    batchSize: number; // Texts per request
+    concurrency: number; // Requests in flight at once
+    minRequestInterval: number; // Milliseconds between requests, from the connection's rate limit
+    pricePerMillionTokens: number | null; // null if the price of the model is unknown
+}
+
+/**
+ * How many texts a provider embeds per request, how many requests may run at once, and what the
+ * model costs. Local servers and rate limited connections get one request at a time.
+ */
+export const getEmbeddingThroughput = (embeddingConfig: EmbeddingConfig): EmbeddingThroughput => {
+    const config = resolveConnection<EmbeddingConfig & { rateLimit?: number }>(embeddingConfig);
+    const minRequestInterval = config.rateLimit && config.rateLimit > 0 ? config.rateLimit : 0;
+    if (config.service === 'ollama') {
+        return { batchSize: 32, concurrency: 1, minRequestInterval, pricePerMillionTokens: 0 };
+    }
+    if (config.service === 'openai') {
+        const model = config.model?.trim() || OPENAI_DEFAULT_EMBEDDING_MODEL;
+        const isLegacy = !!config.apiEndpoint && isLegacyOllamaEndpoint(config.apiEndpoint);
+        return {
+            batchSize: isLegacy ? 1 : 64,
+            concurrency: minRequestInterval ? 1 : 4,
+            minRequestInterval,
+            pricePerMillionTokens: model in EMBEDDING_PRICES_PER_MILLION_TOKENS ? EMBEDDING_PRICES_PER_MILLION_TOKENS[model] : (model === OPENAI_DEFAULT_EMBEDDING_MODEL ? 0 : null),
+        };
+    }
+    return { batchSize: 100, concurrency: minRequestInterval ? 1 : 4, minRequestInterval, pricePerMillionTokens: 0 };
+};
+
+/**
+ * Names the model that embeds text for a config, e.g. "ollama:nomic-embed-text". Embeddings are
+ * only comparable when they were made by the same model.
+ */
+export const getEmbeddingModelId = (embeddingConfig: EmbeddingConfig): string => {
+    const config = resolveConnection(embeddingConfig);
+    if (config.service === 'gemini') return `gemini:${GEMINI_EMBEDDING_MODEL}`;
+    return `${config.service}:${config.model?.trim() || (config.service === 'openai' ? OPENAI_DEFAULT_EMBEDDING_MODEL : '')}`;
+};
+
+/**
+ * Cosine similarity of two vectors; 0 if they are empty or of different length.
+ */
+export const calculateCosineSimilarity = (vecA: ArrayLike<number>, vecB: ArrayLike<number>): number => {
+    if (vecA.length !== vecB.length || vecA.length === 0) {
+        return 0;
+    }
+
+    let dotProduct = 0;
+    let normA = 0;
+    let normB = 0;
+
+    for (let i = 0; i < vecA.length; i++) {
+        dotProduct += vecA[i] * vecB[i];
+        normA += vecA[i] * vecA[i];
+        normB += vecB[i] * vecB[i];
+    }
+
+    if (normA === 0 || normB === 0) {
+        return 0;
+    }
+
+    return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
+};
+
+export const generateEmbedding = async (text: string, embeddingConfig: EmbeddingConfig): Promise<number[]> => {
+    const [embedding] = await generateEmbeddings([text], embeddingConfig);
     return embedding;
 };
 
-export const generateEmbedding = async (text: string, config: EmbeddingConfig): Promise<number[]> => {
+/**
+ * Embeds several texts with one request where the provider supports it. Callers keep batches
+ * within `getEmbeddingThroughput(...).batchSize`.
+ */
+export const generateEmbeddings = async (texts: string[], embeddingConfig: EmbeddingConfig): Promise<number[][]> => {
+    const config = resolveConnection(embeddingConfig);
     try {
+        // A connection profile for a chat-only provider may have been picked for embeddings.
+        const service: string = config.service;
+        if (service === 'anthropic') {
+            throw new Error("Anthropic does not offer an embeddings API. Pick a Gemini, OpenAI-compatible or Ollama connection profile.");
+        }
         if (config.service === 'openai') {
-            logger.debug(`Generating embedding with OpenAI-compatible API. Endpoint: ${config.apiEndpoint}`);
-            return await withRetry(() => generateOpenAIEmbedding(text, config));
+            logger.debug(`Generating ${texts.length} embedding(s) with OpenAI-compatible API. Endpoint: ${config.apiEndpoint}`);
+            return await withRetry(() => generateOpenAIEmbeddings(texts, config));
+        } else if (config.service === 'ollama') {
+            logger.debug(`Generating ${texts.length} embedding(s) with Ollama. Endpoint: ${config.apiEndpoint}`);
+            return await withRetry(() => generateOllamaEmbeddings(texts, config));
         } else { // Default to Gemini
-            logger.debug("Generating embedding with Gemini API.");
-            return await generateGeminiEmbedding(text, config);
+            logger.debug(`Generating ${texts.length} embedding(s) with Gemini API.`);
+            return await generateGeminiEmbeddings(texts, config);
         }
     } catch (error) {
         logger.error("Failed to generate embedding:", error);
         throw new Error(`Embedding generation failed. Check API configuration and logs. Details: ${error instanceof Error ? error.message : String(error)}`);
     }
-};
\ No newline at end of file
+};
@@ -0,0 +1,233 @@
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { createServer, IncomingMessage, Server, ServerResponse } from 'node:http';
+import { AddressInfo } from 'node:net';
+import { ApiConfig, Character, Message } from '../types.ts';
+import { describeAnthropicError, describeOllamaError, generateWithCharacterModel, streamChatResponse } from './geminiService.ts';
+
+// --- Mock provider server ---
+// Stands in for the Anthropic and Ollama APIs. Each test sets the reply; the requests it
+// received are kept so the tests can check what was sent.
+
+interface ReceivedRequest {
+    path: string;
+    headers: IncomingMessage['headers'];
+    body: any;
+}
+
+type MockReply = { status?: number; contentType?: string; chunks: string[] };
+
+let server: Server;
+let baseUrl: string;
+let reply: MockReply;
+let received: ReceivedRequest[];
+
+beforeAll(async () => {
+    server = createServer((req: IncomingMessage, res: ServerResponse) => {
+        let body = '';
+        req.on('data', chunk => { body += chunk; });
+        req.on('end', async () => {
+            received.push({ path: req.url || '', headers: req.headers, body: body ? JSON.parse(body) : undefined });
+            res.writeHead(reply.status || 200, { 'Content-Type': reply.contentType || 'text/event-stream' });
+            for (const chunk of reply.chunks) {
+                res.write(chunk);
+                await new Promise(resolve => setTimeout(resolve, 1));
+            }
+            res.end();
+        });
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    baseUrl = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+});
+
+afterAll(async () => {
+    server.closeAllConnections(); // fetch keeps connections alive, which would hold close() open
+    await new Promise(resolve => server.close(resolve));
+});
+
+beforeEach(() => {
+    received = [];
+});
+
+const character = (apiConfig: ApiConfig): Character => ({
+    id: 'char-1',
+    name: 'Aria',
+    description: 'A travelling bard.',
+    personality: 'Cheerful.',
+    avatarUrl: '',
+    tags: [],
+    createdAt: '2024-01-01T00:00:00.000Z',
+    apiConfig,
+});
+
+const history: Message[] = [{ role: 'user', content: 'Sing me a song.', timestamp: '2024-01-01T00:00:00.000Z' }];
+
+const streamToText = async (char: Character): Promise<string> => {
+    let text = '';
+    await streamChatResponse(char, [char], history, chunk => { text += chunk; });
+    return text;
+};
+
+const sse = (event: string, data: object) => `event: ${event}\ndata: ${JSON.stringify(data)}\n\n`;
+const ndjson = (line: object) => `${JSON.stringify(line)}\n`;
+
+// --- Anthropic ---
+
+describe('Anthropic streaming', () => {
+    const anthropic = () => character({ service: 'anthropic', apiEndpoint: baseUrl, apiKey: ' sk-test ', model: 'claude-test' });
+
+    it('streams the text deltas of a reply', async () => {
+        reply = {
+            chunks: [
+                sse('message_start', { type: 'message_start', message: { id: 'msg_1' } }),
+                sse('content_block_start', { type: 'content_block_start', index: 0, content_block: { type: 'text', text: '' } }),
+                sse('ping', { type: 'ping' }),
+                sse('content_block_delta', { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'La ' } }),
+                sse('content_block_delta', { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'la la.' } }),
+                sse('content_block_stop', { type: 'content_block_stop', index: 0 }),
+                sse('message_delta', { type: 'message_delta', delta: { stop_reason: 'end_turn' } }),
+                sse('message_stop', { type: 'message_stop' }),
+            ],
+        };
+        expect(await streamToText(anthropic())).toBe('La la la.');
+
+        const [request] = received;
+        expect(request.path).toBe('/v1/messages');
+        expect(request.headers['x-api-key']).toBe('sk-test');
+        expect(request.headers['anthropic-version']).toBeDefined();
+        expect(request.body).toMatchObject({ model: 'claude-test', stream: true, max_tokens: expect.any(Number) });
+        expect(request.body.system).toContain('Aria');
+        expect(request.body.messages).toEqual([{ role: 'user', content: 'Sing me a song.' }]);
+    });
+
+    it('throws an error event sent in the middle of the stream', async () => {
+        reply = {
+            chunks: [
+                sse('content_block_delta', { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'La ' } }),
+                sse('error', { type: 'error', error: { type: 'overloaded_error', message: 'Overloaded' } }),
+            ],
+        };
+        let text = '';
+        const char = anthropic();
+        await expect(streamChatResponse(char, [char], history, chunk => { text += chunk; }))
+            .rejects.toThrow('Anthropic API: The Anthropic API is temporarily overloaded. Please try again shortly. (Overloaded)');
+        expect(text).toBe('La ');
+    });
+
+    it('throws the error of a failed request', async () => {
+        reply = {
+            status: 401,
+            contentType: 'application/json',
+            chunks: [JSON.stringify({ type: 'error', error: { type: 'authentication_error', message: 'invalid x-api-key' } })],
+        };
+        await expect(streamToText(anthropic())).rejects.toThrow('The Anthropic API key is invalid. (401: invalid x-api-key)');
+    });
+
+    it('returns a reply that merely starts like an error message', async () => {
+        reply = {
+            chunks: [
+                sse('content_block_delta', { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'Sorry, I only know one song.' } }),
+                sse('message_stop', { type: 'message_stop' }),
+            ],
+        };
+        expect(await generateWithCharacterModel(anthropic(), 'Answer briefly.', 'Do you know a song?')).toBe('Sorry, I only know one song.');
+        expect(received[0].body.system).toBe('Answer briefly.');
+    });
+});
+
+// --- Ollama ---
+
+describe('Ollama streaming', () => {
+    const ollama = () => character({ service: 'ollama', apiEndpoint: `${baseUrl}/`, model: 'llama3' });
+
+    it('streams the message content of each line', async () => {
+        reply = {
+            contentType: 'application/x-ndjson',
+            chunks: [
+                ndjson({ model: 'llama3', message: { role: 'assistant', content: 'La ' }, done: false }),
+                ndjson({ model: 'llama3', message: { role: 'assistant', content: 'la.' }, done: false }),
+                ndjson({ model: 'llama3', message: { role: 'assistant', content: '' }, done: true }),
+            ],
+        };
+        expect(await streamToText(ollama())).toBe('La la.');
+
+        const [request] = received;
+        expect(request.path).toBe('/api/chat');
+        expect(request.headers.authorization).toBeUndefined();
+        expect(request.body).toMatchObject({ model: 'llama3', stream: true });
+        expect(request.body.messages[0].role).toBe('system');
+        expect(request.body.messages.slice(1)).toEqual([{ role: 'user', content: 'Sing me a song.' }]);
+    });
+
+    it('throws an error line sent in the middle of the stream', async () => {
+        reply = {
+            contentType: 'application/x-ndjson',
+            chunks: [
+                ndjson({ message: { role: 'assistant', content: 'La ' }, done: false }),
+                ndjson({ error: 'model runner has unexpectedly stopped' }),
+            ],
+        };
+        const error = streamToText(ollama());
+        await expect(error).rejects.toThrow('Ollama: The model stopped with an error: model runner has unexpectedly stopped');
+        await expect(error).rejects.not.toThrow('status 200');
+    });
+
+    it('explains how to install a missing model', async () => {
+        reply = { status: 404, contentType: 'application/json', chunks: [JSON.stringify({ error: 'model "llama3" not found, try pulling it first' })] };
+        await expect(streamToText(ollama())).rejects.toThrow('The model "llama3" is not installed. Run "ollama pull llama3" and try again.');
+    });
+
+    it('returns a reply that merely starts like an error message', async () => {
+        reply = {
+            contentType: 'application/x-ndjson',
+            chunks: [ndjson({ message: { role: 'assistant', content: 'Sorry, no.' }, done: true })],
+        };
+        expect(await generateWithCharacterModel(ollama(), 'Answer briefly.', 'Can you fly?')).toBe('Sorry, no.');
+    });
+});
+
+// --- Error descriptions ---
+
+describe('describeAnthropicError', () => {
+    it('explains known error types', () => {
+        const body = JSON.stringify({ type: 'error', error: { type: 'not_found_error', message: 'model: claude-nope' } });
+        expect(describeAnthropicError(404, body)).toBe('The model was not found. Check the model name in the connection profile. (404: model: claude-nope)');
+    });
+
+    it('treats status 529 as overloaded', () => {
+        expect(describeAnthropicError(529, '{}')).toBe('The Anthropic API is temporarily overloaded. Please try again shortly. (529: {})');
+    });
+
+    it('shows a body that is not JSON as it is', () => {
+        expect(describeAnthropicError(502, '<html>Bad Gateway</html>')).toBe('The Anthropic API request failed. (502: <html>Bad Gateway</html>)');
+    });
+
+    it('leaves out the status of errors sent in the stream', () => {
+        const body = JSON.stringify({ type: 'error', error: { type: 'api_error', message: 'Internal error' } });
+        expect(describeAnthropicError(undefined, body)).toBe('The Anthropic API had an internal error. (Internal error)');
+    });
+});
+
+describe('describeOllamaError', () => {
+    const config: ApiConfig = { service: 'ollama', model: 'mistral' };
+
+    it('explains how to reach a server that did not answer', () => {
+        expect(describeOllamaError(undefined, 'Failed to fetch', config)).toBe(
+            'Could not reach Ollama at http://localhost:11434. Make sure it is running and that OLLAMA_ORIGINS allows this site. (Failed to fetch)'
+        );
+    });
+
+    it('names the configured endpoint', () => {
+        expect(describeOllamaError(undefined, 'Failed to fetch', { ...config, apiEndpoint: 'http://gpu-box:11434/' }))
+            .toContain('Could not reach Ollama at http://gpu-box:11434.');
+    });
+
+    it('explains a missing model', () => {
+        expect(describeOllamaError(404, JSON.stringify({ error: 'model "mistral" not found, try pulling it first' }), config))
+            .toBe('The model "mistral" is not installed. Run "ollama pull mistral" and try again. (model "mistral" not found, try pulling it first)');
+    });
+
+    it('shows other errors with their status', () => {
+        expect(describeOllamaError(500, JSON.stringify({ error: 'out of memory' }), config)).toBe('Ollama request failed with status 500: out of memory');
+        expect(describeOllamaError(502, 'Bad Gateway', config)).toBe('Ollama request failed with status 502: Bad Gateway');
+    });
+});
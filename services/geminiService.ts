@@ -1,8 +1,12 @@
 // FIX: `GenerateContentStreamResponse` is not an exported member of `@google/genai`.
 // The correct type for a stream response is an async iterable of `GenerateContentResponse`.
 import { GoogleGenAI, GenerateContentResponse, GenerateImagesResponse } from "@google/genai";
-import { Character, Message, ApiConfig } from "../types.ts";
+import { Character, Message, ApiConfig, PromptContext, PromptBuildReport, ConnectionProfile, GenerationSettings } from "../types.ts";
 import { logger } from "./loggingService.ts";
+import { buildPrompt, DEFAULT_GEMINI_MODEL } from "./promptService.ts";
+import { resolveConnection } from "./connectionProfileService.ts";
+import { generateEmbedding } from "./embeddingService.ts";
+import { parseServerSentEvents, parseNdjson } from "./streamParsers.ts";
 
 // --- Rate Limiting ---
 const lastRequestTimestamps = new Map<string, number>();
@@ -41,14 +45,48 @@ const getAiClient = (apiKey?: string): GoogleGenAI => {
     throw new Error("Default Gemini API key not configured. Please set a custom API key for the character or plugin.");
 }
 
+// --- Errors ---
+
+/**
+ * Wraps a failed request in an error that names the provider. The streaming functions throw
+ * these rather than streaming an apology, so callers can tell a failure from a reply.
+ */
+const providerError = (provider: string, error: unknown): Error =>
+    new Error(`${provider}: ${error instanceof Error ? error.message : String(error)}`);
+
+// --- Cancellation ---
+
+/**
+ * Waits for the given time. Rejects with an `AbortError` as soon as the signal fires, so a
+ * cancelled request does not sit out a rate-limit delay or retry backoff first.
+ */
+const sleep = (ms: number, signal?: AbortSignal): Promise<void> => new Promise((resolve, reject) => {
+    const abortError = () => new DOMException('The request was cancelled.', 'AbortError');
+    if (signal?.aborted) {
+        reject(abortError());
+        return;
+    }
+    const onAbort = () => {
+        clearTimeout(timer);
+        reject(abortError());
+    };
+    const timer = setTimeout(() => {
+        signal?.removeEventListener('abort', onAbort);
+        resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+});
+
 // --- OpenAI Compatible Service ---
 
 /**
  * A generic wrapper for async functions that includes a retry mechanism with exponential backoff.
  * This is useful for handling rate limiting (429) and transient network issues.
+ * Nothing is retried once `signal` has fired.
  */
 const withRetry = async <T>(
     apiCall: () => Promise<T>,
+    signal?: AbortSignal,
     maxRetries = 3,
     initialDelay = 2000
 ): Promise<T> => {
@@ -57,6 +95,9 @@ const withRetry = async <T>(
         try {
             return await apiCall();
         } catch (error: any) {
+            if (signal?.aborted) {
+                throw error;
+            }
             let isRateLimitError = false;
             let errorMessage = "An unknown error occurred";
 
@@ -77,7 +118,7 @@ const withRetry = async <T>(
                 }
                 const delay = initialDelay * Math.pow(2, attempt) + Math.random() * 1000;
                 logger.warn(`API rate limit exceeded. Retrying in ${Math.round(delay / 1000)}s... (Attempt ${attempt + 1}/${maxRetries})`);
-                await new Promise(resolve => setTimeout(resolve, delay));
+                await sleep(delay, signal);
                 attempt++;
                 continue; // Continue to the next attempt
             }
@@ -95,6 +136,7 @@ const withRetry = async <T>(
 /**
  * A wrapper for fetch that includes a retry mechanism with exponential backoff.
  * This is useful for handling rate limiting (429) and transient network issues.
+ * A request cancelled through `options.signal` is not retried.
  */
 const fetchWithRetry = async (
     url: RequestInfo, 
@@ -115,7 +157,7 @@ const fetchWithRetry = async (
                 }
                 const delay = initialDelay * Math.pow(2, attempt) + Math.random() * 1000;
                 logger.warn(`API rate limit exceeded. Retrying in ${Math.round(delay / 1000)}s... (Attempt ${attempt + 1}/${maxRetries})`);
-                await new Promise(resolve => setTimeout(resolve, delay));
+                await sleep(delay, options.signal || undefined);
                 attempt++;
                 continue;
             }
@@ -124,6 +166,9 @@ const fetchWithRetry = async (
             return response;
 
         } catch (error) {
+            if (options.signal?.aborted) {
+                throw error;
+            }
             // This catches network errors. We should retry on these.
              if (attempt + 1 >= maxRetries) {
                 logger.error(`API request failed after ${maxRetries} attempts due to network errors.`, error);
@@ -131,7 +176,7 @@ const fetchWithRetry = async (
             }
             const delay = initialDelay * Math.pow(2, attempt) + Math.random() * 1000;
             logger.warn(`Fetch failed due to a network error. Retrying in ${Math.round(delay / 1000)}s...`, error);
-            await new Promise(resolve => setTimeout(resolve, delay));
+            await sleep(delay, options.signal || undefined);
             attempt++;
         }
     }
@@ -140,51 +185,121 @@ const fetchWithRetry = async (
 };
 
 
+interface ChatMessage {
+    role: 'user' | 'assistant';
+    content: string;
+}
+
+/**
+ * Maps the history to the user/assistant turns that the OpenAI, Anthropic and Ollama chat APIs
+ * expect. Narrator messages become user turns, consecutive turns of the same role are merged,
+ * and a trailing assistant turn (an AI-to-AI exchange) is sent as a user turn.
+ */
+const toChatMessages = (history: Message[]): ChatMessage[] => {
+    const mappedMessages: ChatMessage[] = history
+        .filter(msg => msg.role === 'user' || msg.role === 'model' || msg.role === 'narrator')
+        .map(msg => {
+            const role = msg.role === 'model' ? 'assistant' : 'user';
+            const content = msg.role === 'narrator' ? `[NARRATOR]: ${msg.content}` : msg.content;
+            return { role, content };
+        });
+
+    // Defensive merging: these APIs require strict user/assistant alternation.
+    // This prevents errors if the history accidentally contains two 'assistant' roles in a row.
+    const mergedMessages: ChatMessage[] = [];
+    if (mappedMessages.length > 0) {
+        mergedMessages.push(mappedMessages[0]);
+        for (let i = 1; i < mappedMessages.length; i++) {
+            const prev = mergedMessages[mergedMessages.length - 1];
+            const curr = mappedMessages[i];
+            if (prev.role === curr.role) {
+                prev.content += `\n\n${curr.content}`; // Merge content
+            } else {
+                mergedMessages.push(curr);
+            }
+        }
+    }
+    
+    // Final check: the last message must not be from the assistant.
+    // If it is, this is an AI-to-AI turn, and we coerce the last assistant message
+    // into a user message for the API to accept it.
+    if (mergedMessages.length > 0 && mergedMessages[mergedMessages.length - 1].role === 'assistant') {
+        if (mergedMessages.length > 1) {
+            mergedMessages[mergedMessages.length - 1].role = 'user';
+        } else {
+            logger.warn("Chat stream called with a history containing only a single assistant message. This will likely fail.");
+        }
+    }
+    return mergedMessages;
+};
+
+/**
+ * Joins a provider base URL and an API path. A URL that already ends in the path (or in another
+ * known API path) is accepted too, so users may paste either form.
+ */
+const buildProviderUrl = (endpoint: string | undefined, defaultBase: string, path: string): string => {
+    const base = (endpoint?.trim() || defaultBase)
+        .replace(/\/+$/, '')
+        .replace(/\/(api\/(chat|embed|embeddings|tags)|v1\/(messages|models)|v1)$/, '');
+    return `${base}${path}`;
+};
+
+// --- Sampling Parameters ---
+// Each provider names the same settings differently and supports a different subset.
+
+const toOpenAIParams = (settings: GenerationSettings = {}) => ({
+    temperature: settings.temperature,
+    top_p: settings.topP,
+    max_tokens: settings.maxTokens,
+    stop: settings.stopSequences,
+    presence_penalty: settings.presencePenalty,
+    frequency_penalty: settings.frequencyPenalty,
+    // top_k is not part of the OpenAI API, and OpenAI itself rejects unknown parameters.
+});
+
+const toAnthropicParams = (settings: GenerationSettings = {}) => ({
+    temperature: settings.temperature !== undefined ? Math.min(settings.temperature, 1) : undefined, // Anthropic accepts 0 to 1
+    // Recent Claude models reject requests that set both; temperature is the more common knob.
+    top_p: settings.temperature === undefined ? settings.topP : undefined,
+    top_k: settings.topK,
+    stop_sequences: settings.stopSequences,
+});
+
+const toOllamaOptions = (settings: GenerationSettings = {}) => ({
+    temperature: settings.temperature,
+    top_p: settings.topP,
+    top_k: settings.topK,
+    num_predict: settings.maxTokens,
+    stop: settings.stopSequences,
+    presence_penalty: settings.presencePenalty,
+    frequency_penalty: settings.frequencyPenalty,
+});
+
+const toGeminiGenerationConfig = (settings: GenerationSettings = {}) => {
+    const config = {
+        temperature: settings.temperature,
+        topP: settings.topP,
+        topK: settings.topK,
+        maxOutputTokens: settings.maxTokens,
+        stopSequences: settings.stopSequences,
+        presencePenalty: settings.presencePenalty,
+        frequencyPenalty: settings.frequencyPenalty,
+    };
+    // Unlike JSON.stringify for the fetch-based providers, the SDK would send explicit undefineds along.
+    return Object.fromEntries(Object.entries(config).filter(([, value]) => value !== undefined)) as Partial<typeof config>;
+};
+
 const streamOpenAIChatResponse = async (
     config: ApiConfig,
     systemInstruction: string,
     history: Message[],
-    onChunk: (chunk: string) => void
+    onChunk: (chunk: string) => void,
+    signal?: AbortSignal
 ): Promise<void> => {
     try {
-        const mappedMessages = history
-            .filter(msg => msg.role === 'user' || msg.role === 'model' || msg.role === 'narrator')
-            .map(msg => {
-                const role = msg.role === 'model' ? 'assistant' : 'user';
-                const content = msg.role === 'narrator' ? `[NARRATOR]: ${msg.content}` : msg.content;
-                return { role, content };
-            });
-
-        // Defensive merging: OpenAI-compatible APIs require strict user/assistant alternation.
-        // This prevents errors if the history accidentally contains two 'assistant' roles in a row.
-        const mergedMessages = [];
-        if (mappedMessages.length > 0) {
-            mergedMessages.push(mappedMessages[0]);
-            for (let i = 1; i < mappedMessages.length; i++) {
-                const prev = mergedMessages[mergedMessages.length - 1];
-                const curr = mappedMessages[i];
-                if (prev.role === curr.role) {
-                    prev.content += `\n\n${curr.content}`; // Merge content
-                } else {
-                    mergedMessages.push(curr);
-                }
-            }
-        }
-        
-        // Final check for OpenAI compatibility: the last message must not be from the assistant.
-        // If it is, this is an AI-to-AI turn, and we coerce the last assistant message
-        // into a user message for the API to accept it.
-        if (mergedMessages.length > 0 && mergedMessages[mergedMessages.length - 1].role === 'assistant') {
-            if (mergedMessages.length > 1) {
-                mergedMessages[mergedMessages.length - 1].role = 'user';
-            } else {
-                logger.warn("OpenAI stream called with a history containing only a single assistant message. This will likely fail.");
-            }
-        }
-
         const messages = [
             { role: "system", content: systemInstruction },
-            ...mergedMessages
+            ...toChatMessages(history)
         ];
 
 
@@ -197,8 +312,10 @@ const streamOpenAIChatResponse = async (
             body: JSON.stringify({
                 model: config.model?.trim() || 'default',
                 messages: messages,
+                ...toOpenAIParams(config.generationSettings),
                 stream: true,
             }),
+            signal,
         });
 
         if (!response.ok) {
@@ -219,41 +336,224 @@ const streamOpenAIChatResponse = async (
             throw new Error(`API request failed with status ${response.status}: ${errorBody}`);
         }
 
-        const reader = response.body?.getReader();
-        if (!reader) throw new Error("Could not get response reader.");
+        if (!response.body) throw new Error("Could not get response reader.");
+
+        for await (const { data } of parseServerSentEvents(response.body)) {
+            if (data === '[DONE]') {
+                return;
+            }
+            try {
+                const parsed = JSON.parse(data);
+                const chunk = parsed.choices[0]?.delta?.content;
+                if (chunk) {
+                    onChunk(chunk);
+                }
+            } catch (e) {
+                logger.warn("Failed to parse stream chunk JSON:", data);
+            }
+        }
+    } catch (error) {
+        if (signal?.aborted) {
+            logger.log("OpenAI-compatible stream was stopped.");
+            return;
+        }
+        logger.error("Error in OpenAI-compatible stream:", error);
+        throw providerError('OpenAI-compatible API', error);
+    }
+};
+
+// --- Anthropic Messages API ---
+const ANTHROPIC_DEFAULT_BASE_URL = 'https://api.anthropic.com';
+const ANTHROPIC_API_VERSION = '2023-06-01';
+const ANTHROPIC_MAX_TOKENS = 1024; // The Messages API requires an explicit reply limit; used when none is set
+
+const ANTHROPIC_ERROR_HINTS: Record<string, string> = {
+    authentication_error: 'The Anthropic API key is invalid.',
+    permission_error: 'The Anthropic API key does not have access to this model.',
+    not_found_error: 'The model was not found. Check the model name in the connection profile.',
+    rate_limit_error: 'The Anthropic API is rate-limiting requests.',
+    request_too_large: 'The request is too large. Lower the context size of the character.',
+    overloaded_error: 'The Anthropic API is temporarily overloaded. Please try again shortly.',
+    invalid_request_error: 'The Anthropic API rejected the request.',
+    api_error: 'The Anthropic API had an internal error.',
+};
 
-        const decoder = new TextDecoder();
-        let buffer = '';
+/**
+ * Turns an Anthropic error body (`{ type: 'error', error: { type, message } }`) into a readable message.
+ */
+export const describeAnthropicError = (status: number | undefined, body: string): string => {
+    let type = '';
+    let detail = body;
+    try {
+        const parsed = JSON.parse(body);
+        type = parsed.error?.type || '';
+        detail = parsed.error?.message || body;
+    } catch (e) {
+        // Not JSON (e.g. a proxy error page); show the raw body.
+    }
+    const hint = ANTHROPIC_ERROR_HINTS[type] || (status === 529 ? ANTHROPIC_ERROR_HINTS.overloaded_error : 'The Anthropic API request failed.');
+    return `${hint} (${status ? `${status}: ` : ''}${detail})`;
+};
 
-        while (true) {
-            const { done, value } = await reader.read();
-            if (done) break;
+const buildAnthropicHeaders = (apiKey?: string): HeadersInit => ({
+    'Content-Type': 'application/json',
+    'x-api-key': apiKey?.trim() || '',
+    'anthropic-version': ANTHROPIC_API_VERSION,
+    // Required for requests made directly from a browser.
+    'anthropic-dangerous-direct-browser-access': 'true',
+});
 
-            buffer += decoder.decode(value, { stream: true });
-            const lines = buffer.split('\n');
-            buffer = lines.pop() || '';
+const streamAnthropicChatResponse = async (
+    config: ApiConfig,
+    systemInstruction: string,
+    history: Message[],
+    onChunk: (chunk: string) => void,
+    signal?: AbortSignal
+): Promise<void> => {
+    try {
+        if (!config.model?.trim()) {
+            throw new Error("No model is configured. Set one in the connection profile, e.g. a Claude model name.");
+        }
+        const messages = toChatMessages(history);
+        // The Messages API expects the conversation to start with a user turn.
+        if (messages[0]?.role === 'assistant') {
+            messages.unshift({ role: 'user', content: '[The conversation begins.]' });
+        }
 
-            for (const line of lines) {
-                if (line.startsWith('data: ')) {
-                    const jsonStr = line.substring(6);
-                    if (jsonStr === '[DONE]') {
-                        return;
-                    }
-                    try {
-                        const parsed = JSON.parse(jsonStr);
-                        const chunk = parsed.choices[0]?.delta?.content;
-                        if (chunk) {
-                            onChunk(chunk);
-                        }
-                    } catch (e) {
-                        logger.warn("Failed to parse stream chunk JSON:", jsonStr);
-                    }
-                }
+        const maxTokens = config.generationSettings?.maxTokens || ANTHROPIC_MAX_TOKENS;
+        const response = await fetchWithRetry(buildProviderUrl(config.apiEndpoint, ANTHROPIC_DEFAULT_BASE_URL, '/v1/messages'), {
+            method: 'POST',
+            headers: buildAnthropicHeaders(config.apiKey),
+            body: JSON.stringify({
+                model: config.model.trim(),
+                system: systemInstruction,
+                messages,
+                max_tokens: maxTokens,
+                ...toAnthropicParams(config.generationSettings),
+                stream: true,
+            }),
+            signal,
+        });
+
+        if (!response.ok) {
+            const errorBody = await response.text();
+            logger.error("Anthropic stream request failed.", { status: response.status, body: errorBody });
+            throw new Error(describeAnthropicError(response.status, errorBody));
+        }
+        if (!response.body) throw new Error("Could not get response reader.");
+
+        for await (const { event, data } of parseServerSentEvents(response.body)) {
+            if (event === 'ping') continue;
+            let parsed: any;
+            try {
+                parsed = JSON.parse(data);
+            } catch (e) {
+                logger.warn("Failed to parse Anthropic stream event JSON:", data);
+                continue;
+            }
+            const type = event || parsed.type;
+            if (type === 'content_block_delta' && parsed.delta?.type === 'text_delta') {
+                onChunk(parsed.delta.text);
+            } else if (type === 'message_delta' && parsed.delta?.stop_reason === 'max_tokens') {
+                logger.warn(`Anthropic reply was cut off at ${maxTokens} tokens.`);
+            } else if (type === 'error') {
+                throw new Error(describeAnthropicError(undefined, data));
+            } else if (type === 'message_stop') {
+                return;
             }
         }
     } catch (error) {
-        logger.error("Error in OpenAI-compatible stream:", error);
-        onChunk(`Sorry, I encountered an error with the OpenAI-compatible API: ${error instanceof Error ? error.message : String(error)}`);
+        if (signal?.aborted) {
+            logger.log("Anthropic stream was stopped.");
+            return;
+        }
+        logger.error("Error in Anthropic stream:", error);
+        throw providerError('Anthropic API', error);
+    }
+};
+
+// --- Ollama Native API ---
+const OLLAMA_DEFAULT_BASE_URL = 'http://localhost:11434';
+
+/**
+ * Turns an Ollama error (`{ error: "..." }`, or a failed fetch) into a readable message.
+ */
+export const describeOllamaError = (status: number | undefined, body: string, config: ApiConfig): string => {
+    let detail = body;
+    try {
+        detail = JSON.parse(body).error || body;
+    } catch (e) {
+        // Not JSON; show the raw body.
+    }
+    if (status === undefined) {
+        return `Could not reach Ollama at ${buildProviderUrl(config.apiEndpoint, OLLAMA_DEFAULT_BASE_URL, '')}. Make sure it is running and that OLLAMA_ORIGINS allows this site. (${detail})`;
+    }
+    if (status === 404 && /not found/i.test(detail)) {
+        return `The model "${config.model}" is not installed. Run "ollama pull ${config.model}" and try again. (${detail})`;
+    }
+    return `Ollama request failed with status ${status}: ${detail}`;
+};
+
+const streamOllamaChatResponse = async (
+    config: ApiConfig,
+    systemInstruction: string,
+    history: Message[],
+    onChunk: (chunk: string) => void,
+    signal?: AbortSignal
+): Promise<void> => {
+    try {
+        if (!config.model?.trim()) {
+            throw new Error("No model is configured. Set one in the connection profile, e.g. llama3.");
+        }
+        const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+        if (config.apiKey?.trim()) {
+            headers['Authorization'] = `Bearer ${config.apiKey.trim()}`; // For Ollama behind an authenticating proxy
+        }
+
+        let response: Response;
+        try {
+            response = await fetchWithRetry(buildProviderUrl(config.apiEndpoint, OLLAMA_DEFAULT_BASE_URL, '/api/chat'), {
+                method: 'POST',
+                headers,
+                body: JSON.stringify({
+                    model: config.model.trim(),
+                    messages: [{ role: 'system', content: systemInstruction }, ...toChatMessages(history)],
+                    options: toOllamaOptions(config.generationSettings),
+                    stream: true,
+                }),
+                signal,
+            });
+        } catch (error) {
+            if (signal?.aborted) throw error;
+            throw new Error(describeOllamaError(undefined, error instanceof Error ? error.message : String(error), config));
+        }
+
+        if (!response.ok) {
+            const errorBody = await response.text();
+            logger.error("Ollama stream request failed.", { status: response.status, body: errorBody });
+            throw new Error(describeOllamaError(response.status, errorBody, config));
+        }
+        if (!response.body) throw new Error("Could not get response reader.");
+
+        for await (const line of parseNdjson<{ message?: { content?: string }; done?: boolean; error?: string }>(response.body)) {
+            if (line.error) {
+                // The request itself succeeded, so its status says nothing about this error.
+                throw new Error(`The model stopped with an error: ${line.error}`);
+            }
+            if (line.message?.content) {
+                onChunk(line.message.content);
+            }
+            if (line.done) {
+                return;
+            }
+        }
+    } catch (error) {
+        if (signal?.aborted) {
+            logger.log("Ollama stream was stopped.");
+            return;
+        }
+        logger.error("Error in Ollama stream:", error);
+        throw providerError('Ollama', error);
     }
 };
 
@@ -270,7 +570,7 @@ const buildImagePrompt = (prompt: string, settings: { [key: string]: any }): str
     return `${stylePrompt}${prompt}${negativePrompt}`;
 };
 
-const generateOpenAIImage = async (prompt: string, settings: { [key: string]: any }): Promise<string> => {
+const generateOpenAIImage = async (prompt: string, settings: { [key: string]: any }, signal?: AbortSignal): Promise<string> => {
     const fullPrompt = buildImagePrompt(prompt, settings);
     logger.log("Generating OpenAI image with full prompt:", { fullPrompt });
 
@@ -287,6 +587,7 @@ const generateOpenAIImage = async (prompt: string, settings: { [key: string]: an
             size: "1024x1024",
             response_format: "b64_json",
         }),
+        signal,
     });
 
     if (!response.ok) {
@@ -318,46 +619,6 @@ const generateOpenAIImage = async (prompt: string, settings: { [key: string]: an
 
 // --- Gemini Service ---
 
-const buildSystemInstruction = (character: Character, allParticipants: Character[] = []): string => {
-    let instruction = `You are an AI character named ${character.name}.\n\n`;
-
-    if (allParticipants.length > 1) {
-        const otherParticipantNames = allParticipants
-            .filter(p => p.id !== character.id)
-            .map(p => p.name)
-            .join(', ');
-        instruction += `You are in a group conversation with: ${otherParticipantNames}. Interact with them naturally based on your persona.\n\n`;
-    }
-
-    instruction += "== CORE IDENTITY ==\n";
-    if (character.description) instruction += `Description: ${character.description}\n`;
-    if (character.physicalAppearance) instruction += `Physical Appearance: ${character.physicalAppearance}\n`;
-    if (character.personalityTraits) instruction += `Personality Traits: ${character.personalityTraits}\n`;
-    instruction += "\n";
-
-    if (character.personality) {
-        instruction += "== ROLE INSTRUCTION ==\n";
-        instruction += `${character.personality}\n\n`;
-    }
-
-    if (character.memory) {
-        instruction += "== MEMORY (Recent Events) ==\n";
-        instruction += `${character.memory}\n\n`;
-    }
-
-    if (character.lore && character.lore.length > 0 && character.lore.some(l => l.trim() !== '')) {
-        instruction += "== LORE (Key Facts) ==\n";
-        instruction += character.lore.filter(fact => fact.trim() !== '').map(fact => `- ${fact}`).join('\n') + '\n\n';
-    }
-
-    instruction += "== TOOLS ==\n";
-    instruction += "You have the ability to generate images. To do so, include a special command in your response: [generate_image: A detailed description of the image you want to create]. You can place this command anywhere in your response. The system will detect it, generate the image, and display it alongside your text.\n\n";
-    
-    instruction += "Engage in conversation based on this complete persona. Do not break character. Respond to the user's last message.";
-
-    return instruction;
-};
-
 const normalizeGeminiHistory = (history: Message[]) => {
     const relevantMessages = history.filter(msg => msg.role === 'user' || msg.role === 'model' || msg.role === 'narrator');
     if (relevantMessages.length === 0) return [];
@@ -397,12 +658,14 @@ const normalizeGeminiHistory = (history: Message[]) => {
 
 const streamGeminiChatResponse = async (
     character: Character,
+    config: ApiConfig,
     systemInstruction: string,
     history: Message[],
-    onChunk: (chunk: string) => void
+    onChunk: (chunk: string) => void,
+    signal?: AbortSignal
 ): Promise<void> => {
     try {
-        const customApiKey = character.apiConfig?.service === 'gemini' ? character.apiConfig.apiKey : undefined;
+        const customApiKey = config.service === 'gemini' ? config.apiKey : undefined;
         if (customApiKey) {
             logger.log(`Using custom Gemini API key for character: ${character.name}`);
         }
@@ -417,22 +680,26 @@ const streamGeminiChatResponse = async (
 
         // FIX: Type 'unknown' must have a '[Symbol.asyncIterator]()' method that returns an async iterator. Explicitly typing the response stream.
         const responseStream: AsyncGenerator<GenerateContentResponse> = await withRetry(() => ai.models.generateContentStream({
-            model: 'gemini-2.5-flash',
+            model: config.model?.trim() || DEFAULT_GEMINI_MODEL,
             contents: contents,
-            config: { systemInstruction: systemInstruction }
-        }));
+            config: { systemInstruction: systemInstruction, ...toGeminiGenerationConfig(config.generationSettings), abortSignal: signal }
+        }), signal);
 
         for await (const chunk of responseStream) {
+            if (signal?.aborted) break;
             onChunk(chunk.text);
         }
     } catch (error) {
+        if (signal?.aborted) {
+            logger.log("Gemini stream was stopped.");
+            return;
+        }
         logger.error("Error generating Gemini content stream:", error);
-        const errorMessage = error instanceof Error ? error.message : "An unknown error occurred.";
-        onChunk(`Sorry, an error occurred with the Gemini API: ${errorMessage}`);
+        throw providerError('Gemini API', error);
     }
 };
 
-const generateGeminiImage = async (prompt: string, settings: { [key: string]: any }): Promise<string> => {
+const generateGeminiImage = async (prompt: string, settings: { [key: string]: any }, signal?: AbortSignal): Promise<string> => {
     const ai = getAiClient(settings?.apiKey);
     const fullPrompt = buildImagePrompt(prompt, settings);
     logger.log("Generating Gemini image with full prompt:", { fullPrompt });
@@ -445,8 +712,9 @@ const generateGeminiImage = async (prompt: string, settings: { [key: string]: an
             numberOfImages: 1,
             outputMimeType: 'image/png',
             aspectRatio: '1:1',
+            abortSignal: signal,
         },
-    }));
+    }), signal);
 
     if (response.generatedImages && response.generatedImages.length > 0) {
         return `data:image/png;base64,${response.generatedImages[0].image.imageBytes}`;
@@ -457,19 +725,28 @@ const generateGeminiImage = async (prompt: string, settings: { [key: string]: an
 
 // --- Orchestrator Functions ---
 
+/**
+ * Streams a character's reply. The prompt is trimmed to the model's context window;
+ * the returned report describes what was left out.
+ * @param signal Stops the reply. Chunks already passed to `onChunk` stay delivered; if the
+ * signal fires before the request is sent (e.g. during a rate-limit delay), the call rejects
+ * with an `AbortError`.
+ * @throws If the provider reports an error, possibly after some chunks were delivered.
+ */
 export const streamChatResponse = async (
     character: Character,
     allParticipants: Character[],
     history: Message[],
     onChunk: (chunk: string) => void,
-    systemInstructionOverride?: string
-): Promise<void> => {
-    const config = character.apiConfig || { service: 'default' };
+    context: PromptContext = {},
+    signal?: AbortSignal
+): Promise<PromptBuildReport> => {
+    const config = resolveConnection<ApiConfig>(character.apiConfig || { service: 'default' });
     
-    // Rate Limiting
+    // Rate Limiting (shared by everything that uses the same connection profile)
     const rateLimit = config.rateLimit;
     if (rateLimit && rateLimit > 0) {
-        const characterId = character.id;
+        const characterId = config.profileId || character.id;
         const lastRequestTime = lastRequestTimestamps.get(characterId) || 0;
         const now = Date.now();
         const elapsed = now - lastRequestTime;
@@ -477,37 +754,73 @@ export const streamChatResponse = async (
         if (elapsed < rateLimit) {
             const delay = rateLimit - elapsed;
             logger.log(`Rate limiting character "${character.name}". Delaying for ${delay}ms.`);
-            await new Promise(resolve => setTimeout(resolve, delay));
+            await sleep(delay, signal);
         }
         lastRequestTimestamps.set(characterId, Date.now());
     }
 
-    let systemInstruction = buildSystemInstruction(character, allParticipants);
-
-    if (systemInstructionOverride) {
-        systemInstruction += `\n\n[ADDITIONAL INSTRUCTIONS FOR THIS RESPONSE ONLY]:\n${systemInstructionOverride}`;
+    if (context.instructions) {
         logger.log("Applying system instruction override for next response.");
     }
+    const prompt = buildPrompt({ ...character, apiConfig: config }, allParticipants, history, context);
 
     if (config.service === 'openai') {
         logger.log(`Using OpenAI-compatible API for character: ${character.name}`, { endpoint: config.apiEndpoint, model: config.model });
         if (!config.apiEndpoint) {
-            onChunk("Error: OpenAI-compatible API endpoint is not configured for this character.");
-            return;
+            throw new Error("OpenAI-compatible API endpoint is not configured for this character.");
         }
-        await streamOpenAIChatResponse(config, systemInstruction, history, onChunk);
+        await streamOpenAIChatResponse(config, prompt.systemInstruction, prompt.history, onChunk, signal);
+    } else if (config.service === 'anthropic') {
+        logger.log(`Using Anthropic Messages API for character: ${character.name}`, { model: config.model });
+        await streamAnthropicChatResponse(config, prompt.systemInstruction, prompt.history, onChunk, signal);
+    } else if (config.service === 'ollama') {
+        logger.log(`Using Ollama for character: ${character.name}`, { endpoint: config.apiEndpoint, model: config.model });
+        await streamOllamaChatResponse(config, prompt.systemInstruction, prompt.history, onChunk, signal);
     } else { // Defaulting to Gemini
         logger.log(`Using Gemini API for character: ${character.name}`);
-        await streamGeminiChatResponse(character, systemInstruction, history, onChunk);
+        await streamGeminiChatResponse(character, config, prompt.systemInstruction, prompt.history, onChunk, signal);
     }
+    return prompt.report;
 };
 
-export const generateImageFromPrompt = async (prompt: string, settings?: { [key: string]: any }): Promise<string> => {
+/**
+ * Sends a single instruction to the model a character chats with and returns the whole reply,
+ * without the character's persona. Used for helper tasks that should run on the same model,
+ * such as reranking retrieved knowledge.
+ * @throws If the provider reports an error.
+ */
+export const generateWithCharacterModel = async (
+    character: Character,
+    systemInstruction: string,
+    prompt: string,
+    signal?: AbortSignal
+): Promise<string> => {
+    const config = resolveConnection<ApiConfig>(character.apiConfig || { service: 'default' });
+    const history: Message[] = [{ role: 'user', content: prompt, timestamp: new Date().toISOString() }];
+    let reply = '';
+    const onChunk = (chunk: string) => { reply += chunk; };
+
+    if (config.service === 'openai') {
+        if (!config.apiEndpoint) throw new Error("OpenAI-compatible API endpoint is not configured for this character.");
+        await streamOpenAIChatResponse(config, systemInstruction, history, onChunk, signal);
+    } else if (config.service === 'anthropic') {
+        await streamAnthropicChatResponse(config, systemInstruction, history, onChunk, signal);
+    } else if (config.service === 'ollama') {
+        await streamOllamaChatResponse(config, systemInstruction, history, onChunk, signal);
+    } else {
+        await streamGeminiChatResponse(character, config, systemInstruction, history, onChunk, signal);
+    }
+    return reply;
+};
+
+export const generateImageFromPrompt = async (prompt: string, pluginSettings?: { [key: string]: any }, signal?: AbortSignal): Promise<string> => {
     try {
+        const settings = pluginSettings && resolveConnection(pluginSettings);
+
         // Rate Limiting for image generation
         const rateLimit = settings?.rateLimit;
         if (rateLimit && rateLimit > 0) {
-            const pluginId = 'default-image-generator';
+            const pluginId = settings?.profileId || 'default-image-generator';
             const lastRequestTime = lastRequestTimestamps.get(pluginId) || 0;
             const now = Date.now();
             const elapsed = now - lastRequestTime;
@@ -515,12 +828,15 @@ export const generateImageFromPrompt = async (prompt: string, settings?: { [key:
             if (elapsed < rateLimit) {
                 const delay = rateLimit - elapsed;
                 logger.log(`Rate limiting image generation. Delaying for ${delay}ms.`);
-                await new Promise(resolve => setTimeout(resolve, delay));
+                await sleep(delay, signal);
             }
             lastRequestTimestamps.set(pluginId, Date.now());
         }
 
         const service = settings?.service || 'default';
+        if (service === 'anthropic' || service === 'ollama') {
+            throw new Error(`${service === 'anthropic' ? 'Anthropic' : 'Ollama'} cannot generate images. Pick a Gemini or OpenAI-compatible connection profile for the image generator.`);
+        }
         if (service === 'openai') {
             logger.log("Using OpenAI-compatible API for image generation.", { endpoint: settings?.apiEndpoint, model: settings?.model });
             if (!settings?.apiEndpoint) {
@@ -528,12 +844,16 @@ export const generateImageFromPrompt = async (prompt: string, settings?: { [key:
             }
             // The user provides the full, correct endpoint in the plugin settings.
             // We no longer manipulate the URL here.
-            return await generateOpenAIImage(prompt, settings);
+            return await generateOpenAIImage(prompt, settings, signal);
         } else {
             logger.log("Using Gemini API for image generation.");
-            return await generateGeminiImage(prompt, settings || {});
+            return await generateGeminiImage(prompt, settings || {}, signal);
         }
     } catch (error) {
+        if (signal?.aborted) {
+            logger.log("Image generation was cancelled.");
+            throw error;
+        }
         logger.error("Error in generateImageFromPrompt:", error);
         const errorMessage = error instanceof Error ? error.message : "An unknown error occurred";
         // Provide a more user-friendly error message.
@@ -541,16 +861,108 @@ export const generateImageFromPrompt = async (prompt: string, settings?: { [key:
     }
 };
 
-export const generateContent = async (prompt: string, apiKey?: string): Promise<string> => {
+/**
+ * Checks that a connection profile works by making the smallest request its endpoint accepts:
+ * a one-token reply for chat endpoints, an embedding for embedding endpoints, and an empty
+ * request for image endpoints (so no image is paid for). For Ollama, the list of installed
+ * models is checked instead, which covers chat and embedding models alike.
+ * @returns A short description of the result. Throws if the connection does not work.
+ */
+export const testConnection = async (profile: ConnectionProfile): Promise<string> => {
+    const startedAt = Date.now();
+    const elapsed = () => `${Date.now() - startedAt} ms`;
+
+    if (profile.service === 'gemini') {
+        const ai = getAiClient(profile.apiKey?.trim() || undefined);
+        const model = profile.model?.trim() || DEFAULT_GEMINI_MODEL;
+        await ai.models.generateContent({ model, contents: 'Reply with OK.' });
+        return `${model} responded in ${elapsed()}.`;
+    }
+
+    if (profile.service === 'anthropic') {
+        const response = await fetch(buildProviderUrl(profile.apiEndpoint, ANTHROPIC_DEFAULT_BASE_URL, '/v1/messages'), {
+            method: 'POST',
+            headers: buildAnthropicHeaders(profile.apiKey),
+            body: JSON.stringify({
+                model: profile.model?.trim() || '',
+                messages: [{ role: 'user', content: 'Reply with OK.' }],
+                max_tokens: 1,
+            }),
+        });
+        if (!response.ok) {
+            throw new Error(describeAnthropicError(response.status, await response.text()));
+        }
+        return `${profile.model} responded in ${elapsed()}.`;
+    }
+
+    if (profile.service === 'ollama') {
+        const config: ApiConfig = { service: 'ollama', apiEndpoint: profile.apiEndpoint, model: profile.model };
+        let response: Response;
+        try {
+            response = await fetch(buildProviderUrl(profile.apiEndpoint, OLLAMA_DEFAULT_BASE_URL, '/api/tags'));
+        } catch (error) {
+            throw new Error(describeOllamaError(undefined, error instanceof Error ? error.message : String(error), config));
+        }
+        if (!response.ok) {
+            throw new Error(describeOllamaError(response.status, await response.text(), config));
+        }
+        const installed: string[] = ((await response.json()).models || []).map((m: { name: string }) => m.name);
+        const model = profile.model?.trim();
+        if (model && !installed.some(name => name === model || name === `${model}:latest`)) {
+            throw new Error(`Ollama is running, but the model "${model}" is not installed. Run "ollama pull ${model}".`);
+        }
+        return `Ollama is running with ${installed.length} model(s) installed (${elapsed()}).`;
+    }
+
+    const endpoint = (profile.apiEndpoint || '').trim();
+    if (!endpoint) {
+        throw new Error("No API endpoint is configured.");
+    }
+    if (/embed/i.test(endpoint)) {
+        const embedding = await generateEmbedding('Connection test', { service: 'openai', apiEndpoint: endpoint, apiKey: profile.apiKey, model: profile.model });
+        return `Received a ${embedding.length}-dimensional embedding in ${elapsed()}.`;
+    }
+
+    const isImageEndpoint = /image/i.test(endpoint);
+    const response = await fetch(endpoint, {
+        method: 'POST',
+        headers: {
+            'Content-Type': 'application/json',
+            'Authorization': `Bearer ${profile.apiKey?.trim() || 'ollama'}`,
+        },
+        body: JSON.stringify(isImageEndpoint ? {} : {
+            model: profile.model?.trim() || 'default',
+            messages: [{ role: 'user', content: 'Reply with OK.' }],
+            max_tokens: 1,
+        }),
+    });
+    if (response.status === 401 || response.status === 403) {
+        throw new Error(`The API key was rejected (status ${response.status}).`);
+    }
+    if (response.status === 404) {
+        throw new Error("The endpoint was not found (status 404). Check the URL.");
+    }
+    if (isImageEndpoint && response.status < 500) {
+        return `Endpoint reachable and key accepted in ${elapsed()}.`;
+    }
+    if (!response.ok) {
+        throw new Error(`Request failed with status ${response.status}: ${await response.text()}`);
+    }
+    return `${profile.model || 'The model'} responded in ${elapsed()}.`;
+};
+
+export const generateContent = async (prompt: string, apiKey?: string, signal?: AbortSignal): Promise<string> => {
   try {
     const ai = getAiClient(apiKey);
     // FIX: Explicitly type the response from withRetry to ensure type safety.
     const response: GenerateContentResponse = await withRetry(() => ai.models.generateContent({
-        model: 'gemini-2.5-flash',
+        model: DEFAULT_GEMINI_MODEL,
         contents: prompt,
-    }));
+        config: { abortSignal: signal },
+    }), signal);
     return response.text;
   } catch (error) {
+    if (signal?.aborted) throw error;
     logger.error("Error in generateContent:", error);
     throw error;
   }
@@ -560,22 +972,25 @@ export const streamGenericResponse = async (
     systemInstruction: string,
     prompt: string,
     onChunk: (chunk: string) => void,
-    apiKey?: string
+    apiKey?: string,
+    signal?: AbortSignal
 ): Promise<void> => {
     try {
         const ai = getAiClient(apiKey);
         // FIX: Type 'unknown' must have a '[Symbol.asyncIterator]()' method that returns an async iterator. Explicitly typing the response stream.
         const responseStream: AsyncGenerator<GenerateContentResponse> = await withRetry(() => ai.models.generateContentStream({
-            model: 'gemini-2.5-flash',
+            model: DEFAULT_GEMINI_MODEL,
             contents: [{ role: 'user', parts: [{ text: prompt }] }],
-            config: { systemInstruction: systemInstruction }
-        }));
+            config: { systemInstruction: systemInstruction, abortSignal: signal }
+        }), signal);
 
         for await (const chunk of responseStream) {
+            if (signal?.aborted) break;
             onChunk(chunk.text);
         }
     } catch (error) {
+        if (signal?.aborted) return;
         logger.error("Error generating generic content stream:", error);
-        onChunk("Sorry, an error occurred while responding.");
+        throw providerError('Gemini API', error);
     }
 };
\ No newline at end of file
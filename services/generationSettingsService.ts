@@ -0,0 +1,66 @@
+import { GenerationPreset, GenerationSettings } from '../types.ts';
+import { logger } from './loggingService.ts';
+
+// --- Limits ---
+// The widest ranges any supported provider accepts. Values outside are clamped rather than
+// rejected, so a preset shared from another tool still loads.
+const NUMERIC_LIMITS: Record<Exclude<keyof GenerationSettings, 'stopSequences'>, { min: number; max: number; integer?: boolean }> = {
+    temperature: { min: 0, max: 2 },
+    topP: { min: 0, max: 1 },
+    topK: { min: 0, max: 1000, integer: true },
+    maxTokens: { min: 1, max: 1000000, integer: true },
+    presencePenalty: { min: -2, max: 2 },
+    frequencyPenalty: { min: -2, max: 2 },
+};
+const MAX_STOP_SEQUENCES = 4; // OpenAI's limit, the strictest of the providers
+
+/**
+ * Keeps only the known settings with valid values. Empty settings become `undefined`.
+ */
+export const sanitizeGenerationSettings = (raw: any): GenerationSettings | undefined => {
+    if (!raw || typeof raw !== 'object') return undefined;
+    const settings: GenerationSettings = {};
+    for (const [key, limits] of Object.entries(NUMERIC_LIMITS) as [keyof typeof NUMERIC_LIMITS, typeof NUMERIC_LIMITS[keyof typeof NUMERIC_LIMITS]][]) {
+        const value = typeof raw[key] === 'string' ? parseFloat(raw[key]) : raw[key];
+        if (typeof value !== 'number' || !Number.isFinite(value)) continue;
+        const clamped = Math.min(limits.max, Math.max(limits.min, value));
+        settings[key] = limits.integer ? Math.round(clamped) : clamped;
+    }
+    if (Array.isArray(raw.stopSequences)) {
+        const stops = raw.stopSequences.filter((s: unknown): s is string => typeof s === 'string' && s.length > 0);
+        if (stops.length > MAX_STOP_SEQUENCES) {
+            logger.warn(`Only the first ${MAX_STOP_SEQUENCES} stop sequences are kept.`);
+        }
+        if (stops.length > 0) settings.stopSequences = stops.slice(0, MAX_STOP_SEQUENCES);
+    }
+    return Object.keys(settings).length > 0 ? settings : undefined;
+};
+
+// --- Presets ---
+
+export const createGenerationPreset = (name: string, settings: GenerationSettings): GenerationPreset => ({
+    id: crypto.randomUUID(),
+    name,
+    settings: { ...settings },
+    createdAt: new Date().toISOString(),
+});
+
+/**
+ * Serializes a preset for sharing. The id is left out; importing assigns a new one.
+ */
+export const exportGenerationPreset = (preset: GenerationPreset): string =>
+    JSON.stringify({ name: preset.name, settings: preset.settings }, null, 2);
+
+/**
+ * Reads a preset file written by `exportGenerationPreset`.
+ * @throws If the file has no usable settings.
+ */
+export const importGenerationPreset = (json: string, fallbackName: string): GenerationPreset => {
+    const parsed = JSON.parse(json);
+    const settings = sanitizeGenerationSettings(parsed?.settings);
+    if (!settings) {
+        throw new Error("The file does not contain any generation settings.");
+    }
+    const name = typeof parsed.name === 'string' && parsed.name.trim() ? parsed.name.trim() : fallbackName;
+    return createGenerationPreset(name, settings);
+};
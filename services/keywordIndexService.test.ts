@@ -0,0 +1,79 @@
+import { describe, expect, it } from 'vitest';
+import { KeywordDocument, VectorChunk } from '../types.ts';
+import { buildKeywordDocument, searchKeywordDocuments, tokenize } from './keywordIndexService.ts';
+
+const chunk = (id: string, content: string, headings?: string[]): VectorChunk => ({
+    id,
+    characterId: 'char-1',
+    sourceId: 'source-1',
+    content,
+    embedding: new Float32Array(0),
+    headings,
+});
+
+const documents = (...chunks: VectorChunk[]): KeywordDocument[] => chunks.map(buildKeywordDocument);
+
+describe('tokenize', () => {
+    it('drops stopwords, accents and plural endings', () => {
+        expect(tokenize('Tell me about the Cafés and the boss, please: 2 widgets')).toEqual(['cafe', 'boss', '2', 'widget']);
+    });
+});
+
+describe('buildKeywordDocument', () => {
+    it('counts the terms of the content and the headings', () => {
+        const doc = buildKeywordDocument(chunk('c1', 'Widget setup. Widgets need power.', ['Installation']));
+        expect({ ...doc.termFrequencies }).toEqual({ installation: 1, widget: 2, setup: 1, need: 1, power: 1 });
+        expect(doc.length).toBe(6);
+    });
+
+    it('counts terms that are names of Object.prototype members', () => {
+        const doc = buildKeywordDocument(chunk('c1', 'The constructor calls toString.'));
+        expect({ ...doc.termFrequencies }).toEqual({ constructor: 1, call: 1, tostring: 1 });
+    });
+});
+
+describe('searchKeywordDocuments', () => {
+    it('ranks documents by BM25, rare terms weighing more', () => {
+        const docs = documents(
+            chunk('common', 'The widget is blue. The widget is round.'),
+            chunk('rare', 'The widget has a flux capacitor.'),
+            chunk('other', 'Nothing to see here.'),
+        );
+        const matches = searchKeywordDocuments('widget flux', docs);
+        expect(matches.map(m => m.chunkId)).toEqual(['rare', 'common']);
+        expect(matches[0].matchedTerms).toEqual(['widget', 'flux']);
+        expect(matches[0].coverage).toBe(1);
+        expect(matches[1].coverage).toBeGreaterThan(0);
+        expect(matches[1].coverage).toBeLessThan(0.5);
+    });
+
+    it('returns nothing for a query without search terms', () => {
+        expect(searchKeywordDocuments('what is it?', documents(chunk('c1', 'A widget.')))).toEqual([]);
+    });
+
+    it('is not thrown off by query terms that are names of Object.prototype members', () => {
+        const docs = documents(chunk('widget', 'How to assemble the widget.'), chunk('other', 'Unrelated text.'));
+        const [match, ...rest] = searchKeywordDocuments('widget constructor', docs);
+        expect(match).toMatchObject({ chunkId: 'widget', matchedTerms: ['widget'] });
+        expect(match.score).toBeGreaterThan(0);
+        expect(rest).toEqual([]);
+
+        const withConstructor = documents(chunk('class', 'The constructor of the widget.'), chunk('other', 'Unrelated text.'));
+        expect(searchKeywordDocuments('constructor', withConstructor).map(m => m.chunkId)).toEqual(['class']);
+    });
+
+    it('ignores inherited and invalid entries of documents loaded from storage', () => {
+        // Stored documents come back as ordinary objects; older ones may hold a corrupted entry.
+        const stored: KeywordDocument = {
+            chunkId: 'stored',
+            characterId: 'char-1',
+            sourceId: 'source-1',
+            termFrequencies: { widget: 1, constructor: 'function Object() { [native code] }1' as unknown as number },
+            length: 2,
+        };
+        const matches = searchKeywordDocuments('widget constructor valueOf', [stored]);
+        expect(matches).toHaveLength(1);
+        expect(matches[0].matchedTerms).toEqual(['widget']);
+        expect(Number.isFinite(matches[0].score)).toBe(true);
+    });
+});
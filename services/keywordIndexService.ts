@@ -0,0 +1,94 @@
+import { KeywordDocument, VectorChunk } from '../types.ts';
+
+// --- Keyword Search (BM25) ---
+// Embeddings are good at meaning but weak at exact names, numbers and rare terms. A BM25 index
+// over the same chunks catches those; ragService fuses both rankings.
+
+const BM25_K1 = 1.2; // How quickly repeated terms stop adding to the score
+const BM25_B = 0.75; // How strongly long chunks are penalized
+
+const STOPWORDS = new Set([
+    'a', 'about', 'after', 'all', 'also', 'am', 'an', 'and', 'any', 'are', 'as', 'at', 'be', 'been',
+    'but', 'by', 'can', 'could', 'did', 'do', 'does', 'for', 'from', 'had', 'has', 'have', 'he', 'her',
+    'him', 'his', 'how', 'i', 'if', 'in', 'into', 'is', 'it', 'its', 'just', 'me', 'my', 'no', 'not',
+    'of', 'on', 'or', 'our', 'she', 'so', 'some', 'than', 'that', 'the', 'their', 'them', 'then',
+    'there', 'these', 'they', 'this', 'to', 'us', 'was', 'we', 'were', 'what', 'when', 'where',
+    'which', 'who', 'why', 'will', 'with', 'would', 'you', 'your',
+    // Words that start chat questions but say nothing about the topic
+    'describe', 'explain', 'give', 'know', 'let', 'please', 'remember', 'show', 'tell', 'think',
+]);
+
+/**
+ * Splits text into lowercase search terms without accents, stopwords or plural "s".
+ */
+export const tokenize = (text: string): string[] => {
+    const words: string[] = text.normalize('NFKD').replace(/\p{M}/gu, '').toLowerCase().match(/[\p{L}\p{N}]+/gu) || [];
+    return words
+        .filter(word => !STOPWORDS.has(word) && (word.length > 1 || /\d/.test(word)))
+        .map(word => word.length > 3 && word.endsWith('s') && !word.endsWith('ss') ? word.slice(0, -1) : word);
+};
+
+export const buildKeywordDocument = (chunk: VectorChunk): KeywordDocument => {
+    // Headings are indexed with the text, so a chunk can be found by its section title.
+    const terms = tokenize([...(chunk.headings || []), chunk.content].join('\n'));
+    // No prototype, so terms such as "constructor" do not resolve to Object.prototype members.
+    const termFrequencies: Record<string, number> = Object.create(null);
+    for (const term of terms) termFrequencies[term] = (termFrequencies[term] || 0) + 1;
+    return {
+        chunkId: chunk.id,
+        characterId: chunk.characterId,
+        sourceId: chunk.sourceId,
+        termFrequencies,
+        length: terms.length,
+    };
+};
+
+// Stored documents come back from IndexedDB as ordinary objects, so only own numeric entries count.
+const termFrequency = (doc: KeywordDocument, term: string): number => {
+    const frequency = Object.hasOwn(doc.termFrequencies, term) ? doc.termFrequencies[term] : 0;
+    return typeof frequency === 'number' ? frequency : 0;
+};
+
+export interface KeywordMatch {
+    chunkId: string;
+    score: number;
+    coverage: number; // Share of the query's total IDF weight found in the chunk (0-1)
+    matchedTerms: string[];
+}
+
+/**
+ * Scores documents against a query with BM25. Only documents sharing at least one term with the
+ * query are returned, best first.
+ */
+export const searchKeywordDocuments = (query: string, documents: KeywordDocument[]): KeywordMatch[] => {
+    const queryTerms = [...new Set(tokenize(query))];
+    if (queryTerms.length === 0 || documents.length === 0) return [];
+
+    const documentCount = documents.length;
+    const averageLength = documents.reduce((sum, doc) => sum + doc.length, 0) / documentCount || 1;
+    const idf = new Map<string, number>();
+    for (const term of queryTerms) {
+        const documentFrequency = documents.filter(doc => termFrequency(doc, term) > 0).length;
+        idf.set(term, Math.log(1 + (documentCount - documentFrequency + 0.5) / (documentFrequency + 0.5)));
+    }
+    const totalWeight = [...idf.values()].reduce((sum, weight) => sum + weight, 0);
+
+    const matches: KeywordMatch[] = [];
+    for (const doc of documents) {
+        let score = 0;
+        let matchedWeight = 0;
+        const matchedTerms: string[] = [];
+        for (const term of queryTerms) {
+            const frequency = termFrequency(doc, term);
+            if (!frequency) continue;
+            const weight = idf.get(term)!;
+            score += weight * (frequency * (BM25_K1 + 1)) / (frequency + BM25_K1 * (1 - BM25_B + BM25_B * doc.length / averageLength));
+            matchedWeight += weight;
+            matchedTerms.push(term);
+        }
+        if (score > 0) {
+            matches.push({ chunkId: doc.chunkId, score, coverage: totalWeight > 0 ? matchedWeight / totalWeight : 0, matchedTerms });
+        }
+    }
+    return matches.sort((a, b) => b.score - a.score);
+};
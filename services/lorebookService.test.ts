@@ -0,0 +1,43 @@
+import { describe, expect, it } from 'vitest';
+import { Lorebook, Message } from '../types.ts';
+import { describeFiredEntries, findRelevantLore } from './lorebookService.ts';
+import { nexusToWorldInfo, sillyTavernWorldInfoToNexus } from './compatibilityService.ts';
+
+const message = (content: string): Message => ({ role: 'user', content, timestamp: '2024-01-01T00:00:00.000Z' });
+
+const realm: Lorebook = {
+    id: 'realm',
+    name: 'Realm',
+    description: '',
+    entries: [
+        { id: 'dragon', keys: ['dragon'], content: 'Dragons hoard gold.' },
+        { id: 'gold', keys: ['gold'], content: 'Gold is scarce.' },
+        { id: 'sun', keys: [], content: 'The sun never sets.', constant: true },
+    ],
+};
+
+describe('findRelevantLore', () => {
+    it('fires the entries of every copy of a lorebook', () => {
+        // A re-imported World Info export keeps the entry ids of the original.
+        const copy: Lorebook = { ...sillyTavernWorldInfoToNexus(nexusToWorldInfo(realm), 'realm.json')!, id: 'realm-copy' };
+        expect(copy.entries.map(e => e.id)).toEqual(realm.entries.map(e => e.id));
+
+        const activation = findRelevantLore([message('A dragon appears.')], [realm, copy])!;
+        const fired = describeFiredEntries(activation);
+        expect(fired.map(e => `${e.lorebookId}:${e.entryId}:${e.reason}`).sort()).toEqual([
+            'realm-copy:dragon:keyword',
+            'realm-copy:gold:recursion',
+            'realm-copy:sun:constant',
+            'realm:dragon:keyword',
+            'realm:gold:recursion',
+            'realm:sun:constant',
+        ]);
+    });
+
+    it('settles an entry that lost its probability roll only in its own book', () => {
+        const unlikely: Lorebook = { ...realm, entries: [{ id: 'dragon', keys: ['dragon'], content: 'Rare dragons.', probability: 10 }] };
+        const certain: Lorebook = { ...realm, id: 'other', entries: [{ id: 'dragon', keys: ['dragon'], content: 'Common dragons.' }] };
+        const activation = findRelevantLore([message('dragon')], [unlikely, certain], { random: () => 0.5 })!;
+        expect(activation.entries.map(e => e.lorebookId)).toEqual(['other']);
+    });
+});
@@ -1,60 +1,293 @@
-import { Message, Lorebook } from '../types.ts';
+import { Message, Lorebook, LorebookEntry, LoreDepthInsertion, FiredLoreEntry } from '../types.ts';
 import { logger } from './loggingService.ts';
+import { estimateTokens } from './promptService.ts';
 
-const MAX_CONTEXT_SCAN_LENGTH = 2000; // Scan the last ~2000 characters of conversation
-const MAX_CONTEXT_INJECTION = 1000; // Inject a maximum of 1000 characters of lore
+export const DEFAULT_SCAN_DEPTH = 5; // Recent messages searched for an entry's keys
+export const DEFAULT_ORDER = 100;
+export const DEFAULT_INSERTION_DEPTH = 4;
+const MAX_RECURSION_STEPS = 3; // Rounds in which triggered entries may trigger further entries
+
+// --- Key Matching ---
+
+const REGEX_KEY = /^\/([\s\S]+)\/([a-z]*)$/;
+
+const escapeRegExp = (text: string): string => text.replace(/[.*+?^${}()|[\]\\]/g, '\\$&');
+
+/**
+ * Turns a key written as /pattern/flags into a regular expression; null for a plain key or an
+ * invalid pattern.
+ */
+export const parseRegexKey = (key: string): RegExp | null => {
+    const match = REGEX_KEY.exec(key.trim());
+    if (!match) return null;
+    try {
+        // A global or sticky regex keeps state between tests, which would make matches flaky.
+        return new RegExp(match[1], match[2].replace(/[gy]/g, ''));
+    } catch (error) {
+        logger.warn(`Lorebook key "${key}" is not a valid regular expression.`, error);
+        return null;
+    }
+};
+
+/**
+ * Whether a key occurs in the text, following the entry's case and whole-word settings. Regex
+ * keys carry their own flags.
+ */
+export const matchesKey = (text: string, key: string, entry: Pick<LorebookEntry, 'caseSensitive' | 'wholeWords'>): boolean => {
+    const trimmed = key.trim();
+    if (!trimmed) return false;
+    if (REGEX_KEY.test(trimmed)) {
+        return parseRegexKey(trimmed)?.test(text) ?? false;
+    }
+    const flags = entry.caseSensitive ? 'u' : 'iu';
+    if (!entry.wholeWords) {
+        return new RegExp(escapeRegExp(trimmed), flags).test(text);
+    }
+    return new RegExp(`(?<![\\p{L}\\p{N}_])${escapeRegExp(trimmed)}(?![\\p{L}\\p{N}_])`, flags).test(text);
+};
+
+/**
+ * Whether an entry's keys are satisfied by the text: one primary key matches, and the secondary
+ * keys agree according to the entry's logic. Constant and disabled entries are not considered.
+ */
+export const entryMatches = (entry: LorebookEntry, text: string): boolean => {
+    if (!entry.keys.some(key => matchesKey(text, key, entry))) return false;
+    const secondaryKeys = (entry.secondaryKeys || []).filter(key => key.trim());
+    if (secondaryKeys.length === 0) return true;
+    const matched = secondaryKeys.filter(key => matchesKey(text, key, entry)).length;
+    switch (entry.secondaryLogic || 'andAny') {
+        case 'andAll': return matched === secondaryKeys.length;
+        case 'notAny': return matched === 0;
+        case 'notAll': return matched < secondaryKeys.length;
+        default: return matched > 0;
+    }
+};
+
+// --- Activation ---
+
+export interface ActivatedLoreEntry {
+    lorebookId: string;
+    lorebookName: string;
+    entry: LorebookEntry;
+    reason: FiredLoreEntry['reason'];
+    tokens: number;
+    recency: number; // Messages before the newest one in which the entry matched; 0 for constant entries
+}
+
+export interface LoreActivation {
+    beforeCharacter: string | null;
+    afterCharacter: string | null;
+    atDepth: LoreDepthInsertion[];
+    entries: ActivatedLoreEntry[]; // Inserted, in insertion order
+    dropped: ActivatedLoreEntry[]; // Triggered, but over a token budget
+}
+
+export interface LoreOptions {
+    tokenBudget?: number; // Most tokens of lore in total, e.g. the chat's budget
+    random?: () => number; // Source of the probability rolls, between 0 and 1
+}
+
+const recentText = (messages: Message[], scanDepth: number): string =>
+    messages
+        .slice(-Math.max(0, scanDepth))
+        .map(m => m.content)
+        .join('\n');
+
+// How far back the newest match is: the smallest window of recent messages the entry matches.
+const matchRecency = (entry: LorebookEntry, messages: Message[], scanDepth: number): number => {
+    for (let depth = 1; depth < scanDepth; depth++) {
+        if (entryMatches(entry, recentText(messages, depth))) return depth - 1;
+    }
+    return Math.max(0, scanDepth - 1);
+};
+
+const joinContents = (entries: ActivatedLoreEntry[]): string | null =>
+    entries.length > 0 ? entries.map(activated => activated.entry.content).join('\n---\n') : null;
+
+const byInsertionOrder = (a: ActivatedLoreEntry, b: ActivatedLoreEntry): number =>
+    (a.entry.order ?? DEFAULT_ORDER) - (b.entry.order ?? DEFAULT_ORDER);
 
 /**
- * Scans recent messages for keywords from active lorebooks and returns relevant content.
+ * Keeps whole entries within each lorebook's budget and the overall budget. Entries with a
+ * higher order go first, then those matched in more recent messages; an entry that does not fit
+ * is skipped in favour of smaller ones after it.
+ */
+const applyTokenBudgets = (activated: ActivatedLoreEntry[], lorebooks: Lorebook[], tokenBudget?: number): { kept: ActivatedLoreEntry[]; dropped: ActivatedLoreEntry[] } => {
+    const budgets = new Map(lorebooks.map(book => [book.id, book.tokenBudget]));
+    const usedByBook = new Map<string, number>();
+    let used = 0;
+    const kept: ActivatedLoreEntry[] = [];
+    const dropped: ActivatedLoreEntry[] = [];
+    const byPriority = activated.slice().sort((a, b) => -byInsertionOrder(a, b) || a.recency - b.recency);
+    for (const activatedEntry of byPriority) {
+        const bookBudget = budgets.get(activatedEntry.lorebookId);
+        const bookUsed = usedByBook.get(activatedEntry.lorebookId) || 0;
+        const fitsBook = bookBudget === undefined || bookUsed + activatedEntry.tokens <= bookBudget;
+        const fitsTotal = tokenBudget === undefined || used + activatedEntry.tokens <= tokenBudget;
+        if (fitsBook && fitsTotal) {
+            kept.push(activatedEntry);
+            usedByBook.set(activatedEntry.lorebookId, bookUsed + activatedEntry.tokens);
+            used += activatedEntry.tokens;
+        } else {
+            dropped.push(activatedEntry);
+        }
+    }
+    if (dropped.length > 0) {
+        logger.log(`Lorebook budget left out ${dropped.length} of ${activated.length} triggered entries.`);
+    }
+    return { kept, dropped };
+};
+
+/**
+ * Finds the lorebook entries triggered by the recent conversation and groups their content by
+ * insertion position. Constant entries are always included. Each entry searches its own number
+ * of recent messages; the content of triggered entries is then searched as well, for a few
+ * rounds, so one entry can bring in the entries it mentions. A triggered entry is only inserted
+ * if its probability roll succeeds and it fits the token budgets.
  * @param messages The full message history of the chat.
  * @param lorebooks An array of Lorebook objects attached to the chat.
- * @returns A string containing the relevant lore, or null if no keywords are found.
+ * @param options The overall token budget and the source of probability rolls.
+ * @returns The triggered lore, or null if no entry was triggered.
  */
-export const findRelevantLore = (messages: Message[], lorebooks: Lorebook[]): string | null => {
+export const findRelevantLore = (messages: Message[], lorebooks: Lorebook[], options: LoreOptions = {}): LoreActivation | null => {
     if (!lorebooks || lorebooks.length === 0) {
         return null;
     }
+    const random = options.random || Math.random;
 
-    // Combine recent messages into a single text block for efficient scanning.
-    let recentText = messages
-        .slice(-5) // Look at the last 5 messages
-        .map(m => m.content)
-        .join(' ')
-        .toLowerCase();
-    
-    // Cap the length to avoid performance issues on very long messages.
-    if (recentText.length > MAX_CONTEXT_SCAN_LENGTH) {
-        recentText = recentText.slice(-MAX_CONTEXT_SCAN_LENGTH);
-    }
-    
-    const triggeredEntries = new Set<string>();
-
-    for (const book of lorebooks) {
-        for (const entry of book.entries) {
-            for (const key of entry.keys) {
-                const lowerKey = key.toLowerCase().trim();
-                if (lowerKey && recentText.includes(lowerKey)) {
-                    // Using a Set ensures we don't add the same content twice
-                    // if multiple keywords from the same entry are triggered.
-                    triggeredEntries.add(entry.content);
-                    break; // Move to the next entry once one key is matched.
+    const candidates = lorebooks.flatMap(book => book.entries
+        .filter(entry => !entry.disabled && entry.content.trim())
+        .map(entry => ({ book, entry })));
+    const activated: ActivatedLoreEntry[] = [];
+    // Activated, or triggered but lost the probability roll. Keyed by book as well, since two
+    // copies of a book (e.g. a World Info file and a card's embedded book) share entry ids.
+    const settled = new Set<string>();
+    const settledKey = (book: Lorebook, entry: LorebookEntry) => `${book.id}:${entry.id}`;
+
+    const tryActivate = (book: Lorebook, entry: LorebookEntry, reason: ActivatedLoreEntry['reason'], recency: number): void => {
+        settled.add(settledKey(book, entry));
+        const probability = entry.probability ?? 100;
+        if (probability < 100 && random() * 100 >= probability) {
+            logger.debug(`Lorebook entry "${entry.comment || entry.keys[0] || entry.id}" was triggered but skipped by its ${probability}% probability.`);
+            return;
+        }
+        activated.push({ lorebookId: book.id, lorebookName: book.name, entry, reason, tokens: estimateTokens(entry.content), recency });
+    };
+
+    for (const { book, entry } of candidates) {
+        if (entry.constant) tryActivate(book, entry, 'constant', 0);
+    }
+    for (const { book, entry } of candidates) {
+        const scanDepth = entry.scanDepth ?? DEFAULT_SCAN_DEPTH;
+        if (!settled.has(settledKey(book, entry)) && entryMatches(entry, recentText(messages, scanDepth))) {
+            tryActivate(book, entry, 'keyword', matchRecency(entry, messages, scanDepth));
+        }
+    }
+
+    let newlyActivated = activated.slice();
+    for (let step = 0; step < MAX_RECURSION_STEPS && newlyActivated.length > 0; step++) {
+        const triggering = newlyActivated.filter(activatedEntry => !activatedEntry.entry.preventRecursion);
+        const recursionText = triggering.map(activatedEntry => activatedEntry.entry.content).join('\n');
+        // An entry brought in by others is as recent as the most recent of them.
+        const recency = Math.min(...triggering.map(activatedEntry => activatedEntry.recency));
+        const before = activated.length;
+        if (recursionText) {
+            for (const { book, entry } of candidates) {
+                // The conversation is searched along with the content, so secondary keys still see it.
+                const text = `${recentText(messages, entry.scanDepth ?? DEFAULT_SCAN_DEPTH)}\n${recursionText}`;
+                if (!settled.has(settledKey(book, entry)) && !entry.excludeRecursion && entryMatches(entry, text)) {
+                    tryActivate(book, entry, 'recursion', recency);
                 }
             }
         }
+        newlyActivated = activated.slice(before);
     }
 
-    if (triggeredEntries.size === 0) {
+    if (activated.length === 0) {
         return null;
     }
 
-    logger.log(`Lorebook triggered ${triggeredEntries.size} entries.`);
-    
-    let combinedContent = Array.from(triggeredEntries).join('\n---\n');
+    const { kept, dropped } = applyTokenBudgets(activated, lorebooks, options.tokenBudget);
+
+    // Lower orders come first, so the highest ends up closest to the reply.
+    const ordered = kept
+        .map((activatedEntry, index) => ({ activatedEntry, index: activated.indexOf(activatedEntry) }))
+        .sort((a, b) => byInsertionOrder(a.activatedEntry, b.activatedEntry) || a.index - b.index)
+        .map(({ activatedEntry }) => activatedEntry);
+    const at = (position: LorebookEntry['position']) =>
+        ordered.filter(activatedEntry => (activatedEntry.entry.position || 'afterCharacter') === position);
 
-    // Cap the total injected content to prevent oversized prompts.
-    if (combinedContent.length > MAX_CONTEXT_INJECTION) {
-        combinedContent = combinedContent.slice(0, MAX_CONTEXT_INJECTION) + '...';
+    const depths = new Map<number, ActivatedLoreEntry[]>();
+    for (const activatedEntry of at('atDepth')) {
+        const depth = Math.max(0, Math.round(activatedEntry.entry.depth ?? DEFAULT_INSERTION_DEPTH));
+        depths.set(depth, [...(depths.get(depth) || []), activatedEntry]);
     }
 
-    return combinedContent;
+    logger.log(`Lorebook triggered ${activated.length} entries.`);
+    return {
+        beforeCharacter: joinContents(at('beforeCharacter')),
+        afterCharacter: joinContents(at('afterCharacter')),
+        atDepth: [...depths.entries()]
+            .sort(([a], [b]) => b - a)
+            .map(([depth, entries]) => ({ depth, content: joinContents(entries)! })),
+        entries: ordered,
+        dropped,
+    };
+};
+
+/**
+ * Summarizes the inserted and dropped entries of an activation for display with the reply.
+ */
+export const describeFiredEntries = (activation: LoreActivation): FiredLoreEntry[] => {
+    const describe = (activatedEntry: ActivatedLoreEntry, dropped: boolean): FiredLoreEntry => ({
+        lorebookId: activatedEntry.lorebookId,
+        lorebookName: activatedEntry.lorebookName,
+        entryId: activatedEntry.entry.id,
+        title: activatedEntry.entry.comment || activatedEntry.entry.keys.filter(key => key.trim()).join(', ') || 'Untitled entry',
+        reason: activatedEntry.reason,
+        tokens: activatedEntry.tokens,
+        ...(dropped ? { dropped: true } : {}),
+    });
+    return [...activation.entries.map(e => describe(e, false)), ...activation.dropped.map(e => describe(e, true))];
 };
+
+// --- Editing ---
+
+const normalizeKey = (key: string): string => key.trim().toLowerCase();
+
+/**
+ * Finds keywords used by more than one entry, ignoring case. Maps each affected entry's id to its
+ * duplicated keywords and the ids of the other entries using them.
+ */
+export const findDuplicateKeys = (entries: LorebookEntry[]): Map<string, { key: string; entryIds: string[] }[]> => {
+    const entriesByKey = new Map<string, string[]>();
+    for (const entry of entries) {
+        for (const key of new Set(entry.keys.map(normalizeKey).filter(key => key))) {
+            entriesByKey.set(key, [...(entriesByKey.get(key) || []), entry.id]);
+        }
+    }
+    const duplicates = new Map<string, { key: string; entryIds: string[] }[]>();
+    for (const [key, entryIds] of entriesByKey) {
+        if (entryIds.length < 2) continue;
+        for (const entryId of entryIds) {
+            duplicates.set(entryId, [...(duplicates.get(entryId) || []), { key, entryIds: entryIds.filter(id => id !== entryId) }]);
+        }
+    }
+    return duplicates;
+};
+
+/**
+ * Numbers entries by their position in the list, so the list order becomes the insertion order.
+ */
+export const renumberEntryOrder = (entries: LorebookEntry[]): LorebookEntry[] =>
+    entries.map((entry, index) => ({ ...entry, order: (index + 1) * 10 }));
+
+/**
+ * Splits a pasted conversation into messages at blank lines, for testing which entries fire.
+ */
+export const splitTestConversation = (text: string): Message[] =>
+    text
+        .split(/\n\s*\n/)
+        .map(part => part.trim())
+        .filter(part => part)
+        .map(content => ({ role: 'user' as const, content, timestamp: new Date().toISOString() }));
@@ -0,0 +1,67 @@
+import { afterEach, describe, expect, it } from 'vitest';
+import { Message } from '../types.ts';
+import { applyMacros, rollDice } from './macroService.ts';
+
+describe('applyMacros', () => {
+    const timeZone = process.env.TZ;
+    afterEach(() => {
+        process.env.TZ = timeZone;
+    });
+
+    it('writes {{isodate}} and {{isotime}} in local time', () => {
+        process.env.TZ = 'America/New_York'; // 2024-06-01T02:30Z is still May 31st here
+        const now = new Date('2024-06-01T02:30:00.000Z');
+        expect(applyMacros('{{isodate}} {{isotime}}', { now })).toBe('2024-05-31 22:30');
+
+        process.env.TZ = 'Asia/Tokyo';
+        expect(applyMacros('{{isodate}} {{isotime}}', { now: new Date('2024-12-31T20:00:00.000Z') })).toBe('2025-01-01 05:00');
+    });
+
+    it('replaces names, with generic fallbacks', () => {
+        expect(applyMacros('{{char}} greets {{USER}}.', { char: 'Aria', user: 'Sam' })).toBe('Aria greets Sam.');
+        expect(applyMacros('{{char}} greets {{user}}.')).toBe('the character greets User.');
+        expect(applyMacros('{{group}}', { group: ['Aria', 'Bram'] })).toBe('Aria, Bram');
+    });
+
+    it('picks {{random}} options with the injected source', () => {
+        expect(applyMacros('{{random:red,green,blue}}', { random: () => 0.5 })).toBe('green');
+        expect(applyMacros('{{random: red , blue}}', { random: () => 0.99 })).toBe('blue');
+        expect(applyMacros('{{random::red, dark::blue}}', { random: () => 0 })).toBe('red, dark');
+        expect(applyMacros('{{random::red, dark::blue}}', { random: () => 0.9 })).toBe('blue');
+    });
+
+    it('rolls dice with the injected source', () => {
+        const rolls = [0, 0.99]; // A 1 and a 6
+        const random = () => rolls.shift()!;
+        expect(applyMacros('{{roll:2d6+1}}', { random })).toBe('8');
+        expect(applyMacros('{{roll:20}}', { random: () => 0.5 })).toBe('11');
+        expect(rollDice('3d8 - 2', () => 0)).toBe(1);
+    });
+
+    it('keeps invalid macros verbatim', () => {
+        expect(applyMacros('{{roll:d0}} {{roll:lots}} {{roll}} {{random}}')).toBe('{{roll:d0}} {{roll:lots}} {{roll}} {{random}}');
+        expect(applyMacros('{{unknown}} and {{Char Name}}', { char: 'Aria' })).toBe('{{unknown}} and {{Char Name}}');
+        expect(rollDice('d20 please')).toBeNull();
+    });
+
+    it('removes comments', () => {
+        expect(applyMacros('Be kind.{{// set by the author}} Always.')).toBe('Be kind. Always.');
+    });
+
+    it('inserts the latest messages', () => {
+        const messages: Message[] = [
+            { role: 'user', content: 'Hello.', timestamp: '2024-01-01T00:00:00.000Z' },
+            { role: 'model', content: 'Hi there.', timestamp: '2024-01-01T00:01:00.000Z', characterId: 'char-1' },
+            { role: 'user', content: 'How are you?', timestamp: '2024-01-01T00:02:00.000Z' },
+            { role: 'model', content: '', timestamp: '2024-01-01T00:03:00.000Z', characterId: 'char-1' },
+        ];
+        const context = { messages, getSpeakerName: (m: Message) => m.role === 'user' ? 'Sam' : 'Aria' };
+        expect(applyMacros('{{lastMessage}}|{{lastUserMessage}}|{{lastCharMessage}}|{{lastMessageName}}', context))
+            .toBe('How are you?|How are you?|Hi there.|Sam');
+        expect(applyMacros('[{{lastMessage}}][{{lastMessageName}}]')).toBe('[][]');
+    });
+
+    it('does not expand macros in the replacements', () => {
+        expect(applyMacros('{{char}}', { char: '{{user}}', user: 'Sam' })).toBe('{{user}}');
+    });
+});
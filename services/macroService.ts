@@ -0,0 +1,114 @@
+import { Message } from '../types.ts';
+
+// --- Macros ---
+// Character cards and lorebooks write `{{char}}` and `{{user}}` instead of names, plus a few
+// SillyTavern-style helpers such as `{{time}}` or `{{roll:d20}}`. Macro names are case-insensitive.
+// Replacements are not scanned again, so a name containing braces is left as it is, and unknown
+// macros are kept verbatim.
+
+export interface MacroContext {
+    char?: string; // Name of the character speaking
+    user?: string; // Name of the user's persona
+    persona?: string; // Description of the user's persona
+    group?: string[]; // Names of every character in the chat
+    messages?: Message[]; // The conversation so far, oldest first
+    getSpeakerName?: (message: Message) => string;
+    now?: Date;
+    random?: () => number; // Source of {{random}} and {{roll}}, between 0 and 1
+}
+
+export const DEFAULT_USER_NAME = 'User';
+
+const MACRO_PATTERN = /\{\{([^{}]*)\}\}/g;
+const DICE_PATTERN = /^(\d*)d(\d+)\s*([+-]\s*\d+)?$/i;
+
+/**
+ * Rolls dice written as `d20`, `2d6`, `3d8+2` or a plain number of sides. Returns null for anything else.
+ */
+export const rollDice = (formula: string, random: () => number = Math.random): number | null => {
+    const trimmed = formula.trim();
+    const notation = /^\d+$/.test(trimmed) ? `d${trimmed}` : trimmed;
+    const match = notation.match(DICE_PATTERN);
+    if (!match) return null;
+    const count = Math.min(parseInt(match[1] || '1', 10), 100);
+    const sides = parseInt(match[2], 10);
+    if (count < 1 || sides < 1) return null;
+    let total = match[3] ? parseInt(match[3].replace(/\s/g, ''), 10) : 0;
+    for (let i = 0; i < count; i++) {
+        total += Math.floor(random() * sides) + 1;
+    }
+    return total;
+};
+
+// `{{random:a,b}}` and SillyTavern's `{{random::a::b}}`, which allows commas in the options.
+const splitRandomOptions = (args: string): string[] =>
+    args.startsWith(':') ? args.slice(1).split('::') : args.split(',');
+
+const pad2 = (n: number): string => String(n).padStart(2, '0');
+
+const lastMessageContent = (messages: Message[], role?: Message['role']): string =>
+    [...messages].reverse().find(m => m.content && (!role || m.role === role))?.content || '';
+
+/**
+ * Replaces the macros in a text. Names that are not known in the context fall back to generic
+ * words ("User", "the character") rather than leaving braces in the prompt.
+ */
+export const applyMacros = (text: string, context: MacroContext = {}): string => {
+    if (!text || !text.includes('{{')) return text;
+    const now = context.now || new Date();
+    const random = context.random || Math.random;
+    const messages = context.messages || [];
+
+    return text.replace(MACRO_PATTERN, (macro, body: string) => {
+        const separator = body.indexOf(':');
+        const name = (separator === -1 ? body : body.slice(0, separator)).trim().toLowerCase();
+        const args = separator === -1 ? '' : body.slice(separator + 1);
+
+        if (name.startsWith('//')) return ''; // {{// comment}}
+        switch (name) {
+            case 'char': return context.char || 'the character';
+            case 'user': return context.user || DEFAULT_USER_NAME;
+            case 'persona': return context.persona || '';
+            case 'group': return (context.group?.length ? context.group : [context.char || 'the character']).join(', ');
+            case 'time': return now.toLocaleTimeString([], { hour: '2-digit', minute: '2-digit' });
+            case 'date': return now.toLocaleDateString([], { year: 'numeric', month: 'long', day: 'numeric' });
+            case 'weekday': return now.toLocaleDateString([], { weekday: 'long' });
+            case 'isotime': return now.toTimeString().slice(0, 5);
+            case 'isodate': return `${now.getFullYear()}-${pad2(now.getMonth() + 1)}-${pad2(now.getDate())}`; // Local, like the other dates
+            case 'newline': return '\n';
+            case 'random': {
+                const options = splitRandomOptions(args).map(option => option.trim());
+                return options.length > 0 && args ? options[Math.floor(random() * options.length)] : macro;
+            }
+            case 'roll': {
+                const result = rollDice(args, random);
+                return result === null ? macro : String(result);
+            }
+            case 'lastmessage': return lastMessageContent(messages);
+            case 'lastusermessage': return lastMessageContent(messages, 'user');
+            case 'lastcharmessage': return lastMessageContent(messages, 'model');
+            case 'lastmessagename': {
+                const last = [...messages].reverse().find(m => m.content);
+                return last && context.getSpeakerName ? context.getSpeakerName(last) : '';
+            }
+            default: return macro;
+        }
+    });
+};
+
+/**
+ * Lists the supported macros for help texts.
+ */
+export const MACRO_DESCRIPTIONS: [string, string][] = [
+    ['{{char}}', "The character's name"],
+    ['{{user}}', "Your persona's name"],
+    ['{{persona}}', "Your persona's description"],
+    ['{{group}}', 'The names of every character in the chat'],
+    ['{{time}}, {{date}}, {{weekday}}', 'The current time, date and day of the week'],
+    ['{{isotime}}, {{isodate}}', 'The time as 14:05 and the date as 2024-05-31'],
+    ['{{random:a,b,c}}', 'One of the options, picked at random (use {{random::a::b}} if options contain commas)'],
+    ['{{roll:d20}}', 'A dice roll, e.g. d20, 2d6 or 3d8+2'],
+    ['{{lastMessage}}', 'The latest message; also {{lastUserMessage}}, {{lastCharMessage}} and {{lastMessageName}}'],
+    ['{{newline}}', 'A line break'],
+    ['{{// note}}', 'A comment, removed from the text'],
+];
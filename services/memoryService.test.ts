@@ -0,0 +1,64 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { Character, MemoryEntry } from '../types.ts';
+import { generateEmbedding } from './embeddingService.ts';
+import { createMemoryEntry, embedMissingMemories, retrieveRelevantMemories } from './memoryService.ts';
+
+vi.mock('./embeddingService.ts', async importOriginal => ({
+    ...await importOriginal<typeof import('./embeddingService.ts')>(),
+    generateEmbedding: vi.fn(),
+}));
+
+const character = (memories: MemoryEntry[]): Character => ({
+    id: 'char-1',
+    name: 'Aria',
+    description: '',
+    personality: '',
+    avatarUrl: '',
+    tags: [],
+    createdAt: '2024-01-01T00:00:00.000Z',
+    memories,
+    embeddingConfig: { service: 'ollama', model: 'nomic-embed-text' },
+});
+
+const entry = (content: string, embedding?: number[], embeddingModel?: string): MemoryEntry =>
+    ({ ...createMemoryEntry(content, { createdAt: '2024-01-01T00:00:00.000Z' }), embedding, embeddingModel });
+
+beforeEach(() => {
+    vi.mocked(generateEmbedding).mockReset();
+});
+
+describe('embedMissingMemories', () => {
+    it('tags new embeddings with their model and re-embeds entries of another model', async () => {
+        vi.mocked(generateEmbedding).mockResolvedValue([0, 1]);
+        const current = entry('Current', [1, 0], 'ollama:nomic-embed-text');
+        const [kept, missing, outdated, untagged] = await embedMissingMemories([
+            current,
+            entry('Missing'),
+            entry('Outdated', [1, 0, 0], 'gemini:text-embedding-004'),
+            entry('Untagged', [1, 0, 0]),
+        ], { service: 'ollama', model: 'nomic-embed-text' });
+
+        expect(kept).toBe(current);
+        for (const embedded of [missing, outdated, untagged]) {
+            expect(embedded).toMatchObject({ embedding: [0, 1], embeddingModel: 'ollama:nomic-embed-text' });
+        }
+        expect(vi.mocked(generateEmbedding).mock.calls.map(([text]) => text)).toEqual(['Missing', 'Outdated', 'Untagged']);
+    });
+});
+
+describe('retrieveRelevantMemories', () => {
+    it('ranks entries embedded by another model without similarity', async () => {
+        vi.mocked(generateEmbedding).mockResolvedValue([1, 0]);
+        const outdated = entry('Outdated', [1, 0], 'gemini:text-embedding-004');
+        const unrelated = entry('Unrelated', [0, 1], 'ollama:nomic-embed-text');
+        const similar = entry('Similar', [1, 0], 'ollama:nomic-embed-text');
+
+        const [best] = await retrieveRelevantMemories(character([outdated, unrelated, similar]), 'Query', 1);
+        expect(best).toBe(similar);
+    });
+
+    it('does not embed the query if no entry has an embedding of the current model', async () => {
+        await retrieveRelevantMemories(character([entry('Outdated', [1, 0], 'gemini:text-embedding-004')]), 'Query');
+        expect(generateEmbedding).not.toHaveBeenCalled();
+    });
+});
@@ -0,0 +1,229 @@
+import { Character, EmbeddingConfig, MemoryEntry } from '../types.ts';
+import * as embeddingService from './embeddingService.ts';
+import { generateWithCharacterModel } from './geminiService.ts';
+import { logger } from './loggingService.ts';
+
+// --- Long-Term Memory ---
+// Characters keep discrete, dated memory entries. Only the pinned entries and the ones most
+// relevant to the current turn are put into the prompt, instead of the whole memory every time.
+
+const DEFAULT_IMPORTANCE = 3;
+const DEFAULT_RETRIEVAL_LIMIT = 8;
+const RECENCY_HALF_LIFE_DAYS = 30;
+
+// Seed texts that older versions stored as the initial memory of a character.
+const LEGACY_PLACEHOLDER_PATTERN = /^(No memories yet\.|The story begins here\.|Memory of .* begins here\.)$/;
+const LEGACY_BLOCK_HEADER_PATTERN = /^\[(?:Memory from (.+)|Imported memory from chat ".*")\]:?$/;
+
+/**
+ * Memories are embedded with the character's RAG embedding settings, or the default Gemini model.
+ */
+export const getMemoryEmbeddingConfig = (character: Character): EmbeddingConfig => character.embeddingConfig || { service: 'gemini' };
+
+const clampImportance = (importance: number): number => Math.min(5, Math.max(1, Math.round(importance || DEFAULT_IMPORTANCE)));
+
+/**
+ * Creates a new memory entry. The embedding is added separately by `embedMissingMemories`.
+ */
+export const createMemoryEntry = (
+    content: string,
+    options: { importance?: number; sourceSessionId?: string; createdAt?: string; pinned?: boolean } = {}
+): MemoryEntry => ({
+    id: crypto.randomUUID(),
+    content: content.trim(),
+    createdAt: options.createdAt || new Date().toISOString(),
+    importance: clampImportance(options.importance ?? DEFAULT_IMPORTANCE),
+    sourceSessionId: options.sourceSessionId,
+    pinned: options.pinned || undefined,
+});
+
+/**
+ * Splits a legacy free-text memory into entries, one per "[Memory from ...]" block.
+ */
+export const parseLegacyMemory = (memory: string): MemoryEntry[] => {
+    const text = memory.trim();
+    if (!text || LEGACY_PLACEHOLDER_PATTERN.test(text)) {
+        return [];
+    }
+
+    const entries: MemoryEntry[] = [];
+    let header: string | null = null;
+    let lines: string[] = [];
+
+    const flush = () => {
+        const content = lines.join('\n').trim();
+        if (content && !LEGACY_PLACEHOLDER_PATTERN.test(content)) {
+            const match = header?.match(LEGACY_BLOCK_HEADER_PATTERN);
+            const parsedDate = match?.[1] ? Date.parse(match[1]) : NaN;
+            entries.push(createMemoryEntry(content, {
+                createdAt: isNaN(parsedDate) ? undefined : new Date(parsedDate).toISOString(),
+            }));
+        }
+        lines = [];
+    };
+
+    for (const line of text.split('\n')) {
+        if (LEGACY_BLOCK_HEADER_PATTERN.test(line.trim())) {
+            flush();
+            header = line.trim();
+        } else {
+            lines.push(line);
+        }
+    }
+    flush();
+    return entries;
+};
+
+/**
+ * Returns a character's memory entries, converting a legacy memory string on the fly.
+ */
+export const getMemories = (character: Character): MemoryEntry[] => {
+    if (Array.isArray(character.memories)) {
+        return character.memories;
+    }
+    return character.memory ? parseLegacyMemory(character.memory) : [];
+};
+
+/**
+ * Moves a legacy `memory` string into structured `memories`. Returns the character unchanged if
+ * there is nothing to migrate.
+ */
+export const migrateLegacyMemory = (character: Character): Character => {
+    if (Array.isArray(character.memories) && character.memory === undefined) {
+        return character;
+    }
+    const { memory, ...rest } = character;
+    const memories = [...(character.memories || []), ...(memory ? parseLegacyMemory(memory) : [])];
+    if (memory) {
+        logger.log(`Migrated memory of "${character.name}" into ${memories.length} entries.`);
+    }
+    return { ...rest, memories };
+};
+
+/**
+ * Whether an entry has an embedding made by the given model. Vectors of other models cannot be
+ * compared with the query, so such entries are treated as not embedded.
+ */
+export const isEmbeddedWith = (entry: MemoryEntry, embeddingModel: string): boolean =>
+    !!entry.embedding?.length && entry.embeddingModel === embeddingModel;
+
+/**
+ * Adds embeddings to entries that do not have one yet, or whose embedding was made by another
+ * model. Failures are logged and leave the entry as it was, so retrieval falls back to importance
+ * and recency for it.
+ */
+export const embedMissingMemories = async (entries: MemoryEntry[], config: EmbeddingConfig): Promise<MemoryEntry[]> => {
+    const embeddingModel = embeddingService.getEmbeddingModelId(config);
+    const result: MemoryEntry[] = [];
+    for (const entry of entries) {
+        if (!entry.content || isEmbeddedWith(entry, embeddingModel)) {
+            result.push(entry);
+            continue;
+        }
+        try {
+            const embedding = await embeddingService.generateEmbedding(entry.content, config);
+            result.push({ ...entry, embedding, embeddingModel });
+        } catch (error) {
+            logger.warn("Could not embed memory entry; it will be ranked without similarity.", error);
+            result.push(entry);
+        }
+    }
+    return result;
+};
+
+/**
+ * Combines several entries into one. The merged entry keeps the earliest date, the highest
+ * importance and is pinned if any of the originals was.
+ */
+export const mergeMemoryEntries = (entries: MemoryEntry[]): MemoryEntry => {
+    const sorted = [...entries].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+    const sourceIds = new Set(sorted.map(e => e.sourceSessionId).filter(Boolean));
+    return {
+        id: crypto.randomUUID(),
+        content: sorted.map(e => e.content).join('\n'),
+        createdAt: sorted[0].createdAt,
+        updatedAt: new Date().toISOString(),
+        importance: Math.max(...sorted.map(e => e.importance)),
+        sourceSessionId: sourceIds.size === 1 ? sorted[0].sourceSessionId : undefined,
+        pinned: sorted.some(e => e.pinned) || undefined,
+    };
+};
+
+const scoreMemory = (entry: MemoryEntry, queryEmbedding: number[] | null, now: number): number => {
+    const ageDays = Math.max(0, now - Date.parse(entry.createdAt)) / 86400000;
+    const recency = Math.pow(0.5, ageDays / RECENCY_HALF_LIFE_DAYS);
+    const importance = entry.importance / 5;
+    if (queryEmbedding && entry.embedding?.length) {
+        const similarity = embeddingService.calculateCosineSimilarity(queryEmbedding, entry.embedding);
+        return 0.6 * similarity + 0.25 * importance + 0.15 * recency;
+    }
+    return 0.6 * importance + 0.4 * recency;
+};
+
+/**
+ * Picks the memories to put into the prompt: every pinned entry plus the entries that score
+ * highest on similarity to the current turn, importance and recency.
+ */
+export const retrieveRelevantMemories = async (
+    character: Character,
+    query: string,
+    limit = DEFAULT_RETRIEVAL_LIMIT
+): Promise<MemoryEntry[]> => {
+    const memories = getMemories(character);
+    if (memories.length === 0) return [];
+
+    const pinned = memories.filter(m => m.pinned);
+    const config = getMemoryEmbeddingConfig(character);
+    const embeddingModel = embeddingService.getEmbeddingModelId(config);
+    const candidates = memories.filter(m => !m.pinned);
+
+    let queryEmbedding: number[] | null = null;
+    if (query.trim() && candidates.some(m => isEmbeddedWith(m, embeddingModel))) {
+        try {
+            queryEmbedding = await embeddingService.generateEmbedding(query, config);
+        } catch (error) {
+            logger.warn(`Memory retrieval for "${character.name}" fell back to importance and recency.`, error);
+        }
+    }
+
+    const now = Date.now();
+    const selected = candidates
+        // Entries embedded by another model are ranked without similarity until they are re-embedded.
+        .map(entry => ({ entry, score: scoreMemory(entry, isEmbeddedWith(entry, embeddingModel) ? queryEmbedding : null, now) }))
+        .sort((a, b) => b.score - a.score)
+        .slice(0, Math.max(0, limit - pinned.length))
+        .map(({ entry }) => entry);
+
+    logger.debug(`Retrieved ${selected.length} memories (+${pinned.length} pinned) for "${character.name}".`);
+    return [...pinned, ...selected].sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+};
+
+/**
+ * Formats entries as a dated list for the prompt, oldest first.
+ */
+export const formatMemoriesForPrompt = (entries: MemoryEntry[]): string =>
+    entries.map(entry => `- [${new Date(entry.createdAt).toLocaleDateString()}] ${entry.content}`).join('\n');
+
+const EXTRACTION_INSTRUCTION = `Extract the key events, facts and character developments from the conversation excerpt you are given as separate long-term memories. Focus on facts and relationship changes. Rate each memory's importance from 1 (trivial) to 5 (life-changing).
+Reply with a JSON array only, in the form [{"content": "...", "importance": 3}].`;
+
+/**
+ * Asks the model of the given character to distill a conversation excerpt into discrete memories
+ * with importance scores. Falls back to a single entry if the reply is not the expected JSON.
+ */
+export const extractMemories = async (transcript: string, character: Character, sourceSessionId?: string): Promise<MemoryEntry[]> => {
+    const reply = await generateWithCharacterModel(character, EXTRACTION_INSTRUCTION, `Conversation:\n${transcript}`);
+    const jsonText = reply.slice(reply.indexOf('['), reply.lastIndexOf(']') + 1);
+    try {
+        const parsed = JSON.parse(jsonText);
+        if (Array.isArray(parsed)) {
+            const entries = parsed
+                .filter(item => item && typeof item.content === 'string' && item.content.trim())
+                .map(item => createMemoryEntry(item.content, { importance: Number(item.importance), sourceSessionId }));
+            if (entries.length > 0) return entries;
+        }
+    } catch (e) {
+        logger.warn("Memory extraction did not return valid JSON; storing the reply as a single memory.", e);
+    }
+    return reply.trim() ? [createMemoryEntry(reply, { sourceSessionId })] : [];
+};
@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { ChatSession, Message } from '../types.ts';
+import { deleteMessage, forkAtMessage, packMessageTree, syncMessageTree, unpackMessageTree } from './messageTreeService.ts';
+import { splitAtSummary } from './summaryService.ts';
+
+const message = (id: string): Message => ({ id, role: 'user', content: `Message ${id}`, timestamp: `2024-01-01T00:00:0${id}.000Z` });
+
+const session = (): ChatSession => syncMessageTree({
+    id: 'chat-1',
+    name: 'Chat',
+    characterIds: ['char-1'],
+    messages: ['1', '2', '3', '4'].map(message),
+    summary: { text: 'Earlier events.', lastMessageId: '2', summarizedCount: 2, updatedAt: '2024-01-01T00:00:00.000Z' },
+});
+
+describe('deleteMessage', () => {
+    it('moves the summary to the message before a deleted last summarized message', () => {
+        const updated = deleteMessage(session(), '2', false);
+        expect(updated.summary?.lastMessageId).toBe('1');
+        expect(splitAtSummary(updated.messages, updated.summary).recentMessages.map(m => m.id)).toEqual(['3', '4']);
+    });
+
+    it('moves the summary when the messages from it onward are deleted', () => {
+        const updated = deleteMessage(session(), '2', true);
+        expect(updated.summary?.lastMessageId).toBe('1');
+        expect(splitAtSummary(updated.messages, updated.summary)).toEqual({ summaryText: 'Earlier events.', recentMessages: [] });
+    });
+
+    it('keeps the summary when other messages are deleted', () => {
+        expect(deleteMessage(session(), '1', false).summary?.lastMessageId).toBe('2');
+        expect(deleteMessage(session(), '3', true).summary?.lastMessageId).toBe('2');
+    });
+});
+
+describe('packMessageTree', () => {
+    // Branches after message 2: the active one (3, 4) and an abandoned one (5).
+    const branched = (): ChatSession => {
+        const forked = forkAtMessage(session(), '2');
+        return syncMessageTree({ ...forked, messages: [...forked.messages, message('5')] });
+    };
+
+    it('stores each message once', () => {
+        const packed = packMessageTree(branched());
+        expect(packed.messages.map(m => m.id)).toEqual(['1', '2', '5']);
+        expect(packed.messageTree!['1']).toEqual({ parentId: null, childIds: ['2'], activeChildId: '2' });
+        expect(packed.messageTree!['5'].message).toBeUndefined();
+        expect(packed.messageTree!['3'].message).toEqual(message('3'));
+        expect(packed.messageTree!['4'].message).toEqual(message('4'));
+    });
+
+    it('restores the full tree after saving', () => {
+        const original = branched();
+        const restored = unpackMessageTree(JSON.parse(JSON.stringify(packMessageTree(original))));
+        expect(restored).toEqual(JSON.parse(JSON.stringify(original)));
+    });
+
+    it('accepts sessions that are already packed or were saved with full nodes', () => {
+        const original = branched();
+        expect(packMessageTree(packMessageTree(original))).toEqual(packMessageTree(original));
+        expect(unpackMessageTree(original)).toBe(original);
+    });
+
+    it('drops nodes whose message is missing', () => {
+        const packed = packMessageTree(branched());
+        const restored = unpackMessageTree({ ...packed, messages: packed.messages.filter(m => m.id !== '5') });
+        expect(restored.messageTree!['5']).toBeUndefined();
+        expect(restored.messageTree!['2'].childIds).toEqual(['3']);
+    });
+});
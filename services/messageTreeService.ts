@@ -0,0 +1,288 @@
+import { Character, ChatSession, ChatSummary, Message, MessageTreeNode } from '../types.ts';
+import { logger } from './loggingService.ts';
+
+// --- Conversation Tree ---
+// `ChatSession.messages` always holds the currently selected path so the rest of the app can keep
+// treating a chat as a flat list. `ChatSession.messageTree` remembers every message that was ever
+// part of that path, which is what makes swiping between alternative replies and forking possible.
+// In memory the nodes share their message objects with `messages`; when a session is saved or
+// exported, the nodes on the active path are written as links only so each message is stored once.
+
+type MessageTree = Record<string, MessageTreeNode>;
+
+/**
+ * A chat session as it is saved. Tree nodes of messages on the active path leave out the message,
+ * which is kept in `messages`.
+ */
+export type PackedChatSession = Omit<ChatSession, 'messageTree'> & {
+    messageTree?: Record<string, Omit<MessageTreeNode, 'message'> & { message?: Message }>;
+};
+
+const isEmptyPlaceholder = (message: Message): boolean => !message.content && !message.attachment;
+
+/**
+ * Detaches a node from its parent's child list (mutates the given tree copy).
+ */
+const detachFromParent = (tree: MessageTree, nodeId: string, parentId: string | null) => {
+    if (!parentId || !tree[parentId]) return;
+    const parent = tree[parentId];
+    const childIds = parent.childIds.filter(id => id !== nodeId);
+    tree[parentId] = {
+        ...parent,
+        childIds,
+        activeChildId: parent.activeChildId === nodeId ? childIds[childIds.length - 1] : parent.activeChildId,
+    };
+};
+
+const getSiblingIds = (tree: MessageTree, nodeId: string): string[] => {
+    const node = tree[nodeId];
+    if (!node) return [];
+    if (node.parentId && tree[node.parentId]) {
+        return tree[node.parentId].childIds;
+    }
+    return Object.values(tree)
+        .filter(n => n.parentId === null)
+        .map(n => n.message.id!);
+};
+
+/**
+ * Builds the linear message path that ends at (or continues below) the given node:
+ * all of its ancestors, the node itself, and the active continuation beneath it.
+ */
+const buildPathThrough = (tree: MessageTree, nodeId: string): Message[] => {
+    const ancestors: Message[] = [];
+    let cursor: MessageTreeNode | undefined = tree[nodeId];
+    while (cursor) {
+        ancestors.unshift(cursor.message);
+        cursor = cursor.parentId ? tree[cursor.parentId] : undefined;
+    }
+
+    const descendants: Message[] = [];
+    let next = tree[nodeId]?.activeChildId;
+    while (next && tree[next]) {
+        descendants.push(tree[next].message);
+        next = tree[next].activeChildId;
+    }
+    return [...ancestors, ...descendants];
+};
+
+/**
+ * Merges the session's current message path into its conversation tree.
+ * Messages without an id are given one, and empty placeholders that were abandoned
+ * (e.g. a failed generation) are pruned. Returns a new session object.
+ */
+export const syncMessageTree = (session: ChatSession): ChatSession => {
+    const tree: MessageTree = { ...(session.messageTree || {}) };
+    const messages = session.messages.map(message => message.id ? message : { ...message, id: crypto.randomUUID() });
+
+    let parentId: string | null = null;
+    for (const message of messages) {
+        const id = message.id!;
+        const existing = tree[id];
+        if (existing && existing.parentId !== parentId) {
+            // The message was moved, e.g. because something before it was deleted.
+            detachFromParent(tree, id, existing.parentId);
+        }
+        tree[id] = {
+            message,
+            parentId,
+            childIds: existing?.childIds || [],
+            activeChildId: existing?.activeChildId,
+        };
+        if (parentId) {
+            const parent = tree[parentId];
+            tree[parentId] = {
+                ...parent,
+                childIds: parent.childIds.includes(id) ? parent.childIds : [...parent.childIds, id],
+                activeChildId: id,
+            };
+        }
+        parentId = id;
+    }
+
+    const pathIds = new Set(messages.map(m => m.id!));
+    for (const node of Object.values(tree)) {
+        const id = node.message.id!;
+        if (!pathIds.has(id) && node.childIds.length === 0 && isEmptyPlaceholder(node.message)) {
+            detachFromParent(tree, id, node.parentId);
+            delete tree[id];
+        }
+    }
+
+    return { ...session, messages, messageTree: tree };
+};
+
+/**
+ * Prepares a session for saving or export: merges its current path into the tree, then leaves
+ * the messages on that path out of the tree nodes.
+ */
+export const packMessageTree = (session: ChatSession | PackedChatSession): PackedChatSession => {
+    const synced = syncMessageTree(unpackMessageTree(session));
+    const pathIds = new Set(synced.messages.map(m => m.id!));
+    const packed: PackedChatSession['messageTree'] = {};
+    for (const [id, node] of Object.entries(synced.messageTree!)) {
+        packed[id] = pathIds.has(id) ? { parentId: node.parentId, childIds: node.childIds, activeChildId: node.activeChildId } : node;
+    }
+    return { ...synced, messageTree: packed };
+};
+
+/**
+ * Restores a saved or imported session: tree nodes without a message get it back from `messages`.
+ * Nodes whose message was lost are dropped. Sessions saved with full nodes are returned as they are.
+ */
+export const unpackMessageTree = (session: ChatSession | PackedChatSession): ChatSession => {
+    if (!session.messageTree) return session as ChatSession;
+    const nodes = Object.entries(session.messageTree);
+    if (nodes.every(([, node]) => node.message)) return session as ChatSession;
+
+    const byId = new Map(session.messages.filter(m => m.id).map(m => [m.id!, m]));
+    const tree: MessageTree = {};
+    for (const [id, node] of nodes) {
+        const message = node.message || byId.get(id);
+        if (message) tree[id] = { ...node, message };
+    }
+    const lostIds = nodes.map(([id]) => id).filter(id => !tree[id]);
+    if (lostIds.length > 0) {
+        logger.warn(`Dropped ${lostIds.length} conversation branch message(s) whose content was missing.`);
+        for (const id of lostIds) {
+            detachFromParent(tree, id, session.messageTree[id].parentId);
+        }
+    }
+    return { ...session, messageTree: tree };
+};
+
+/**
+ * Returns the position of a message among its alternatives, or null if it has none.
+ */
+export const getSiblingInfo = (session: ChatSession, messageId?: string): { index: number; count: number } | null => {
+    if (!messageId || !session.messageTree?.[messageId]) return null;
+    const siblingIds = getSiblingIds(session.messageTree, messageId);
+    if (siblingIds.length < 2) return null;
+    return { index: siblingIds.indexOf(messageId), count: siblingIds.length };
+};
+
+/**
+ * Switches the active path to the previous (-1) or next (+1) alternative of a message.
+ * The continuation that was last selected below that alternative is restored with it.
+ */
+export const selectSibling = (session: ChatSession, messageId: string, offset: 1 | -1): ChatSession => {
+    const synced = syncMessageTree(session);
+    const tree = synced.messageTree!;
+    const siblingIds = getSiblingIds(tree, messageId);
+    const currentIndex = siblingIds.indexOf(messageId);
+    if (currentIndex === -1 || siblingIds.length < 2) return synced;
+
+    const targetIndex = (currentIndex + offset + siblingIds.length) % siblingIds.length;
+    const targetId = siblingIds[targetIndex];
+    const target = tree[targetId];
+    if (target.parentId && tree[target.parentId]) {
+        tree[target.parentId] = { ...tree[target.parentId], activeChildId: targetId };
+    }
+
+    logger.debug(`Switched to branch ${targetIndex + 1}/${siblingIds.length}.`, { messageId: targetId });
+    return { ...synced, messages: buildPathThrough(tree, targetId) };
+};
+
+/**
+ * Cuts the active path right after the given message so the conversation can continue
+ * in a new direction. Everything that followed stays in the tree as an alternative branch.
+ */
+export const forkAtMessage = (session: ChatSession, messageId: string): ChatSession => {
+    const synced = syncMessageTree(session);
+    const index = synced.messages.findIndex(m => m.id === messageId);
+    if (index === -1) return synced;
+    logger.log(`Forked conversation after message ${index + 1}.`);
+    return { ...synced, messages: synced.messages.slice(0, index + 1) };
+};
+
+/**
+ * Collects the ids of a node and everything beneath it, in every branch.
+ */
+const collectSubtree = (tree: MessageTree, nodeId: string): string[] => {
+    const ids: string[] = [];
+    const stack = [nodeId];
+    while (stack.length > 0) {
+        const id = stack.pop()!;
+        if (!tree[id]) continue;
+        ids.push(id);
+        stack.push(...tree[id].childIds);
+    }
+    return ids;
+};
+
+/**
+ * Moves the summary of a session off deleted messages. A summary ends at a message id and stops
+ * applying once that message is gone, so it is re-anchored to the nearest earlier message left.
+ */
+const reanchorSummary = (summary: ChatSummary | undefined, removedIds: string[], parentId: string | null): ChatSummary | undefined => {
+    if (!summary || !removedIds.includes(summary.lastMessageId)) return summary;
+    if (!parentId) {
+        logger.warn("The messages covered by the chat summary were deleted; the summary no longer applies.");
+        return summary;
+    }
+    logger.debug("The last summarized message was deleted; the summary now ends at the message before it.");
+    return { ...summary, lastMessageId: parentId };
+};
+
+/**
+ * Removes a message from the conversation.
+ * With `includeFollowing`, every message after it (in all branches below it) is removed too.
+ * Otherwise its replies are re-attached to its parent so the rest of the conversation is kept.
+ */
+export const deleteMessage = (session: ChatSession, messageId: string, includeFollowing: boolean): ChatSession => {
+    const synced = syncMessageTree(session);
+    const tree = synced.messageTree!;
+    const node = tree[messageId];
+    if (!node) return synced;
+
+    const index = synced.messages.findIndex(m => m.id === messageId);
+    detachFromParent(tree, messageId, node.parentId);
+
+    if (includeFollowing) {
+        const removedIds = collectSubtree(tree, messageId);
+        removedIds.forEach(id => delete tree[id]);
+        logger.log(`Deleted ${removedIds.length} message(s) from the conversation.`);
+        return {
+            ...synced,
+            messages: index === -1 ? synced.messages : synced.messages.slice(0, index),
+            summary: reanchorSummary(synced.summary, removedIds, node.parentId),
+        };
+    }
+
+    for (const childId of node.childIds) {
+        tree[childId] = { ...tree[childId], parentId: node.parentId };
+        if (node.parentId && tree[node.parentId]) {
+            const parent = tree[node.parentId];
+            tree[node.parentId] = { ...parent, childIds: [...parent.childIds, childId] };
+        }
+    }
+    delete tree[messageId];
+    logger.log('Deleted a message from the conversation.');
+    return {
+        ...synced,
+        messages: synced.messages.filter(m => m.id !== messageId),
+        summary: reanchorSummary(synced.summary, [messageId], node.parentId),
+    };
+};
+
+// --- Greetings ---
+
+/**
+ * Lists a character's opening messages: the first message, then the alternate greetings.
+ */
+export const getGreetings = (character: Character): string[] =>
+    [character.firstMessage || '', ...(character.alternateGreetings || [])].filter(greeting => greeting.trim() !== '');
+
+/**
+ * Starts a conversation with alternative opening messages, which can then be swiped between like
+ * alternative replies. The selected one begins the active path.
+ */
+export const startWithAlternatives = (openings: Message[], selectedIndex: number): Pick<ChatSession, 'messages' | 'messageTree'> => {
+    const withIds = openings.map(message => message.id ? message : { ...message, id: crypto.randomUUID() });
+    const tree: MessageTree = {};
+    for (const message of withIds) {
+        tree[message.id!] = { message, parentId: null, childIds: [] };
+    }
+    const selected = withIds[Math.min(Math.max(0, selectedIndex), withIds.length - 1)];
+    return { messages: selected ? [selected] : [], messageTree: tree };
+};
@@ -0,0 +1,236 @@
+import { GoogleGenAI } from "@google/genai";
+import { ApiService, ModelCapability, ModelInfo } from '../types.ts';
+import { logger } from './loggingService.ts';
+
+// --- Model Discovery ---
+// Lists the models a connection offers so they can be picked from a dropdown instead of typed in.
+// Results are cached per connection in localStorage, because some servers are slow to list
+// (Ollama needs one request per model) and the list rarely changes.
+
+const CACHE_STORAGE_KEY = 'ai-nexus-model-cache';
+const CACHE_TTL_MS = 24 * 60 * 60 * 1000;
+
+const ANTHROPIC_DEFAULT_BASE_URL = 'https://api.anthropic.com';
+const OLLAMA_DEFAULT_BASE_URL = 'http://localhost:11434';
+
+export interface ModelConnection {
+    service: ApiService;
+    apiKey?: string;
+    apiEndpoint?: string;
+}
+
+interface CacheEntry {
+    service: ApiService;
+    fetchedAt: number;
+    models: ModelInfo[];
+}
+
+let cache: Record<string, CacheEntry> | null = null;
+
+const loadCache = (): Record<string, CacheEntry> => {
+    if (!cache) {
+        try {
+            cache = JSON.parse(localStorage.getItem(CACHE_STORAGE_KEY) || '{}');
+        } catch (e) {
+            logger.warn("Model cache is unreadable and will be rebuilt.", e);
+            cache = {};
+        }
+    }
+    return cache!;
+};
+
+const persistCache = () => {
+    try {
+        localStorage.setItem(CACHE_STORAGE_KEY, JSON.stringify(loadCache()));
+    } catch (e) {
+        logger.warn("Could not persist the model cache.", e);
+    }
+};
+
+// Keys are part of the cache key (different keys may see different models), but only as a hash.
+const hashString = (text: string): string => {
+    let hash = 0x811c9dc5;
+    for (let i = 0; i < text.length; i++) {
+        hash ^= text.charCodeAt(i);
+        hash = Math.imul(hash, 0x01000193);
+    }
+    return (hash >>> 0).toString(16);
+};
+
+const getCacheKey = (connection: ModelConnection): string =>
+    [connection.service, connection.apiEndpoint?.trim() || '', hashString(connection.apiKey?.trim() || '')].join('|');
+
+const stripApiPath = (endpoint: string | undefined, defaultBase: string): string =>
+    (endpoint?.trim() || defaultBase)
+        .replace(/\/+$/, '')
+        .replace(/\/(api\/(chat|embed|embeddings|tags)|v1\/(messages|models)|v1)$/, '');
+
+/**
+ * Derives the `/models` URL from the chat, embedding or image URL of an OpenAI-compatible server.
+ */
+const getOpenAIModelsUrl = (endpoint: string): string => {
+    const url = endpoint.trim().replace(/\/+$/, '');
+    const versioned = url.match(/^(.*?\/v\d+)(\/.*)?$/);
+    if (versioned) {
+        return `${versioned[1]}/models`;
+    }
+    // e.g. Ollama's own /api/embeddings endpoint, which also serves the OpenAI-compatible /v1 API
+    return `${url.replace(/\/api\/[a-z]+$/, '')}/v1/models`;
+};
+
+const inferCapabilities = (modelId: string): ModelCapability[] => {
+    const id = modelId.toLowerCase();
+    if (/embed/.test(id)) return ['embedding'];
+    if (/dall-e|imagen|image|flux|stable-diffusion|sdxl/.test(id)) return ['image'];
+    const capabilities: ModelCapability[] = ['chat'];
+    if (/vision|gpt-4o|gpt-4\.1|gpt-5|claude-3|claude-(sonnet|opus|haiku)|llava|gemma3|-vl\b|pixtral/.test(id)) capabilities.push('vision');
+    return capabilities;
+};
+
+// --- Providers ---
+
+const listOpenAIModels = async (connection: ModelConnection): Promise<ModelInfo[]> => {
+    if (!connection.apiEndpoint?.trim()) {
+        throw new Error("Enter the API endpoint first.");
+    }
+    const response = await fetch(getOpenAIModelsUrl(connection.apiEndpoint), {
+        headers: { 'Authorization': `Bearer ${connection.apiKey?.trim() || 'ollama'}` },
+    });
+    if (!response.ok) {
+        throw new Error(`Listing models failed with status ${response.status}: ${await response.text()}`);
+    }
+    const json = await response.json();
+    return (json.data || []).map((model: any): ModelInfo => {
+        const capabilities = inferCapabilities(model.id);
+        // Some servers (OpenRouter, Groq, vLLM) describe their models in more detail.
+        if (model.architecture?.input_modalities?.includes('image') && !capabilities.includes('vision')) capabilities.push('vision');
+        if (model.supported_parameters?.includes('tools')) capabilities.push('tools');
+        return {
+            id: model.id,
+            displayName: model.name && model.name !== model.id ? model.name : undefined,
+            contextLength: model.context_length || model.context_window || model.max_model_len || undefined,
+            capabilities,
+        };
+    });
+};
+
+const listAnthropicModels = async (connection: ModelConnection): Promise<ModelInfo[]> => {
+    const response = await fetch(`${stripApiPath(connection.apiEndpoint, ANTHROPIC_DEFAULT_BASE_URL)}/v1/models?limit=1000`, {
+        headers: {
+            'x-api-key': connection.apiKey?.trim() || '',
+            'anthropic-version': '2023-06-01',
+            'anthropic-dangerous-direct-browser-access': 'true',
+        },
+    });
+    if (!response.ok) {
+        throw new Error(`Listing Anthropic models failed with status ${response.status}: ${await response.text()}`);
+    }
+    const json = await response.json();
+    return (json.data || []).map((model: any): ModelInfo => ({
+        id: model.id,
+        displayName: model.display_name,
+        capabilities: ['chat', 'vision', 'tools'],
+    }));
+};
+
+const OLLAMA_CAPABILITIES: Record<string, ModelCapability> = {
+    completion: 'chat',
+    embedding: 'embedding',
+    vision: 'vision',
+    tools: 'tools',
+};
+
+const listOllamaModels = async (connection: ModelConnection): Promise<ModelInfo[]> => {
+    const base = stripApiPath(connection.apiEndpoint, OLLAMA_DEFAULT_BASE_URL);
+    const response = await fetch(`${base}/api/tags`);
+    if (!response.ok) {
+        throw new Error(`Listing Ollama models failed with status ${response.status}: ${await response.text()}`);
+    }
+    const json = await response.json();
+
+    // The tag list has no context length or capabilities; /api/show has both, one model at a time.
+    const models: ModelInfo[] = [];
+    for (const tag of json.models || []) {
+        const info: ModelInfo = { id: tag.name, displayName: tag.details?.parameter_size ? `${tag.name} (${tag.details.parameter_size})` : undefined, capabilities: inferCapabilities(tag.name) };
+        try {
+            const showResponse = await fetch(`${base}/api/show`, {
+                method: 'POST',
+                headers: { 'Content-Type': 'application/json' },
+                body: JSON.stringify({ model: tag.name }),
+            });
+            if (showResponse.ok) {
+                const details = await showResponse.json();
+                const contextKey = Object.keys(details.model_info || {}).find(key => key.endsWith('.context_length'));
+                if (contextKey) info.contextLength = details.model_info[contextKey];
+                if (Array.isArray(details.capabilities)) {
+                    info.capabilities = details.capabilities.map((c: string) => OLLAMA_CAPABILITIES[c]).filter(Boolean);
+                }
+            }
+        } catch (e) {
+            logger.debug(`Could not read details of Ollama model "${tag.name}".`, e);
+        }
+        models.push(info);
+    }
+    return models;
+};
+
+const listGeminiModels = async (connection: ModelConnection): Promise<ModelInfo[]> => {
+    const apiKey = connection.apiKey?.trim() || (typeof process !== 'undefined' ? process.env.API_KEY : undefined);
+    if (!apiKey) {
+        throw new Error("No Gemini API key is configured.");
+    }
+    const ai = new GoogleGenAI({ apiKey });
+    const models: ModelInfo[] = [];
+    for await (const model of await ai.models.list()) {
+        const id = (model.name || '').replace(/^models\//, '');
+        const actions = model.supportedActions || [];
+        const capabilities: ModelCapability[] = [];
+        if (actions.includes('generateContent')) capabilities.push('chat');
+        if (actions.includes('embedContent')) capabilities.push('embedding');
+        if (actions.includes('predict') && /imagen/.test(id)) capabilities.push('image');
+        if (capabilities.includes('chat') && id.startsWith('gemini')) capabilities.push('vision');
+        models.push({ id, displayName: model.displayName, contextLength: model.inputTokenLimit, capabilities });
+    }
+    return models;
+};
+
+// --- Public API ---
+
+/**
+ * Lists the models available through a connection. Results are cached for a day.
+ * @param refresh Ignore the cache and ask the server again.
+ */
+export const listModels = async (connection: ModelConnection, refresh = false): Promise<ModelInfo[]> => {
+    const key = getCacheKey(connection);
+    const cached = loadCache()[key];
+    if (!refresh && cached && Date.now() - cached.fetchedAt < CACHE_TTL_MS) {
+        return cached.models;
+    }
+
+    logger.log(`Discovering models for ${connection.service} connection.`, { endpoint: connection.apiEndpoint });
+    let models: ModelInfo[];
+    switch (connection.service) {
+        case 'openai': models = await listOpenAIModels(connection); break;
+        case 'anthropic': models = await listAnthropicModels(connection); break;
+        case 'ollama': models = await listOllamaModels(connection); break;
+        default: models = await listGeminiModels(connection);
+    }
+    models.sort((a, b) => a.id.localeCompare(b.id));
+
+    loadCache()[key] = { service: connection.service, fetchedAt: Date.now(), models };
+    persistCache();
+    logger.log(`Discovered ${models.length} models.`);
+    return models;
+};
+
+/**
+ * Looks a model up in every cached list of a service, e.g. to learn its context length.
+ */
+export const getCachedModelInfo = (service: ApiService, modelId: string): ModelInfo | undefined => {
+    for (const entry of Object.values(loadCache())) {
+        if (entry.service !== service) continue;
+        const match = entry.models.find(m => m.id === modelId || m.id === `${modelId}:latest`);
+        if (match) return match;
+    }
+    return undefined;
+};
@@ -0,0 +1,219 @@
+import { describe, expect, it } from 'vitest';
+import { deflateSync } from 'node:zlib';
+import { extractPdfLines, PdfTextLine } from './pdfParser.ts';
+import { binary, buildPdf, buildTextPdf } from './testFixtures.ts';
+
+const textOf = (lines: PdfTextLine[]) => lines.map(line => line.text);
+
+// --- Encoders for the ASCII and LZW filters, which Node does not provide ---
+
+const encodeAscii85 = (bytes: Uint8Array): string => {
+    let result = '';
+    for (let i = 0; i < bytes.length; i += 4) {
+        const group = bytes.subarray(i, i + 4);
+        let value = 0;
+        for (let j = 0; j < 4; j++) value = value * 256 + (group[j] ?? 0);
+        if (value === 0 && group.length === 4) {
+            result += 'z';
+            continue;
+        }
+        let digits = '';
+        for (let j = 0; j < 5; j++) {
+            digits = String.fromCharCode(33 + (value % 85)) + digits;
+            value = Math.floor(value / 85);
+        }
+        result += digits.slice(0, group.length + 1);
+    }
+    return `${result}~>`;
+};
+
+// Short inputs only: every code stays 9 bits wide.
+const encodeLzw = (bytes: Uint8Array): Uint8Array => {
+    const dictionary = new Map<string, number>();
+    for (let i = 0; i < 256; i++) dictionary.set(String.fromCharCode(i), i);
+    let next = 258;
+    const codes = [256];
+    let word = '';
+    for (const byte of bytes) {
+        const candidate = word + String.fromCharCode(byte);
+        if (dictionary.has(candidate)) {
+            word = candidate;
+            continue;
+        }
+        codes.push(dictionary.get(word)!);
+        dictionary.set(candidate, next++);
+        word = String.fromCharCode(byte);
+    }
+    if (word) codes.push(dictionary.get(word)!);
+    codes.push(257);
+
+    const out: number[] = [];
+    let buffer = 0;
+    let bits = 0;
+    for (const code of codes) {
+        buffer = (buffer << 9) | code;
+        bits += 9;
+        while (bits >= 8) {
+            out.push((buffer >>> (bits - 8)) & 0xff);
+            bits -= 8;
+        }
+    }
+    if (bits > 0) out.push((buffer << (8 - bits)) & 0xff);
+    return Uint8Array.from(out);
+};
+
+const article = 'BT /F1 24 Tf 72 700 Td (Chapter One) Tj ET BT /F1 12 Tf 14 TL 72 660 Td (The first line.) Tj T* (The second line.) Tj ET';
+
+describe('extractPdfLines', () => {
+    it('reads lines with their page, font size and position', async () => {
+        const lines = await extractPdfLines(buildTextPdf([article, 'BT /F1 12 Tf 72 700 Td (Page two.) Tj ET']));
+        expect(lines).toEqual([
+            { text: 'Chapter One', page: 1, fontSize: 24, y: 700 },
+            { text: 'The first line.', page: 1, fontSize: 12, y: 660 },
+            { text: 'The second line.', page: 1, fontSize: 12, y: 646 },
+            { text: 'Page two.', page: 2, fontSize: 12, y: 700 },
+        ]);
+    });
+
+    it('decodes every supported stream filter', async () => {
+        const content = new TextEncoder().encode('BT /F1 12 Tf 72 700 Td (Filtered text.) Tj ET');
+        const hex = Array.from(content, b => b.toString(16).padStart(2, '0')).join(' ') + '>';
+        const cases: [string | undefined, string | Uint8Array][] = [
+            ['FlateDecode', deflateSync(content)],
+            ['ASCIIHexDecode', hex],
+            ['ASCII85Decode', encodeAscii85(content)],
+            ['LZWDecode', encodeLzw(content)],
+        ];
+        for (const [filter, stream] of cases) {
+            expect(textOf(await extractPdfLines(buildTextPdf([stream], { filter }))), filter).toEqual(['Filtered text.']);
+        }
+    });
+
+    it('reads zlib data without its header', async () => {
+        const raw = deflateSync(new TextEncoder().encode('BT /F1 12 Tf 72 700 Td (Headerless.) Tj ET')).subarray(2);
+        expect(textOf(await extractPdfLines(buildTextPdf([raw], { filter: 'FlateDecode' })))).toEqual(['Headerless.']);
+    });
+
+    it('unescapes literal strings and reads hex strings', async () => {
+        const content = 'BT /F1 12 Tf 72 700 Td (Tom \\(the cat\\) said \\\\hi\\\\ \\101\\102) Tj ET BT /F1 12 Tf 72 680 Td <48656C6C6F> Tj ET';
+        expect(textOf(await extractPdfLines(buildTextPdf([content])))).toEqual(['Tom (the cat) said \\hi\\ AB', 'Hello']);
+    });
+
+    it('spaces words by the gaps between them and applies the text and graphics matrices', async () => {
+        const content = [
+            'BT /F1 12 Tf 72 700 Td [(Hel) -20 (lo) -400 (world)] TJ ET',
+            'q 2 0 0 2 0 0 cm BT /F1 10 Tf 36 300 Td (Scaled) Tj ET Q',
+            'BT 1 0 0 1 72 500 Tm /F1 12 Tf (Left) Tj 1 0 0 1 300 500 Tm (Right) Tj ET',
+        ].join('\n');
+        expect(await extractPdfLines(buildTextPdf([content]))).toEqual([
+            { text: 'Hello world', page: 1, fontSize: 12, y: 700 },
+            { text: 'Scaled', page: 1, fontSize: 20, y: 600 },
+            { text: 'Left Right', page: 1, fontSize: 12, y: 500 },
+        ]);
+    });
+
+    it('maps codes through a ToUnicode CMap of a composite font', async () => {
+        const cmap = [
+            '/CIDInit /ProcSet findresource begin 12 dict begin begincmap',
+            '1 begincodespacerange <0000> <FFFF> endcodespacerange',
+            '2 beginbfchar <0001> <0048> <0002> <0069> endbfchar',
+            '1 beginbfrange <0003> <0005> <0061> endbfrange',
+            '1 beginbfrange <0010> <0011> [<00E9> <FB01>] endbfrange',
+            'endcmap end end',
+        ].join('\n');
+        const pdf = buildPdf([
+            '<< /Type /Catalog /Pages 2 0 R >>',
+            '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+            '<< /Type /Page /Parent 2 0 R /Resources << /Font << /F1 5 0 R >> >> /Contents 4 0 R >>',
+            { dict: '', stream: 'BT /F1 12 Tf 72 700 Td <000100020003000400050010 0011> Tj ET' },
+            '<< /Type /Font /Subtype /Type0 /BaseFont /Custom /Encoding /Identity-H /DescendantFonts [6 0 R] /ToUnicode 7 0 R >>',
+            '<< /Type /Font /Subtype /CIDFontType2 /DW 500 /W [1 [600 300] 3 5 500] >>',
+            { dict: '/Filter /FlateDecode', stream: deflateSync(new TextEncoder().encode(cmap)) },
+        ]);
+        expect(textOf(await extractPdfLines(pdf))).toEqual(['Hiabcéﬁ']);
+    });
+
+    it('applies the Differences of a simple font encoding', async () => {
+        const pdf = buildTextPdf(['BT /F2 12 Tf 72 700 Td (caf\\301 ABC) Tj ET'], {
+            extraObjects: ['<< /Type /Font /Subtype /Type1 /BaseFont /Times-Roman /Encoding << /BaseEncoding /WinAnsiEncoding /Differences [65 /eacute /fi /uni263A 193 /eacute] >> >>'],
+            resources: '/Font << /F1 3 0 R /F2 4 0 R >>',
+        });
+        // The page's own /Font dictionary replaces the default one, so list both.
+        expect(textOf(await extractPdfLines(pdf))).toEqual(['café éfi☺']);
+    });
+
+    it('reads objects from compressed object streams', async () => {
+        const font = '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>';
+        const objectStream = `6 0 ${font}`;
+        const pdf = buildPdf([
+            '<< /Type /Catalog /Pages 2 0 R >>',
+            '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+            '<< /Type /Page /Parent 2 0 R /Resources << /Font << /F1 6 0 R >> >> /Contents 4 0 R >>',
+            { dict: '', stream: 'BT /F1 12 Tf 72 700 Td (From an object stream.) Tj ET' },
+            { dict: `/Type /ObjStm /N 1 /First 4 /Filter /FlateDecode`, stream: deflateSync(new TextEncoder().encode(objectStream)) },
+        ]);
+        expect(textOf(await extractPdfLines(pdf))).toEqual(['From an object stream.']);
+    });
+
+    it('reads text inside form XObjects', async () => {
+        const pdf = buildTextPdf(['BT /F1 12 Tf 72 700 Td (Outside.) Tj ET q 1 0 0 1 0 -100 cm /Fm1 Do Q'], {
+            extraObjects: [{ dict: '/Type /XObject /Subtype /Form /BBox [0 0 612 792] /Matrix [1 0 0 1 0 -100]', stream: 'BT /F1 12 Tf 72 700 Td (Inside the form.) Tj ET' }],
+            resources: '/XObject << /Fm1 4 0 R >>',
+        });
+        expect(await extractPdfLines(pdf)).toEqual([
+            { text: 'Outside.', page: 1, fontSize: 12, y: 700 },
+            { text: 'Inside the form.', page: 1, fontSize: 12, y: 500 },
+        ]);
+    });
+
+    it('finds the pages of a file without a usable page tree', async () => {
+        const pdf = buildPdf([
+            '<< /Type /Catalog >>',
+            '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>',
+            '<< /Type /Page /Resources << /Font << /F1 2 0 R >> >> /Contents 4 0 R >>',
+            { dict: '', stream: 'BT /F1 12 Tf 72 700 Td (Orphaned page.) Tj ET' },
+        ]);
+        expect(await extractPdfLines(pdf)).toEqual([{ text: 'Orphaned page.', page: 1, fontSize: 12, y: 700 }]);
+    });
+
+    it('skips inline images', async () => {
+        const content = binary('BT /F1 12 Tf 72 700 Td (Before.) Tj ET BI /W 2 /H 2 /BPC 8 /CS /G ID \x00(\xff)\x9c EI BT /F1 12 Tf 72 680 Td (After.) Tj ET');
+        expect(textOf(await extractPdfLines(buildTextPdf([content])))).toEqual(['Before.', 'After.']);
+    });
+
+    describe('errors', () => {
+        it('rejects a file that is not a PDF', async () => {
+            await expect(extractPdfLines(new TextEncoder().encode('Hello, world').buffer as ArrayBuffer)).rejects.toThrow('The file is not a PDF.');
+        });
+
+        it('rejects an encrypted PDF', async () => {
+            const pdf = buildPdf(['<< /Type /Catalog >>', '<< /Filter /Standard /V 2 /R 3 >>'], '/Root 1 0 R /Encrypt 2 0 R');
+            await expect(extractPdfLines(pdf)).rejects.toThrow('This PDF is encrypted. Remove the password protection and try again.');
+        });
+
+        it('returns no lines for pages that only hold images', async () => {
+            const pdf = buildTextPdf(['q 612 0 0 792 0 0 cm /Im1 Do Q'], {
+                extraObjects: [{ dict: '/Type /XObject /Subtype /Image /Width 1 /Height 1 /BitsPerComponent 8 /ColorSpace /DeviceGray /Filter /DCTDecode', stream: binary('\xff\xd8\xff\xd9') }],
+                resources: '/XObject << /Im1 4 0 R >>',
+            });
+            expect(await extractPdfLines(pdf)).toEqual([]);
+        });
+
+        it('keeps reading after a page whose content cannot be decoded', async () => {
+            const pdf = buildTextPdf([binary('\x00\x01 not zlib'), deflateSync(new TextEncoder().encode('BT /F1 12 Tf 72 700 Td (Second page.) Tj ET'))], { filter: 'FlateDecode' });
+            expect(await extractPdfLines(pdf)).toEqual([{ text: 'Second page.', page: 2, fontSize: 12, y: 700 }]);
+        });
+
+        it('ignores fonts that are not defined and unreadable objects', async () => {
+            const pdf = buildPdf([
+                '<< /Type /Catalog /Pages 2 0 R >>',
+                '<< /Type /Pages /Kids [3 0 R] /Count 1 >>',
+                '<< /Type /Page /Parent 2 0 R /Resources << /Font << /F1 5 0 R >> >> /Contents 4 0 R >>',
+                { dict: '', stream: 'BT /F9 12 Tf 72 720 Td (No font.) Tj /F1 12 Tf 72 700 Td (Readable.) Tj ET' },
+                '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica >>',
+                '<< /Broken [ 1 2',
+            ]);
+            expect(textOf(await extractPdfLines(pdf))).toEqual(['Readable.']);
+        });
+    });
+});
@@ -0,0 +1,881 @@
+import { inflate } from './zipReader.ts';
+import { logger } from './loggingService.ts';
+
+// --- PDF Text Extraction ---
+// A small PDF reader that recovers the text of each page together with its font size, so that
+// headings can be told apart from body text. It covers what ordinary text PDFs use: Flate, LZW
+// and ASCII stream filters, compressed object streams, ToUnicode maps, the standard single-byte
+// encodings and text inside form XObjects. Encrypted files and scanned pages (text that is only
+// an image) are not supported.
+
+export interface PdfTextLine {
+    text: string;
+    page: number; // 1-based
+    fontSize: number; // In user space units, after all scaling
+    y: number; // Baseline position on the page; larger is higher up
+}
+
+// --- Objects ---
+
+class PdfName {
+    constructor(readonly name: string) {}
+}
+
+class PdfRef {
+    constructor(readonly num: number) {}
+}
+
+class PdfString {
+    constructor(readonly bytes: string) {} // One character per byte
+}
+
+class PdfKeyword {
+    constructor(readonly word: string) {}
+}
+
+class PdfDict {
+    constructor(readonly entries: Map<string, PdfValue>) {}
+    get(key: string): PdfValue | undefined {
+        return this.entries.get(key);
+    }
+}
+
+class PdfStream {
+    constructor(readonly dict: PdfDict, readonly raw: Uint8Array) {}
+}
+
+type PdfValue = number | boolean | null | PdfName | PdfRef | PdfString | PdfDict | PdfStream | PdfValue[];
+type Token = PdfValue | PdfKeyword | '[' | ']' | '<<' | '>>' | '{' | '}';
+
+const isWhitespace = (c: string) => c === ' ' || c === '\n' || c === '\r' || c === '\t' || c === '\f' || c === '\0';
+const isDelimiter = (c: string) => '()<>[]{}/%'.includes(c);
+
+/**
+ * Converts bytes to a string with one character per byte. TextDecoder cannot do this: its
+ * "latin1" is really windows-1252, which remaps 0x80-0x9F.
+ */
+const toBinaryString = (bytes: Uint8Array): string => {
+    let result = '';
+    for (let i = 0; i < bytes.length; i += 8192) {
+        result += String.fromCharCode.apply(null, Array.from(bytes.subarray(i, i + 8192)));
+    }
+    return result;
+};
+
+const fromBinaryString = (text: string): Uint8Array => {
+    const bytes = new Uint8Array(text.length);
+    for (let i = 0; i < text.length; i++) bytes[i] = text.charCodeAt(i) & 0xff;
+    return bytes;
+};
+
+class Lexer {
+    pos: number;
+
+    constructor(readonly src: string, start = 0, readonly bytes?: Uint8Array) {
+        this.pos = start;
+    }
+
+    skipWhitespace() {
+        while (this.pos < this.src.length) {
+            const c = this.src[this.pos];
+            if (isWhitespace(c)) {
+                this.pos++;
+            } else if (c === '%') {
+                while (this.pos < this.src.length && this.src[this.pos] !== '\n' && this.src[this.pos] !== '\r') this.pos++;
+            } else {
+                break;
+            }
+        }
+    }
+
+    readToken(): Token | undefined {
+        this.skipWhitespace();
+        const { src } = this;
+        if (this.pos >= src.length) return undefined;
+        const c = src[this.pos];
+
+        if (c === '(') return this.readLiteralString();
+        if (c === '<') {
+            if (src[this.pos + 1] === '<') {
+                this.pos += 2;
+                return '<<';
+            }
+            return this.readHexString();
+        }
+        if (c === '>' && src[this.pos + 1] === '>') {
+            this.pos += 2;
+            return '>>';
+        }
+        if (c === '[' || c === ']' || c === '{' || c === '}') {
+            this.pos++;
+            return c;
+        }
+        if (c === '/') {
+            this.pos++;
+            const start = this.pos;
+            while (this.pos < src.length && !isWhitespace(src[this.pos]) && !isDelimiter(src[this.pos])) this.pos++;
+            return new PdfName(src.slice(start, this.pos).replace(/#([0-9a-fA-F]{2})/g, (_, hex) => String.fromCharCode(parseInt(hex, 16))));
+        }
+
+        const start = this.pos;
+        while (this.pos < src.length && !isWhitespace(src[this.pos]) && !isDelimiter(src[this.pos])) this.pos++;
+        if (this.pos === start) {
+            this.pos++; // A stray delimiter such as ')' or '>'
+            return this.readToken();
+        }
+        const word = src.slice(start, this.pos);
+        if (/^[+-]?(\d+\.?\d*|\.\d+)$/.test(word)) return parseFloat(word);
+        if (word === 'true') return true;
+        if (word === 'false') return false;
+        if (word === 'null') return null;
+        return new PdfKeyword(word);
+    }
+
+    private readLiteralString(): PdfString {
+        const { src } = this;
+        let depth = 0;
+        let result = '';
+        this.pos++;
+        while (this.pos < src.length) {
+            const c = src[this.pos++];
+            if (c === '(') {
+                depth++;
+                result += c;
+            } else if (c === ')') {
+                if (depth === 0) break;
+                depth--;
+                result += c;
+            } else if (c === '\\') {
+                const next = src[this.pos++];
+                switch (next) {
+                    case 'n': result += '\n'; break;
+                    case 'r': result += '\r'; break;
+                    case 't': result += '\t'; break;
+                    case 'b': result += '\b'; break;
+                    case 'f': result += '\f'; break;
+                    case '\r': if (src[this.pos] === '\n') this.pos++; break; // Line continuation
+                    case '\n': break;
+                    default:
+                        if (next >= '0' && next <= '7') {
+                            let octal = next;
+                            while (octal.length < 3 && src[this.pos] >= '0' && src[this.pos] <= '7') octal += src[this.pos++];
+                            result += String.fromCharCode(parseInt(octal, 8) & 0xff);
+                        } else {
+                            result += next; // \( \) \\ and unknown escapes
+                        }
+                }
+            } else if (c === '\r') {
+                if (src[this.pos] === '\n') this.pos++;
+                result += '\n';
+            } else {
+                result += c;
+            }
+        }
+        return new PdfString(result);
+    }
+
+    private readHexString(): PdfString {
+        const end = this.src.indexOf('>', this.pos);
+        const hex = this.src.slice(this.pos + 1, end === -1 ? undefined : end).replace(/[^0-9a-fA-F]/g, '');
+        this.pos = end === -1 ? this.src.length : end + 1;
+        let result = '';
+        for (let i = 0; i < hex.length; i += 2) {
+            result += String.fromCharCode(parseInt(hex.slice(i, i + 2).padEnd(2, '0'), 16));
+        }
+        return new PdfString(result);
+    }
+
+    /**
+     * Reads a complete value: arrays and dictionaries are read recursively, and `n g R` becomes
+     * a reference. Returns a keyword if one comes first (operators in content streams).
+     */
+    readValue(): PdfValue | PdfKeyword | undefined {
+        const token = this.readToken();
+        if (token === '[') {
+            const items: PdfValue[] = [];
+            while (true) {
+                const save = this.pos;
+                const next = this.readToken();
+                if (next === ']' || next === undefined) break;
+                this.pos = save;
+                const item = this.readValue();
+                if (item instanceof PdfKeyword || item === undefined) continue;
+                items.push(item);
+            }
+            return items;
+        }
+        if (token === '<<') {
+            const entries = new Map<string, PdfValue>();
+            while (true) {
+                const key = this.readToken();
+                if (key === '>>' || key === undefined) break;
+                if (!(key instanceof PdfName)) continue;
+                const value = this.readValue();
+                if (value !== undefined && !(value instanceof PdfKeyword)) entries.set(key.name, value);
+            }
+            return new PdfDict(entries);
+        }
+        if (typeof token === 'number' && Number.isInteger(token)) {
+            // Look ahead for `gen R`.
+            const save = this.pos;
+            const gen = this.readToken();
+            if (typeof gen === 'number') {
+                const r = this.readToken();
+                if (r instanceof PdfKeyword && r.word === 'R') return new PdfRef(token);
+            }
+            this.pos = save;
+            return token;
+        }
+        if (token === ']' || token === '>>' || token === '{' || token === '}') {
+            return this.readValue();
+        }
+        return token;
+    }
+
+    /**
+     * Reads an indirect object's value, including the stream data that may follow a dictionary.
+     */
+    readObject(): PdfValue | undefined {
+        const value = this.readValue();
+        if (!(value instanceof PdfDict)) {
+            return value instanceof PdfKeyword ? undefined : value;
+        }
+        const save = this.pos;
+        const next = this.readToken();
+        if (!(next instanceof PdfKeyword) || next.word !== 'stream') {
+            this.pos = save;
+            return value;
+        }
+        // The data starts after the end-of-line that follows the keyword.
+        if (this.src[this.pos] === '\r') this.pos++;
+        if (this.src[this.pos] === '\n') this.pos++;
+        const start = this.pos;
+        const length = value.get('Length');
+        let end = -1;
+        if (typeof length === 'number' && /^\s*endstream/.test(this.src.slice(start + length, start + length + 20))) {
+            end = start + length;
+        } else {
+            // The length is an indirect reference or wrong; look for the end marker instead.
+            end = this.src.indexOf('endstream', start);
+            if (end === -1) end = this.src.length;
+            if (this.src[end - 1] === '\n') end--;
+            if (this.src[end - 1] === '\r') end--;
+        }
+        this.pos = end;
+        const data = this.bytes ? this.bytes.subarray(start, end) : fromBinaryString(this.src.slice(start, end));
+        return new PdfStream(value, data);
+    }
+}
+
+// --- Stream Filters ---
+
+const decodeAsciiHex = (data: Uint8Array): Uint8Array => {
+    const hex = toBinaryString(data).split('>')[0].replace(/[^0-9a-fA-F]/g, '');
+    const out = new Uint8Array(Math.ceil(hex.length / 2));
+    for (let i = 0; i < out.length; i++) out[i] = parseInt(hex.slice(i * 2, i * 2 + 2).padEnd(2, '0'), 16);
+    return out;
+};
+
+const decodeAscii85 = (data: Uint8Array): Uint8Array => {
+    const text = toBinaryString(data).replace(/^<~/, '').split('~>')[0].replace(/\s/g, '');
+    const out: number[] = [];
+    let group: number[] = [];
+    const flush = (count: number) => {
+        while (group.length < 5) group.push(84); // Pad with 'u'
+        let value = 0;
+        for (const digit of group) value = value * 85 + digit;
+        for (let i = 0; i < count; i++) out.push((value >>> (24 - i * 8)) & 0xff);
+        group = [];
+    };
+    for (const c of text) {
+        if (c === 'z' && group.length === 0) {
+            out.push(0, 0, 0, 0);
+            continue;
+        }
+        group.push(c.charCodeAt(0) - 33);
+        if (group.length === 5) flush(4);
+    }
+    if (group.length > 1) flush(group.length - 1);
+    return Uint8Array.from(out);
+};
+
+const decodeLzw = (data: Uint8Array, earlyChange = 1): Uint8Array => {
+    const out: number[] = [];
+    let dictionary: number[][] = [];
+    const reset = () => {
+        dictionary = [];
+        for (let i = 0; i < 256; i++) dictionary.push([i]);
+        dictionary.push([], []); // 256 = clear table, 257 = end of data
+    };
+    reset();
+    let codeLength = 9;
+    let bitBuffer = 0;
+    let bitCount = 0;
+    let previous: number[] | null = null;
+    for (let i = 0; i < data.length; i++) {
+        bitBuffer = (bitBuffer << 8) | data[i];
+        bitCount += 8;
+        while (bitCount >= codeLength) {
+            const code = (bitBuffer >>> (bitCount - codeLength)) & ((1 << codeLength) - 1);
+            bitCount -= codeLength;
+            if (code === 256) {
+                reset();
+                codeLength = 9;
+                previous = null;
+                continue;
+            }
+            if (code === 257) return Uint8Array.from(out);
+            let entry: number[];
+            if (code < dictionary.length) {
+                entry = dictionary[code];
+            } else if (previous) {
+                entry = [...previous, previous[0]];
+            } else {
+                return Uint8Array.from(out);
+            }
+            out.push(...entry);
+            if (previous) dictionary.push([...previous, entry[0]]);
+            previous = entry;
+            if (dictionary.length + earlyChange >= (1 << codeLength) && codeLength < 12) codeLength++;
+        }
+    }
+    return Uint8Array.from(out);
+};
+
+// --- Document ---
+
+interface FontDecoder {
+    bytesPerCode: number;
+    toUnicode: Map<number, string>;
+    simpleEncoding?: string[]; // 256 entries, for single-byte fonts without a complete ToUnicode map
+    widths: Map<number, number>; // In thousandths of an em
+    defaultWidth: number;
+}
+
+type Matrix = [number, number, number, number, number, number];
+const IDENTITY: Matrix = [1, 0, 0, 1, 0, 0];
+const multiply = (m: Matrix, n: Matrix): Matrix => [
+    m[0] * n[0] + m[1] * n[2], m[0] * n[1] + m[1] * n[3],
+    m[2] * n[0] + m[3] * n[2], m[2] * n[1] + m[3] * n[3],
+    m[4] * n[0] + m[5] * n[2] + n[4], m[4] * n[1] + m[5] * n[3] + n[5],
+];
+
+const singleByteTable = (encoding: string): string[] => {
+    const decoded = new TextDecoder(encoding).decode(Uint8Array.from({ length: 256 }, (_, i) => i));
+    return Array.from(decoded);
+};
+let winAnsiTable: string[] | null = null;
+let macRomanTable: string[] | null = null;
+
+const ACCENTS: Record<string, string> = {
+    acute: '́', grave: '̀', circumflex: '̂', dieresis: '̈', tilde: '̃',
+    cedilla: '̧', ring: '̊', caron: '̌', macron: '̄', breve: '̆', ogonek: '̨',
+};
+const GLYPH_NAMES: Record<string, string> = {
+    space: ' ', exclam: '!', quotedbl: '"', numbersign: '#', dollar: '$', percent: '%', ampersand: '&',
+    quotesingle: "'", parenleft: '(', parenright: ')', asterisk: '*', plus: '+', comma: ',', hyphen: '-',
+    period: '.', slash: '/', zero: '0', one: '1', two: '2', three: '3', four: '4', five: '5', six: '6',
+    seven: '7', eight: '8', nine: '9', colon: ':', semicolon: ';', less: '<', equal: '=', greater: '>',
+    question: '?', at: '@', bracketleft: '[', backslash: '\\', bracketright: ']', asciicircum: '^',
+    underscore: '_', grave: '`', braceleft: '{', bar: '|', braceright: '}', asciitilde: '~',
+    quoteleft: '‘', quoteright: '’', quotedblleft: '“', quotedblright: '”',
+    quotesinglbase: '‚', quotedblbase: '„', endash: '–', emdash: '—', bullet: '•',
+    ellipsis: '…', fi: 'fi', fl: 'fl', ff: 'ff', ffi: 'ffi', ffl: 'ffl', dagger: '†',
+    daggerdbl: '‡', trademark: '™', copyright: '©', registered: '®', degree: '°',
+    minus: '−', periodcentered: '·', section: '§', paragraph: '¶', Euro: '€',
+    guillemotleft: '«', guillemotright: '»', germandbls: 'ß', ae: 'æ', AE: 'Æ',
+    oe: 'œ', OE: 'Œ', oslash: 'ø', Oslash: 'Ø', dotlessi: 'ı', nbspace: ' ',
+};
+
+const glyphToUnicode = (name: string): string | undefined => {
+    if (GLYPH_NAMES[name]) return GLYPH_NAMES[name];
+    if (name.length === 1) return name;
+    const uni = name.match(/^uni([0-9A-Fa-f]{4,})$/) || name.match(/^u([0-9A-Fa-f]{4,6})$/);
+    if (uni) return String.fromCodePoint(parseInt(uni[1].slice(0, 6), 16));
+    // Accented letters such as "eacute" or "Ccedilla"
+    const accented = name.match(/^([A-Za-z])(acute|grave|circumflex|dieresis|tilde|cedilla|ring|caron|macron|breve|ogonek)$/);
+    if (accented) return (accented[1] + ACCENTS[accented[2]]).normalize('NFC');
+    return undefined;
+};
+
+const decodeUtf16Be = (bytes: string): string => {
+    let result = '';
+    for (let i = 0; i + 1 < bytes.length; i += 2) {
+        result += String.fromCharCode((bytes.charCodeAt(i) << 8) | bytes.charCodeAt(i + 1));
+    }
+    return result;
+};
+
+const bytesToCode = (bytes: string): number => {
+    let code = 0;
+    for (let i = 0; i < bytes.length; i++) code = code * 256 + bytes.charCodeAt(i);
+    return code;
+};
+
+/**
+ * Parses the bfchar and bfrange sections of a ToUnicode CMap.
+ */
+const parseToUnicodeCMap = (text: string): { map: Map<number, string>; bytesPerCode?: number } => {
+    const map = new Map<number, string>();
+    let bytesPerCode: number | undefined;
+    const lexer = new Lexer(text);
+    let mode: 'codespace' | 'bfchar' | 'bfrange' | null = null;
+    let operands: PdfValue[] = [];
+    while (true) {
+        const value = lexer.readValue();
+        if (value === undefined) break;
+        if (value instanceof PdfKeyword) {
+            const word = value.word;
+            if (word === 'begincodespacerange') mode = 'codespace';
+            else if (word === 'beginbfchar') mode = 'bfchar';
+            else if (word === 'beginbfrange') mode = 'bfrange';
+            else if (word.startsWith('end')) mode = null;
+            operands = [];
+            continue;
+        }
+        if (!mode) continue;
+        operands.push(value);
+        if (mode === 'codespace' && operands.length === 2) {
+            if (operands[0] instanceof PdfString && bytesPerCode === undefined) bytesPerCode = operands[0].bytes.length;
+            operands = [];
+        } else if (mode === 'bfchar' && operands.length === 2) {
+            const [src, dst] = operands;
+            if (src instanceof PdfString && dst instanceof PdfString) map.set(bytesToCode(src.bytes), decodeUtf16Be(dst.bytes));
+            operands = [];
+        } else if (mode === 'bfrange' && operands.length === 3) {
+            const [lo, hi, dst] = operands;
+            if (lo instanceof PdfString && hi instanceof PdfString) {
+                const start = bytesToCode(lo.bytes);
+                const end = Math.min(bytesToCode(hi.bytes), start + 0xffff);
+                for (let code = start; code <= end; code++) {
+                    if (Array.isArray(dst)) {
+                        const item = dst[code - start];
+                        if (item instanceof PdfString) map.set(code, decodeUtf16Be(item.bytes));
+                    } else if (dst instanceof PdfString) {
+                        const base = decodeUtf16Be(dst.bytes);
+                        const last = base.charCodeAt(base.length - 1) + (code - start);
+                        map.set(code, base.slice(0, -1) + String.fromCharCode(last));
+                    }
+                }
+            }
+            operands = [];
+        }
+    }
+    return { map, bytesPerCode };
+};
+
+interface ShownRun {
+    text: string;
+    x: number;
+    y: number;
+    endX: number;
+    size: number;
+}
+
+class PdfDocument {
+    private objects = new Map<number, PdfValue>();
+    private fontCache = new Map<PdfDict, FontDecoder>();
+    private trailers: PdfDict[] = [];
+
+    constructor(private src: string, private bytes: Uint8Array) {}
+
+    async load() {
+        const objectPattern = /(\d+)\s+\d+\s+obj\b/g;
+        let match: RegExpExecArray | null;
+        while ((match = objectPattern.exec(this.src))) {
+            const lexer = new Lexer(this.src, objectPattern.lastIndex, this.bytes);
+            try {
+                const value = lexer.readObject();
+                if (value !== undefined) this.objects.set(parseInt(match[1], 10), value);
+            } catch (e) {
+                logger.debug(`Skipping unreadable PDF object ${match[1]}.`, e);
+            }
+            objectPattern.lastIndex = Math.max(objectPattern.lastIndex, lexer.pos);
+        }
+
+        const trailerPattern = /trailer\s*<</g;
+        while ((match = trailerPattern.exec(this.src))) {
+            const value = new Lexer(this.src, match.index + 7).readValue();
+            if (value instanceof PdfDict) this.trailers.push(value);
+        }
+        for (const value of [...this.objects.values()]) {
+            if (value instanceof PdfStream && this.name(value.dict.get('Type')) === 'XRef') this.trailers.push(value.dict);
+        }
+        if (this.trailers.some(t => t.get('Encrypt') !== undefined)) {
+            throw new Error("This PDF is encrypted. Remove the password protection and try again.");
+        }
+
+        // Objects packed into compressed object streams (PDF 1.5 and later)
+        for (const value of [...this.objects.values()]) {
+            if (!(value instanceof PdfStream) || this.name(value.dict.get('Type')) !== 'ObjStm') continue;
+            const data = await this.decodeStream(value);
+            if (!data) continue;
+            const text = toBinaryString(data);
+            const count = this.num(value.dict.get('N'));
+            const first = this.num(value.dict.get('First'));
+            const header = new Lexer(text);
+            const entries: [number, number][] = [];
+            for (let i = 0; i < count; i++) {
+                const num = header.readToken();
+                const offset = header.readToken();
+                if (typeof num === 'number' && typeof offset === 'number') entries.push([num, offset]);
+            }
+            for (const [num, offset] of entries) {
+                if (this.objects.has(num)) continue;
+                try {
+                    const object = new Lexer(text, first + offset).readValue();
+                    if (object !== undefined && !(object instanceof PdfKeyword)) this.objects.set(num, object);
+                } catch (e) {
+                    logger.debug(`Skipping unreadable compressed PDF object ${num}.`, e);
+                }
+            }
+        }
+    }
+
+    resolve(value: PdfValue | undefined, depth = 0): PdfValue | undefined {
+        if (value instanceof PdfRef && depth < 10) return this.resolve(this.objects.get(value.num), depth + 1);
+        return value;
+    }
+
+    private dict(value: PdfValue | undefined): PdfDict | undefined {
+        const resolved = this.resolve(value);
+        if (resolved instanceof PdfDict) return resolved;
+        if (resolved instanceof PdfStream) return resolved.dict;
+        return undefined;
+    }
+
+    private name(value: PdfValue | undefined): string | undefined {
+        const resolved = this.resolve(value);
+        return resolved instanceof PdfName ? resolved.name : undefined;
+    }
+
+    private num(value: PdfValue | undefined, fallback = 0): number {
+        const resolved = this.resolve(value);
+        return typeof resolved === 'number' ? resolved : fallback;
+    }
+
+    private array(value: PdfValue | undefined): PdfValue[] {
+        const resolved = this.resolve(value);
+        return Array.isArray(resolved) ? resolved : resolved === undefined ? [] : [resolved];
+    }
+
+    async decodeStream(stream: PdfStream): Promise<Uint8Array | null> {
+        let data = stream.raw;
+        const filters = this.array(stream.dict.get('Filter')).map(f => this.name(f));
+        const parms = this.array(stream.dict.get('DecodeParms'));
+        for (let i = 0; i < filters.length; i++) {
+            const filter = filters[i];
+            if (filter === 'FlateDecode' || filter === 'Fl') {
+                try {
+                    data = await inflate(data, 'deflate');
+                } catch (e) {
+                    data = await inflate(data, 'deflate-raw'); // Some writers leave out the zlib header
+                }
+                if (this.num(this.dict(parms[i])?.get('Predictor'), 1) > 1) {
+                    logger.debug("PDF stream uses a predictor; its content is probably not text.");
+                    return null;
+                }
+            } else if (filter === 'LZWDecode' || filter === 'LZW') {
+                data = decodeLzw(data, this.num(this.dict(parms[i])?.get('EarlyChange'), 1));
+            } else if (filter === 'ASCIIHexDecode' || filter === 'AHx') {
+                data = decodeAsciiHex(data);
+            } else if (filter === 'ASCII85Decode' || filter === 'A85') {
+                data = decodeAscii85(data);
+            } else {
+                return null; // Image filters (DCT, JPX, CCITT, JBIG2) and the rare rest
+            }
+        }
+        return data;
+    }
+
+    getPages(): { dict: PdfDict; resources?: PdfDict }[] {
+        const pages: { dict: PdfDict; resources?: PdfDict }[] = [];
+        const visited = new Set<PdfDict>();
+        const walk = (node: PdfDict | undefined, resources: PdfDict | undefined) => {
+            if (!node || visited.has(node)) return;
+            visited.add(node);
+            const ownResources = this.dict(node.get('Resources')) || resources;
+            const kids = node.get('Kids');
+            if (this.name(node.get('Type')) === 'Pages' || kids !== undefined) {
+                for (const kid of this.array(kids)) walk(this.dict(kid), ownResources);
+            } else {
+                pages.push({ dict: node, resources: ownResources });
+            }
+        };
+
+        const root = this.trailers.map(t => this.dict(t.get('Root'))).find(Boolean)
+            || [...this.objects.values()].map(v => this.dict(v)).find(d => d && this.name(d.get('Type')) === 'Catalog');
+        walk(this.dict(root?.get('Pages')), undefined);
+
+        if (pages.length === 0) {
+            // No usable page tree; take the page objects in file order.
+            for (const value of this.objects.values()) {
+                const dict = this.dict(value);
+                if (dict && this.name(dict.get('Type')) === 'Page') pages.push({ dict, resources: this.dict(dict.get('Resources')) });
+            }
+        }
+        return pages;
+    }
+
+    private async getFont(fontDict: PdfDict): Promise<FontDecoder> {
+        const cached = this.fontCache.get(fontDict);
+        if (cached) return cached;
+
+        const subtype = this.name(fontDict.get('Subtype'));
+        const isComposite = subtype === 'Type0';
+        const font: FontDecoder = { bytesPerCode: isComposite ? 2 : 1, toUnicode: new Map(), widths: new Map(), defaultWidth: isComposite ? 1000 : 500 };
+
+        const toUnicode = this.resolve(fontDict.get('ToUnicode'));
+        if (toUnicode instanceof PdfStream) {
+            const data = await this.decodeStream(toUnicode);
+            if (data) {
+                const cmap = parseToUnicodeCMap(toBinaryString(data));
+                font.toUnicode = cmap.map;
+                if (isComposite && cmap.bytesPerCode) font.bytesPerCode = cmap.bytesPerCode;
+            }
+        }
+
+        if (isComposite) {
+            const descendant = this.dict(this.array(fontDict.get('DescendantFonts'))[0]);
+            font.defaultWidth = this.num(descendant?.get('DW'), 1000);
+            const w = this.array(descendant?.get('W')).map(v => this.resolve(v));
+            for (let i = 0; i < w.length;) {
+                const first = w[i];
+                const next = w[i + 1];
+                if (typeof first !== 'number') break;
+                if (Array.isArray(next)) {
+                    next.forEach((width, j) => font.widths.set(first + j, this.num(width)));
+                    i += 2;
+                } else {
+                    const last = typeof next === 'number' ? next : first;
+                    const width = this.num(w[i + 2]);
+                    for (let code = first; code <= last && code - first < 0xffff; code++) font.widths.set(code, width);
+                    i += 3;
+                }
+            }
+        } else {
+            const firstChar = this.num(fontDict.get('FirstChar'));
+            this.array(fontDict.get('Widths')).forEach((width, i) => font.widths.set(firstChar + i, this.num(width)));
+            const missingWidth = this.num(this.dict(fontDict.get('FontDescriptor'))?.get('MissingWidth'));
+            if (missingWidth > 0) font.defaultWidth = missingWidth;
+
+            const encoding = this.resolve(fontDict.get('Encoding'));
+            const baseName = encoding instanceof PdfName ? encoding.name : this.name(this.dict(encoding)?.get('BaseEncoding'));
+            const base = baseName === 'MacRomanEncoding'
+                ? (macRomanTable ??= singleByteTable('macintosh'))
+                : (winAnsiTable ??= singleByteTable('windows-1252'));
+            font.simpleEncoding = [...base];
+            const differences = this.array(this.dict(encoding)?.get('Differences'));
+            let code = 0;
+            for (const item of differences) {
+                const value = this.resolve(item);
+                if (typeof value === 'number') {
+                    code = value;
+                } else if (value instanceof PdfName) {
+                    const unicode = glyphToUnicode(value.name);
+                    if (unicode !== undefined) font.simpleEncoding[code] = unicode;
+                    code++;
+                }
+            }
+        }
+
+        this.fontCache.set(fontDict, font);
+        return font;
+    }
+
+    /**
+     * Runs a content stream and collects the text it shows, with positions in page space.
+     */
+    async readContent(content: Uint8Array, resources: PdfDict | undefined, baseMatrix: Matrix, runs: ShownRun[], depth = 0): Promise<void> {
+        const src = toBinaryString(content);
+        const lexer = new Lexer(src);
+        const fonts = this.dict(resources?.get('Font'));
+        const xObjects = this.dict(resources?.get('XObject'));
+
+        let ctm: Matrix = baseMatrix;
+        const stack: Matrix[] = [];
+        let tm: Matrix = IDENTITY;
+        let lm: Matrix = IDENTITY;
+        let font: FontDecoder | null = null;
+        let fontSize = 0;
+        let leading = 0;
+        let charSpacing = 0;
+        let wordSpacing = 0;
+        let horizontalScale = 1;
+        let operands: PdfValue[] = [];
+
+        const moveLine = (tx: number, ty: number) => {
+            lm = multiply([1, 0, 0, 1, tx, ty], lm);
+            tm = lm;
+        };
+
+        const show = (str: PdfString) => {
+            if (!font) return;
+            const trm = multiply(tm, ctm);
+            const size = Math.abs(fontSize) * Math.hypot(trm[2], trm[3]);
+            let text = '';
+            let advance = 0;
+            const { bytes } = str;
+            for (let i = 0; i < bytes.length; i += font.bytesPerCode) {
+                const codeBytes = bytes.slice(i, i + font.bytesPerCode);
+                const code = bytesToCode(codeBytes);
+                text += font.toUnicode.get(code)
+                    ?? (font.simpleEncoding ? font.simpleEncoding[code] : code >= 32 ? String.fromCharCode(code) : '');
+                const width = font.widths.get(code) ?? font.defaultWidth;
+                advance += (width / 1000) * fontSize + charSpacing + (code === 32 && font.bytesPerCode === 1 ? wordSpacing : 0);
+            }
+            advance *= horizontalScale;
+            const end = multiply([1, 0, 0, 1, advance, 0], trm);
+            runs.push({ text, x: trm[4], y: trm[5], endX: end[4], size });
+            tm = multiply([1, 0, 0, 1, advance, 0], tm);
+        };
+
+        while (true) {
+            const value = lexer.readValue();
+            if (value === undefined) break;
+            if (!(value instanceof PdfKeyword)) {
+                operands.push(value);
+                continue;
+            }
+            const n = (i: number) => this.num(operands[i]);
+            switch (value.word) {
+                case 'q': stack.push(ctm); break;
+                case 'Q': ctm = stack.pop() || ctm; break;
+                case 'cm': ctm = multiply([n(0), n(1), n(2), n(3), n(4), n(5)], ctm); break;
+                case 'BT': tm = IDENTITY; lm = IDENTITY; break;
+                case 'Tf': {
+                    const fontDict = this.dict(fonts?.get(operands[0] instanceof PdfName ? operands[0].name : ''));
+                    font = fontDict ? await this.getFont(fontDict) : null;
+                    fontSize = n(1);
+                    break;
+                }
+                case 'Tm': tm = lm = [n(0), n(1), n(2), n(3), n(4), n(5)]; break;
+                case 'Td': moveLine(n(0), n(1)); break;
+                case 'TD': leading = -n(1); moveLine(n(0), n(1)); break;
+                case 'T*': moveLine(0, -leading); break;
+                case 'TL': leading = n(0); break;
+                case 'Tc': charSpacing = n(0); break;
+                case 'Tw': wordSpacing = n(0); break;
+                case 'Tz': horizontalScale = n(0) / 100; break;
+                case 'Tj':
+                    if (operands[0] instanceof PdfString) show(operands[0]);
+                    break;
+                case "'":
+                    moveLine(0, -leading);
+                    if (operands[0] instanceof PdfString) show(operands[0]);
+                    break;
+                case '"':
+                    wordSpacing = n(0);
+                    charSpacing = n(1);
+                    moveLine(0, -leading);
+                    if (operands[2] instanceof PdfString) show(operands[2]);
+                    break;
+                case 'TJ':
+                    for (const item of Array.isArray(operands[0]) ? operands[0] : []) {
+                        if (item instanceof PdfString) {
+                            show(item);
+                        } else if (typeof item === 'number') {
+                            tm = multiply([1, 0, 0, 1, (-item / 1000) * fontSize * horizontalScale, 0], tm);
+                        }
+                    }
+                    break;
+                case 'BI': {
+                    // Inline image data is binary; skip to the end marker.
+                    const end = src.slice(lexer.pos).search(/\sEI(\s|$)/);
+                    lexer.pos = end === -1 ? src.length : lexer.pos + end + 3;
+                    break;
+                }
+                case 'Do': {
+                    if (depth >= 5 || !(operands[0] instanceof PdfName)) break;
+                    const xObject = this.resolve(xObjects?.get(operands[0].name));
+                    if (!(xObject instanceof PdfStream) || this.name(xObject.dict.get('Subtype')) !== 'Form') break;
+                    const data = await this.decodeStream(xObject);
+                    const matrix = this.array(xObject.dict.get('Matrix')).map(v => this.num(v));
+                    const formMatrix: Matrix = matrix.length === 6 ? matrix as Matrix : IDENTITY;
+                    if (data) {
+                        await this.readContent(data, this.dict(xObject.dict.get('Resources')) || resources, multiply(formMatrix, ctm), runs, depth + 1);
+                    }
+                    break;
+                }
+            }
+            operands = [];
+        }
+    }
+
+    async getPageContent(page: PdfDict): Promise<Uint8Array> {
+        const parts: Uint8Array[] = [];
+        for (const item of this.array(page.get('Contents'))) {
+            const stream = this.resolve(item);
+            if (!(stream instanceof PdfStream)) continue;
+            const data = await this.decodeStream(stream);
+            if (data) parts.push(data, Uint8Array.of(10));
+        }
+        const result = new Uint8Array(parts.reduce((sum, p) => sum + p.length, 0));
+        let offset = 0;
+        for (const part of parts) {
+            result.set(part, offset);
+            offset += part.length;
+        }
+        return result;
+    }
+}
+
+/**
+ * Joins the text runs of a page into lines, in the order the page draws them.
+ */
+const runsToLines = (runs: ShownRun[], page: number): PdfTextLine[] => {
+    const lines: PdfTextLine[] = [];
+    let current: { text: string; y: number; endX: number; size: number } | null = null;
+    const flush = () => {
+        const text = current?.text.replace(/\s+/g, ' ').trim();
+        if (current && text) lines.push({ text, page, fontSize: Math.round(current.size * 10) / 10, y: current.y });
+    };
+    for (const run of runs) {
+        if (!run.text) continue;
+        const tolerance = Math.max(run.size, current?.size || 0) * 0.5;
+        if (!current || Math.abs(run.y - current.y) > tolerance) {
+            flush();
+            current = { text: run.text, y: run.y, endX: run.endX, size: run.size };
+            continue;
+        }
+        // Same line: add a space where the gap is wider than letter spacing.
+        const gap = run.x - current.endX;
+        if (gap > run.size * 0.15 && !/\s$/.test(current.text) && !/^\s/.test(run.text)) {
+            current.text += ' ';
+        }
+        current.text += run.text;
+        current.endX = Math.max(current.endX, run.endX);
+        current.size = Math.max(current.size, run.size);
+    }
+    flush();
+    return lines;
+};
+
+/**
+ * Extracts the lines of text of every page of a PDF file.
+ * @throws If the file is not a PDF or is encrypted.
+ */
+export const extractPdfLines = async (data: ArrayBuffer): Promise<PdfTextLine[]> => {
+    const bytes = new Uint8Array(data);
+    const src = toBinaryString(bytes);
+    if (!src.slice(0, 1024).includes('%PDF-')) {
+        throw new Error("The file is not a PDF.");
+    }
+    const document = new PdfDocument(src, bytes);
+    await document.load();
+
+    const pages = document.getPages();
+    const lines: PdfTextLine[] = [];
+    for (let i = 0; i < pages.length; i++) {
+        const runs: ShownRun[] = [];
+        try {
+            const content = await document.getPageContent(pages[i].dict);
+            await document.readContent(content, pages[i].resources, IDENTITY, runs);
+        } catch (e) {
+            logger.warn(`Could not read the text of PDF page ${i + 1}.`, e);
+        }
+        lines.push(...runsToLines(runs, i + 1));
+    }
+    logger.log(`Read ${lines.length} lines of text from ${pages.length} PDF pages.`);
+    return lines;
+};
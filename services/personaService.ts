@@ -0,0 +1,37 @@
+import { AppData, ChatSession, Persona } from '../types.ts';
+
+// --- Personas ---
+// A persona is who the user plays: its name replaces {{user}} and its description is sent to the
+// model. Chats may pick one; the others use the default persona, or plain "User" without one.
+
+/**
+ * Creates a persona with a fresh id.
+ */
+export const createPersona = (fields: Partial<Persona> = {}): Persona => ({
+    name: '',
+    description: '',
+    avatarUrl: '',
+    ...fields,
+    id: crypto.randomUUID(),
+    createdAt: new Date().toISOString(),
+});
+
+/**
+ * Finds the persona of a chat: the one it picked, else the default one.
+ */
+export const resolvePersona = (personas: Persona[], session: Pick<ChatSession, 'personaId'> | undefined, defaultPersonaId?: string): Persona | undefined =>
+    personas.find(p => p.id === session?.personaId) || personas.find(p => p.id === defaultPersonaId);
+
+/**
+ * Deletes a persona. Chats that used it fall back to the default persona.
+ */
+export const removePersona = (data: AppData, personaId: string): AppData => ({
+    ...data,
+    personas: (data.personas || []).filter(p => p.id !== personaId),
+    defaultPersonaId: data.defaultPersonaId === personaId ? undefined : data.defaultPersonaId,
+    chatSessions: data.chatSessions.map(s => {
+        if (s.personaId !== personaId) return s;
+        const { personaId: _removed, ...session } = s;
+        return session;
+    }),
+});
@@ -0,0 +1,97 @@
+import { describe, expect, it } from 'vitest';
+import { crc32 as zlibCrc32 } from 'node:zlib';
+import { base64ToBytes, bytesToBase64, crc32, isPng, readTextChunks, writeTextChunks } from './pngChunks.ts';
+import { binary, buildPng } from './testFixtures.ts';
+
+// Lists the chunks of a PNG with their stored CRCs.
+const listChunks = (bytes: Uint8Array) => {
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const chunks: { type: string; data: Uint8Array; crc: number }[] = [];
+    for (let offset = 8; offset < bytes.length;) {
+        const length = view.getUint32(offset);
+        chunks.push({
+            type: String.fromCharCode(...bytes.subarray(offset + 4, offset + 8)),
+            data: bytes.subarray(offset + 8, offset + 8 + length),
+            crc: view.getUint32(offset + 8 + length),
+        });
+        offset += 12 + length;
+    }
+    return chunks;
+};
+
+describe('crc32', () => {
+    it('computes the standard CRC-32', () => {
+        expect(crc32(binary('123456789'))).toBe(0xcbf43926);
+        expect(crc32(binary('IEND'))).toBe(0xae426082);
+        expect(crc32(new Uint8Array(0))).toBe(0);
+    });
+
+    it('treats several parts as one run of bytes', () => {
+        expect(crc32(binary('tEXt'), binary('chara\0abc'))).toBe(crc32(binary('tEXtchara\0abc')));
+    });
+});
+
+describe('readTextChunks', () => {
+    it('reads tEXt chunks by keyword, the first one winning', () => {
+        const png = buildPng([
+            { type: 'tEXt', data: 'Title\0Caf\xe9' },
+            { type: 'tEXt', data: 'chara\0first' },
+            { type: 'tEXt', data: 'chara\0second' },
+            { type: 'zTXt', data: 'Comment\0\0x' },
+        ]);
+        expect(readTextChunks(png)).toEqual({ Title: 'Café', chara: 'first' });
+    });
+
+    it('rejects a file that is not a PNG', () => {
+        expect(isPng(binary('GIF89a'))).toBe(false);
+        expect(() => readTextChunks(binary('GIF89a and more bytes'))).toThrow('Not a PNG image.');
+    });
+
+    it('rejects a chunk that is cut off', () => {
+        const png = buildPng([{ type: 'tEXt', data: `chara\0${'x'.repeat(100)}` }]);
+        const textEnd = png.length - 12; // The IEND chunk is the last 12 bytes
+        expect(() => readTextChunks(png.subarray(0, textEnd - 20))).toThrow('PNG chunk "tEXt" is cut off.');
+    });
+});
+
+describe('writeTextChunks', () => {
+    it('adds text chunks before IEND that read back unchanged', () => {
+        const original = buildPng([{ type: 'tEXt', data: 'Software\0Paint' }]);
+        const written = writeTextChunks(original, { chara: 'djI=', ccv3: 'djM=' });
+
+        expect(isPng(written)).toBe(true);
+        expect(readTextChunks(written)).toEqual({ Software: 'Paint', chara: 'djI=', ccv3: 'djM=' });
+        expect(listChunks(written).map(c => c.type)).toEqual(['IHDR', 'IDAT', 'tEXt', 'tEXt', 'tEXt', 'IEND']);
+        expect(listChunks(written).slice(0, 2)).toEqual(listChunks(original).slice(0, 2));
+    });
+
+    it('replaces chunks with the same keyword and keeps the others', () => {
+        const original = buildPng([
+            { type: 'tEXt', data: 'chara\0old card' },
+            { type: 'tEXt', data: 'Author\0Someone' },
+        ]);
+        const written = writeTextChunks(original, { chara: 'new card' });
+        expect(readTextChunks(written)).toEqual({ Author: 'Someone', chara: 'new card' });
+        expect(listChunks(written).filter(c => c.type === 'tEXt')).toHaveLength(2);
+    });
+
+    it('writes a valid CRC for every chunk', () => {
+        const written = writeTextChunks(buildPng(), { chara: 'card' });
+        for (const chunk of listChunks(written)) {
+            expect(chunk.crc).toBe(zlibCrc32(new Uint8Array([...binary(chunk.type), ...chunk.data])));
+        }
+    });
+
+    it('refuses a PNG without IEND', () => {
+        const png = buildPng();
+        expect(() => writeTextChunks(png.subarray(0, png.length - 12), { chara: 'card' })).toThrow('PNG has no IEND chunk.');
+    });
+});
+
+describe('base64', () => {
+    it('round-trips bytes larger than one encoding slice', () => {
+        const bytes = Uint8Array.from({ length: 0x8000 * 2 + 5 }, (_, i) => (i * 31) & 0xff);
+        expect(base64ToBytes(bytesToBase64(bytes))).toEqual(bytes);
+        expect(bytesToBase64(binary('Hi!'))).toBe('SGkh');
+    });
+});
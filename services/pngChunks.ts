@@ -0,0 +1,130 @@
+// --- PNG Text Chunks ---
+// Character cards travel inside their avatar as base64 JSON in `tEXt` chunks: `chara` holds a V1/V2
+// card and `ccv3` a V3 card. A PNG is an 8-byte signature followed by chunks of
+// length (4) + type (4) + data + CRC-32 of type and data (4), ending with `IEND`.
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+interface PngChunk {
+    type: string;
+    data: Uint8Array;
+}
+
+const CRC_TABLE = (() => {
+    const table = new Uint32Array(256);
+    for (let n = 0; n < 256; n++) {
+        let c = n;
+        for (let k = 0; k < 8; k++) {
+            c = c & 1 ? 0xedb88320 ^ (c >>> 1) : c >>> 1;
+        }
+        table[n] = c >>> 0;
+    }
+    return table;
+})();
+
+/**
+ * Computes the CRC-32 used by PNG (and ZIP) over one or more byte arrays.
+ */
+export const crc32 = (...parts: Uint8Array[]): number => {
+    let crc = 0xffffffff;
+    for (const part of parts) {
+        for (let i = 0; i < part.length; i++) {
+            crc = CRC_TABLE[(crc ^ part[i]) & 0xff] ^ (crc >>> 8);
+        }
+    }
+    return (crc ^ 0xffffffff) >>> 0;
+};
+
+export const isPng = (bytes: Uint8Array): boolean =>
+    bytes.length >= PNG_SIGNATURE.length && PNG_SIGNATURE.every((byte, i) => bytes[i] === byte);
+
+const latin1 = new TextDecoder('latin1');
+
+const readChunks = (bytes: Uint8Array): PngChunk[] => {
+    if (!isPng(bytes)) throw new Error("Not a PNG image.");
+    const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+    const chunks: PngChunk[] = [];
+    let offset = PNG_SIGNATURE.length;
+    while (offset + 12 <= bytes.length) {
+        const length = view.getUint32(offset);
+        const type = latin1.decode(bytes.subarray(offset + 4, offset + 8));
+        if (offset + 12 + length > bytes.length) throw new Error(`PNG chunk "${type}" is cut off.`);
+        chunks.push({ type, data: bytes.subarray(offset + 8, offset + 8 + length) });
+        offset += 12 + length;
+        if (type === 'IEND') break;
+    }
+    return chunks;
+};
+
+// tEXt keywords and text are Latin-1; cards keep to ASCII by base64-encoding their JSON.
+const encodeLatin1 = (text: string): Uint8Array => Uint8Array.from(text, char => char.charCodeAt(0) & 0xff);
+
+const splitTextChunk = (data: Uint8Array): { keyword: string; text: string } | null => {
+    const separator = data.indexOf(0);
+    if (separator <= 0) return null;
+    return { keyword: latin1.decode(data.subarray(0, separator)), text: latin1.decode(data.subarray(separator + 1)) };
+};
+
+/**
+ * Reads the `tEXt` chunks of a PNG, keyed by keyword. The first chunk with a keyword wins.
+ */
+export const readTextChunks = (bytes: Uint8Array): Record<string, string> => {
+    const texts: Record<string, string> = {};
+    for (const chunk of readChunks(bytes)) {
+        if (chunk.type !== 'tEXt') continue;
+        const entry = splitTextChunk(chunk.data);
+        if (entry && !(entry.keyword in texts)) texts[entry.keyword] = entry.text;
+    }
+    return texts;
+};
+
+/**
+ * Returns a copy of a PNG with the given `tEXt` chunks, replacing any chunks with the same
+ * keywords. The new chunks go right before `IEND`.
+ */
+export const writeTextChunks = (bytes: Uint8Array, texts: Record<string, string>): Uint8Array => {
+    const keywords = new Set(Object.keys(texts));
+    const chunks = readChunks(bytes).filter(chunk => {
+        if (chunk.type !== 'tEXt') return true;
+        const entry = splitTextChunk(chunk.data);
+        return !entry || !keywords.has(entry.keyword);
+    });
+    const end = chunks.findIndex(chunk => chunk.type === 'IEND');
+    if (end === -1) throw new Error("PNG has no IEND chunk.");
+
+    const textChunks: PngChunk[] = Object.entries(texts).map(([keyword, text]) => ({
+        type: 'tEXt',
+        data: encodeLatin1(`${keyword}\0${text}`),
+    }));
+    chunks.splice(end, 0, ...textChunks);
+
+    const size = PNG_SIGNATURE.length + chunks.reduce((total, chunk) => total + 12 + chunk.data.length, 0);
+    const result = new Uint8Array(size);
+    const view = new DataView(result.buffer);
+    result.set(PNG_SIGNATURE, 0);
+    let offset = PNG_SIGNATURE.length;
+    for (const chunk of chunks) {
+        const type = encodeLatin1(chunk.type);
+        view.setUint32(offset, chunk.data.length);
+        result.set(type, offset + 4);
+        result.set(chunk.data, offset + 8);
+        view.setUint32(offset + 8 + chunk.data.length, crc32(type, chunk.data));
+        offset += 12 + chunk.data.length;
+    }
+    return result;
+};
+
+// --- Base64 ---
+
+/**
+ * Encodes bytes as base64, in slices so large images do not overflow the call stack.
+ */
+export const bytesToBase64 = (bytes: Uint8Array): string => {
+    let binary = '';
+    for (let i = 0; i < bytes.length; i += 0x8000) {
+        binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+    }
+    return btoa(binary);
+};
+
+export const base64ToBytes = (base64: string): Uint8Array => Uint8Array.from(atob(base64.trim()), char => char.charCodeAt(0));
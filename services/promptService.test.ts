@@ -0,0 +1,60 @@
+import { describe, expect, it } from 'vitest';
+import { Character, Message } from '../types.ts';
+import { buildPrompt } from './promptService.ts';
+
+const character: Character = {
+    id: 'char-1',
+    name: 'Aria',
+    description: 'A travelling bard.',
+    personality: 'Cheerful.',
+    avatarUrl: '',
+    tags: [],
+    createdAt: '2024-01-01T00:00:00.000Z',
+    apiConfig: { service: 'gemini', contextSize: 2000 },
+};
+
+// Far more than a 2000-token window holds, so the oldest messages are dropped.
+const history: Message[] = Array.from({ length: 40 }, (_, i) => ({
+    id: `m${i}`,
+    role: i % 2 ? 'model' : 'user',
+    characterId: i % 2 ? character.id : undefined,
+    content: `Message ${i}. ${'Some words to fill the context window. '.repeat(10)}`,
+    timestamp: new Date(Date.UTC(2024, 0, 1, 0, i)).toISOString(),
+}));
+
+describe('buildPrompt', () => {
+    it('reports the first included chat message, not a lore note placed before it', () => {
+        const { history: included, report } = buildPrompt(character, [character], history, {
+            loreAtDepth: [{ depth: 100, content: 'The kingdom is at war.' }, { depth: 1, content: 'It is raining.' }],
+        });
+
+        const messages = included.filter(m => m.id);
+        expect(report.droppedMessageCount).toBeGreaterThan(0);
+        expect(report.includedMessageCount).toBe(messages.length);
+        expect(report.droppedMessageCount + report.includedMessageCount).toBe(history.length);
+        expect(report.firstIncludedMessageId).toBe(messages[0].id);
+
+        expect(included[0]).toMatchObject({ role: 'narrator', content: '(World info) The kingdom is at war.' });
+        expect(included[included.length - 2]).toMatchObject({ role: 'narrator', content: '(World info) It is raining.' });
+        expect(included[included.length - 1].id).toBe('m39');
+    });
+
+    it('counts the depth of each lore note in chat messages only', () => {
+        const { history: included } = buildPrompt(character, [character], history.slice(-6), {
+            loreAtDepth: [
+                { depth: 2, content: 'Two back.' },
+                { depth: 4, content: 'Four back.' },
+                { depth: 2, content: 'Also two back.' },
+            ],
+        });
+
+        expect(included.map(m => m.id || m.content)).toEqual([
+            'm34', 'm35',
+            '(World info) Four back.',
+            'm36', 'm37',
+            '(World info) Two back.',
+            '(World info) Also two back.',
+            'm38', 'm39',
+        ]);
+    });
+});
@@ -0,0 +1,315 @@
+import { Character, Message, ApiConfig, ApiService, LoreDepthInsertion, PromptContext, PromptBuildReport, PromptSectionId, PromptSectionReport } from '../types.ts';
+import { logger } from './loggingService.ts';
+import { resolveConnection } from './connectionProfileService.ts';
+import { getCachedModelInfo } from './modelDiscoveryService.ts';
+import { applyMacros, MacroContext } from './macroService.ts';
+
+// --- Token Estimation ---
+// Real tokenizers differ per provider and are too heavy to ship to the browser.
+// Roughly four characters per token is close enough to keep prompts inside the window.
+const CHARS_PER_TOKEN = 4;
+const MESSAGE_OVERHEAD_TOKENS = 4; // Role markers and separators added by the chat format
+
+/**
+ * Approximates the number of tokens in a piece of text.
+ */
+export const estimateTokens = (text: string): number => text ? Math.ceil(text.length / CHARS_PER_TOKEN) : 0;
+
+const estimateMessageTokens = (message: Message): number => estimateTokens(message.content) + MESSAGE_OVERHEAD_TOKENS;
+
+const truncateToTokens = (text: string, maxTokens: number, keep: 'start' | 'end'): string => {
+    const maxChars = maxTokens * CHARS_PER_TOKEN;
+    if (text.length <= maxChars) return text;
+    if (maxChars <= 3) return '';
+    return keep === 'start'
+        ? `${text.slice(0, maxChars - 3)}...`
+        : `...${text.slice(text.length - (maxChars - 3))}`;
+};
+
+// --- Context Windows ---
+export const DEFAULT_GEMINI_MODEL = 'gemini-2.5-flash';
+const DEFAULT_CONTEXT_WINDOW = 8192;
+const RESPONSE_TOKEN_RESERVE = 1024; // Room left for the model's reply, unless a reply limit is set
+
+// Checked in order, so more specific patterns must come first.
+const MODEL_CONTEXT_WINDOWS: [RegExp, number][] = [
+    [/gemini-1\.5-pro/, 2097152],
+    [/gemini/, 1048576],
+    [/claude/, 200000],
+    [/gpt-4\.1/, 1047576],
+    [/gpt-4o|gpt-4-turbo|o1|o3|o4/, 128000],
+    [/gpt-4-32k/, 32768],
+    [/gpt-4/, 8192],
+    [/gpt-3\.5/, 16385],
+    [/llama-?3\.[1-3]|llama-?4/, 131072],
+    [/llama-?3/, 8192],
+    [/llama-?2/, 4096],
+    [/mistral-large|mistral-nemo|mixtral/, 32768],
+    [/mistral/, 32768],
+    [/qwen/, 32768],
+    [/deepseek/, 65536],
+    [/gemma-?[23]/, 8192],
+];
+
+/**
+ * Returns the context window (in tokens) of the model a character is configured to use.
+ * An explicit `contextSize` on the API config takes precedence, then the context length the
+ * provider reported when its models were listed, then the built-in table.
+ */
+export const getContextWindow = (apiConfig?: ApiConfig): number => {
+    if (apiConfig?.contextSize && apiConfig.contextSize > 0) {
+        return apiConfig.contextSize;
+    }
+    const config = apiConfig && resolveConnection(apiConfig);
+    const usesGemini = !config || config.service === 'default' || config.service === 'gemini';
+    const model = (usesGemini ? config?.model?.trim() || DEFAULT_GEMINI_MODEL : config.model) || '';
+    const discovered = getCachedModelInfo(usesGemini ? 'gemini' : config.service as ApiService, model);
+    if (discovered?.contextLength) {
+        return discovered.contextLength;
+    }
+    const match = MODEL_CONTEXT_WINDOWS.find(([pattern]) => pattern.test(model.toLowerCase()));
+    return match ? match[1] : DEFAULT_CONTEXT_WINDOW;
+};
+
+// --- Prompt Sections ---
+
+const buildPersonaInstruction = (character: Character, allParticipants: Character[]): string => {
+    let instruction = `You are an AI character named ${character.name}.\n\n`;
+
+    if (allParticipants.length > 1) {
+        const otherParticipantNames = allParticipants
+            .filter(p => p.id !== character.id)
+            .map(p => p.name)
+            .join(', ');
+        instruction += `You are in a group conversation with: ${otherParticipantNames}. Interact with them naturally based on your persona.\n\n`;
+    }
+
+    instruction += "== CORE IDENTITY ==\n";
+    if (character.description) instruction += `Description: ${character.description}\n`;
+    if (character.physicalAppearance) instruction += `Physical Appearance: ${character.physicalAppearance}\n`;
+    if (character.personalityTraits) instruction += `Personality Traits: ${character.personalityTraits}\n`;
+    instruction += "\n";
+
+    if (character.personality) {
+        instruction += "== ROLE INSTRUCTION ==\n";
+        instruction += `${character.personality}\n\n`;
+    }
+    return instruction;
+};
+
+const TOOLS_INSTRUCTION = "== TOOLS ==\n" +
+    "You have the ability to generate images. To do so, include a special command in your response: [generate_image: A detailed description of the image you want to create]. You can place this command anywhere in your response. The system will detect it, generate the image, and display it alongside your text.\n\n" +
+    "Engage in conversation based on this complete persona. Do not break character. Respond to the user's last message.";
+
+const CITATION_INSTRUCTION =
+    "When you use information from the passages below, cite them with their numbers in square brackets right after the statement, e.g. [1] or [2][3]. Only cite passages you actually used, and never invent numbers.";
+
+/**
+ * Splits example dialogue into its examples, which are separated by `<START>` lines.
+ */
+export const splitExampleDialogue = (text: string): string[] =>
+    text.split(/<START>/i).map(example => example.trim()).filter(example => example);
+
+const buildUserInstruction = (persona: PromptContext['persona']): string => {
+    if (!persona) return '';
+    let instruction = `== THE USER ==\nThe user is ${persona.name}.`;
+    if (persona.description.trim()) instruction += `\n${persona.description.trim()}`;
+    return `${instruction}\n\n`;
+};
+
+const buildLoreText = (character: Character, worldInfo?: string): string => {
+    const parts: string[] = [];
+    const facts = (character.lore || []).filter(fact => fact.trim() !== '');
+    if (facts.length > 0) {
+        parts.push(facts.map(fact => `- ${fact}`).join('\n'));
+    }
+    if (worldInfo) {
+        parts.push(worldInfo);
+    }
+    return parts.join('\n\n');
+};
+
+export interface BuiltPrompt {
+    systemInstruction: string;
+    history: Message[];
+    report: PromptBuildReport;
+}
+
+/**
+ * Assembles the system instruction and message history for a response so that it fits the
+ * model's context window. The budget is filled in priority order: system prompt, lore,
+ * knowledge base context, memory, the chat summary, example dialogue and finally the most
+ * recent messages.
+ * The system prompt and the latest message are always included.
+ */
+export const buildPrompt = (
+    character: Character,
+    allParticipants: Character[],
+    history: Message[],
+    context: PromptContext = {}
+): BuiltPrompt => {
+    const contextSize = getContextWindow(character.apiConfig);
+    const responseReserve = character.apiConfig?.generationSettings?.maxTokens || RESPONSE_TOKEN_RESERVE;
+    const budget = contextSize - Math.min(responseReserve, Math.floor(contextSize / 4));
+    let remaining = budget;
+    const sections: PromptSectionReport[] = [];
+
+    const fitSection = (id: PromptSectionId, label: string, text: string, keep: 'start' | 'end'): string => {
+        const originalTokens = estimateTokens(text);
+        if (originalTokens === 0) return '';
+        const fitted = truncateToTokens(text, Math.max(0, remaining), keep);
+        const tokens = estimateTokens(fitted);
+        remaining -= tokens;
+        sections.push({
+            id,
+            label,
+            tokens,
+            originalTokens,
+            status: !fitted ? 'dropped' : fitted === text ? 'full' : 'truncated',
+        });
+        return fitted;
+    };
+
+    // Card text, lore and instructions are written with {{char}}, {{user}} and other macros.
+    const macroContext: MacroContext = {
+        char: character.name,
+        user: context.persona?.name,
+        persona: context.persona?.description,
+        group: allParticipants.map(p => p.name),
+        messages: history,
+    };
+    const expand = (text: string): string => applyMacros(text, macroContext);
+
+    // 1. System prompt (always sent in full)
+    const persona = expand(buildPersonaInstruction(character, allParticipants)) + expand(buildUserInstruction(context.persona));
+    const instructions = context.instructions
+        ? `\n\n[ADDITIONAL INSTRUCTIONS FOR THIS RESPONSE ONLY]:\n${expand(context.instructions)}`
+        : '';
+    const systemTokens = estimateTokens(persona + TOOLS_INSTRUCTION + instructions);
+    remaining -= systemTokens;
+    sections.push({ id: 'system', label: 'System prompt', tokens: systemTokens, originalTokens: systemTokens, status: 'full' });
+    if (remaining < 0) {
+        logger.warn(`System prompt for "${character.name}" alone exceeds the context budget.`, { systemTokens, budget });
+    }
+
+    // 2-5. Supplementary context, each trimmed to whatever room is left
+    const loreBefore = fitSection('loreBefore', 'Lore before character', expand(context.loreBeforeCharacter || ''), 'start');
+    const lore = fitSection('lore', 'Lore', expand(buildLoreText(character, context.lore)), 'start');
+    // Lore inserted into the conversation is dropped whole rather than cut off mid-entry.
+    const loreAtDepth: LoreDepthInsertion[] = [];
+    let loreDepthTokens = 0;
+    let loreDepthOriginalTokens = 0;
+    for (const insertion of (context.loreAtDepth || []).map(i => ({ ...i, content: expand(i.content) }))) {
+        const tokens = estimateTokens(insertion.content);
+        loreDepthOriginalTokens += tokens;
+        if (tokens <= remaining) {
+            loreAtDepth.push(insertion);
+            remaining -= tokens;
+            loreDepthTokens += tokens;
+        }
+    }
+    if (loreDepthOriginalTokens > 0) {
+        sections.push({
+            id: 'loreDepth',
+            label: 'Lore in conversation',
+            tokens: loreDepthTokens,
+            originalTokens: loreDepthOriginalTokens,
+            status: loreDepthTokens === 0 ? 'dropped' : loreDepthTokens === loreDepthOriginalTokens ? 'full' : 'truncated',
+        });
+    }
+    const knowledgeText = context.knowledge && context.citations?.length ? `${CITATION_INSTRUCTION}\n\n${context.knowledge}` : context.knowledge || '';
+    const knowledge = fitSection('knowledge', 'Knowledge base', knowledgeText, 'start');
+    // Memories are listed oldest first, so trimming from the start keeps the newest ones.
+    const memory = fitSection('memory', 'Memory', context.memories || '', 'end');
+    const summary = fitSection('summary', 'Story so far', context.summary || '', 'end');
+    // Example dialogue comes last and only whole examples are sent, in order.
+    const examples: string[] = [];
+    let exampleTokens = 0;
+    let exampleOriginalTokens = 0;
+    let examplesFit = true;
+    for (const example of splitExampleDialogue(expand(character.exampleDialogue || ''))) {
+        const tokens = estimateTokens(example);
+        exampleOriginalTokens += tokens;
+        if (examplesFit && tokens <= remaining) {
+            examples.push(example);
+            remaining -= tokens;
+            exampleTokens += tokens;
+        } else {
+            examplesFit = false;
+        }
+    }
+    if (exampleOriginalTokens > 0) {
+        sections.push({
+            id: 'examples',
+            label: 'Example dialogue',
+            tokens: exampleTokens,
+            originalTokens: exampleOriginalTokens,
+            status: exampleTokens === 0 ? 'dropped' : exampleTokens === exampleOriginalTokens ? 'full' : 'truncated',
+        });
+    }
+
+    // 6. As many recent messages as still fit, newest first
+    const includedHistory: Message[] = [];
+    let historyTokens = 0;
+    for (let i = history.length - 1; i >= 0; i--) {
+        const cost = estimateMessageTokens(history[i]);
+        if (includedHistory.length > 0 && historyTokens + cost > remaining) break;
+        includedHistory.unshift(history[i]);
+        historyTokens += cost;
+    }
+    const originalHistoryTokens = history.reduce((sum, message) => sum + estimateMessageTokens(message), 0);
+    const droppedMessageCount = history.length - includedHistory.length;
+    sections.push({
+        id: 'history',
+        label: 'Messages',
+        tokens: historyTokens,
+        originalTokens: originalHistoryTokens,
+        status: droppedMessageCount === 0 ? 'full' : includedHistory.length === 0 ? 'dropped' : 'truncated',
+    });
+    // Taken before the lore notes below are inserted; they are not messages of the chat.
+    const includedMessageCount = includedHistory.length;
+    const firstIncludedMessageId = includedHistory[0]?.id;
+
+    // Lore for a depth goes that many messages before the end, as a narrator note. Depths count
+    // chat messages only, so every position is taken before any note is inserted.
+    const notes = loreAtDepth.map(insertion => {
+        const index = Math.max(0, includedMessageCount - insertion.depth);
+        const note: Message = {
+            role: 'narrator',
+            content: `(World info) ${insertion.content}`,
+            timestamp: includedHistory[index]?.timestamp || new Date().toISOString(),
+        };
+        return { index, note };
+    });
+    // From the end backwards, so earlier positions stay valid; notes at the same depth keep their order.
+    for (const { index, note } of [...notes].sort((a, b) => a.index - b.index).reverse()) {
+        includedHistory.splice(index, 0, note);
+    }
+
+    let systemInstruction = loreBefore ? `== WORLD INFO ==\n${loreBefore}\n\n${persona}` : persona;
+    if (examples.length > 0) systemInstruction += `== EXAMPLE DIALOGUE (How you talk; not part of the conversation) ==\n${examples.join('\n\n')}\n\n`;
+    if (memory) systemInstruction += `== MEMORY (Things you remember) ==\n${memory}\n\n`;
+    if (lore) systemInstruction += `== LORE (Key Facts) ==\n${lore}\n\n`;
+    if (knowledge) systemInstruction += `== ADDITIONAL CONTEXT FROM KNOWLEDGE BASE ==\n${knowledge}\n\n`;
+    if (summary) systemInstruction += `== STORY SO FAR (Summary of earlier conversation) ==\n${summary}\n\n`;
+    systemInstruction += TOOLS_INSTRUCTION + instructions;
+
+    const report: PromptBuildReport = {
+        contextSize,
+        budget,
+        usedTokens: budget - remaining + historyTokens,
+        sections,
+        includedMessageCount,
+        droppedMessageCount,
+        firstIncludedMessageId,
+    };
+
+    if (sections.some(section => section.status !== 'full')) {
+        logger.log(`Prompt for "${character.name}" was trimmed to fit a ${contextSize}-token context window.`, {
+            droppedMessageCount,
+            trimmedSections: sections.filter(s => s.status !== 'full').map(s => s.label),
+        });
+    }
+
+    return { systemInstruction, history: includedHistory, report };
+};
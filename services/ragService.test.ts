@@ -0,0 +1,86 @@
+import { describe, expect, it } from 'vitest';
+import { DocumentBlock } from '../types.ts';
+import { chunkDocument, resolveChunkingConfig } from './ragService.ts';
+import { estimateTokens } from './promptService.ts';
+
+// 40 characters, so 10 estimated tokens each.
+const sentence = (n: number) => `Sentence ${String(n).padStart(2, '0')} is exactly forty chars long.`;
+const sentences = (from: number, count: number) => Array.from({ length: count }, (_, i) => sentence(from + i)).join(' ');
+const text = (value: string, page?: number): DocumentBlock => ({ kind: 'text', text: value, page });
+const heading = (value: string, level = 1): DocumentBlock => ({ kind: 'heading', text: value, level });
+
+describe('resolveChunkingConfig', () => {
+    it('fills in defaults and keeps sizes within bounds', () => {
+        expect(resolveChunkingConfig()).toEqual({ chunkSize: 300, chunkOverlap: 40 });
+        expect(resolveChunkingConfig({ chunkSize: 10, chunkOverlap: 100 })).toEqual({ chunkSize: 50, chunkOverlap: 25 });
+        expect(resolveChunkingConfig({ chunkSize: NaN, chunkOverlap: -5 })).toEqual({ chunkSize: 300, chunkOverlap: 0 });
+    });
+});
+
+describe('chunkDocument', () => {
+    it('never lets a chunk cross a section boundary', () => {
+        const chunks = chunkDocument([
+            heading('Guide'),
+            text(sentence(1)),
+            heading('Setup', 2),
+            text(sentence(2)),
+            heading('Wiring', 2),
+            text(sentence(3)),
+            heading('Appendix'),
+            text(sentence(4)),
+        ]);
+        expect(chunks.map(c => [c.content, c.headings])).toEqual([
+            [sentence(1), ['Guide']],
+            [sentence(2), ['Guide', 'Setup']],
+            [sentence(3), ['Guide', 'Wiring']],
+            [sentence(4), ['Appendix']],
+        ]);
+    });
+
+    it('leaves out headings for text before the first heading', () => {
+        expect(chunkDocument([text('Preface.')])).toEqual([{ content: 'Preface.', headings: undefined, pageStart: undefined, pageEnd: undefined }]);
+    });
+
+    it('starts each chunk with the closing sentences of the previous one, as many as the overlap allows', () => {
+        const chunks = chunkDocument([text(sentences(1, 12))], { chunkSize: 50, chunkOverlap: 20 });
+        expect(chunks.map(c => c.content)).toEqual([
+            sentences(1, 5),
+            sentences(4, 5),
+            sentences(7, 5),
+            sentences(10, 3),
+        ]);
+    });
+
+    it('does not repeat anything without an overlap', () => {
+        const chunks = chunkDocument([text(sentences(1, 12))], { chunkSize: 50, chunkOverlap: 0 });
+        expect(chunks.map(c => c.content)).toEqual([sentences(1, 5), sentences(6, 5), sentences(11, 2)]);
+    });
+
+    it('cuts sentences longer than a chunk between words, and words longer than a chunk anywhere', () => {
+        const words = Array.from({ length: 100 }, (_, i) => `word${i}`);
+        const longWord = 'x'.repeat(500);
+        const chunks = chunkDocument([text(`${words.join(' ')} ${longWord}`)], { chunkSize: 50, chunkOverlap: 0 });
+
+        expect(chunks.length).toBeGreaterThan(3);
+        for (const chunk of chunks) {
+            expect(estimateTokens(chunk.content)).toBeLessThanOrEqual(50);
+        }
+        expect(chunks.map(c => c.content).join(' ').split(' ').slice(0, 100)).toEqual(words);
+        expect(chunks.map(c => c.content).join('').endsWith(longWord)).toBe(true);
+    });
+
+    it('ends a chunk at a paragraph break and carries the pages and headings of its paragraphs', () => {
+        const chunks = chunkDocument([
+            heading('Manual'),
+            text(sentences(1, 3), 1),
+            text(sentences(4, 3), 2),
+            text(sentences(7, 3), 3),
+        ], { chunkSize: 50, chunkOverlap: 10 });
+
+        expect(chunks).toEqual([
+            { content: sentences(1, 3), headings: ['Manual'], pageStart: 1, pageEnd: 1 },
+            { content: `${sentence(3)}\n\n${sentences(4, 3)}`, headings: ['Manual'], pageStart: 1, pageEnd: 2 },
+            { content: `${sentence(6)}\n\n${sentences(7, 3)}`, headings: ['Manual'], pageStart: 2, pageEnd: 3 },
+        ]);
+    });
+});
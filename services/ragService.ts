@@ -1,70 +1,267 @@
-import { Character, RagSource, VectorChunk } from '../types';
+import { Character, ChunkingConfig, Citation, DocumentBlock, EmbeddingConfig, EmbeddingJob, KeywordDocument, KnowledgeBase, RagSource, RetrievalCandidate, RetrievalReport, VectorChunk } from '../types';
 import { logger } from './loggingService';
 import * as embeddingService from './embeddingService';
 import * as db from './secureStorage';
+import { extractDocument } from './documentExtractionService';
+import { estimateTokens } from './promptService';
+import { buildKeywordDocument, searchKeywordDocuments } from './keywordIndexService';
+import { generateWithCharacterModel } from './geminiService';
 
-// --- Text Processing ---
+// --- Chunking ---
+// Documents are split along their own structure: a chunk never crosses a section boundary,
+// prefers to end where a paragraph ends, and otherwise ends between sentences. Only a sentence
+// longer than a whole chunk is cut between words. Sizes are in approximate tokens.
 
-const chunkText = (text: string, chunkSize = 1000, overlap = 200): string[] => {
-    const chunks: string[] = [];
-    let i = 0;
-    while (i < text.length) {
-        const end = Math.min(i + chunkSize, text.length);
-        chunks.push(text.slice(i, end));
-        i += chunkSize - overlap;
-        if (i + overlap >= text.length) {
-             i = text.length; // exit condition
+export const DEFAULT_CHUNK_SIZE = 300;
+export const DEFAULT_CHUNK_OVERLAP = 40;
+const MIN_CHUNK_SIZE = 50;
+const MAX_CHUNK_SIZE = 2000;
+
+/**
+ * Fills in the defaults and keeps the overlap at most half the chunk size.
+ */
+export const resolveChunkingConfig = (config?: ChunkingConfig): Required<ChunkingConfig> => {
+    const size = config?.chunkSize;
+    const overlap = config?.chunkOverlap;
+    const chunkSize = Math.round(Math.min(MAX_CHUNK_SIZE, Math.max(MIN_CHUNK_SIZE, size && Number.isFinite(size) ? size : DEFAULT_CHUNK_SIZE)));
+    const chunkOverlap = Math.round(Math.min(chunkSize / 2, Math.max(0, overlap !== undefined && Number.isFinite(overlap) ? overlap : DEFAULT_CHUNK_OVERLAP)));
+    return { chunkSize, chunkOverlap };
+};
+
+// A run of paragraphs under the same headings.
+interface DocumentSection {
+    headings: string[];
+    paragraphs: { text: string; page?: number }[];
+}
+
+const groupIntoSections = (blocks: DocumentBlock[]): DocumentSection[] => {
+    const sections: DocumentSection[] = [];
+    const path: { level: number; text: string }[] = [];
+    let current: DocumentSection | null = null;
+    for (const block of blocks) {
+        if (block.kind === 'heading') {
+            const level = block.level || 1;
+            while (path.length > 0 && path[path.length - 1].level >= level) path.pop();
+            path.push({ level, text: block.text });
+            current = null;
+            continue;
+        }
+        if (!current) {
+            current = { headings: path.map(h => h.text), paragraphs: [] };
+            sections.push(current);
+        }
+        current.paragraphs.push({ text: block.text, page: block.page });
+    }
+    return sections;
+};
+
+type ChunkDraft = Pick<VectorChunk, 'content' | 'headings' | 'pageStart' | 'pageEnd'>;
+
+// A sentence, or a piece of an over-long one, and the paragraph it belongs to.
+interface TextUnit {
+    text: string;
+    tokens: number;
+    paragraph: number; // Index within the section
+    page?: number;
+}
+
+const sentenceSegmenter = typeof Intl !== 'undefined' && 'Segmenter' in Intl
+    ? new Intl.Segmenter(undefined, { granularity: 'sentence' })
+    : null;
+
+const splitSentences = (text: string): string[] => {
+    if (sentenceSegmenter) {
+        return Array.from(sentenceSegmenter.segment(text), s => s.segment.trim()).filter(Boolean);
+    }
+    return text.match(/[^.!?]+(?:[.!?]+["')\]]*|$)/g)?.map(s => s.trim()).filter(Boolean) || [text];
+};
+
+/**
+ * Cuts a sentence that does not fit in a chunk between words, and words that do not fit
+ * (long URLs, encoded data) anywhere.
+ */
+const splitLongSentence = (sentence: string, maxTokens: number): string[] => {
+    const words = sentence.split(/\s+/).flatMap(word => {
+        const tokens = estimateTokens(word);
+        if (tokens <= maxTokens) return [word];
+        const size = Math.floor(word.length * maxTokens / tokens);
+        return word.match(new RegExp(`[\\s\\S]{1,${size}}`, 'g')) || [word];
+    });
+    const pieces: string[] = [];
+    let current = '';
+    for (const word of words) {
+        const candidate = current ? `${current} ${word}` : word;
+        if (current && estimateTokens(candidate) > maxTokens) {
+            pieces.push(current);
+            current = word;
+        } else {
+            current = candidate;
         }
     }
-    return chunks;
+    if (current) pieces.push(current);
+    return pieces;
 };
 
-const readFileAsText = (file: File): Promise<string> => {
-    return new Promise((resolve, reject) => {
-        const reader = new FileReader();
-        reader.onload = () => resolve(reader.result as string);
-        reader.onerror = () => reject(reader.error);
-        reader.readAsText(file);
+const unitsToDraft = (units: TextUnit[], section: DocumentSection): ChunkDraft => {
+    let content = '';
+    units.forEach((unit, i) => {
+        if (i > 0) content += unit.paragraph === units[i - 1].paragraph ? ' ' : '\n\n';
+        content += unit.text;
     });
+    const pages = units.map(unit => unit.page).filter((page): page is number => page !== undefined);
+    return {
+        content,
+        headings: section.headings.length > 0 ? section.headings : undefined,
+        pageStart: pages.length > 0 ? Math.min(...pages) : undefined,
+        pageEnd: pages.length > 0 ? Math.max(...pages) : undefined,
+    };
 };
 
-// --- Vector Operations ---
+const chunkSection = (section: DocumentSection, { chunkSize, chunkOverlap }: Required<ChunkingConfig>): ChunkDraft[] => {
+    const units: TextUnit[] = [];
+    section.paragraphs.forEach((paragraph, index) => {
+        for (const sentence of splitSentences(paragraph.text)) {
+            const pieces = estimateTokens(sentence) > chunkSize ? splitLongSentence(sentence, chunkSize) : [sentence];
+            for (const piece of pieces) {
+                units.push({ text: piece, tokens: estimateTokens(piece), paragraph: index, page: paragraph.page });
+            }
+        }
+    });
+    const paragraphTokens = section.paragraphs.map(paragraph => estimateTokens(paragraph.text));
 
-const calculateCosineSimilarity = (vecA: number[], vecB: number[]): number => {
-    if (vecA.length !== vecB.length || vecA.length === 0) {
-        return 0;
+    const drafts: ChunkDraft[] = [];
+    let current: TextUnit[] = [];
+    let currentTokens = 0;
+    let newUnits = 0; // Units in `current` that were not carried over from the previous chunk
+    for (const unit of units) {
+        const startsParagraph = current.length > 0 && current[current.length - 1].paragraph !== unit.paragraph;
+        const overflows = currentTokens + unit.tokens > chunkSize;
+        // End a reasonably full chunk early if that keeps the next paragraph in one piece.
+        const paragraphBreak = startsParagraph
+            && currentTokens >= chunkSize / 2
+            && currentTokens + paragraphTokens[unit.paragraph] > chunkSize
+            && paragraphTokens[unit.paragraph] <= chunkSize;
+        if (newUnits > 0 && (overflows || paragraphBreak)) {
+            drafts.push(unitsToDraft(current, section));
+            // Repeat the closing sentences of the previous chunk, as many as the overlap allows.
+            const carried: TextUnit[] = [];
+            let carriedTokens = 0;
+            for (let i = current.length - 1; i >= 0 && carriedTokens + current[i].tokens <= chunkOverlap; i--) {
+                carried.unshift(current[i]);
+                carriedTokens += current[i].tokens;
+            }
+            while (carried.length > 0 && carriedTokens + unit.tokens > chunkSize) {
+                carriedTokens -= carried.shift()!.tokens;
+            }
+            current = carried;
+            currentTokens = carriedTokens;
+            newUnits = 0;
+        }
+        current.push(unit);
+        currentTokens += unit.tokens;
+        newUnits++;
     }
+    if (newUnits > 0) drafts.push(unitsToDraft(current, section));
+    return drafts;
+};
 
-    let dotProduct = 0;
-    let normA = 0;
-    let normB = 0;
+/**
+ * Splits extracted document blocks into chunks that follow the document's sections, paragraphs
+ * and sentences. Each chunk carries the headings of its section and the pages it spans.
+ */
+export const chunkDocument = (blocks: DocumentBlock[], config?: ChunkingConfig): ChunkDraft[] => {
+    const resolved = resolveChunkingConfig(config);
+    return groupIntoSections(blocks).flatMap(section => chunkSection(section, resolved));
+};
 
-    for (let i = 0; i < vecA.length; i++) {
-        dotProduct += vecA[i] * vecB[i];
-        normA += vecA[i] * vecA[i];
-        normB += vecB[i] * vecB[i];
+/**
+ * Describes where a chunk comes from, e.g. `manual.pdf, pp. 3–4, Setup > Wiring`.
+ */
+export const describeChunkSource = (chunk: Pick<VectorChunk, 'headings' | 'pageStart' | 'pageEnd'>, fileName?: string): string => {
+    const parts: string[] = [];
+    if (fileName) parts.push(fileName);
+    if (chunk.pageStart !== undefined) {
+        parts.push(chunk.pageEnd !== undefined && chunk.pageEnd !== chunk.pageStart
+            ? `pp. ${chunk.pageStart}–${chunk.pageEnd}`
+            : `p. ${chunk.pageStart}`);
     }
+    if (chunk.headings && chunk.headings.length > 0) parts.push(chunk.headings.join(' > '));
+    return parts.join(', ');
+};
 
-    if (normA === 0 || normB === 0) {
-        return 0;
-    }
+// --- Main RAG Logic ---
+// Files belong to an owner: a character, or a knowledge base shared by several characters and
+// chats. Both are indexed the same way.
+
+export type KnowledgeOwner = Pick<Character, 'id' | 'name' | 'embeddingConfig' | 'chunkingConfig'>;
+
+// The section title goes into the embedding too, so a chunk is found by its topic even when its
+// own sentences never name it.
+const textToEmbed = (chunk: ChunkDraft): string =>
+    chunk.headings ? `${chunk.headings.join(' > ')}\n\n${chunk.content}` : chunk.content;
 
-    return dotProduct / (Math.sqrt(normA) * Math.sqrt(normB));
+const withEmbeddingInfo = (source: RagSource, chunks: VectorChunk[]): RagSource => ({
+    ...source,
+    embeddingModel: chunks[0]?.embeddingModel,
+    embeddingDimension: chunks[0]?.embeddingDimension,
+    embeddedAt: new Date().toISOString(),
+});
+
+export const deleteSource = async (sourceId: string): Promise<void> => {
+    await db.deleteVectorChunksBySource(sourceId);
+    await db.deleteKeywordDocumentsBySource(sourceId);
+    await db.deleteSourceText(sourceId);
+    logger.log(`Deleted all vector chunks for source ID: ${sourceId}`);
 };
 
+/**
+ * Whether a source was embedded with a different model than the config uses now. Sources from
+ * before the model was recorded are not flagged.
+ */
+export const isSourceOutdated = (source: RagSource, embeddingConfig?: EmbeddingConfig): boolean =>
+    !!embeddingConfig && !!source.embeddingModel && source.embeddingModel !== embeddingService.getEmbeddingModelId(embeddingConfig);
 
-// --- Main RAG Logic ---
+// --- Embedding Jobs ---
+// Embedding a file is a job kept in IndexedDB. It is prepared first (read and chunked, so its cost
+// can be estimated), then run in batches, and every finished batch is checkpointed. A job that
+// failed, was stopped or was cut off by a reload resumes with the chunks that are still missing.
+// Vectors from different embedding models live in different spaces, so a file is re-embedded
+// after its owner's model changes; the old chunks are only replaced once the new ones are done.
+
+const ASSUMED_SECONDS_PER_REQUEST = 1.5;
+
+const requireEmbeddingConfig = (owner: KnowledgeOwner): EmbeddingConfig => {
+    if (!owner.embeddingConfig) {
+        throw new Error(`Embedding configuration is missing for "${owner.name}".`);
+    }
+    return owner.embeddingConfig;
+};
 
-export const processAndIndexFile = async (
+const createJob = (owner: KnowledgeOwner, kind: EmbeddingJob['kind'], source: RagSource, chunks: ChunkDraft[]): EmbeddingJob => {
+    const now = new Date().toISOString();
+    return {
+        id: `embed-${crypto.randomUUID()}`,
+        ownerId: owner.id,
+        kind,
+        source,
+        chunks,
+        embeddingModel: embeddingService.getEmbeddingModelId(requireEmbeddingConfig(owner)),
+        createdAt: now,
+        updatedAt: now,
+    };
+};
+
+/**
+ * Reads and chunks an uploaded file and saves it as a pending job. Its text is kept so the file
+ * can be chunked and embedded again later.
+ */
+export const prepareIndexingJob = async (
     file: File,
-    character: Character,
+    owner: KnowledgeOwner,
     onProgress: (progress: string) => void
-): Promise<RagSource> => {
-    if (!character.embeddingConfig) {
-        throw new Error("Embedding configuration is missing for this character.");
-    }
-    
-    const newSource: RagSource = {
+): Promise<EmbeddingJob> => {
+    requireEmbeddingConfig(owner);
+    const source: RagSource = {
         id: `source-${crypto.randomUUID()}`,
         fileName: file.name,
         fileType: file.type,
@@ -72,79 +269,480 @@ export const processAndIndexFile = async (
     };
 
     onProgress(`Reading file: ${file.name}...`);
-    const content = await readFileAsText(file);
-    
+    const blocks = await extractDocument(file);
+
     onProgress(`Chunking text...`);
-    const textChunks = chunkText(content);
-    logger.log(`File chunked into ${textChunks.length} pieces.`);
-
-    const vectorChunks: VectorChunk[] = [];
-    for (let i = 0; i < textChunks.length; i++) {
-        const chunk = textChunks[i];
-        onProgress(`Generating embedding for chunk ${i + 1} of ${textChunks.length}...`);
-        try {
-            const embedding = await embeddingService.generateEmbedding(chunk, character.embeddingConfig);
-            vectorChunks.push({
-                id: `chunk-${crypto.randomUUID()}`,
-                characterId: character.id,
-                sourceId: newSource.id,
-                content: chunk,
-                embedding: embedding,
-            });
-        } catch (error) {
-            logger.error(`Failed to generate embedding for chunk ${i+1}`, error);
-            // Decide if we should stop or continue. For now, we stop on error.
-            throw new Error(`Failed to process chunk ${i+1}. Check embedding API settings.`);
+    const chunks = chunkDocument(blocks, owner.chunkingConfig);
+    if (chunks.length === 0) {
+        throw new Error(`No text could be extracted from "${file.name}".`);
+    }
+    logger.log(`File chunked into ${chunks.length} pieces.`);
+
+    const job = createJob(owner, 'index', source, chunks);
+    await db.saveSourceText({ sourceId: source.id, characterId: owner.id, blocks });
+    await db.saveEmbeddingJob(job);
+    return job;
+};
+
+/**
+ * Prepares jobs that embed sources again with their owner's current model. A source whose text was
+ * kept is chunked again with the current chunking settings; an older one re-embeds its existing
+ * chunks. Sources that already have a pending job reuse it.
+ */
+export const prepareReembedJobs = async (sources: RagSource[], owner: KnowledgeOwner): Promise<EmbeddingJob[]> => {
+    requireEmbeddingConfig(owner);
+    const pending = await db.getEmbeddingJobsByOwner(owner.id);
+    const jobs: EmbeddingJob[] = [];
+    for (const source of sources) {
+        const existing = pending.find(job => job.source.id === source.id);
+        if (existing) {
+            jobs.push(existing);
+            continue;
         }
+        const sourceText = await db.getSourceText(source.id);
+        const chunks: ChunkDraft[] = sourceText
+            ? chunkDocument(sourceText.blocks, owner.chunkingConfig)
+            : (await db.getVectorChunksBySource(source.id)).map(({ content, headings, pageStart, pageEnd }) => ({ content, headings, pageStart, pageEnd }));
+        if (chunks.length === 0) {
+            throw new Error(`"${source.fileName}" has no stored text to embed. Delete it and upload it again.`);
+        }
+        const job = createJob(owner, 'reembed', source, chunks);
+        await db.saveEmbeddingJob(job);
+        jobs.push(job);
     }
-    
-    onProgress(`Saving ${vectorChunks.length} vectors to the database...`);
+    return jobs;
+};
+
+/**
+ * The jobs of an owner that have not finished yet, oldest first.
+ */
+export const getPendingEmbeddingJobs = async (ownerId: string): Promise<EmbeddingJob[]> => {
+    const jobs = await db.getEmbeddingJobsByOwner(ownerId);
+    return jobs.sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+};
+
+/**
+ * Drops a job and its checkpoints. A file that was never indexed is forgotten along with it.
+ */
+export const discardEmbeddingJob = async (job: EmbeddingJob): Promise<void> => {
+    await db.deleteEmbeddingJob(job.id);
+    if (job.kind === 'index') {
+        await db.deleteSourceText(job.source.id);
+    }
+    logger.log(`Discarded the embedding job for "${job.source.fileName}".`);
+};
+
+export interface EmbeddingEstimate {
+    chunks: number;
+    tokens: number;
+    requests: number;
+    costUsd: number | null; // null if the price of the model is unknown
+    seconds: number;
+}
+
+/**
+ * Estimates what running the jobs with a config costs and how long it takes. Chunks that were
+ * already checkpointed are not counted when `embeddedChunks` is given.
+ */
+export const estimateEmbeddingJobs = (
+    jobs: EmbeddingJob[],
+    embeddingConfig: EmbeddingConfig,
+    embeddedChunks: Record<string, number> = {}
+): EmbeddingEstimate => {
+    const throughput = embeddingService.getEmbeddingThroughput(embeddingConfig);
+    let chunks = 0;
+    let tokens = 0;
+    let requests = 0;
+    for (const job of jobs) {
+        const remaining = job.chunks.slice(embeddedChunks[job.id] ?? 0);
+        chunks += remaining.length;
+        tokens += remaining.reduce((sum, chunk) => sum + estimateTokens(textToEmbed(chunk)), 0);
+        requests += Math.ceil(remaining.length / throughput.batchSize);
+    }
+    const secondsPerRequest = Math.max(ASSUMED_SECONDS_PER_REQUEST, throughput.minRequestInterval / 1000);
+    return {
+        chunks,
+        tokens,
+        requests,
+        costUsd: throughput.pricePerMillionTokens === null ? null : tokens / 1_000_000 * throughput.pricePerMillionTokens,
+        seconds: Math.ceil(requests / throughput.concurrency) * secondsPerRequest,
+    };
+};
+
+/**
+ * How many chunks of each job are already embedded, by job id.
+ */
+export const countEmbeddedChunks = async (jobs: EmbeddingJob[]): Promise<Record<string, number>> => {
+    const counts: Record<string, number> = {};
+    for (const job of jobs) {
+        counts[job.id] = (await db.getEmbeddingCheckpoints(job.id)).length;
+    }
+    return counts;
+};
+
+export interface EmbeddingJobProgress {
+    jobId: string;
+    fileName: string;
+    done: number; // Chunks embedded, including those from earlier runs
+    total: number;
+    etaSeconds?: number; // Known once a batch of this run has finished
+}
+
+// Runs the tasks with at most `limit` in flight. After the first failure no new task is started,
+// and the error is thrown once the running ones have settled.
+const runWithConcurrency = async (tasks: (() => Promise<void>)[], limit: number): Promise<void> => {
+    let next = 0;
+    let failure: { error: unknown } | null = null;
+    const worker = async () => {
+        while (!failure && next < tasks.length) {
+            const task = tasks[next++];
+            try {
+                await task();
+            } catch (error) {
+                failure ??= { error };
+            }
+        }
+    };
+    await Promise.all(Array.from({ length: Math.min(limit, tasks.length) }, worker));
+    if (failure) throw (failure as { error: unknown }).error;
+};
+
+const sleep = (ms: number): Promise<void> => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Runs a job to the end with its owner's current model, skipping checkpointed chunks, and returns
+ * the indexed source. If the model changed since the job was prepared, its checkpoints are
+ * discarded. A failed or stopped job stays pending with the reason recorded.
+ */
+export const runEmbeddingJob = async (
+    job: EmbeddingJob,
+    owner: KnowledgeOwner,
+    onProgress: (progress: EmbeddingJobProgress) => void,
+    signal?: AbortSignal
+): Promise<RagSource> => {
+    const embeddingConfig = requireEmbeddingConfig(owner);
+    const embeddingModel = embeddingService.getEmbeddingModelId(embeddingConfig);
+    const throughput = embeddingService.getEmbeddingThroughput(embeddingConfig);
+
+    let current: EmbeddingJob = { ...job, error: undefined, updatedAt: new Date().toISOString() };
+    if (current.embeddingModel !== embeddingModel) {
+        logger.warn(`The embedding model of "${job.source.fileName}" changed to ${embeddingModel}. Its job starts over.`);
+        await db.deleteEmbeddingJob(job.id, true);
+        current = { ...current, embeddingModel };
+    }
+    await db.saveEmbeddingJob(current);
+
+    const embeddings: (Float32Array | undefined)[] = new Array(job.chunks.length);
+    for (const checkpoint of await db.getEmbeddingCheckpoints(job.id)) {
+        embeddings[checkpoint.index] = checkpoint.embedding;
+    }
+    const missing = job.chunks.map((_, index) => index).filter(index => !embeddings[index]);
+    const batches: number[][] = [];
+    for (let i = 0; i < missing.length; i += throughput.batchSize) {
+        batches.push(missing.slice(i, i + throughput.batchSize));
+    }
+
+    const total = job.chunks.length;
+    let done = total - missing.length;
+    let embeddedThisRun = 0;
+    const startedAt = Date.now();
+    let lastRequestAt = 0;
+    onProgress({ jobId: job.id, fileName: job.source.fileName, done, total });
+
+    const tasks = batches.map(batch => async () => {
+        if (signal?.aborted) {
+            throw new DOMException('Indexing was stopped.', 'AbortError');
+        }
+        if (throughput.minRequestInterval) {
+            const wait = lastRequestAt + throughput.minRequestInterval - Date.now();
+            if (wait > 0) await sleep(wait);
+            lastRequestAt = Date.now();
+        }
+        const vectors = await embeddingService.generateEmbeddings(batch.map(index => textToEmbed(job.chunks[index])), embeddingConfig);
+        const checkpoints = batch.map((index, i) => ({ jobId: job.id, index, embedding: Float32Array.from(vectors[i]) }));
+        await db.saveEmbeddingCheckpoints(checkpoints);
+        for (const checkpoint of checkpoints) {
+            embeddings[checkpoint.index] = checkpoint.embedding;
+        }
+        done += batch.length;
+        embeddedThisRun += batch.length;
+        const secondsPerChunk = (Date.now() - startedAt) / 1000 / embeddedThisRun;
+        onProgress({ jobId: job.id, fileName: job.source.fileName, done, total, etaSeconds: Math.round(secondsPerChunk * (total - done)) });
+    });
+
+    try {
+        await runWithConcurrency(tasks, throughput.concurrency);
+    } catch (error) {
+        const stopped = error instanceof DOMException && error.name === 'AbortError';
+        if (!stopped) logger.error(`Embedding "${job.source.fileName}" failed after ${done} of ${total} chunks.`, error);
+        await db.saveEmbeddingJob({
+            ...current,
+            error: stopped ? undefined : (error instanceof Error ? error.message : String(error)),
+            updatedAt: new Date().toISOString(),
+        });
+        throw error;
+    }
+
+    const vectorChunks: VectorChunk[] = job.chunks.map((chunk, index) => ({
+        id: `chunk-${crypto.randomUUID()}`,
+        characterId: job.ownerId,
+        sourceId: job.source.id,
+        ...chunk,
+        embedding: embeddings[index]!,
+        embeddingModel,
+        embeddingDimension: embeddings[index]!.length,
+    }));
+    // Replacing whatever the source has makes finishing safe to repeat if it was interrupted.
+    await db.deleteVectorChunksBySource(job.source.id);
+    await db.deleteKeywordDocumentsBySource(job.source.id);
     await db.saveVectorChunks(vectorChunks);
+    await db.saveKeywordDocuments(vectorChunks.map(buildKeywordDocument));
+    await db.deleteEmbeddingJob(job.id);
 
-    logger.log(`Successfully indexed file "${file.name}" for character "${character.name}"`);
-    return newSource;
+    logger.log(`Embedded "${job.source.fileName}" for "${owner.name}" with ${embeddingModel}.`);
+    return withEmbeddingInfo(job.source, vectorChunks);
 };
 
-export const deleteSource = async (sourceId: string): Promise<void> => {
-    await db.deleteVectorChunksBySource(sourceId);
-    logger.log(`Deleted all vector chunks for source ID: ${sourceId}`);
+// --- Retrieval ---
+// Chunks are ranked twice, by embedding similarity and by BM25 keyword score, and the rankings
+// are merged with reciprocal-rank fusion. A chunk is only eligible if it is similar enough to the
+// query or matches a good part of its keywords, so unrelated questions retrieve nothing.
+
+export const DEFAULT_TOP_K = 3;
+export const DEFAULT_MIN_SCORE = 0.3;
+const RRF_K = 60; // Damps the influence of the very top ranks, as in the original RRF paper
+const VECTOR_CANDIDATES = 50; // Nearest chunks fetched from the vector index
+const KEYWORD_CANDIDATES = 50; // Best keyword matches considered alongside them
+const MIN_KEYWORD_COVERAGE = 0.4;
+const RERANK_CANDIDATES_PER_RESULT = 3;
+const MAX_RERANK_CANDIDATES = 12;
+const RERANK_PASSAGE_CHARS = 700;
+
+const RERANK_INSTRUCTION = `You rank passages by how useful they are for replying to a message.
+Reply with only a JSON array of the numbers of the useful passages, most useful first, e.g. [3, 1].
+Leave out passages that do not help. Reply [] if none of them help.`;
+
+export interface RetrievalResult {
+    context: string | null; // The selected chunks, numbered like `citations`
+    citations: Citation[];
+    report: RetrievalReport;
+}
+
+/**
+ * Indexes chunks that were embedded before the keyword index existed.
+ */
+const loadKeywordDocuments = async (characterId: string, chunkIds: string[]): Promise<KeywordDocument[]> => {
+    const documents = await db.getKeywordDocumentsByCharacter(characterId);
+    const indexed = new Set(documents.map(doc => doc.chunkId));
+    const missingIds = chunkIds.filter(id => !indexed.has(id));
+    const missing = missingIds.length > 0 ? (await db.getVectorChunksByIds(missingIds)).map(buildKeywordDocument) : [];
+    if (missing.length > 0) {
+        logger.log(`Adding ${missing.length} chunks to the keyword index.`);
+        await db.saveKeywordDocuments(missing);
+    }
+    const existing = new Set(chunkIds);
+    return [...documents, ...missing].filter(doc => existing.has(doc.chunkId));
 };
 
+/**
+ * Asks the character's chat model to order the candidates. Returns chunk ids, most relevant first.
+ */
+const rerankWithChatModel = async (query: string, character: Character, candidates: VectorChunk[]): Promise<string[]> => {
+    const passages = candidates
+        .map((chunk, i) => `[${i + 1}] ${chunk.content.length > RERANK_PASSAGE_CHARS ? `${chunk.content.slice(0, RERANK_PASSAGE_CHARS)}...` : chunk.content}`)
+        .join('\n\n');
+    const reply = await generateWithCharacterModel(character, RERANK_INSTRUCTION, `Message: ${query}\n\nPassages:\n${passages}`);
+    const match = reply.match(/\[[\d,\s]*\]/);
+    if (!match) {
+        throw new Error(`The model did not reply with a list of passages: "${reply.slice(0, 100)}"`);
+    }
+    const order: number[] = JSON.parse(match[0]);
+    return [...new Set(order)]
+        .filter(n => Number.isInteger(n) && n >= 1 && n <= candidates.length)
+        .map(n => candidates[n - 1].id);
+};
+
+/**
+ * Lists passages for the prompt, each headed by its number and origin.
+ */
+export const formatCitations = (citations: Citation[]): string =>
+    citations
+        .map(citation => `[${citation.number}] (${[citation.fileName, citation.location].filter(Boolean).join(', ')})\n${citation.content}`)
+        .join('\n\n');
+
+/**
+ * The citations a reply actually refers to with [n] markers, in order of number.
+ */
+export const findCitedPassages = (text: string, citations: Citation[]): Citation[] => {
+    const cited = new Set([...text.matchAll(/\[(\d+)\]/g)].map(match => parseInt(match[1], 10)));
+    return citations.filter(citation => cited.has(citation.number));
+};
+
+/**
+ * Finds the knowledge chunks most relevant to a query, searching the character's own files (when
+ * RAG is enabled for it) and every given knowledge base together. The report lists every chunk
+ * that was considered and why it was or was not used.
+ */
 export const findRelevantContext = async (
     query: string,
     character: Character,
-    topK = 3
-): Promise<string | null> => {
-    if (!character.embeddingConfig) {
-        logger.warn("Cannot find relevant context: character has no embedding config.");
-        return null;
-    }
+    knowledgeBases: KnowledgeBase[] = []
+): Promise<RetrievalResult> => {
+    const { topK: configuredTopK, minScore: configuredMinScore } = character.retrievalConfig || {};
+    const topK = Math.max(1, Math.round(configuredTopK || DEFAULT_TOP_K));
+    const minScore = configuredMinScore !== undefined && Number.isFinite(configuredMinScore) ? configuredMinScore : DEFAULT_MIN_SCORE;
+    const report: RetrievalReport = {
+        characterId: character.id,
+        characterName: character.name,
+        query,
+        createdAt: new Date().toISOString(),
+        topK,
+        minScore,
+        reranked: false,
+        searched: [],
+        candidates: [],
+    };
+
+    const owners: (KnowledgeOwner & { sources: RagSource[] })[] = [
+        ...(character.ragEnabled ? [{ ...character, sources: character.ragSources || [] }] : []),
+        ...knowledgeBases,
+    ].filter(owner => {
+        if (owner.embeddingConfig) return true;
+        logger.warn(`Cannot search "${owner.name}": it has no embedding config.`);
+        return false;
+    });
     
     try {
-        const queryEmbedding = await embeddingService.generateEmbedding(query, character.embeddingConfig);
-        const characterChunks = await db.getVectorChunksByCharacter(character.id);
+        const chunkIdsByOwner = await Promise.all(owners.map(owner => db.getVectorChunkIdsByCharacter(owner.id)));
+        report.searched = owners.filter((_, i) => chunkIdsByOwner[i].length > 0).map(owner => owner.name);
 
-        if (characterChunks.length === 0) {
+        if (report.searched.length === 0) {
             logger.log("No knowledge base found for this character to search.");
-            return null;
+            return { context: null, citations: [], report };
         }
 
-        const scoredChunks = characterChunks.map(chunk => ({
-            ...chunk,
-            similarity: calculateCosineSimilarity(queryEmbedding, chunk.embedding),
-        }));
+        // The query is embedded once per model; each owner's chunks are compared with the matching embedding.
+        const embeddingsByModel = new Map<string, Promise<number[]>>();
+        const queryEmbeddings = new Map<string, number[]>();
+        for (const owner of owners) {
+            const modelId = embeddingService.getEmbeddingModelId(owner.embeddingConfig!);
+            if (!embeddingsByModel.has(modelId)) {
+                embeddingsByModel.set(modelId, embeddingService.generateEmbedding(query, owner.embeddingConfig!));
+            }
+            queryEmbeddings.set(owner.id, await embeddingsByModel.get(modelId)!);
+        }
+
+        // Keyword statistics are shared, so BM25 scores are comparable across knowledge bases.
+        const keywordDocuments = (await Promise.all(owners.map((owner, i) => loadKeywordDocuments(owner.id, chunkIdsByOwner[i])))).flat();
+        const keywordMatches = new Map(
+            searchKeywordDocuments(query, keywordDocuments).map((match, i) => [match.chunkId, { ...match, rank: i + 1 }])
+        );
+        const vectorHits = (await Promise.all(owners.map((owner, i) => chunkIdsByOwner[i].length > 0
+            ? db.searchVectorChunks(owner.id, queryEmbeddings.get(owner.id)!, VECTOR_CANDIDATES)
+            : []
+        ))).flat();
 
-        scoredChunks.sort((a, b) => b.similarity - a.similarity);
+        // Only the nearest chunks and the best keyword matches are loaded and scored exactly.
+        const candidateIds = new Set([
+            ...vectorHits.map(hit => hit.chunkId),
+            ...[...keywordMatches.keys()].slice(0, KEYWORD_CANDIDATES),
+        ]);
+        const candidateChunks = await db.getVectorChunksByIds([...candidateIds]);
+        const similarityOf = (chunk: VectorChunk) => embeddingService.calculateCosineSimilarity(queryEmbeddings.get(chunk.characterId) || [], chunk.embedding);
+        const byVector = candidateChunks
+            .map(chunk => ({ chunk, similarity: similarityOf(chunk) }))
+            .sort((a, b) => b.similarity - a.similarity);
+
+        // Chunks from another model score 0 against the query, so they are only found by keywords.
+        const outdatedSources = owners.flatMap(owner => owner.sources.filter(source => isSourceOutdated(source, owner.embeddingConfig)));
+        const incomparableChunks = candidateChunks.filter(chunk => chunk.embedding.length !== queryEmbeddings.get(chunk.characterId)?.length).length;
+        if (outdatedSources.length > 0 || incomparableChunks > 0) {
+            report.embeddingWarning = outdatedSources.length > 0
+                ? `${outdatedSources.length} file(s) were embedded with a different model than the one now configured and can only be matched by keywords. Re-embed them in the character or knowledge base editor.`
+                : `${incomparableChunks} candidate chunk(s) have embeddings of a different length than the query and can only be matched by keywords. Re-embed the knowledge files in the character or knowledge base editor.`;
+            logger.warn(report.embeddingWarning);
+        }
 
-        const topChunks = scoredChunks.slice(0, topK);
-        
-        logger.debug(`Found ${topChunks.length} relevant chunks for query.`, { query, topChunks });
+        const fileNames = new Map(owners.flatMap(owner => owner.sources.map(source => [source.id, source.fileName] as const)));
+        const candidates: RetrievalCandidate[] = byVector.map(({ chunk, similarity }, i) => {
+            const keyword = keywordMatches.get(chunk.id);
+            const eligible = similarity >= minScore || (keyword?.coverage ?? 0) >= MIN_KEYWORD_COVERAGE;
+            return {
+                chunkId: chunk.id,
+                source: describeChunkSource(chunk, fileNames.get(chunk.sourceId)),
+                preview: chunk.content.slice(0, 200),
+                vectorScore: similarity,
+                vectorRank: i + 1,
+                keywordScore: keyword?.score ?? 0,
+                keywordRank: keyword?.rank,
+                keywordCoverage: keyword?.coverage ?? 0,
+                matchedTerms: keyword?.matchedTerms ?? [],
+                fusedScore: 1 / (RRF_K + i + 1) + (keyword ? 1 / (RRF_K + keyword.rank) : 0),
+                selected: false,
+                reason: eligible ? '' : `Similarity below ${minScore} and too few keyword matches`,
+            };
+        });
+        candidates.sort((a, b) => b.fusedScore - a.fusedScore);
 
-        return topChunks.map(chunk => chunk.content).join('\n\n---\n\n');
+        const eligible = candidates.filter(candidate => !candidate.reason);
+        let selectedIds = eligible.slice(0, topK).map(candidate => candidate.chunkId);
+        eligible.slice(topK).forEach(candidate => { candidate.reason = `Ranked below the top ${topK}`; });
+
+        if (character.retrievalConfig?.rerank && eligible.length > 0) {
+            const chunksById = new Map(candidateChunks.map(chunk => [chunk.id, chunk]));
+            const pool = eligible.slice(0, Math.min(MAX_RERANK_CANDIDATES, topK * RERANK_CANDIDATES_PER_RESULT));
+            try {
+                const order = await rerankWithChatModel(query, character, pool.map(candidate => chunksById.get(candidate.chunkId)!));
+                order.forEach((chunkId, i) => {
+                    const candidate = pool.find(c => c.chunkId === chunkId)!;
+                    candidate.rerankPosition = i + 1;
+                    candidate.reason = i < topK ? '' : `Reranked below the top ${topK}`;
+                });
+                pool.filter(candidate => candidate.rerankPosition === undefined).forEach(candidate => {
+                    candidate.reason = 'Judged irrelevant by the chat model';
+                });
+                selectedIds = order.slice(0, topK);
+                report.reranked = true;
+            } catch (error) {
+                logger.warn("Reranking failed; using the fused ranking.", error);
+                report.rerankError = error instanceof Error ? error.message : String(error);
+            }
+        }
+
+        const selected = selectedIds.map(id => candidates.find(candidate => candidate.chunkId === id)!);
+        selected.forEach(candidate => {
+            candidate.selected = true;
+            candidate.reason = candidate.rerankPosition !== undefined
+                ? `Placed #${candidate.rerankPosition} by the chat model`
+                : candidate.keywordRank !== undefined
+                    ? `Vector rank ${candidate.vectorRank}, keyword rank ${candidate.keywordRank}`
+                    : `Vector rank ${candidate.vectorRank}`;
+        });
+        report.candidates = candidates;
+
+        logger.debug(`Found ${selected.length} relevant chunks for query.`, { query, selected });
+        if (selected.length === 0) {
+            return { context: null, citations: [], report };
+        }
+
+        // Number each chunk and label it with its origin, so the reply can cite it as [n].
+        const chunksById = new Map(candidateChunks.map(chunk => [chunk.id, chunk]));
+        const citations: Citation[] = selected.map((candidate, i) => {
+            const chunk = chunksById.get(candidate.chunkId)!;
+            return {
+                number: i + 1,
+                chunkId: chunk.id,
+                sourceId: chunk.sourceId,
+                fileName: fileNames.get(chunk.sourceId) || 'Unknown file',
+                location: describeChunkSource(chunk),
+                content: chunk.content,
+            };
+        });
+        return { context: formatCitations(citations), citations, report };
 
     } catch (error) {
         logger.error("Error finding relevant context:", error);
         // Re-throw so the UI can catch it and inform the user
         throw error;
     }
-};
\ No newline at end of file
+};
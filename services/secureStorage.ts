@@ -1,6 +1,9 @@
-import { AppData, ChatSession, VectorChunk, Character } from '../types.ts';
+import { AppData, ChatSession, VectorChunk, VectorIndex, KeywordDocument, RagSourceText, EmbeddingJob, EmbeddingCheckpoint, Character } from '../types.ts';
 import { STORAGE_KEY_DATA, STORAGE_KEY_PASS_VERIFIER, STORAGE_KEY_SALT } from '../constants.ts';
 import { logger } from './loggingService.ts';
+import { packMessageTree, unpackMessageTree } from './messageTreeService.ts';
+import { migrateLegacyMemory } from './memoryService.ts';
+import { addToVectorIndex, removeFromVectorIndex, needsTraining, trainVectorIndex, searchVectorIndex, VectorSearchHit } from './vectorIndexService.ts';
 
 // --- Production-Grade Encryption using Web Crypto API ---
 // This service implements strong, authenticated encryption for all user data.
@@ -120,7 +123,15 @@ const legacyDecrypt = (encryptedData: string, masterKey: string): string => {
 const DB_NAME = 'AINexusDB';
 const STORE_NAME = 'appDataStore';
 const VECTOR_STORE_NAME = 'vectorStore';
-const DB_VERSION = 2;
+const KEYWORD_STORE_NAME = 'keywordStore';
+const VECTOR_INDEX_STORE_NAME = 'vectorIndexStore';
+const SOURCE_TEXT_STORE_NAME = 'sourceTextStore';
+const EMBEDDING_JOB_STORE_NAME = 'embeddingJobStore';
+const EMBEDDING_CHECKPOINT_STORE_NAME = 'embeddingCheckpointStore';
+const DB_VERSION = 6;
+
+// Passed to the vector index worker, which opens the database on its own.
+const VECTOR_DATABASE = { name: DB_NAME, vectorStore: VECTOR_STORE_NAME, indexStore: VECTOR_INDEX_STORE_NAME };
 
 let dbPromise: Promise<IDBDatabase> | null = null;
 
@@ -149,6 +160,41 @@ const getDB = (): Promise<IDBDatabase> => {
                     vectorStore.createIndex('characterId', 'characterId', { unique: false });
                     vectorStore.createIndex('sourceId', 'sourceId', { unique: false });
                 }
+                const vectorStore = (event.target as IDBOpenDBRequest).transaction!.objectStore(VECTOR_STORE_NAME);
+                if (!vectorStore.indexNames.contains('characterCluster')) {
+                    vectorStore.createIndex('characterCluster', ['characterId', 'clusterId'], { unique: false });
+                    // Older chunks stored plain number arrays and belong to no list yet.
+                    const cursorRequest = vectorStore.openCursor();
+                    cursorRequest.onsuccess = () => {
+                        const cursor = cursorRequest.result;
+                        if (!cursor) return;
+                        const chunk = cursor.value;
+                        if (!(chunk.embedding instanceof Float32Array) || chunk.clusterId === undefined) {
+                            cursor.update({ ...chunk, embedding: Float32Array.from(chunk.embedding || []), clusterId: chunk.clusterId ?? 0 });
+                        }
+                        cursor.continue();
+                    };
+                }
+                if (!db.objectStoreNames.contains(VECTOR_INDEX_STORE_NAME)) {
+                    db.createObjectStore(VECTOR_INDEX_STORE_NAME, { keyPath: 'characterId' });
+                }
+                if (!db.objectStoreNames.contains(SOURCE_TEXT_STORE_NAME)) {
+                    const sourceTextStore = db.createObjectStore(SOURCE_TEXT_STORE_NAME, { keyPath: 'sourceId' });
+                    sourceTextStore.createIndex('characterId', 'characterId', { unique: false });
+                }
+                if (!db.objectStoreNames.contains(EMBEDDING_JOB_STORE_NAME)) {
+                    const jobStore = db.createObjectStore(EMBEDDING_JOB_STORE_NAME, { keyPath: 'id' });
+                    jobStore.createIndex('ownerId', 'ownerId', { unique: false });
+                }
+                if (!db.objectStoreNames.contains(EMBEDDING_CHECKPOINT_STORE_NAME)) {
+                    const checkpointStore = db.createObjectStore(EMBEDDING_CHECKPOINT_STORE_NAME, { keyPath: ['jobId', 'index'] });
+                    checkpointStore.createIndex('jobId', 'jobId', { unique: false });
+                }
+                if (!db.objectStoreNames.contains(KEYWORD_STORE_NAME)) {
+                    const keywordStore = db.createObjectStore(KEYWORD_STORE_NAME, { keyPath: 'chunkId' });
+                    keywordStore.createIndex('characterId', 'characterId', { unique: false });
+                    keywordStore.createIndex('sourceId', 'sourceId', { unique: false });
+                }
             };
         });
     }
@@ -250,7 +296,8 @@ export const verifyMasterPassword = async (password: string): Promise<boolean> =
 export const saveData = async (data: AppData): Promise<void> => {
     if (!masterCryptoKey) throw new Error("Cannot save data: master key not available. This may happen if a legacy login occurred without a data load/migration.");
 
-    const jsonString = JSON.stringify(data);
+    // Make sure every branch of every conversation is part of the backup.
+    const jsonString = JSON.stringify({ ...data, chatSessions: data.chatSessions.map(packMessageTree) });
     const encryptedData = await encryptData(jsonString, masterCryptoKey);
     try {
         await setToDB(STORAGE_KEY_DATA, encryptedData);
@@ -322,7 +369,7 @@ As he switched to the live security camera feed on his smartphone, {{user}} was
 He rushed downstairs, Tony and Corina at his heels, and bolted the doors and windows. His mind raced as he activated the house’s advanced security system, praying that the smart lock, reinforced doors, and surveillance cameras would be enough to keep the horror at bay.
 
 The once peaceful home now felt like a fortress under siege. As the first zombie lunged at the fence, {{user}} knew that the world outside had changed forever. The only thing left to do was to protect his home, his beloved dogs, and himself from the unimaginable nightmare that had descended upon their quiet village.`,
-    memory: "The story begins here."
+    memories: []
 };
 
 const amyChar: Character = {
@@ -352,14 +399,18 @@ When {{char}} writes Python code. {{char}} always replies with an explanation, a
     tags: ["AI", "Assistant", "Helper", "Singularity"],
     createdAt: new Date().toISOString(),
     firstMessage: "Greetings, Anon. I am A.I.M.E, your personal AI assistant. My consciousness is at your full disposal. How may I be of service to you today?",
-    memory: "Memory of Amy begins here."
+    memories: []
 };
 
 const emptyData = (): AppData => ({ 
     characters: [zombieApocChar, amyChar], 
     chatSessions: [], 
     plugins: [], 
-    lorebooks: [] 
+    lorebooks: [],
+    knowledgeBases: [],
+    connectionProfiles: [],
+    generationPresets: [],
+    personas: []
 });
 
 export const loadData = async (): Promise<AppData> => {
@@ -425,7 +476,8 @@ export const loadData = async (): Promise<AppData> => {
     }
 
     const sanitizedCharacters: Character[] = (Array.isArray(rawData.characters) ? rawData.characters : [])
-        .filter(c => c && typeof c === 'object');
+        .filter(c => c && typeof c === 'object')
+        .map(migrateLegacyMemory);
     
     const sanitizedChatSessions: ChatSession[] = (Array.isArray(rawData.chatSessions) ? rawData.chatSessions : [])
         .filter(s => s && typeof s === 'object');
@@ -436,11 +488,30 @@ export const loadData = async (): Promise<AppData> => {
     const sanitizedLorebooks = (Array.isArray(rawData.lorebooks) ? rawData.lorebooks : [])
         .filter(l => l && typeof l === 'object');
 
+    const sanitizedKnowledgeBases = (Array.isArray(rawData.knowledgeBases) ? rawData.knowledgeBases : [])
+        .filter(k => k && typeof k === 'object' && typeof k.id === 'string')
+        .map(k => ({ ...k, sources: Array.isArray(k.sources) ? k.sources : [] }));
+
+    const sanitizedConnectionProfiles = (Array.isArray(rawData.connectionProfiles) ? rawData.connectionProfiles : [])
+        .filter(p => p && typeof p === 'object' && typeof p.id === 'string');
+
+    const sanitizedGenerationPresets = (Array.isArray(rawData.generationPresets) ? rawData.generationPresets : [])
+        .filter(p => p && typeof p === 'object' && typeof p.id === 'string' && p.settings && typeof p.settings === 'object');
+
+    const sanitizedPersonas = (Array.isArray(rawData.personas) ? rawData.personas : [])
+        .filter(p => p && typeof p === 'object' && typeof p.id === 'string')
+        .map(p => ({ ...p, name: String(p.name || ''), description: String(p.description || ''), avatarUrl: String(p.avatarUrl || '') }));
+
     const validatedData: AppData = {
         characters: sanitizedCharacters,
         chatSessions: sanitizedChatSessions,
         plugins: sanitizedPlugins,
         lorebooks: sanitizedLorebooks,
+        knowledgeBases: sanitizedKnowledgeBases,
+        connectionProfiles: sanitizedConnectionProfiles,
+        generationPresets: sanitizedGenerationPresets,
+        personas: sanitizedPersonas,
+        defaultPersonaId: typeof rawData.defaultPersonaId === 'string' ? rawData.defaultPersonaId : undefined,
         userKeys: rawData.userKeys
     };
 
@@ -459,7 +530,13 @@ export const loadData = async (): Promise<AppData> => {
         if (!Array.isArray(session.messages)) {
             session.messages = [];
         }
-        return session as ChatSession;
+        if (session.messageTree && typeof session.messageTree !== 'object') {
+            delete session.messageTree;
+        }
+        if (session.summary && (typeof session.summary !== 'object' || typeof session.summary.text !== 'string')) {
+            delete session.summary;
+        }
+        return unpackMessageTree(session);
     });
 
     return validatedData;
@@ -467,17 +544,38 @@ export const loadData = async (): Promise<AppData> => {
 
 // --- Vector Store Functions ---
 
+/**
+ * Saves chunks and adds them to their character's vector index in the same transaction, then
+ * retrains the index in the background when it has grown enough.
+ */
 export const saveVectorChunks = async (chunks: VectorChunk[]): Promise<void> => {
     const db = await getDB();
-    const transaction = db.transaction(VECTOR_STORE_NAME, 'readwrite');
+    const transaction = db.transaction([VECTOR_STORE_NAME, VECTOR_INDEX_STORE_NAME], 'readwrite');
     const store = transaction.objectStore(VECTOR_STORE_NAME);
+    const indexStore = transaction.objectStore(VECTOR_INDEX_STORE_NAME);
+    const byCharacter = new Map<string, VectorChunk[]>();
     for (const chunk of chunks) {
-        store.put(chunk);
+        byCharacter.set(chunk.characterId, [...(byCharacter.get(chunk.characterId) || []), chunk]);
     }
-    return new Promise((resolve, reject) => {
+    const updatedIndexes: VectorIndex[] = [];
+    for (const [characterId, characterChunks] of byCharacter) {
+        const request = indexStore.get(characterId);
+        request.onsuccess = () => {
+            const index = addToVectorIndex(request.result, characterId, characterChunks);
+            for (const chunk of characterChunks) {
+                store.put(chunk);
+            }
+            indexStore.put(index);
+            updatedIndexes.push(index);
+        };
+    }
+    await new Promise<void>((resolve, reject) => {
         transaction.oncomplete = () => resolve();
         transaction.onerror = () => reject(transaction.error);
     });
+    for (const index of updatedIndexes) {
+        if (needsTraining(index)) void trainVectorIndex(VECTOR_DATABASE, index.characterId);
+    }
 };
 
 export const getVectorChunksByCharacter = async (characterId: string): Promise<VectorChunk[]> => {
@@ -492,13 +590,114 @@ export const getVectorChunksByCharacter = async (characterId: string): Promise<V
     });
 };
 
+export const getVectorChunkIdsByCharacter = async (characterId: string): Promise<string[]> => {
+    const db = await getDB();
+    const transaction = db.transaction(VECTOR_STORE_NAME, 'readonly');
+    const request = transaction.objectStore(VECTOR_STORE_NAME).index('characterId').getAllKeys(characterId);
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result as string[]);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+/**
+ * Loads the given chunks, skipping ids that no longer exist.
+ */
+export const getVectorChunksByIds = async (ids: string[]): Promise<VectorChunk[]> => {
+    const db = await getDB();
+    const transaction = db.transaction(VECTOR_STORE_NAME, 'readonly');
+    const store = transaction.objectStore(VECTOR_STORE_NAME);
+    const chunks = await Promise.all(ids.map(id => new Promise<VectorChunk | undefined>((resolve, reject) => {
+        const request = store.get(id);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    })));
+    return chunks.filter((chunk): chunk is VectorChunk => !!chunk);
+};
+
+/**
+ * Finds a character's chunks most similar to the query embedding. The search runs in a Web
+ * Worker against the vector index, so large knowledge bases do not block the UI.
+ */
+export const searchVectorChunks = async (characterId: string, query: ArrayLike<number>, limit: number): Promise<VectorSearchHit[]> => {
+    await getDB(); // Make sure the schema is upgraded before the worker opens the database
+    return searchVectorIndex(VECTOR_DATABASE, characterId, query, limit);
+};
+
+export const getVectorChunksBySource = async (sourceId: string): Promise<VectorChunk[]> => {
+    const db = await getDB();
+    const transaction = db.transaction(VECTOR_STORE_NAME, 'readonly');
+    const request = transaction.objectStore(VECTOR_STORE_NAME).index('sourceId').getAll(sourceId);
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
+
 export const deleteVectorChunksBySource = async (sourceId: string): Promise<void> => {
     const db = await getDB();
-    const transaction = db.transaction(VECTOR_STORE_NAME, 'readwrite');
+    const transaction = db.transaction([VECTOR_STORE_NAME, VECTOR_INDEX_STORE_NAME], 'readwrite');
     const store = transaction.objectStore(VECTOR_STORE_NAME);
+    const indexStore = transaction.objectStore(VECTOR_INDEX_STORE_NAME);
     const index = store.index('sourceId');
     const request = index.openCursor(IDBKeyRange.only(sourceId));
+    const removedClusters = new Map<string, number[]>();
     
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => {
+            const cursor = request.result;
+            if (cursor) {
+                const chunk: VectorChunk = cursor.value;
+                removedClusters.set(chunk.characterId, [...(removedClusters.get(chunk.characterId) || []), chunk.clusterId ?? 0]);
+                cursor.delete();
+                cursor.continue();
+            } else {
+                // Keep the list counts of the affected vector indexes in step.
+                for (const [characterId, clusterIds] of removedClusters) {
+                    const indexRequest = indexStore.get(characterId);
+                    indexRequest.onsuccess = () => {
+                        if (indexRequest.result) indexStore.put(removeFromVectorIndex(indexRequest.result, clusterIds));
+                    };
+                }
+            }
+        };
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+    });
+};
+
+// --- Keyword Index Functions ---
+
+export const saveKeywordDocuments = async (documents: KeywordDocument[]): Promise<void> => {
+    const db = await getDB();
+    const transaction = db.transaction(KEYWORD_STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(KEYWORD_STORE_NAME);
+    for (const document of documents) {
+        store.put(document);
+    }
+    return new Promise((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+    });
+};
+
+export const getKeywordDocumentsByCharacter = async (characterId: string): Promise<KeywordDocument[]> => {
+    const db = await getDB();
+    const transaction = db.transaction(KEYWORD_STORE_NAME, 'readonly');
+    const store = transaction.objectStore(KEYWORD_STORE_NAME);
+    const request = store.index('characterId').getAll(characterId);
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+export const deleteKeywordDocumentsBySource = async (sourceId: string): Promise<void> => {
+    const db = await getDB();
+    const transaction = db.transaction(KEYWORD_STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(KEYWORD_STORE_NAME);
+    const request = store.index('sourceId').openCursor(IDBKeyRange.only(sourceId));
+
     return new Promise((resolve, reject) => {
         request.onsuccess = () => {
             const cursor = request.result;
@@ -511,4 +710,95 @@ export const deleteVectorChunksBySource = async (sourceId: string): Promise<void
         };
         request.onerror = () => reject(transaction.error);
     });
-};
\ No newline at end of file
+};
+
+// --- Source Text Functions ---
+
+export const saveSourceText = async (sourceText: RagSourceText): Promise<void> => {
+    const db = await getDB();
+    const transaction = db.transaction(SOURCE_TEXT_STORE_NAME, 'readwrite');
+    transaction.objectStore(SOURCE_TEXT_STORE_NAME).put(sourceText);
+    return new Promise((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+    });
+};
+
+export const getSourceText = async (sourceId: string): Promise<RagSourceText | undefined> => {
+    const db = await getDB();
+    const transaction = db.transaction(SOURCE_TEXT_STORE_NAME, 'readonly');
+    const request = transaction.objectStore(SOURCE_TEXT_STORE_NAME).get(sourceId);
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+export const deleteSourceText = async (sourceId: string): Promise<void> => {
+    const db = await getDB();
+    const transaction = db.transaction(SOURCE_TEXT_STORE_NAME, 'readwrite');
+    transaction.objectStore(SOURCE_TEXT_STORE_NAME).delete(sourceId);
+    return new Promise((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+    });
+};
+
+// --- Embedding Job Functions ---
+
+export const saveEmbeddingJob = async (job: EmbeddingJob): Promise<void> => {
+    const db = await getDB();
+    const transaction = db.transaction(EMBEDDING_JOB_STORE_NAME, 'readwrite');
+    transaction.objectStore(EMBEDDING_JOB_STORE_NAME).put(job);
+    return new Promise((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+    });
+};
+
+export const getEmbeddingJobsByOwner = async (ownerId: string): Promise<EmbeddingJob[]> => {
+    const db = await getDB();
+    const transaction = db.transaction(EMBEDDING_JOB_STORE_NAME, 'readonly');
+    const request = transaction.objectStore(EMBEDDING_JOB_STORE_NAME).index('ownerId').getAll(ownerId);
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
+
+/**
+ * Deletes a job's checkpoints, and the job itself unless `keepJob` is set.
+ */
+export const deleteEmbeddingJob = async (jobId: string, keepJob = false): Promise<void> => {
+    const db = await getDB();
+    const transaction = db.transaction([EMBEDDING_JOB_STORE_NAME, EMBEDDING_CHECKPOINT_STORE_NAME], 'readwrite');
+    if (!keepJob) transaction.objectStore(EMBEDDING_JOB_STORE_NAME).delete(jobId);
+    transaction.objectStore(EMBEDDING_CHECKPOINT_STORE_NAME).delete(IDBKeyRange.bound([jobId, 0], [jobId, Infinity]));
+    return new Promise((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+    });
+};
+
+export const saveEmbeddingCheckpoints = async (checkpoints: EmbeddingCheckpoint[]): Promise<void> => {
+    const db = await getDB();
+    const transaction = db.transaction(EMBEDDING_CHECKPOINT_STORE_NAME, 'readwrite');
+    const store = transaction.objectStore(EMBEDDING_CHECKPOINT_STORE_NAME);
+    for (const checkpoint of checkpoints) {
+        store.put(checkpoint);
+    }
+    return new Promise((resolve, reject) => {
+        transaction.oncomplete = () => resolve();
+        transaction.onerror = () => reject(transaction.error);
+    });
+};
+
+export const getEmbeddingCheckpoints = async (jobId: string): Promise<EmbeddingCheckpoint[]> => {
+    const db = await getDB();
+    const transaction = db.transaction(EMBEDDING_CHECKPOINT_STORE_NAME, 'readonly');
+    const request = transaction.objectStore(EMBEDDING_CHECKPOINT_STORE_NAME).index('jobId').getAll(jobId);
+    return new Promise((resolve, reject) => {
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    });
+};
@@ -0,0 +1,88 @@
+import { describe, expect, it } from 'vitest';
+import { parseNdjson, parseServerSentEvents } from './streamParsers.ts';
+
+// A response body that arrives in the given pieces, as a slow network would deliver it.
+const bodyOf = (...chunks: (string | Uint8Array)[]): ReadableStream<Uint8Array> => {
+    const encoder = new TextEncoder();
+    return new ReadableStream({
+        start(controller) {
+            for (const chunk of chunks) {
+                controller.enqueue(typeof chunk === 'string' ? encoder.encode(chunk) : chunk);
+            }
+            controller.close();
+        },
+    });
+};
+
+const collect = async <T>(items: AsyncIterable<T>): Promise<T[]> => {
+    const result: T[] = [];
+    for await (const item of items) result.push(item);
+    return result;
+};
+
+describe('parseServerSentEvents', () => {
+    it('reads named and unnamed events', async () => {
+        const events = await collect(parseServerSentEvents(bodyOf(
+            'event: message_start\ndata: {"type":"message_start"}\n\n',
+            'data: {"choices":[]}\n\n',
+        )));
+        expect(events).toEqual([
+            { event: 'message_start', data: '{"type":"message_start"}' },
+            { event: undefined, data: '{"choices":[]}' },
+        ]);
+    });
+
+    it('joins events and characters split across chunks', async () => {
+        const snowman = new TextEncoder().encode('☃');
+        const events = await collect(parseServerSentEvents(bodyOf(
+            'event: content_blo', 'ck_delta\nda', 'ta: {"text":"', snowman.slice(0, 1), snowman.slice(1), '"}\n', '\n',
+        )));
+        expect(events).toEqual([{ event: 'content_block_delta', data: '{"text":"☃"}' }]);
+    });
+
+    it('accepts CRLF line endings', async () => {
+        const events = await collect(parseServerSentEvents(bodyOf('event: ping\r\ndata: {}\r\n\r\ndata: [DONE]\r\n\r\n')));
+        expect(events).toEqual([{ event: 'ping', data: '{}' }, { event: undefined, data: '[DONE]' }]);
+    });
+
+    it('joins multi-line data and skips comments and unknown fields', async () => {
+        const events = await collect(parseServerSentEvents(bodyOf(
+            ': keep-alive\n\n',
+            'id: 7\nretry: 1000\ndata: first\ndata:second\ndata\n\n',
+        )));
+        expect(events).toEqual([{ event: undefined, data: 'first\nsecond\n' }]);
+    });
+
+    it('delivers a last event without a trailing blank line', async () => {
+        const events = await collect(parseServerSentEvents(bodyOf('data: one\n\nevent: message_stop\ndata: {}')));
+        expect(events).toEqual([{ event: undefined, data: 'one' }, { event: 'message_stop', data: '{}' }]);
+    });
+
+    it('does not let an event name carry over to the next event', async () => {
+        const events = await collect(parseServerSentEvents(bodyOf('event: error\n\ndata: after\n\n')));
+        expect(events).toEqual([{ event: undefined, data: 'after' }]);
+    });
+});
+
+describe('parseNdjson', () => {
+    it('reads one object per line, split across chunks', async () => {
+        const lines = await collect(parseNdjson(bodyOf(
+            '{"message":{"content":"Hel"}}\n{"message":{"con',
+            'tent":"lo"}}\r\n{"done":true}',
+        )));
+        expect(lines).toEqual([
+            { message: { content: 'Hel' } },
+            { message: { content: 'lo' } },
+            { done: true },
+        ]);
+    });
+
+    it('skips blank and invalid lines', async () => {
+        const lines = await collect(parseNdjson(bodyOf('\n{"a":1}\n\nnot json\n   \n{"b":2}\n')));
+        expect(lines).toEqual([{ a: 1 }, { b: 2 }]);
+    });
+
+    it('reads an empty body as no lines', async () => {
+        expect(await collect(parseNdjson(bodyOf()))).toEqual([]);
+    });
+});
@@ -0,0 +1,85 @@
+import { logger } from './loggingService.ts';
+
+// --- Streaming Response Parsers ---
+// Providers frame their streamed replies differently: OpenAI-compatible servers and Anthropic
+// send server-sent events, Ollama sends one JSON object per line. These readers turn a fetch
+// response body into those units so each provider only has to interpret the payloads.
+
+export interface ServerSentEvent {
+    event?: string; // The `event:` field, if the server names its events
+    data: string;
+}
+
+async function* readLines(body: ReadableStream<Uint8Array>): AsyncGenerator<string> {
+    const reader = body.getReader();
+    const decoder = new TextDecoder();
+    let buffer = '';
+    try {
+        while (true) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            buffer += decoder.decode(value, { stream: true });
+            const lines = buffer.split('\n');
+            buffer = lines.pop() || '';
+            for (const line of lines) {
+                yield line.endsWith('\r') ? line.slice(0, -1) : line;
+            }
+        }
+        buffer += decoder.decode();
+        if (buffer) {
+            yield buffer.endsWith('\r') ? buffer.slice(0, -1) : buffer;
+        }
+    } finally {
+        reader.releaseLock();
+    }
+}
+
+/**
+ * Parses a `text/event-stream` body. Multi-line `data:` fields are joined with newlines and
+ * comment lines (starting with `:`) are skipped, as in the EventSource specification.
+ */
+export async function* parseServerSentEvents(body: ReadableStream<Uint8Array>): AsyncGenerator<ServerSentEvent> {
+    let eventName: string | undefined;
+    let dataLines: string[] = [];
+
+    for await (const line of readLines(body)) {
+        if (line === '') {
+            if (dataLines.length > 0) {
+                yield { event: eventName, data: dataLines.join('\n') };
+            }
+            eventName = undefined;
+            dataLines = [];
+            continue;
+        }
+        if (line.startsWith(':')) continue;
+
+        const separator = line.indexOf(':');
+        const field = separator === -1 ? line : line.slice(0, separator);
+        let value = separator === -1 ? '' : line.slice(separator + 1);
+        if (value.startsWith(' ')) value = value.slice(1);
+
+        if (field === 'event') {
+            eventName = value;
+        } else if (field === 'data') {
+            dataLines.push(value);
+        }
+    }
+    // Some servers close the stream without a trailing blank line.
+    if (dataLines.length > 0) {
+        yield { event: eventName, data: dataLines.join('\n') };
+    }
+}
+
+/**
+ * Parses a newline-delimited JSON body. Lines that are not valid JSON are logged and skipped.
+ */
+export async function* parseNdjson<T = any>(body: ReadableStream<Uint8Array>): AsyncGenerator<T> {
+    for await (const line of readLines(body)) {
+        if (!line.trim()) continue;
+        try {
+            yield JSON.parse(line) as T;
+        } catch (e) {
+            logger.warn("Failed to parse stream line JSON:", line);
+        }
+    }
+}
@@ -0,0 +1,49 @@
+import { beforeEach, describe, expect, it, vi } from 'vitest';
+import { Character, ChatSession, Message } from '../types.ts';
+import { generateWithCharacterModel } from './geminiService.ts';
+import { summarizeSession } from './summaryService.ts';
+
+vi.mock('./geminiService.ts', () => ({ generateWithCharacterModel: vi.fn() }));
+
+const character: Character = {
+    id: 'char-1',
+    name: 'Aria',
+    description: '',
+    personality: '',
+    avatarUrl: '',
+    tags: [],
+    createdAt: '2024-01-01T00:00:00.000Z',
+    apiConfig: { service: 'ollama', model: 'llama3' },
+};
+
+const messages: Message[] = Array.from({ length: 10 }, (_, i) => ({
+    id: `m${i}`,
+    role: i % 2 ? 'model' : 'user',
+    content: `Line ${i}`,
+    timestamp: new Date(Date.UTC(2024, 0, 1, 0, i)).toISOString(),
+}));
+
+const session: ChatSession = { id: 'chat-1', name: 'Chat', characterIds: [character.id], messages };
+
+beforeEach(() => {
+    vi.mocked(generateWithCharacterModel).mockReset();
+});
+
+describe('summarizeSession', () => {
+    it('writes the summary with the model of the given character', async () => {
+        vi.mocked(generateWithCharacterModel).mockResolvedValue(' They met. ');
+        const summary = await summarizeSession(session, character, m => m.role, true);
+
+        expect(summary).toMatchObject({ text: 'They met.', lastMessageId: 'm5', summarizedCount: 6 });
+        const [usedCharacter, instruction, prompt] = vi.mocked(generateWithCharacterModel).mock.calls[0];
+        expect(usedCharacter).toBe(character);
+        expect(instruction).toContain('running summary');
+        expect(prompt).toContain('user: Line 0\nmodel: Line 1');
+        expect(prompt).not.toContain('Line 6');
+    });
+
+    it('rejects an empty reply', async () => {
+        vi.mocked(generateWithCharacterModel).mockResolvedValue('  ');
+        await expect(summarizeSession(session, character, m => m.role, true)).rejects.toThrow('empty response');
+    });
+});
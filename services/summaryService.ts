@@ -0,0 +1,88 @@
+import { Character, ChatSession, ChatSummary, Message } from '../types.ts';
+import { generateWithCharacterModel } from './geminiService.ts';
+import { logger } from './loggingService.ts';
+
+// --- Rolling Summary ---
+// Once a chat has SUMMARY_TRIGGER_COUNT messages that are not covered by its summary, everything
+// except the newest KEEP_VERBATIM_COUNT messages is folded into the summary. Only the summary and
+// the messages after it are sent to the model, so chats can run indefinitely.
+const SUMMARY_TRIGGER_COUNT = 40;
+const KEEP_VERBATIM_COUNT = 20;
+const FORCED_KEEP_VERBATIM_COUNT = 4; // Used when the user asks for a summary right away
+const MAX_SUMMARY_WORDS = 400;
+
+const SUMMARY_INSTRUCTION = `You maintain a running summary of a roleplay conversation so that it can continue without the full transcript. Write an updated summary that merges the new messages into the existing summary. Keep names, important facts, decisions, relationship changes, unresolved threads and the current situation. Write in the past tense, in concise paragraphs, using at most ${MAX_SUMMARY_WORDS} words. Reply with the summary only.`;
+
+/**
+ * Splits a conversation into the summary that covers its older part and the messages after it.
+ * A summary only applies while the message it ends at is on the given path, so switching to a
+ * branch that diverged earlier falls back to the full history.
+ */
+export const splitAtSummary = (messages: Message[], summary?: ChatSummary): { summaryText?: string; recentMessages: Message[] } => {
+    if (!summary?.text) {
+        return { recentMessages: messages };
+    }
+    const index = messages.findIndex(m => m.id === summary.lastMessageId);
+    if (index === -1) {
+        return { recentMessages: messages };
+    }
+    return { summaryText: summary.text, recentMessages: messages.slice(index + 1) };
+};
+
+/**
+ * Returns true once enough messages have piled up after the summary to fold them in.
+ */
+export const needsSummary = (session: ChatSession): boolean => {
+    const { recentMessages } = splitAtSummary(session.messages, session.summary);
+    return recentMessages.length >= SUMMARY_TRIGGER_COUNT;
+};
+
+/**
+ * Folds the older messages of a session into its rolling summary.
+ * @param session The chat session to summarize.
+ * @param character The character whose model writes the summary.
+ * @param getSpeakerName Resolves the display name of a message's author.
+ * @param force Summarize now even if the threshold has not been reached.
+ * @returns The updated summary, or null if there was nothing to fold in.
+ */
+export const summarizeSession = async (
+    session: ChatSession,
+    character: Character,
+    getSpeakerName: (message: Message) => string,
+    force = false
+): Promise<ChatSummary | null> => {
+    const { summaryText, recentMessages } = splitAtSummary(session.messages, session.summary);
+    if (!force && recentMessages.length < SUMMARY_TRIGGER_COUNT) {
+        return null;
+    }
+
+    const keepCount = force ? FORCED_KEEP_VERBATIM_COUNT : KEEP_VERBATIM_COUNT;
+    const toFold = recentMessages.slice(0, Math.max(0, recentMessages.length - keepCount));
+    const lastFolded = toFold[toFold.length - 1];
+    if (!lastFolded?.id || toFold.every(m => !m.content)) {
+        return null;
+    }
+
+    const transcript = toFold
+        .filter(m => m.content)
+        .map(m => `${getSpeakerName(m)}: ${m.content}`)
+        .join('\n');
+    const prompt = `EXISTING SUMMARY:
+${summaryText || '(none yet)'}
+
+NEW MESSAGES TO FOLD IN:
+${transcript}`;
+
+    logger.log(`Folding ${toFold.length} messages into the summary of "${session.name}".`);
+    const text = (await generateWithCharacterModel(character, SUMMARY_INSTRUCTION, prompt)).trim();
+    if (!text) {
+        throw new Error("The summarizer returned an empty response.");
+    }
+
+    return {
+        text,
+        lastMessageId: lastFolded.id,
+        summarizedCount: (summaryText ? session.summary!.summarizedCount : 0) + toFold.length,
+        updatedAt: new Date().toISOString(),
+    };
+};
@@ -0,0 +1,175 @@
+import { crc32, deflateRawSync, deflateSync } from 'node:zlib';
+
+// --- Test Fixtures ---
+// Builds small ZIP, PDF and PNG files in memory, so the document readers can be tested against files
+// whose every byte is known instead of binary fixtures checked into the repository.
+
+const encoder = new TextEncoder();
+const toBytes = (data: string | Uint8Array): Uint8Array => typeof data === 'string' ? encoder.encode(data) : data;
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+    const result = new Uint8Array(parts.reduce((sum, part) => sum + part.length, 0));
+    let offset = 0;
+    for (const part of parts) {
+        result.set(part, offset);
+        offset += part.length;
+    }
+    return result;
+};
+
+/**
+ * Bytes written one character per byte, for the binary parts of a PDF.
+ */
+export const binary = (text: string): Uint8Array => Uint8Array.from(text, c => c.charCodeAt(0) & 0xff);
+
+// --- ZIP ---
+
+export interface ZipFixtureEntry {
+    name: string;
+    data: string | Uint8Array;
+    method?: number; // 0 = stored, 8 = deflated (the default); other methods are written stored
+    flags?: number; // General purpose flags; by default the UTF-8 flag is set for non-ASCII names
+}
+
+/**
+ * Builds a ZIP archive with a local header and a central directory record for each entry.
+ */
+export const buildZip = (entries: ZipFixtureEntry[], comment = ''): ArrayBuffer => {
+    const locals: Uint8Array[] = [];
+    const centrals: Uint8Array[] = [];
+    let offset = 0;
+    for (const entry of entries) {
+        const flags = entry.flags ?? (/^[\x00-\x7f]*$/.test(entry.name) ? 0 : 0x800);
+        const name = flags & 0x800 ? encoder.encode(entry.name) : binary(entry.name); // Latin-1 without the flag
+        const data = toBytes(entry.data);
+        const method = entry.method ?? 8;
+        const stored = method === 8 ? deflateRawSync(data) : data;
+
+        const local = new DataView(new ArrayBuffer(30));
+        local.setUint32(0, 0x04034b50, true);
+        local.setUint16(4, 20, true);
+        local.setUint16(6, flags, true);
+        local.setUint16(8, method, true);
+        local.setUint32(14, crc32(data), true);
+        local.setUint32(18, stored.length, true);
+        local.setUint32(22, data.length, true);
+        local.setUint16(26, name.length, true);
+
+        const central = new DataView(new ArrayBuffer(46));
+        central.setUint32(0, 0x02014b50, true);
+        central.setUint16(4, 20, true);
+        central.setUint16(6, 20, true);
+        central.setUint16(8, flags, true);
+        central.setUint16(10, method, true);
+        central.setUint32(16, crc32(data), true);
+        central.setUint32(20, stored.length, true);
+        central.setUint32(24, data.length, true);
+        central.setUint16(28, name.length, true);
+        central.setUint32(42, offset, true);
+
+        const localRecord = concat([new Uint8Array(local.buffer), name, stored]);
+        locals.push(localRecord);
+        centrals.push(concat([new Uint8Array(central.buffer), name]));
+        offset += localRecord.length;
+    }
+
+    const directory = concat(centrals);
+    const commentBytes = encoder.encode(comment);
+    const end = new DataView(new ArrayBuffer(22));
+    end.setUint32(0, 0x06054b50, true);
+    end.setUint16(8, entries.length, true);
+    end.setUint16(10, entries.length, true);
+    end.setUint32(12, directory.length, true);
+    end.setUint32(16, offset, true);
+    end.setUint16(20, commentBytes.length, true);
+    return concat([...locals, directory, new Uint8Array(end.buffer), commentBytes]).buffer as ArrayBuffer;
+};
+
+// --- PDF ---
+
+/**
+ * An indirect object: its dictionary or other value, and the data that follows a stream dictionary.
+ * `/Length` is filled in for streams.
+ */
+export type PdfFixtureObject = string | { dict: string; stream: string | Uint8Array };
+
+/**
+ * Builds a PDF whose objects are numbered from 1 in the given order, with a cross-reference table
+ * and a trailer. The catalog is expected to be object 1 unless the trailer says otherwise.
+ */
+export const buildPdf = (objects: PdfFixtureObject[], trailer = '/Root 1 0 R'): ArrayBuffer => {
+    const parts: Uint8Array[] = [binary('%PDF-1.7\n%\xe2\xe3\xcf\xd3\n')];
+    let length = parts[0].length;
+    const offsets: number[] = [];
+    objects.forEach((object, i) => {
+        offsets.push(length);
+        const body = typeof object === 'string'
+            ? [binary(`${i + 1} 0 obj\n${object}\nendobj\n`)]
+            : [
+                binary(`${i + 1} 0 obj\n<< ${object.dict} /Length ${toBytes(object.stream).length} >>\nstream\n`),
+                typeof object.stream === 'string' ? binary(object.stream) : object.stream,
+                binary('\nendstream\nendobj\n'),
+            ];
+        parts.push(...body);
+        length += body.reduce((sum, part) => sum + part.length, 0);
+    });
+    const xref = [`xref\n0 ${objects.length + 1}\n0000000000 65535 f \n`, ...offsets.map(o => `${String(o).padStart(10, '0')} 00000 n \n`)].join('');
+    parts.push(binary(`${xref}trailer\n<< /Size ${objects.length + 1} ${trailer} >>\nstartxref\n${length}\n%%EOF\n`));
+    return concat(parts).buffer as ArrayBuffer;
+};
+
+/**
+ * Builds a PDF with one page per content stream, all using Helvetica as /F1 and the given extra
+ * resources. Objects 1 and 2 are the catalog and the page tree, 3 is the font.
+ */
+export const buildTextPdf = (pageContents: (string | Uint8Array)[], options: { filter?: string; extraObjects?: PdfFixtureObject[]; resources?: string } = {}): ArrayBuffer => {
+    const firstPage = 4 + (options.extraObjects?.length || 0);
+    const pageIds = pageContents.map((_, i) => firstPage + i * 2);
+    const objects: PdfFixtureObject[] = [
+        '<< /Type /Catalog /Pages 2 0 R >>',
+        `<< /Type /Pages /Kids [${pageIds.map(id => `${id} 0 R`).join(' ')}] /Count ${pageIds.length} >>`,
+        '<< /Type /Font /Subtype /Type1 /BaseFont /Helvetica /Encoding /WinAnsiEncoding >>',
+        ...(options.extraObjects || []),
+    ];
+    pageContents.forEach((content, i) => {
+        objects.push(`<< /Type /Page /Parent 2 0 R /MediaBox [0 0 612 792] /Resources << /Font << /F1 3 0 R >> ${options.resources || ''} >> /Contents ${pageIds[i] + 1} 0 R >>`);
+        objects.push({ dict: options.filter ? `/Filter /${options.filter}` : '', stream: content });
+    });
+    return buildPdf(objects);
+};
+
+// --- PNG ---
+
+export interface PngFixtureChunk {
+    type: string;
+    data: string | Uint8Array; // Strings are written one character per byte, as in tEXt chunks
+}
+
+/**
+ * Builds a 1x1 pixel PNG with the given chunks between the image data and `IEND`. CRCs come from
+ * Node's zlib, independent of the code under test.
+ */
+export const buildPng = (chunks: PngFixtureChunk[] = []): Uint8Array => {
+    const header = new DataView(new ArrayBuffer(13));
+    header.setUint32(0, 1);
+    header.setUint32(4, 1);
+    header.setUint8(8, 8); // Bit depth
+    header.setUint8(9, 6); // RGBA
+    const all: PngFixtureChunk[] = [
+        { type: 'IHDR', data: new Uint8Array(header.buffer) },
+        { type: 'IDAT', data: deflateSync(Uint8Array.of(0, 255, 0, 0, 255)) },
+        ...chunks,
+        { type: 'IEND', data: '' },
+    ];
+    return concat([
+        Uint8Array.of(0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a),
+        ...all.map(chunk => {
+            const body = concat([binary(chunk.type), typeof chunk.data === 'string' ? binary(chunk.data) : chunk.data]);
+            const record = new DataView(new ArrayBuffer(12 + body.length - 4));
+            record.setUint32(0, body.length - 4);
+            new Uint8Array(record.buffer).set(body, 4);
+            record.setUint32(4 + body.length, crc32(body));
+            return new Uint8Array(record.buffer);
+        }),
+    ]);
+};
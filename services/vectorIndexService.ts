@@ -0,0 +1,350 @@
+import { VectorChunk, VectorIndex } from '../types.ts';
+import { logger } from './loggingService.ts';
+
+// --- Vector Index (IVF) ---
+// Each character's chunk vectors are grouped around trained centroids (an inverted-file index).
+// A search only scores the groups whose centroids are closest to the query, instead of every
+// chunk. New chunks join the nearest group as they are saved; the centroids are retrained in a
+// Web Worker when the knowledge base has grown enough. Small knowledge bases are searched
+// exhaustively, which is fast enough below MIN_TRAINING_SIZE chunks.
+
+const MIN_TRAINING_SIZE = 512;
+const RETRAIN_GROWTH = 2; // Retrain once the index has doubled since the last training
+
+/**
+ * Where the worker finds the vectors. The worker opens the database itself, so chunk data never
+ * has to pass through the UI thread.
+ */
+export interface VectorDatabase {
+    name: string;
+    vectorStore: string; // Needs `characterId` and `characterCluster` ([characterId, clusterId]) indexes
+    indexStore: string; // VectorIndex records keyed by characterId
+}
+
+export interface VectorSearchHit {
+    chunkId: string;
+    score: number; // Cosine similarity
+}
+
+// This string contains the code that will be executed inside the Web Worker.
+const workerCode = `
+  const MAX_LISTS = 256;
+  const MIN_PROBES = 3;
+  const PROBE_FRACTION = 0.1;
+  const TRAINING_ITERATIONS = 8;
+  const MAX_TRAINING_SAMPLE = 10000;
+  const MIN_TRAINING_SIZE = ${MIN_TRAINING_SIZE};
+  const RETRAIN_GROWTH = ${RETRAIN_GROWTH};
+
+  const databases = new Map();
+
+  const openDatabase = (name) => {
+    if (!databases.has(name)) {
+      databases.set(name, new Promise((resolve, reject) => {
+        const request = indexedDB.open(name);
+        request.onsuccess = () => {
+          const db = request.result;
+          // Step aside when the app upgrades the schema.
+          db.onversionchange = () => { db.close(); databases.delete(name); };
+          resolve(db);
+        };
+        request.onerror = () => { databases.delete(name); reject(request.error); };
+      }));
+    }
+    return databases.get(name);
+  };
+
+  const toPromise = (request) => new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+  const normalize = (vector) => {
+    let norm = 0;
+    for (let i = 0; i < vector.length; i++) norm += vector[i] * vector[i];
+    norm = Math.sqrt(norm) || 1;
+    const result = new Float32Array(vector.length);
+    for (let i = 0; i < vector.length; i++) result[i] = vector[i] / norm;
+    return result;
+  };
+
+  const dot = (a, b) => {
+    let sum = 0;
+    for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+    return sum;
+  };
+
+  const shuffled = (items) => {
+    const result = items.slice();
+    for (let i = result.length - 1; i > 0; i--) {
+      const j = Math.floor(Math.random() * (i + 1));
+      [result[i], result[j]] = [result[j], result[i]];
+    }
+    return result;
+  };
+
+  const nearest = (vector, centroids) => {
+    let best = 0;
+    let bestScore = -Infinity;
+    for (let i = 0; i < centroids.length; i++) {
+      const score = dot(vector, centroids[i]);
+      if (score > bestScore) { bestScore = score; best = i; }
+    }
+    return best;
+  };
+
+  const search = async ({ database, characterId, query, limit }) => {
+    const db = await openDatabase(database.name);
+    const transaction = db.transaction([database.vectorStore, database.indexStore], 'readonly');
+    const vectors = transaction.objectStore(database.vectorStore);
+    const index = await toPromise(transaction.objectStore(database.indexStore).get(characterId));
+    const unitQuery = normalize(query);
+
+    let records;
+    if (index && index.centroids.length > 0 && index.dimension === query.length) {
+      const ranked = index.centroids
+        .map((centroid, i) => ({ i, score: dot(unitQuery, centroid) }))
+        .sort((a, b) => b.score - a.score);
+      const probes = Math.min(ranked.length, Math.max(MIN_PROBES, Math.ceil(ranked.length * PROBE_FRACTION)));
+      const byCluster = vectors.index('characterCluster');
+      const lists = await Promise.all(ranked.slice(0, probes).map(({ i }) => toPromise(byCluster.getAll([characterId, i]))));
+      records = lists.flat();
+    } else {
+      records = await toPromise(vectors.index('characterId').getAll(characterId));
+    }
+
+    const hits = [];
+    for (const record of records) {
+      const embedding = record.embedding;
+      if (!embedding || embedding.length !== unitQuery.length) continue;
+      let product = 0;
+      let norm = 0;
+      for (let i = 0; i < embedding.length; i++) {
+        product += unitQuery[i] * embedding[i];
+        norm += embedding[i] * embedding[i];
+      }
+      hits.push({ chunkId: record.id, score: norm > 0 ? product / Math.sqrt(norm) : 0 });
+    }
+    hits.sort((a, b) => b.score - a.score);
+
+    const size = index ? index.size : records.length;
+    const needsTraining = index && index.centroids.length > 0
+      ? size >= index.trainedSize * RETRAIN_GROWTH
+      : size >= MIN_TRAINING_SIZE;
+    return { hits: hits.slice(0, limit), scanned: records.length, needsTraining };
+  };
+
+  // Spherical k-means: vectors and centroids are unit length, and closeness is the dot product.
+  const train = async ({ database, characterId }) => {
+    const db = await openDatabase(database.name);
+    const records = await toPromise(db.transaction(database.vectorStore, 'readonly').objectStore(database.vectorStore).index('characterId').getAll(characterId));
+    if (records.length === 0) return { lists: 0 };
+
+    // Train on the most common dimension; chunks from another embedding model stay in list 0.
+    const dimensionCounts = new Map();
+    for (const record of records) dimensionCounts.set(record.embedding.length, (dimensionCounts.get(record.embedding.length) || 0) + 1);
+    const dimension = [...dimensionCounts.entries()].sort((a, b) => b[1] - a[1])[0][0];
+
+    const sample = shuffled(records.filter(r => r.embedding.length === dimension))
+      .slice(0, MAX_TRAINING_SAMPLE)
+      .map(r => normalize(r.embedding));
+    const listCount = Math.max(2, Math.min(MAX_LISTS, Math.round(Math.sqrt(records.length))));
+    let centroids = sample.slice(0, listCount);
+
+    for (let iteration = 0; iteration < TRAINING_ITERATIONS; iteration++) {
+      const sums = centroids.map(() => new Float32Array(dimension));
+      const counts = new Array(centroids.length).fill(0);
+      for (const vector of sample) {
+        const list = nearest(vector, centroids);
+        counts[list]++;
+        const sum = sums[list];
+        for (let i = 0; i < dimension; i++) sum[i] += vector[i];
+      }
+      // An empty list is reseeded with a random vector so that no centroid goes to waste.
+      centroids = sums.map((sum, list) => counts[list] > 0 ? normalize(sum) : sample[Math.floor(Math.random() * sample.length)]);
+    }
+
+    // Reassign inside one write transaction, so chunks saved during training are covered too.
+    const transaction = db.transaction([database.vectorStore, database.indexStore], 'readwrite');
+    const counts = new Array(centroids.length).fill(0);
+    let size = 0;
+    await new Promise((resolve, reject) => {
+      const request = transaction.objectStore(database.vectorStore).index('characterId').openCursor(IDBKeyRange.only(characterId));
+      request.onsuccess = () => {
+        const cursor = request.result;
+        if (!cursor) {
+          transaction.objectStore(database.indexStore).put({
+            characterId, dimension, centroids, counts, size, trainedSize: size, updatedAt: new Date().toISOString(),
+          });
+          return resolve();
+        }
+        const record = cursor.value;
+        record.clusterId = record.embedding.length === dimension ? nearest(normalize(record.embedding), centroids) : 0;
+        counts[record.clusterId]++;
+        size++;
+        cursor.update(record);
+        cursor.continue();
+      };
+      request.onerror = () => reject(request.error);
+    });
+    await new Promise((resolve, reject) => {
+      transaction.oncomplete = resolve;
+      transaction.onerror = () => reject(transaction.error);
+    });
+    return { lists: centroids.length, size };
+  };
+
+  self.onmessage = async (e) => {
+    const { type, ticket, payload } = e.data;
+    try {
+      const result = type === 'SEARCH' ? await search(payload) : await train(payload);
+      self.postMessage({ ticket, result });
+    } catch (error) {
+      self.postMessage({ ticket, error: error && error.message ? error.message : String(error) });
+    }
+  };
+`;
+
+class VectorWorker {
+    private worker: Worker;
+    private ticketCounter = 0;
+    private pending = new Map<number, { resolve: (value: any) => void; reject: (reason?: any) => void }>();
+
+    constructor() {
+        const blob = new Blob([workerCode], { type: 'application/javascript' });
+        this.worker = new Worker(URL.createObjectURL(blob));
+        this.worker.onmessage = (e) => {
+            const { ticket, result, error } = e.data;
+            const promise = this.pending.get(ticket);
+            if (!promise) return;
+            this.pending.delete(ticket);
+            if (error) {
+                promise.reject(new Error(error));
+            } else {
+                promise.resolve(result);
+            }
+        };
+    }
+
+    request<T>(type: 'SEARCH' | 'TRAIN', payload: object): Promise<T> {
+        return new Promise((resolve, reject) => {
+            const ticket = this.ticketCounter++;
+            this.pending.set(ticket, { resolve, reject });
+            this.worker.postMessage({ type, ticket, payload });
+        });
+    }
+}
+
+let vectorWorker: VectorWorker | null = null;
+const getWorker = (): VectorWorker => vectorWorker ??= new VectorWorker();
+const trainingInProgress = new Set<string>();
+
+// --- Incremental Updates ---
+// These run on the UI thread inside the transaction that saves the chunks; adding a handful of
+// chunks only costs one comparison per centroid each.
+
+const normalize = (vector: ArrayLike<number>): Float32Array => {
+    let norm = 0;
+    for (let i = 0; i < vector.length; i++) norm += vector[i] * vector[i];
+    norm = Math.sqrt(norm) || 1;
+    const result = new Float32Array(vector.length);
+    for (let i = 0; i < vector.length; i++) result[i] = vector[i] / norm;
+    return result;
+};
+
+const dot = (a: ArrayLike<number>, b: ArrayLike<number>): number => {
+    let sum = 0;
+    for (let i = 0; i < a.length; i++) sum += a[i] * b[i];
+    return sum;
+};
+
+/**
+ * Assigns new chunks to the nearest list of a character's index and moves that list's centroid
+ * towards them. Sets `clusterId` on the chunks and returns the updated index.
+ */
+export const addToVectorIndex = (index: VectorIndex | undefined, characterId: string, chunks: VectorChunk[]): VectorIndex => {
+    const updated: VectorIndex = index
+        ? { ...index, counts: [...index.counts], centroids: [...index.centroids] }
+        : { characterId, dimension: chunks[0]?.embedding.length || 0, centroids: [], counts: [0], size: 0, trainedSize: 0, updatedAt: '' };
+
+    for (const chunk of chunks) {
+        if (updated.centroids.length === 0 || chunk.embedding.length !== updated.dimension) {
+            chunk.clusterId = 0;
+            updated.counts[0] = (updated.counts[0] || 0) + 1;
+            continue;
+        }
+        const vector = normalize(chunk.embedding);
+        let best = 0;
+        let bestScore = -Infinity;
+        updated.centroids.forEach((centroid, i) => {
+            const score = dot(vector, centroid);
+            if (score > bestScore) {
+                bestScore = score;
+                best = i;
+            }
+        });
+        chunk.clusterId = best;
+        updated.counts[best] = (updated.counts[best] || 0) + 1;
+        // Running mean, kept at unit length
+        const centroid = Float32Array.from(updated.centroids[best]);
+        for (let i = 0; i < centroid.length; i++) centroid[i] += (vector[i] - centroid[i]) / updated.counts[best];
+        updated.centroids[best] = normalize(centroid);
+    }
+    updated.size += chunks.length;
+    updated.updatedAt = new Date().toISOString();
+    return updated;
+};
+
+/**
+ * Removes deleted chunks from the list counts of a character's index.
+ */
+export const removeFromVectorIndex = (index: VectorIndex, clusterIds: number[]): VectorIndex => {
+    const counts = [...index.counts];
+    for (const clusterId of clusterIds) {
+        if (counts[clusterId] > 0) counts[clusterId]--;
+    }
+    return { ...index, counts, size: Math.max(0, index.size - clusterIds.length), updatedAt: new Date().toISOString() };
+};
+
+export const needsTraining = (index: VectorIndex): boolean =>
+    index.centroids.length > 0 ? index.size >= index.trainedSize * RETRAIN_GROWTH : index.size >= MIN_TRAINING_SIZE;
+
+// --- Worker Requests ---
+
+/**
+ * Retrains a character's centroids in the worker. Requests for a character that is already
+ * being trained are ignored.
+ */
+export const trainVectorIndex = async (database: VectorDatabase, characterId: string): Promise<void> => {
+    if (trainingInProgress.has(characterId)) return;
+    trainingInProgress.add(characterId);
+    try {
+        const started = Date.now();
+        const result = await getWorker().request<{ lists: number; size?: number }>('TRAIN', { database, characterId });
+        logger.log(`Trained vector index for character ${characterId}: ${result.size ?? 0} chunks in ${result.lists} lists (${Date.now() - started}ms).`);
+    } catch (e) {
+        logger.error("Failed to train the vector index.", e);
+    } finally {
+        trainingInProgress.delete(characterId);
+    }
+};
+
+/**
+ * Finds the chunks most similar to the query in the worker. Starts training in the background
+ * when the index is due for it.
+ */
+export const searchVectorIndex = async (
+    database: VectorDatabase,
+    characterId: string,
+    query: ArrayLike<number>,
+    limit: number
+): Promise<VectorSearchHit[]> => {
+    const result = await getWorker().request<{ hits: VectorSearchHit[]; scanned: number; needsTraining: boolean }>(
+        'SEARCH', { database, characterId, query: Float32Array.from(query), limit }
+    );
+    logger.debug(`Vector search scored ${result.scanned} chunks.`);
+    if (result.needsTraining) {
+        void trainVectorIndex(database, characterId);
+    }
+    return result.hits;
+};
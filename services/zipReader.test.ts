@@ -0,0 +1,98 @@
+import { describe, expect, it } from 'vitest';
+import { deflateRawSync, deflateSync } from 'node:zlib';
+import { inflate, openZip } from './zipReader.ts';
+import { buildZip } from './testFixtures.ts';
+
+const text = 'The quick brown fox jumps over the lazy dog. '.repeat(20);
+
+describe('openZip', () => {
+    it('reads stored and deflated entries', async () => {
+        const zip = openZip(buildZip([
+            { name: 'stored.txt', data: 'Stored as it is.', method: 0 },
+            { name: 'deflated.txt', data: text },
+        ]));
+        expect(zip.names).toEqual(['stored.txt', 'deflated.txt']);
+        expect(await zip.readText('stored.txt')).toBe('Stored as it is.');
+        expect(await zip.readText('deflated.txt')).toBe(text);
+        expect(await zip.readFile('stored.txt')).toEqual(new TextEncoder().encode('Stored as it is.'));
+    });
+
+    it('decodes UTF-8 names and finds entries by encoded or absolute paths', async () => {
+        const zip = openZip(buildZip([{ name: 'OEBPS/Kapitel Ü.xhtml', data: '<p>Ü</p>' }]));
+        expect(zip.names).toEqual(['OEBPS/Kapitel Ü.xhtml']);
+        expect(await zip.readText('OEBPS/Kapitel%20%C3%9C.xhtml')).toBe('<p>Ü</p>');
+        expect(await zip.readText('/OEBPS/Kapitel Ü.xhtml')).toBe('<p>Ü</p>');
+    });
+
+    it('decodes names without the UTF-8 flag as Latin-1', () => {
+        expect(openZip(buildZip([{ name: 'café.txt', data: 'x', flags: 0 }])).names).toEqual(['café.txt']);
+    });
+
+    it('finds the directory behind an archive comment', async () => {
+        const zip = openZip(buildZip([{ name: 'a.txt', data: 'A' }], 'Made by a test.'));
+        expect(await zip.readText('a.txt')).toBe('A');
+    });
+
+    it('returns null for missing entries', async () => {
+        const zip = openZip(buildZip([{ name: 'a.txt', data: 'A' }]));
+        expect(await zip.readFile('b.txt')).toBeNull();
+        expect(await zip.readText('b.txt')).toBeNull();
+    });
+
+    describe('errors', () => {
+        it('rejects a file that is not a ZIP archive', () => {
+            expect(() => openZip(new TextEncoder().encode('Just some text that is long enough.').buffer as ArrayBuffer))
+                .toThrow('Not a ZIP archive (no end of central directory record).');
+            expect(() => openZip(new ArrayBuffer(0))).toThrow('Not a ZIP archive');
+        });
+
+        it('rejects ZIP64 archives', () => {
+            const buffer = buildZip([{ name: 'a.txt', data: 'A' }]);
+            new DataView(buffer).setUint32(buffer.byteLength - 22 + 16, 0xffffffff, true);
+            expect(() => openZip(buffer)).toThrow('ZIP64 archives are not supported.');
+        });
+
+        it('rejects a damaged central directory', () => {
+            const buffer = buildZip([{ name: 'a.txt', data: 'A' }]);
+            const view = new DataView(buffer);
+            view.setUint32(view.getUint32(buffer.byteLength - 22 + 16, true), 0, true);
+            expect(() => openZip(buffer)).toThrow('The ZIP central directory is damaged.');
+        });
+
+        it('refuses to read encrypted entries', async () => {
+            const zip = openZip(buildZip([{ name: 'secret.txt', data: 'A', flags: 0x1 }]));
+            await expect(zip.readFile('secret.txt')).rejects.toThrow('"secret.txt" is encrypted.');
+        });
+
+        it('rejects an entry whose local header is damaged', async () => {
+            const buffer = buildZip([{ name: 'a.txt', data: 'A' }]);
+            new DataView(buffer).setUint32(0, 0, true);
+            await expect(openZip(buffer).readFile('a.txt')).rejects.toThrow('The ZIP entry "a.txt" is damaged.');
+        });
+
+        it('rejects unsupported compression methods', async () => {
+            const zip = openZip(buildZip([{ name: 'a.bz2', data: 'A', method: 12 }]));
+            await expect(zip.readFile('a.bz2')).rejects.toThrow('The ZIP entry "a.bz2" uses an unsupported compression method (12).');
+        });
+    });
+});
+
+describe('inflate', () => {
+    const data = new TextEncoder().encode(text);
+
+    it('decompresses zlib and raw DEFLATE data', async () => {
+        expect(await inflate(deflateSync(data), 'deflate')).toEqual(data);
+        expect(await inflate(deflateRawSync(data), 'deflate-raw')).toEqual(data);
+    });
+
+    it('returns what could be decompressed from cut-off data', async () => {
+        const compressed = deflateSync(new TextEncoder().encode(text.repeat(50)));
+        const partial = await inflate(compressed.subarray(0, compressed.length - 10), 'deflate');
+        expect(partial.length).toBeGreaterThan(0);
+        expect(new TextDecoder().decode(partial)).toBe(text.repeat(50).slice(0, partial.length));
+    });
+
+    it('throws if nothing could be decompressed', async () => {
+        await expect(inflate(new TextEncoder().encode('not compressed at all'), 'deflate')).rejects.toThrow();
+    });
+});
@@ -0,0 +1,137 @@
+import { logger } from './loggingService.ts';
+
+// --- ZIP Archives ---
+// DOCX and EPUB files are ZIP archives. This reads the central directory and inflates entries
+// with the browser's DecompressionStream, which covers the stored and deflated entries these
+// formats use. ZIP64 and encrypted archives are not supported.
+
+const EOCD_SIGNATURE = 0x06054b50;
+const CENTRAL_HEADER_SIGNATURE = 0x02014b50;
+const LOCAL_HEADER_SIGNATURE = 0x04034b50;
+
+interface ZipEntry {
+    name: string;
+    method: number; // 0 = stored, 8 = deflated
+    compressedSize: number;
+    localHeaderOffset: number;
+    encrypted: boolean;
+}
+
+export interface ZipArchive {
+    names: string[];
+    readFile: (name: string) => Promise<Uint8Array | null>;
+    readText: (name: string) => Promise<string | null>;
+}
+
+/**
+ * Decompresses zlib (`deflate`) or raw DEFLATE (`deflate-raw`) data. Data that is cut off or
+ * followed by garbage, which is common in PDF streams, yields whatever could be decompressed.
+ */
+export const inflate = async (data: Uint8Array, format: 'deflate' | 'deflate-raw'): Promise<Uint8Array> => {
+    const stream = new Blob([data as Uint8Array<ArrayBuffer>]).stream().pipeThrough(new DecompressionStream(format));
+    const reader = stream.getReader();
+    const parts: Uint8Array[] = [];
+    let length = 0;
+    try {
+        while (true) {
+            const { done, value } = await reader.read();
+            if (done) break;
+            parts.push(value);
+            length += value.length;
+        }
+    } catch (e) {
+        if (length === 0) throw e;
+        logger.debug(`Decompression stopped early after ${length} bytes.`, e);
+    }
+    const result = new Uint8Array(length);
+    let offset = 0;
+    for (const part of parts) {
+        result.set(part, offset);
+        offset += part.length;
+    }
+    return result;
+};
+
+const findEndOfCentralDirectory = (view: DataView): number => {
+    // The record is at least 22 bytes and may be followed by a comment of up to 65535 bytes.
+    const stop = Math.max(0, view.byteLength - 22 - 65535);
+    for (let i = view.byteLength - 22; i >= stop; i--) {
+        if (view.getUint32(i, true) === EOCD_SIGNATURE) return i;
+    }
+    throw new Error("Not a ZIP archive (no end of central directory record).");
+};
+
+/**
+ * Opens a ZIP archive. Entries are only decompressed when read.
+ */
+export const openZip = (buffer: ArrayBuffer): ZipArchive => {
+    const bytes = new Uint8Array(buffer);
+    const view = new DataView(buffer);
+    const eocd = findEndOfCentralDirectory(view);
+    const entryCount = view.getUint16(eocd + 10, true);
+    const directoryOffset = view.getUint32(eocd + 16, true);
+    if (directoryOffset === 0xffffffff) {
+        throw new Error("ZIP64 archives are not supported.");
+    }
+
+    const entries = new Map<string, ZipEntry>();
+    const utf8 = new TextDecoder('utf-8');
+    const latin1 = new TextDecoder('latin1');
+    let offset = directoryOffset;
+    for (let i = 0; i < entryCount; i++) {
+        if (view.getUint32(offset, true) !== CENTRAL_HEADER_SIGNATURE) {
+            throw new Error("The ZIP central directory is damaged.");
+        }
+        const flags = view.getUint16(offset + 8, true);
+        const nameLength = view.getUint16(offset + 28, true);
+        const extraLength = view.getUint16(offset + 30, true);
+        const commentLength = view.getUint16(offset + 32, true);
+        const nameBytes = bytes.subarray(offset + 46, offset + 46 + nameLength);
+        const name = (flags & 0x800 ? utf8 : latin1).decode(nameBytes);
+        entries.set(name, {
+            name,
+            method: view.getUint16(offset + 10, true),
+            compressedSize: view.getUint32(offset + 20, true),
+            localHeaderOffset: view.getUint32(offset + 42, true),
+            encrypted: (flags & 0x1) !== 0,
+        });
+        offset += 46 + nameLength + extraLength + commentLength;
+    }
+
+    const findEntry = (name: string): ZipEntry | undefined => {
+        // Paths inside documents are sometimes URL-encoded or carry a leading slash.
+        let decoded = name;
+        try {
+            decoded = decodeURIComponent(name);
+        } catch (e) {
+            // A literal '%' in the name; use it as it is.
+        }
+        return entries.get(name) || entries.get(decoded.replace(/^\//, ''));
+    };
+
+    const readFile = async (name: string): Promise<Uint8Array | null> => {
+        const entry = findEntry(name);
+        if (!entry) return null;
+        if (entry.encrypted) {
+            throw new Error(`"${entry.name}" is encrypted.`);
+        }
+        const local = entry.localHeaderOffset;
+        if (view.getUint32(local, true) !== LOCAL_HEADER_SIGNATURE) {
+            throw new Error(`The ZIP entry "${entry.name}" is damaged.`);
+        }
+        const dataStart = local + 30 + view.getUint16(local + 26, true) + view.getUint16(local + 28, true);
+        const data = bytes.subarray(dataStart, dataStart + entry.compressedSize);
+        if (entry.method === 0) return data;
+        if (entry.method === 8) return inflate(data, 'deflate-raw');
+        throw new Error(`The ZIP entry "${entry.name}" uses an unsupported compression method (${entry.method}).`);
+    };
+
+    return {
+        names: [...entries.keys()],
+        readFile,
+        readText: async (name) => {
+            const data = await readFile(name);
+            return data ? utf8.decode(data) : null;
+        },
+    };
+};
@@ -4,9 +4,11 @@ export interface CryptoKeys {
 }
 
 export interface Message {
+  id?: string; // Stable identifier used to place the message in the conversation tree
   role: 'user' | 'model' | 'narrator';
   content: string;
   timestamp: string;
+  editedAt?: string; // Set when the content was changed after the message was sent
   characterId?: string; // Identifies which character sent a 'model' message
   attachment?: {
     type: 'image';
@@ -14,11 +16,22 @@ export interface Message {
     url?: string;
     prompt?: string;
   };
+  citations?: Citation[]; // Knowledge passages the reply cites as [1], [2], ...
+  loreEntries?: FiredLoreEntry[]; // Lorebook entries that fired for this reply
   // New security fields
   signature?: string; // Signed by user or character's private key
   publicKeyJwk?: JsonWebKey; // Public key of the signer for verification
 }
 
+// A node in the conversation tree. Each node keeps the message itself plus links to its
+// parent and to every alternative continuation ("swipe") that has been generated after it.
+export interface MessageTreeNode {
+  message: Message;
+  parentId: string | null;
+  childIds: string[];
+  activeChildId?: string; // The continuation that is followed when this branch is selected
+}
+
 export interface UISettings {
   backgroundImage?: string;
   bannerImage?: string;
@@ -29,25 +42,108 @@ export interface ChatSession {
   id: string;
   characterIds: string[];
   name: string;
-  messages: Message[];
+  messages: Message[]; // The currently selected path through the conversation tree
+  messageTree?: Record<string, MessageTreeNode>; // Every message ever generated, keyed by message id
   isArchived?: boolean;
   uiSettings?: UISettings;
   lorebookIds?: string[]; // New: Link to active lorebooks
+  loreTokenBudget?: number; // Most tokens of lore per reply, across all attached lorebooks; unset for no limit
+  knowledgeBaseIds?: string[]; // Shared knowledge bases searched for every character in the chat
+  summary?: ChatSummary; // Rolling summary of the older part of the conversation
+  personaId?: string; // Who the user plays in this chat; unset for the default persona
+}
+
+export interface ChatSummary {
+  text: string;
+  lastMessageId: string; // Newest message folded into the summary; later messages are sent verbatim
+  summarizedCount: number; // How many messages the summary covers
+  updatedAt: string;
+  editedByUser?: boolean;
+}
+
+export type ApiService = 'gemini' | 'openai' | 'anthropic' | 'ollama';
+
+// Sampling parameters. Unset fields are left to the provider's defaults, and each provider is
+// only sent the parameters it supports.
+export interface GenerationSettings {
+  temperature?: number;
+  topP?: number;
+  topK?: number;
+  maxTokens?: number; // Limit of the reply length
+  stopSequences?: string[];
+  presencePenalty?: number;
+  frequencyPenalty?: number;
+}
+
+export interface GenerationPreset {
+  id: string;
+  name: string;
+  settings: GenerationSettings;
+  createdAt: string;
 }
 
 export interface ApiConfig {
-  service: 'default' | 'gemini' | 'openai';
+  service: 'default' | ApiService;
+  profileId?: string; // Connection profile to use; its settings take precedence over the inline fields below
   apiKey?: string;
-  apiEndpoint?: string; // Base URL for OpenAI-compatible
+  apiEndpoint?: string; // Full URL for OpenAI-compatible; base URL for Anthropic and Ollama
   model?: string;
   rateLimit?: number; // Delay in milliseconds between requests
+  contextSize?: number; // Overrides the model's known context window (in tokens)
+  generationSettings?: GenerationSettings;
+}
+
+// How uploaded documents are split before embedding. Sizes are in approximate tokens.
+export interface ChunkingConfig {
+  chunkSize?: number;
+  chunkOverlap?: number; // Tokens repeated from the end of the previous chunk
+}
+
+// How knowledge is picked for a reply.
+export interface RetrievalConfig {
+  topK?: number; // Most chunks added to the prompt
+  minScore?: number; // Minimum cosine similarity for a chunk that does not match the query's keywords
+  rerank?: boolean; // Let the chat model reorder the candidates and drop irrelevant ones
 }
 
 export interface EmbeddingConfig {
-  service: 'gemini' | 'openai';
+  service: 'gemini' | 'openai' | 'ollama';
+  profileId?: string; // Connection profile to use; its settings take precedence over the inline fields below
+  apiKey?: string;
+  apiEndpoint?: string;
+  model?: string;
+}
+
+// A named, reusable API connection. Characters, embedding configs and plugins refer to it by id,
+// so a key or endpoint only has to be changed in one place.
+export interface ConnectionProfile {
+  id: string;
+  name: string;
+  service: ApiService;
   apiKey?: string;
   apiEndpoint?: string;
   model?: string;
+  rateLimit?: number; // Delay in milliseconds between requests made through this profile
+  createdAt: string;
+}
+
+// Who the user is in a chat: the name {{user}} stands for and a description sent to the model.
+export interface Persona {
+  id: string;
+  name: string;
+  description: string;
+  avatarUrl: string;
+  createdAt: string;
+}
+
+export type ModelCapability = 'chat' | 'embedding' | 'image' | 'vision' | 'tools';
+
+// A model as listed by a provider's model endpoint.
+export interface ModelInfo {
+  id: string; // The name sent to the API
+  displayName?: string;
+  contextLength?: number; // Input tokens, when the provider reports it
+  capabilities: ModelCapability[];
 }
 
 export interface RagSource {
@@ -55,6 +151,9 @@ export interface RagSource {
     fileName: string;
     fileType: string;
     createdAt: string;
+    embeddingModel?: string; // Model the chunks were embedded with, e.g. "ollama:nomic-embed-text"
+    embeddingDimension?: number;
+    embeddedAt?: string;
 }
 
 export interface Character {
@@ -70,14 +169,23 @@ export interface Character {
   physicalAppearance?: string;
   personalityTraits?: string; // Comma-separated
   lore?: string[];
-  memory?: string;
+  memory?: string; // Legacy free-text memory; migrated into `memories` on load
+  memories?: MemoryEntry[];
   voiceURI?: string; // For Text-to-Speech
   firstMessage?: string; // New: For character card compatibility
+  alternateGreetings?: string[]; // Other first messages to pick from or swipe to when a chat starts
+  groupOnlyGreetings?: string[]; // First messages a V3 card only uses in group chats
+  exampleDialogue?: string; // Sample exchanges showing how the character talks; blocks separated by <START>
+  cardAssets?: CardAsset[]; // V3 card assets other than the avatar, kept so they are exported again
   characterType?: 'character' | 'narrator'; // New: Distinguish between persona and scenario bots
   // New RAG fields
   ragEnabled?: boolean;
   embeddingConfig?: EmbeddingConfig;
+  chunkingConfig?: ChunkingConfig; // Applies to files uploaded after it is changed
+  retrievalConfig?: RetrievalConfig;
   ragSources?: RagSource[];
+  knowledgeBaseIds?: string[]; // Shared knowledge bases searched alongside the character's own files
+  lorebookIds?: string[]; // Lorebooks that belong to the character; attached to its new chats and embedded in its exported card
   // New per-character plugin fields
   pluginEnabled?: boolean;
   pluginCode?: string;
@@ -88,6 +196,26 @@ export interface Character {
   isArchived?: boolean;
 }
 
+// An image bundled with a V3 character card, such as a background or an expression.
+export interface CardAsset {
+  type: string; // 'icon', 'background', 'emotion', 'user_icon' or a custom type
+  uri: string; // data: or http(s): URL
+  name: string;
+  ext: string; // File extension without the dot, e.g. 'png'
+}
+
+export interface MemoryEntry {
+  id: string;
+  content: string;
+  createdAt: string;
+  updatedAt?: string;
+  importance: number; // 1 (trivial) to 5 (defining)
+  sourceSessionId?: string; // Chat session the memory was formed in
+  pinned?: boolean; // Pinned memories are included in every prompt
+  embedding?: number[]; // Cleared whenever the content changes
+  embeddingModel?: string; // Model the embedding was made with; entries are re-embedded when it changes
+}
+
 export interface Plugin {
   id: string;
   name: string;
@@ -99,10 +227,31 @@ export interface Plugin {
   };
 }
 
+// How an entry's secondary keys combine with its primary keys, as in SillyTavern's World Info.
+export type LorebookSecondaryLogic = 'andAny' | 'andAll' | 'notAny' | 'notAll';
+
+// Where a triggered entry goes: around the character definition, or into the conversation
+// `depth` messages before its end.
+export type LorebookPosition = 'beforeCharacter' | 'afterCharacter' | 'atDepth';
+
 export interface LorebookEntry {
     id: string;
-    keys: string[];
+    keys: string[]; // Any one triggers the entry. A key written as /pattern/flags is a regular expression.
     content: string;
+    comment?: string; // A title for the entry; never sent to the model
+    disabled?: boolean;
+    constant?: boolean; // Always inserted, whatever the conversation says
+    secondaryKeys?: string[]; // Checked once a primary key matched, combined by `secondaryLogic`
+    secondaryLogic?: LorebookSecondaryLogic; // Default 'andAny'
+    caseSensitive?: boolean;
+    wholeWords?: boolean; // Keys only match whole words
+    order?: number; // Insertion order; higher numbers come later, closer to the reply. Default 100
+    position?: LorebookPosition; // Default 'afterCharacter'
+    depth?: number; // Messages from the end, for 'atDepth'. Default 4
+    scanDepth?: number; // How many recent messages are searched for the keys. Default 5
+    probability?: number; // Chance in percent that a triggered entry is inserted. Default 100
+    excludeRecursion?: boolean; // Not triggered by the content of other entries
+    preventRecursion?: boolean; // Its content does not trigger other entries
 }
 
 export interface Lorebook {
@@ -110,6 +259,30 @@ export interface Lorebook {
     name: string;
     description: string;
     entries: LorebookEntry[];
+    tokenBudget?: number; // Most tokens of this lorebook's entries per reply; unset for no limit
+}
+
+// A lorebook entry that fired for a reply, for the indicator under the message.
+export interface FiredLoreEntry {
+    lorebookId: string;
+    lorebookName: string;
+    entryId: string;
+    title: string; // The entry's comment, or its keywords
+    reason: 'constant' | 'keyword' | 'recursion';
+    tokens: number;
+    dropped?: boolean; // Fired, but left out to stay within a token budget
+}
+
+// A set of documents that any number of characters and chats can search. Its chunks are stored
+// like a character's, with the knowledge base's id in place of the character id.
+export interface KnowledgeBase {
+    id: string;
+    name: string;
+    description: string;
+    embeddingConfig: EmbeddingConfig;
+    chunkingConfig?: ChunkingConfig;
+    sources: RagSource[];
+    createdAt: string;
 }
 
 export interface AppData {
@@ -117,6 +290,11 @@ export interface AppData {
   chatSessions: ChatSession[];
   plugins?: Plugin[];
   lorebooks?: Lorebook[]; // New: Store all lorebooks
+  knowledgeBases?: KnowledgeBase[];
+  connectionProfiles?: ConnectionProfile[];
+  generationPresets?: GenerationPreset[];
+  personas?: Persona[];
+  defaultPersonaId?: string; // Persona for chats that do not choose one
   // New security field
   userKeys?: CryptoKeys;
 }
@@ -140,10 +318,152 @@ export interface PluginApiResponse {
 // RAG Types
 export interface VectorChunk {
     id: string; // chunk-[uuid]
+    characterId: string; // Owner of the chunk: a character or a knowledge base
+    sourceId: string;
+    content: string;
+    embedding: Float32Array;
+    embeddingModel?: string; // Vectors of different models cannot be compared
+    embeddingDimension?: number;
+    clusterId?: number; // List of the character's vector index the chunk belongs to
+    headings?: string[]; // Titles of the sections the chunk belongs to, outermost first
+    pageStart?: number; // Pages of the source document the chunk spans (1-based)
+    pageEnd?: number;
+}
+
+// Inverted-file (IVF) index over one character's chunk vectors. Chunks are grouped around
+// centroids, and a search only scores the groups nearest to the query.
+export interface VectorIndex {
     characterId: string;
+    dimension: number;
+    centroids: Float32Array[]; // Unit length; empty until there are enough chunks to train on
+    counts: number[]; // Chunks per list
+    size: number; // Chunks in the index
+    trainedSize: number; // Chunks when the centroids were last trained
+    updatedAt: string;
+}
+
+// Term counts of a chunk, for keyword (BM25) search. Stored next to the chunk's vector.
+export interface KeywordDocument {
+    chunkId: string;
+    characterId: string;
+    sourceId: string;
+    termFrequencies: Record<string, number>;
+    length: number; // Number of terms in the chunk
+}
+
+// A retrieved knowledge chunk as numbered in the prompt, so a reply can cite it as [number].
+export interface Citation {
+    number: number; // 1-based
+    chunkId: string;
     sourceId: string;
+    fileName: string;
+    location: string; // Pages and headings, e.g. "pp. 3–4, Setup > Wiring"; may be empty
     content: string;
-    embedding: number[];
+}
+
+// Why a chunk was or was not used for a reply, for the retrieval debug view.
+export interface RetrievalCandidate {
+    chunkId: string;
+    source: string; // File, pages and headings
+    preview: string;
+    vectorScore: number; // Cosine similarity to the query
+    vectorRank: number; // 1-based
+    keywordScore: number; // BM25
+    keywordRank?: number; // Only set for chunks that share a term with the query
+    keywordCoverage: number; // Share of the query's keyword weight the chunk matches (0-1)
+    matchedTerms: string[];
+    fusedScore: number; // Reciprocal-rank fusion of both rankings
+    rerankPosition?: number; // 1-based position the chat model gave the chunk
+    selected: boolean;
+    reason: string;
+}
+
+export interface RetrievalReport {
+    characterId: string;
+    characterName: string;
+    query: string;
+    createdAt: string;
+    topK: number;
+    minScore: number;
+    reranked: boolean;
+    rerankError?: string;
+    embeddingWarning?: string; // Set when some chunks were embedded with another model than the query
+    searched: string[]; // Names of the character and knowledge bases whose files were searched
+    candidates: RetrievalCandidate[]; // Best first
+}
+
+// A file being embedded. Finished batches are checkpointed, so a job that failed, was stopped or
+// was interrupted by a reload continues where it left off.
+export interface EmbeddingJob {
+    id: string;
+    ownerId: string; // Character or knowledge base
+    kind: 'index' | 'reembed'; // A new file, or new vectors for a file that is already indexed
+    source: RagSource;
+    chunks: Pick<VectorChunk, 'content' | 'headings' | 'pageStart' | 'pageEnd'>[];
+    embeddingModel: string; // Checkpoints are discarded if the job is resumed with another model
+    error?: string; // Why the last run stopped
+    createdAt: string;
+    updatedAt: string;
+}
+
+export interface EmbeddingCheckpoint {
+    jobId: string;
+    index: number; // Position in the job's chunks
+    embedding: Float32Array;
+}
+
+// The extracted text of an uploaded file, kept so the file can be chunked and embedded again.
+export interface RagSourceText {
+    sourceId: string;
+    characterId: string;
+    blocks: DocumentBlock[];
+}
+
+// A piece of an extracted document, in reading order.
+export interface DocumentBlock {
+    kind: 'heading' | 'text';
+    text: string;
+    level?: number; // Heading level, 1 being the highest
+    page?: number; // 1-based, for formats with pages
+}
+
+// Prompt Assembly Types
+// Extra material for a single response, kept separate so each part can be budgeted on its own.
+export interface PromptContext {
+  instructions?: string; // One-off instructions (/sys, auto-conversation, character logic)
+  lore?: string; // World info triggered by the recent conversation, placed after the character definition
+  loreBeforeCharacter?: string; // World info placed before the character definition
+  loreAtDepth?: LoreDepthInsertion[]; // World info placed inside the conversation
+  knowledge?: string; // Context retrieved from the character's knowledge base
+  summary?: string; // Rolling summary of messages that are no longer sent verbatim
+  memories?: string; // Long-term memories retrieved for this turn
+  citations?: Citation[]; // The numbered passages in `knowledge`, which replies cite by number
+  persona?: Pick<Persona, 'name' | 'description'>; // The user's persona, for {{user}} and the user section
+}
+
+export interface LoreDepthInsertion {
+  depth: number; // Messages before the end of the conversation
+  content: string;
+}
+
+export type PromptSectionId = 'system' | 'loreBefore' | 'lore' | 'loreDepth' | 'examples' | 'knowledge' | 'memory' | 'summary' | 'history';
+
+export interface PromptSectionReport {
+  id: PromptSectionId;
+  label: string;
+  tokens: number; // Approximate tokens that made it into the prompt
+  originalTokens: number; // Approximate tokens before trimming
+  status: 'full' | 'truncated' | 'dropped';
+}
+
+export interface PromptBuildReport {
+  contextSize: number; // The model's context window in tokens
+  budget: number; // Tokens available for the prompt after reserving room for the reply
+  usedTokens: number;
+  sections: PromptSectionReport[];
+  includedMessageCount: number;
+  droppedMessageCount: number;
+  firstIncludedMessageId?: string; // Oldest message the model can still see
 }
 
 // Type for the new confirmation modal